@@ -101,34 +101,90 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
+// Queue of notification actions taken while no tab was open (drained by the app on load)
+const ACTION_DB = 'yfs-sw-actions';
+const ACTION_STORE = 'actions';
+
+function queueNotificationAction(entry) {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(ACTION_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ACTION_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction(ACTION_STORE, 'readwrite');
+      tx.objectStore(ACTION_STORE).add({ ...entry, queuedAt: Date.now() });
+      tx.oncomplete = () => { db.close(); resolve(); };
+      tx.onerror = () => { db.close(); resolve(); };
+    };
+    request.onerror = () => resolve();
+  });
+}
+
+// Apply an action on the server (works with no tab open): update a call from
+// another user, or move an own reminder's next push to the end of a snooze
+function sendNotificationAction(data, action) {
+  if (!data.actionUrl || !data.actionToken) return Promise.resolve();
+
+  const target = data.kind === 'call'
+    ? { callId: data.callId }
+    : { reminderId: data.reminderId, occurrence: data.occurrence };
+
+  return fetch(data.actionUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, action, token: data.actionToken })
+  }).catch((error) => {
+    console.error('[SW] Failed to send notification action:', error);
+  });
+}
+
 // Handle notification click events
 self.addEventListener('notificationclick', (event) => {
   const notification = event.notification;
-  const action = event.action;
+  const action = event.action || 'default';
+  const data = notification.data || {};
 
   console.log('[SW] Notification clicked:', action);
   notification.close();
 
-  // Open the app and focus it
   event.waitUntil(
     clients.matchAll({ type: 'window', includeUncontrolled: true })
       .then((clientList) => {
-        // Try to focus an existing window
-        for (const client of clientList) {
-          if ('focus' in client) {
-            client.focus();
-            // Send message to handle the action
-            client.postMessage({
-              type: 'NOTIFICATION_ACTION',
-              action: action || 'default',
-              data: notification.data
-            });
+        const client = clientList.find((c) => 'focus' in c);
+        const isDismissal = action === 'snooze' || action === 'decline';
+
+        // Calls from others are updated on the server directly
+        if (isDismissal && data.kind === 'call') {
+          if (client) {
+            client.postMessage({ type: 'NOTIFICATION_ACTION', action, data });
+          }
+          return sendNotificationAction(data, action);
+        }
+
+        // Own reminders live in the app's IndexedDB: hand over to a tab, or queue for the
+        // next launch and tell the server, so a snoozed reminder is pushed again meanwhile
+        if (isDismissal) {
+          if (client) {
+            client.postMessage({ type: 'NOTIFICATION_ACTION', action, data });
             return;
           }
+          return Promise.all([
+            queueNotificationAction({ action, data }),
+            sendNotificationAction(data, action)
+          ]);
+        }
+
+        // Answer (or a tap on the notification body): bring the app up to take the call
+        if (client) {
+          client.focus();
+          client.postMessage({ type: 'NOTIFICATION_ACTION', action: 'answer', data });
+          return;
         }
-        // No window found, open a new one
         if (clients.openWindow) {
-          return clients.openWindow('/');
+          return queueNotificationAction({ action: 'answer', data })
+            .then(() => clients.openWindow(data.url || '/'));
         }
       })
   );
@@ -155,18 +211,26 @@ self.addEventListener('push', (event) => {
     icon: '/icon-192.svg',
     badge: '/favicon.svg',
     tag: data.tag || 'yfs-notification',
+    renotify: true, // Ring again when a snoozed call is pushed with the same tag
     data: data.data || {},
     vibrate: [200, 100, 200, 100, 200, 100, 200],
     requireInteraction: true,
     actions: [
       { action: 'answer', title: 'Answer' },
       { action: 'snooze', title: 'Snooze' },
-      { action: 'dismiss', title: 'Dismiss' }
+      { action: 'decline', title: 'Decline' }
     ]
   };
 
   event.waitUntil(
-    self.registration.showNotification(data.title || 'YFS Reminder', options)
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+      // A visible tab rings the call itself; a notification on top would ring it twice
+      if (clientList.some((client) => client.focused || client.visibilityState === 'visible')) {
+        console.log('[SW] App is visible, skipping notification');
+        return;
+      }
+      return self.registration.showNotification(data.title || 'YFS Reminder', options);
+    })
   );
 });
 
@@ -185,15 +249,151 @@ self.addEventListener('message', (event) => {
   }
 });
 
-// Background sync for offline reminder creation
+// ============================================================================
+// OFFLINE WRITE OUTBOX - replayed via Background Sync (see src/services/outbox.ts)
+// ============================================================================
+const OUTBOX_SYNC_TAG = 'sync-outbox';
+const APP_DB = 'reminder-db';
+const OUTBOX_LEASE_MS = 30 * 1000;
+
+// Open the app's database as-is; never create or upgrade it from here
+function openAppDB() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(APP_DB);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('outbox')) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      resolve(db);
+    };
+    request.onerror = () => resolve(null);
+  });
+}
+
+function idbRequest(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Lock an entry so an open tab doesn't replay it at the same time
+function claimOutboxEntry(db, id) {
+  return new Promise((resolve) => {
+    const tx = db.transaction('outbox', 'readwrite');
+    const store = tx.objectStore('outbox');
+    let claimed = null;
+    store.get(id).onsuccess = (event) => {
+      const entry = event.target.result;
+      const now = Date.now();
+      if (!entry || entry.status !== 'pending' || (entry.lockedUntil || 0) > now || entry.nextAttemptAt > now) return;
+      claimed = { ...entry, lockedUntil: now + OUTBOX_LEASE_MS };
+      store.put(claimed);
+    };
+    tx.oncomplete = () => resolve(claimed);
+    tx.onerror = () => resolve(null);
+  });
+}
+
+function putOutboxEntry(db, entry) {
+  return idbRequest(db.transaction('outbox', 'readwrite').objectStore('outbox').put(entry));
+}
+
+function deleteOutboxEntry(db, id) {
+  return idbRequest(db.transaction('outbox', 'readwrite').objectStore('outbox').delete(id));
+}
+
+// The PostgREST request supabase-js would make for an outbox entry
+function outboxRequest(credentials, entry) {
+  const url = new URL(`${credentials.url}/rest/v1/${entry.table}`);
+  const headers = {
+    apikey: credentials.anonKey,
+    Authorization: `Bearer ${credentials.accessToken}`,
+    'Content-Type': 'application/json',
+    Prefer: 'return=minimal'
+  };
+
+  for (const [column, value] of Object.entries(entry.match || {})) {
+    url.searchParams.append(column, value === null ? 'is.null' : `eq.${value}`);
+  }
+
+  switch (entry.op) {
+    case 'insert':
+      return fetch(url, { method: 'POST', headers, body: JSON.stringify(entry.values || {}) });
+    case 'upsert':
+      if (entry.onConflict) url.searchParams.set('on_conflict', entry.onConflict);
+      headers.Prefer += `,resolution=${entry.ignoreDuplicates ? 'ignore' : 'merge'}-duplicates`;
+      return fetch(url, { method: 'POST', headers, body: JSON.stringify(entry.values || {}) });
+    case 'update':
+      return fetch(url, { method: 'PATCH', headers, body: JSON.stringify(entry.values || {}) });
+    case 'delete':
+      return fetch(url, { method: 'DELETE', headers });
+  }
+  return Promise.reject(new Error(`Unknown outbox operation: ${entry.op}`));
+}
+
+async function replayOutbox() {
+  // An open tab replays with its live session
+  const clientList = await clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (clientList.length > 0) {
+    clientList.forEach((client) => client.postMessage({ type: 'OUTBOX_FLUSH' }));
+    return;
+  }
+
+  const db = await openAppDB();
+  if (!db) return;
+
+  try {
+    const credentials = await idbRequest(db.transaction('outboxCredentials').objectStore('outboxCredentials').get('session'));
+    // Expired session: leave the queue for the app, which refreshes the token on launch
+    if (!credentials || credentials.expiresAt <= Date.now()) return;
+
+    const entries = await idbRequest(db.transaction('outbox').objectStore('outbox').getAll());
+    for (const queued of entries) {
+      if (queued.status !== 'pending') continue;
+
+      const entry = await claimOutboxEntry(db, queued.id);
+      if (!entry) return; // Locked or backing off - keep the order
+
+      let status = 0;
+      try {
+        const response = await outboxRequest(credentials, entry);
+        status = response.status;
+        // 409 on an insert: an earlier attempt landed (inserts carry client ids)
+        if (response.ok || (entry.op === 'insert' && status === 409)) {
+          await deleteOutboxEntry(db, entry.id);
+          continue;
+        }
+      } catch (error) {
+        console.warn('[SW] Outbox replay failed:', error);
+      }
+
+      const transient = status === 0 || status === 401 || status === 408 || status === 429 || status >= 500;
+      await putOutboxEntry(db, {
+        ...entry,
+        attempts: entry.attempts + 1,
+        lockedUntil: undefined,
+        status: transient ? 'pending' : 'failed',
+        lastError: status ? `HTTP ${status}` : 'Network error'
+      });
+
+      // Rejecting makes the browser retry the sync later with its own backoff
+      if (transient) throw new Error('Outbox replay incomplete');
+    }
+  } finally {
+    db.close();
+  }
+}
+
 self.addEventListener('sync', (event) => {
   console.log('[SW] Sync event:', event.tag);
 
-  if (event.tag === 'sync-reminders') {
-    event.waitUntil(
-      // In a full implementation, this would sync with a backend
-      Promise.resolve()
-    );
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
   }
 });
 
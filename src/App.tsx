@@ -3,15 +3,22 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { Plus, Clock, Settings } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useReminderScheduler } from './hooks/useReminderScheduler';
-import { useCallManager } from './hooks/useCallManager';
+import { useCallManager, CallReminder } from './hooks/useCallManager';
 import { useRecallChecker } from './hooks/useRecallChecker';
+import { useCallPrefetch } from './hooks/useCallPrefetch';
+import { useTabLeader } from './hooks/useTabLeader';
 import { useIncomingCalls } from './hooks/useIncomingCalls';
 import { useSupabaseReminderScheduler } from './hooks/useSupabaseReminderScheduler';
 import { useReminderSync } from './hooks/useReminderSync';
-import { getAllReminders, updateReminder, initDB, addCompletionPrompt, updateCompletionPrompt, getAllCompletionPrompts } from './db/reminderDB';
-import { Reminder, computeNextTrigger, updateStreakOnCompletion } from './utils/reminderScheduler';
+import { usePushNotifications } from './hooks/usePushNotifications';
+import { useAuth } from './contexts/AuthContext';
+import { getAllReminders, getNextScheduledReminder, getDueReminders, logDueOccurrences, onRemindersChanged, updateReminder, initDB, addCompletionPrompt, updateCompletionPrompt, getOccurrence, getReminder } from './db/reminderDB';
+import { Reminder, computeNextTrigger } from './utils/reminderScheduler';
+import { completionOccurrence } from './utils/streaks';
+import { getRingStyle } from './utils/escalationPolicy';
 import { showCallNotification, stopAllNotifications, requestNotificationPermission } from './utils/notificationUtils';
 import logger from './utils/logger';
+import { recordGroupCheckIn } from './services/groupReminders';
 import ReminderList from './components/ReminderList';
 import CreateReminderModal from './components/CreateReminderModal';
 import EditReminderModal from './components/EditReminderModal';
@@ -72,9 +79,10 @@ function App() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showCompletionPrompt, setShowCompletionPrompt] = useState(false);
   const [completionPromptData, setCompletionPromptData] = useState<{ reminder: Reminder; callHistoryId: string } | null>(null);
+  const { user } = useAuth();
 
   // Call manager for phone simulation
-  const { callState, currentReminder, isAISpeaking, missedCalls, currentCallHistory, answerCall, declineCall, hangupCall } = useCallManager();
+  const { callState, currentReminder, isAISpeaking, missedCalls, currentCallHistory, isMirroredCall, isConversational, answerCall, declineCall, hangupCall, respondToCaller } = useCallManager();
 
   // Incoming calls from other users (via Supabase real-time)
   const { incomingCall, pendingCalls, answerIncomingCall, declineIncomingCall } = useIncomingCalls();
@@ -118,20 +126,32 @@ function App() {
     initApp();
   }, []);
 
+  // Only one tab schedules; the others mirror its calls
+  const isSchedulingTab = useTabLeader();
+
   // Start the reminder scheduler
   useReminderScheduler({
+    getNextReminder: getNextScheduledReminder,
+    getDueReminders,
     getAllReminders,
     updateReminder,
-    checkInterval: 5000,
-    enabled: true,
+    logDueOccurrences,
+    onRemindersChanged,
+    enabled: isSchedulingTab,
   });
 
   // Start the recall checker
-  useRecallChecker();
+  useRecallChecker(isSchedulingTab);
+
+  // Prepare call scripts and speech shortly before reminders ring
+  useCallPrefetch(isSchedulingTab);
 
   // Start the Supabase reminder scheduler (for reminders sent to others)
   useSupabaseReminderScheduler();
 
+  // Web Push subscription and notification actions (for when the app is closed)
+  usePushNotifications();
+
   // Two-way sync with Supabase - refresh UI when data synced from cloud
   const handleSyncComplete = () => {
     setRefreshTrigger(prev => prev + 1);
@@ -151,7 +171,8 @@ function App() {
   useEffect(() => {
     const checkForCompletionPrompt = async () => {
       // If call just ended and was answered, show completion prompt
-      if (callState === 'idle' && currentCallHistory && currentCallHistory.answered && currentReminder) {
+      // Calls where the user already said done or skip by voice don't need asking again
+      if (callState === 'idle' && currentCallHistory && currentCallHistory.answered && !currentCallHistory.outcome && currentReminder) {
         // Store data for the prompt
         setCompletionPromptData({
           reminder: currentReminder,
@@ -179,6 +200,14 @@ function App() {
     checkForCompletionPrompt();
   }, [callState, currentCallHistory, currentReminder]);
 
+  // Answers to a group call also go on the group's check-in board
+  const recordGroupAnswer = (reminder: CallReminder, completed: boolean) => {
+    const occurrence = reminder.groupOccurrence;
+    if (user && occurrence) {
+      recordGroupCheckIn(occurrence, user.id, completed);
+    }
+  };
+
   const handleCompletionComplete = async () => {
     if (completionPromptData) {
       const promptId = `${completionPromptData.callHistoryId}-prompt`;
@@ -186,6 +215,7 @@ function App() {
         respondedAt: Date.now(),
         completed: true,
       });
+      recordGroupAnswer(completionPromptData.reminder, true);
       setShowCompletionPrompt(false);
       setCompletionPromptData(null);
       setRefreshTrigger(prev => prev + 1); // Refresh insights
@@ -199,6 +229,7 @@ function App() {
         respondedAt: Date.now(),
         completed: false,
       });
+      recordGroupAnswer(completionPromptData.reminder, false);
       setShowCompletionPrompt(false);
       setCompletionPromptData(null);
       setRefreshTrigger(prev => prev + 1);
@@ -221,24 +252,15 @@ function App() {
     try {
       logger.log('Check-in started for:', reminder.title);
 
-      // Check if already checked in for this reminder today
-      const allPrompts = await getAllCompletionPrompts();
+      // The occurrence this check-in is for (today's, or one still within its grace period)
+      const occurrenceAt = completionOccurrence(reminder);
 
-      // Get today's start time (midnight)
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
-      const todayStartMs = todayStart.getTime();
+      // Check if that occurrence is already done
+      const existingOccurrence = await getOccurrence(reminder.id, occurrenceAt);
 
-      // Check if there's already a check-in for this reminder today
-      const existingCheckIn = allPrompts.find(p =>
-        p.reminderId === reminder.id &&
-        p.completed === true &&
-        p.promptedAt >= todayStartMs
-      );
-
-      if (existingCheckIn) {
-        alert('Already Checked In!\n\nYou have already checked in for this reminder today.');
-        logger.log('Already checked in today');
+      if (existingOccurrence?.completed) {
+        alert('Already Checked In!\n\nYou have already checked in for this reminder.');
+        logger.log('Already checked in for this occurrence');
         return;
       }
 
@@ -250,6 +272,7 @@ function App() {
         reminderTitle: reminder.title,
         reminderWhy: reminder.why || '',
         callHistoryId: '', // No call history for manual check-in
+        occurrenceAt,
         promptedAt: Date.now(),
         completed: true, // Manually marked as complete
       });
@@ -261,25 +284,21 @@ function App() {
       });
       logger.log('Completion prompt updated');
 
-      // Update streak for the reminder
-      let updatedReminder = updateStreakOnCompletion(reminder);
+      // The streak was updated from the check-in
+      const updatedReminder = await getReminder(reminder.id) ?? reminder;
       logger.log('Streak updated:', updatedReminder.streak);
 
       // If reminder was paused, reactivate it and set next trigger
       if (!reminder.active && reminder.repeat !== 'once') {
         logger.log('Reactivating paused reminder...');
-        updatedReminder = {
+        await updateReminder({
           ...updatedReminder,
           active: true,
           nextTrigger: computeNextTrigger({ ...updatedReminder, active: true }),
-        };
+        });
         logger.log('Reminder reactivated');
       }
 
-      // Save the updated reminder with streak
-      await updateReminder(updatedReminder);
-      logger.log('Reminder updated with streak');
-
       setRefreshTrigger(prev => prev + 1); // Refresh insights and reminders
       logger.log('Check-in successful!');
 
@@ -301,7 +320,7 @@ function App() {
 
   // Handle panic button - trigger immediate motivational call
   const handlePanic = () => {
-    // Load panic audio from settings
+    // Load panic audio and library messages from settings
     let settings = null;
     try {
       const savedSettings = localStorage.getItem('aiReminderSettings');
@@ -309,7 +328,7 @@ function App() {
     } catch {
       // Use default settings if parse fails
     }
-    const panicAudio = settings?.panicAudio;
+    const panicAudioAssetId = settings?.panicAudioAssetId;
 
     // Create a special panic reminder
     const panicReminder: Reminder = {
@@ -321,18 +340,21 @@ function App() {
       nextTrigger: Date.now(),
       active: true,
       createdAt: Date.now(),
-      audioRecording: panicAudio,
-      useCustomAudio: !!panicAudio,
+      audioAssetId: panicAudioAssetId,
+      useCustomAudio: !!panicAudioAssetId,
+      messageIds: settings?.panicMessageIds,
+      messageRotation: settings?.panicMessageRotation,
     };
 
-    // Trigger the reminder event immediately
-    window.dispatchEvent(new CustomEvent('reminderTriggered', { detail: panicReminder }));
+    // Trigger the reminder event immediately; the caller's words come from the panic script
+    const detail: CallReminder = { ...panicReminder, scriptKind: 'panic' };
+    window.dispatchEvent(new CustomEvent('reminderTriggered', { detail }));
   };
 
   // Handle incoming calls with new notification system
   useEffect(() => {
-    if (callState === 'incoming' && currentReminder) {
-      // Show call notification with ringtone
+    if (callState === 'incoming' && currentReminder && !isMirroredCall) {
+      // Show call notification with ringtone (only in the tab the call rang in)
       showCallNotification(
         'Your Future Self',
         `${currentReminder.title}${currentReminder.why ? ` - ${currentReminder.why}` : ''}`
@@ -346,7 +368,7 @@ function App() {
       // Ensure all notifications are cleared when call ends
       stopAllNotifications();
     }
-  }, [callState, currentReminder]);
+  }, [callState, currentReminder, isMirroredCall]);
 
   // Handle page visibility changes to manage notifications
   useEffect(() => {
@@ -380,18 +402,25 @@ function App() {
         active: false,
         createdAt: Date.now(),
         audioRecording: callData.audio_recording || undefined,
+        audioAssetId: callData.audio_asset_id || undefined,
         useCustomAudio: callData.use_custom_audio || false,
       };
 
+      const groupOccurrence: CallReminder['groupOccurrence'] = callData.group_reminder_id
+        ? { groupReminderId: callData.group_reminder_id, occurrenceAt: callData.triggered_at }
+        : undefined;
+
       // Dispatch as a reminder event so call manager handles it
-      window.dispatchEvent(new CustomEvent('reminderTriggered', {
-        detail: {
-          ...virtualReminder,
-          isFromOther: true,
-          senderName: callData.sender_name,
-          senderEmail: callData.sender_email,
-        }
-      }));
+      const detail: CallReminder = {
+        ...virtualReminder,
+        scriptText: callData.message_text || undefined,
+        isFromOther: true,
+        isMotivation: callData.call_type === 'motivation',
+        senderName: callData.sender_name || undefined,
+        senderEmail: callData.sender_email || undefined,
+        groupOccurrence,
+      };
+      window.dispatchEvent(new CustomEvent('reminderTriggered', { detail }));
     }
   };
 
@@ -415,6 +444,8 @@ function App() {
         isSyncing={isSyncing}
         onSyncClick={manualSync}
         lastSyncAt={syncStatus.lastSyncAt}
+        pendingWrites={syncStatus.pendingWrites}
+        failedWrites={syncStatus.failedWrites}
       />
 
       {/* Panic Button - Always visible for emergency support */}
@@ -579,12 +610,14 @@ function App() {
         <IncomingCallModal
           reminderTitle={currentReminder.title}
           reminderWhy={currentReminder.why}
-          recallAttempt={(currentReminder as any).recallAttempt}
+          recallAttempt={currentReminder.recallAttempt}
+          ringStyle={getRingStyle(currentReminder.escalationPolicy, currentReminder.recallAttempt ?? 1)}
           onAnswer={answerCall}
           onDecline={declineCall}
-          isFromOther={(currentReminder as any).isFromOther}
-          senderName={(currentReminder as any).senderName}
-          senderEmail={(currentReminder as any).senderEmail}
+          isFromOther={currentReminder.isFromOther}
+          isMotivation={currentReminder.isMotivation}
+          senderName={currentReminder.senderName}
+          senderEmail={currentReminder.senderEmail}
         />
       )}
 
@@ -596,6 +629,7 @@ function App() {
           onAnswer={handleAnswerExternalCall}
           onDecline={handleDeclineExternalCall}
           isFromOther={true}
+          isMotivation={incomingCall.call_type === 'motivation'}
           senderName={incomingCall.sender_name || undefined}
           senderEmail={incomingCall.sender_email || undefined}
         />
@@ -607,6 +641,9 @@ function App() {
           reminderTitle={currentReminder.title}
           isAISpeaking={isAISpeaking}
           onHangup={hangupCall}
+          conversational={isConversational}
+          transcript={currentCallHistory?.transcript || []}
+          onUserSpeech={respondToCaller}
         />
       )}
 
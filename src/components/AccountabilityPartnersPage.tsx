@@ -1,9 +1,19 @@
 import { useState, useEffect } from 'react';
-import { UserCheck, Plus, X, Bell, BellOff, Phone, Trash2, Star, Send } from 'lucide-react';
+import { UserCheck, Plus, X, Bell, BellOff, Phone, Trash2, Star, Send, Inbox, PhoneMissed, Flame, Check } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import UserSearch from './UserSearch';
+import MotivationCallModal from './MotivationCallModal';
 import { UserProfile, addContact } from '../services/supabaseSync';
+import { runMutation } from '../services/outbox';
+import {
+  PartnerNotification,
+  deletePartnerNotification,
+  getPartnerNotifications,
+  markAllPartnerNotificationsRead,
+  markPartnerNotificationRead,
+  subscribeToPartnerNotifications,
+} from '../services/partnerNotifications';
 
 interface AccountabilityPartner {
   id: string;
@@ -36,6 +46,9 @@ export default function AccountabilityPartnersPage() {
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [sendingRequest, setSendingRequest] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notifications, setNotifications] = useState<PartnerNotification[]>([]);
+  const [callingPartner, setCallingPartner] = useState<AccountabilityPartner | null>(null);
+  const [callSentTo, setCallSentTo] = useState<string | null>(null);
 
   useEffect(() => {
     if (user && isSupabaseConfigured) {
@@ -46,6 +59,38 @@ export default function AccountabilityPartnersPage() {
     }
   }, [user]);
 
+  // Inbox: load, then refresh whenever a notification arrives or changes
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured) return;
+
+    const fetchNotifications = () => {
+      getPartnerNotifications(user.id).then(setNotifications);
+    };
+
+    fetchNotifications();
+    const unsubscribe = subscribeToPartnerNotifications(user.id, fetchNotifications);
+    return () => unsubscribe?.();
+  }, [user]);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  const markRead = async (notification: PartnerNotification) => {
+    if (notification.read) return;
+    setNotifications((prev) => prev.map((n) => (n.id === notification.id ? { ...n, read: true } : n)));
+    await markPartnerNotificationRead(notification.id);
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    await markAllPartnerNotificationsRead(user.id);
+  };
+
+  const dismissNotification = async (notification: PartnerNotification) => {
+    setNotifications((prev) => prev.filter((n) => n.id !== notification.id));
+    await deletePartnerNotification(notification.id);
+  };
+
   const fetchPartners = async () => {
     if (!user) return;
 
@@ -103,17 +148,22 @@ export default function AccountabilityPartnersPage() {
     try {
       const senderName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'Someone';
 
-      const { error } = await supabase.from('accountability_partners').insert({
-        user_id: user.id,
-        partner_id: selectedUser.id,
-        partner_email: selectedUser.email,
-        partner_name: selectedUser.full_name || selectedUser.email?.split('@')[0],
-        nickname: null,
-        status: 'pending',
-        notify_on_missed: true,
-        can_send_motivation: true,
-        requester_name: senderName,
-        requester_email: user.email,
+      const { error } = await runMutation({
+        table: 'accountability_partners',
+        op: 'insert',
+        values: {
+          user_id: user.id,
+          partner_id: selectedUser.id,
+          partner_email: selectedUser.email,
+          partner_name: selectedUser.full_name || selectedUser.email?.split('@')[0],
+          nickname: null,
+          status: 'pending',
+          notify_on_missed: true,
+          can_send_motivation: true,
+          requester_name: senderName,
+          requester_email: user.email,
+        },
+        label: `Partner request to ${selectedUser.email}`,
       });
 
       if (error) throw error;
@@ -139,10 +189,13 @@ export default function AccountabilityPartnersPage() {
 
   const respondToRequest = async (requestId: string, accept: boolean) => {
     try {
-      const { error } = await supabase
-        .from('accountability_partners')
-        .update({ status: accept ? 'accepted' : 'declined' })
-        .eq('id', requestId);
+      const { error } = await runMutation({
+        table: 'accountability_partners',
+        op: 'update',
+        values: { status: accept ? 'accepted' : 'declined' },
+        match: { id: requestId },
+        label: accept ? 'Accept partner request' : 'Decline partner request',
+      });
 
       if (error) throw error;
 
@@ -157,10 +210,12 @@ export default function AccountabilityPartnersPage() {
     if (!confirm('Are you sure you want to remove this accountability partner?')) return;
 
     try {
-      const { error } = await supabase
-        .from('accountability_partners')
-        .delete()
-        .eq('id', partnerId);
+      const { error } = await runMutation({
+        table: 'accountability_partners',
+        op: 'delete',
+        match: { id: partnerId },
+        label: 'Remove partner',
+      });
 
       if (error) throw error;
       fetchPartners();
@@ -171,10 +226,13 @@ export default function AccountabilityPartnersPage() {
 
   const toggleNotification = async (partner: AccountabilityPartner) => {
     try {
-      const { error } = await supabase
-        .from('accountability_partners')
-        .update({ notify_on_missed: !partner.notify_on_missed })
-        .eq('id', partner.id);
+      const { error } = await runMutation({
+        table: 'accountability_partners',
+        op: 'update',
+        values: { notify_on_missed: !partner.notify_on_missed },
+        match: { id: partner.id },
+        label: 'Change missed-call alerts',
+      });
 
       if (error) throw error;
       fetchPartners();
@@ -183,10 +241,12 @@ export default function AccountabilityPartnersPage() {
     }
   };
 
-  const sendMotivationalCall = async (partner: AccountabilityPartner) => {
-    // This will trigger a call to the partner with a motivational message
-    alert(`Motivational call feature coming soon! This will send an encouraging call to ${partner.partner_name || partner.partner_email}`);
-  };
+  const getDisplayName = (partner: AccountabilityPartner) =>
+    partner.nickname || partner.partner_name || partner.partner_email;
+
+  // Either side of a partnership can call the other
+  const getOtherUserId = (partner: AccountabilityPartner) =>
+    partner.user_id === user?.id ? partner.partner_id : partner.user_id;
 
   if (!isSupabaseConfigured) {
     return (
@@ -239,11 +299,11 @@ export default function AccountabilityPartnersPage() {
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-green-800">
           <div className="flex items-start gap-2">
             <Bell className="w-5 h-5 flex-shrink-0 mt-0.5" />
-            <p><strong>Missed Reminder Alerts:</strong> Partners get notified when you miss a reminder</p>
+            <p><strong>Missed Reminder Alerts:</strong> Partners get notified when you miss a reminder you share with them</p>
           </div>
           <div className="flex items-start gap-2">
             <Phone className="w-5 h-5 flex-shrink-0 mt-0.5" />
-            <p><strong>Motivational Calls:</strong> Partners can send you encouraging reminder calls</p>
+            <p><strong>Motivational Calls:</strong> Partners can call you with encouragement, outside your quiet hours</p>
           </div>
           <div className="flex items-start gap-2">
             <Star className="w-5 h-5 flex-shrink-0 mt-0.5" />
@@ -252,6 +312,15 @@ export default function AccountabilityPartnersPage() {
         </div>
       </div>
 
+      {callSentTo && (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-xl text-green-800 text-sm flex items-center justify-between">
+          <span>Calling {callSentTo} now</span>
+          <button onClick={() => setCallSentTo(null)} className="p-1 rounded hover:bg-green-100" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Pending Requests */}
       {pendingRequests.length > 0 && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
@@ -294,6 +363,68 @@ export default function AccountabilityPartnersPage() {
         </div>
       )}
 
+      {/* Notifications Inbox */}
+      {notifications.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Inbox className="w-5 h-5 text-gray-500" />
+              Notifications
+              {unreadCount > 0 && (
+                <span className="px-2 py-0.5 rounded-full bg-green-600 text-white text-xs font-medium">
+                  {unreadCount}
+                </span>
+              )}
+            </h2>
+            {unreadCount > 0 && (
+              <button
+                onClick={markAllRead}
+                className="flex items-center gap-1 text-sm font-medium text-green-700 hover:text-green-800"
+              >
+                <Check className="w-4 h-4" />
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = notification.notification_type === 'missed_reminder'
+                ? PhoneMissed
+                : notification.notification_type === 'motivation_call' ? Phone : Flame;
+
+              return (
+                <div
+                  key={notification.id}
+                  onClick={() => markRead(notification)}
+                  className={`p-4 flex items-start gap-3 cursor-pointer ${notification.read ? '' : 'bg-green-50'}`}
+                >
+                  <Icon className={`w-5 h-5 flex-shrink-0 mt-0.5 ${notification.read ? 'text-gray-400' : 'text-green-600'}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.read ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                      {notification.from_name}
+                      {notification.message ? `: ${notification.message}` : ''}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(notification.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      dismissNotification(notification);
+                    }}
+                    className="p-1 rounded hover:bg-gray-100"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4 text-gray-400" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Partners List */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-100">
@@ -324,7 +455,7 @@ export default function AccountabilityPartnersPage() {
         ) : (
           <div className="divide-y divide-gray-100">
             {partners.map((partner) => {
-              const displayName = partner.nickname || partner.partner_name || partner.partner_email;
+              const displayName = getDisplayName(partner);
 
               return (
                 <div key={partner.id} className="p-4">
@@ -362,9 +493,12 @@ export default function AccountabilityPartnersPage() {
                       {/* Send Motivation */}
                       {partner.can_send_motivation && (
                         <button
-                          onClick={() => sendMotivationalCall(partner)}
+                          onClick={() => {
+                            setCallSentTo(null);
+                            setCallingPartner(partner);
+                          }}
                           className="p-2 rounded-lg bg-indigo-100 text-indigo-600 hover:bg-indigo-200 transition-colors"
-                          title="Send motivational call"
+                          title="Call them now"
                         >
                           <Phone className="w-5 h-5" />
                         </button>
@@ -387,6 +521,20 @@ export default function AccountabilityPartnersPage() {
         )}
       </div>
 
+      {/* Motivation Call Modal */}
+      {callingPartner && (
+        <MotivationCallModal
+          partnershipId={callingPartner.id}
+          partnerId={getOtherUserId(callingPartner)}
+          partnerName={getDisplayName(callingPartner)}
+          onClose={() => setCallingPartner(null)}
+          onSent={() => {
+            setCallSentTo(getDisplayName(callingPartner));
+            setCallingPartner(null);
+          }}
+        />
+      )}
+
       {/* Add Partner Modal */}
       {showAddPartner && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1,21 +1,44 @@
 import { PhoneOff, Volume2, Mic, MicOff, Waves } from 'lucide-react';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { CallTranscriptLine } from '../db/reminderDB';
+import { createRecognizer, type RecognizerType } from '../utils/speechRecognition';
 
 interface ActiveCallModalProps {
   reminderTitle: string;
   isAISpeaking: boolean;
   onHangup: () => void;
+  conversational?: boolean; // Listen for the user's answers between turns
+  transcript?: CallTranscriptLine[];
+  onUserSpeech?: (heard: string | null) => Promise<boolean>; // Resolves with whether to keep listening
+}
+
+function getRecognizerType(): RecognizerType {
+  try {
+    const settings = JSON.parse(localStorage.getItem('aiReminderSettings') || '{}');
+    return settings.speechRecognizer || 'browser';
+  } catch {
+    return 'browser';
+  }
 }
 
 export default function ActiveCallModal({
   reminderTitle,
   isAISpeaking,
   onHangup,
+  conversational = false,
+  transcript = [],
+  onUserSpeech,
 }: ActiveCallModalProps) {
   const [callDuration, setCallDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [isSpeaker, setIsSpeaker] = useState(true);
+  const [isListening, setIsListening] = useState(false);
+  const [listenTurn, setListenTurn] = useState(0);
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  // A turn is in progress: listening, or waiting for the reply to be handled
+  const turnInProgressRef = useRef(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -25,6 +48,53 @@ export default function ActiveCallModal({
     return () => clearInterval(interval);
   }, []);
 
+  // Conversation loop: once the caller stops speaking, listen for the user's
+  // answer, hand it over, and listen again unless the call is over.
+  // Muting pauses listening.
+  useEffect(() => {
+    if (!conversational || !onUserSpeech || isAISpeaking || isMuted || turnInProgressRef.current) return;
+
+    const recognizer = createRecognizer(getRecognizerType());
+    if (!recognizer) return;
+
+    let cancelled = false;
+    turnInProgressRef.current = true;
+    setIsListening(true);
+
+    recognizer.listen()
+      .catch((error: Error) => {
+        console.warn('[ActiveCall] Listening failed:', error);
+        setSpeechError(error.message);
+        return null;
+      })
+      .then(async (heard) => {
+        setIsListening(false);
+
+        // Muted or closed mid-turn - drop what was heard
+        if (cancelled) {
+          turnInProgressRef.current = false;
+          setListenTurn(turn => turn + 1);
+          return;
+        }
+
+        if (heard) setSpeechError(null);
+        const keepListening = await onUserSpeech(heard);
+        turnInProgressRef.current = false;
+        if (keepListening) {
+          setListenTurn(turn => turn + 1);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      recognizer.abort();
+    };
+  }, [conversational, isAISpeaking, isMuted, listenTurn]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [transcript.length]);
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -189,6 +259,24 @@ export default function ActiveCallModal({
               ))}
             </div>
           )}
+
+          {/* Conversation transcript */}
+          {conversational && transcript.length > 0 && (
+            <div className="mt-4 max-h-40 overflow-y-auto space-y-2 text-sm">
+              {transcript.map((line, i) => (
+                <div key={i} className={`flex ${line.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <p className={`px-3 py-2 rounded-2xl max-w-[85%] break-words ${
+                    line.speaker === 'user'
+                      ? 'bg-emerald-500/30 text-white'
+                      : 'bg-white/10 text-gray-200'
+                  }`}>
+                    {line.text}
+                  </p>
+                </div>
+              ))}
+              <div ref={transcriptEndRef} />
+            </div>
+          )}
         </motion.div>
 
         {/* Call Controls */}
@@ -268,6 +356,23 @@ export default function ActiveCallModal({
             Your future self is speaking...
           </motion.p>
         )}
+
+        {/* Listening indicator */}
+        {conversational && !isAISpeaking && (
+          <motion.p
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className={`text-center text-sm ${isMuted || speechError ? 'text-gray-400' : 'text-cyan-300'}`}
+          >
+            {isMuted
+              ? 'Muted - unmute to talk back'
+              : speechError
+                ? "Couldn't hear you - check microphone access"
+                : isListening
+                  ? 'Listening... say "done", "snooze 10 minutes", "skip today" or "why?"'
+                  : 'One moment...'}
+          </motion.p>
+        )}
       </motion.div>
     </motion.div>
   );
@@ -0,0 +1,414 @@
+import { useState, useRef, useEffect } from 'react';
+import { Play, Square, Scissors, Crop, Mic, Undo2, Wand2, Check, X, AlertCircle, Loader2 } from 'lucide-react';
+import {
+  DEFAULT_NOISE_GATE_DB,
+  decodeAudio,
+  encodeRecording,
+  findSpeechBounds,
+  getWaveformPeaks,
+  renderRecording,
+  replaceSegment,
+  trimAudio,
+} from '../utils/audioProcessing';
+
+interface AudioEditorProps {
+  source: Blob;
+  onSave: (audio: Blob, durationMs: number) => void;
+  onCancel: () => void;
+}
+
+type EditorStatus = 'loading' | 'ready' | 'recording' | 'saving';
+
+const WAVEFORM_BINS = 160;
+const MIN_SELECTION_SEC = 0.05;
+
+export default function AudioEditor({ source, onSave, onCancel }: AudioEditorProps) {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [history, setHistory] = useState<AudioBuffer[]>([]);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [normalize, setNormalize] = useState(true);
+  const [gateEnabled, setGateEnabled] = useState(false);
+  const [gateDb, setGateDb] = useState(DEFAULT_NOISE_GATE_DB);
+  const [status, setStatus] = useState<EditorStatus>('loading');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const playbackRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode } | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const duration = buffer?.duration ?? 0;
+  const busy = status !== 'ready';
+
+  // Decode the take
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    decodeAudio(source)
+      .then(decoded => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setHistory([]);
+        setSelection({ start: 0, end: decoded.duration });
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.error('Error decoding recording:', err);
+        if (!cancelled) setError('This recording could not be opened for editing.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  // Draw the waveform
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !buffer) return;
+
+    const peaks = getWaveformPeaks(buffer, WAVEFORM_BINS);
+    const loudest = Math.max(...peaks, 0.01);
+    const barWidth = canvas.width / WAVEFORM_BINS;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    peaks.forEach((peak, bin) => {
+      const time = (bin / WAVEFORM_BINS) * buffer.duration;
+      const selected = time >= selection.start && time < selection.end;
+      const height = Math.max(1, (peak / loudest) * canvas.height * 0.9);
+      context.fillStyle = selected ? '#4f46e5' : '#c7d2fe';
+      context.fillRect(bin * barWidth, (canvas.height - height) / 2, Math.max(1, barWidth - 1), height);
+    });
+  }, [buffer, selection]);
+
+  // Stop playback and recording when closed
+  useEffect(() => {
+    return () => {
+      stopPlayback();
+      recorderRef.current?.stop();
+    };
+  }, []);
+
+  const stopPlayback = () => {
+    const playback = playbackRef.current;
+    if (playback) {
+      playback.source.onended = null;
+      playback.source.stop();
+      playback.context.close();
+      playbackRef.current = null;
+    }
+    setIsPlaying(false);
+  };
+
+  const play = async (audio: AudioBuffer) => {
+    stopPlayback();
+    const context = new AudioContext();
+    const sourceNode = context.createBufferSource();
+    sourceNode.buffer = audio;
+    sourceNode.connect(context.destination);
+    sourceNode.onended = stopPlayback;
+    playbackRef.current = { context, source: sourceNode };
+    sourceNode.start();
+    setIsPlaying(true);
+  };
+
+  const getRenderOptions = () => ({
+    normalize,
+    noiseGateDb: gateEnabled ? gateDb : undefined,
+  });
+
+  const applyEdit = (edited: AudioBuffer) => {
+    if (!buffer) return;
+    stopPlayback();
+    setHistory(prev => [...prev, buffer]);
+    setBuffer(edited);
+    setSelection({ start: 0, end: edited.duration });
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    stopPlayback();
+    setHistory(prev => prev.slice(0, -1));
+    setBuffer(previous);
+    setSelection({ start: 0, end: previous.duration });
+  };
+
+  const handleAutoTrim = () => {
+    if (!buffer) return;
+    setSelection(findSpeechBounds(buffer, gateEnabled ? gateDb : DEFAULT_NOISE_GATE_DB));
+  };
+
+  const handleKeepSelection = () => {
+    if (!buffer) return;
+    applyEdit(trimAudio(buffer, selection.start, selection.end));
+  };
+
+  const handleCutSelection = async () => {
+    if (!buffer || selection.end - selection.start >= duration) return;
+    applyEdit(await replaceSegment(buffer, selection.start, selection.end));
+  };
+
+  const handlePreview = async () => {
+    if (!buffer) return;
+    if (isPlaying) {
+      stopPlayback();
+      return;
+    }
+    setError(null);
+    try {
+      const selected = trimAudio(buffer, selection.start, selection.end);
+      await play(await renderRecording(selected, getRenderOptions()));
+    } catch (err) {
+      console.error('Preview failed:', err);
+      setError('Failed to play preview.');
+    }
+  };
+
+  // Record a new take of the selected part and splice it in
+  const handleRerecord = async () => {
+    if (status === 'recording') {
+      recorderRef.current?.stop();
+      return;
+    }
+    if (!buffer) return;
+
+    setError(null);
+    stopPlayback();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+      const { start, end } = selection;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        recorderRef.current = null;
+        try {
+          const take = await decodeAudio(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+          applyEdit(await replaceSegment(buffer, start, end, take));
+        } catch (err) {
+          console.error('Error splicing new take:', err);
+          setError('Failed to use the new recording. Please try again.');
+        }
+        setStatus('ready');
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setStatus('recording');
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      setError('Failed to access microphone. Please grant permission and try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!buffer) return;
+    stopPlayback();
+    setError(null);
+    setStatus('saving');
+    try {
+      const rendered = await renderRecording(buffer, getRenderOptions());
+      const encoded = await encodeRecording(rendered);
+      onSave(encoded, Math.round(rendered.duration * 1000));
+    } catch (err) {
+      console.error('Error saving edited recording:', err);
+      setError('Failed to save recording. Please try again.');
+      setStatus('ready');
+    }
+  };
+
+  const setSelectionStart = (value: number) => {
+    setSelection(prev => ({ ...prev, start: Math.min(value, prev.end - MIN_SELECTION_SEC) }));
+  };
+
+  const setSelectionEnd = (value: number) => {
+    setSelection(prev => ({ ...prev, end: Math.max(value, prev.start + MIN_SELECTION_SEC) }));
+  };
+
+  const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-indigo-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-900">Edit recording</p>
+        <p className="text-xs text-gray-500">
+          {formatSeconds(selection.start)} – {formatSeconds(selection.end)} of {formatSeconds(duration)}
+        </p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Waveform & selection */}
+      <div className="relative bg-indigo-50 rounded-lg overflow-hidden">
+        <canvas ref={canvasRef} width={640} height={96} className="w-full h-24 block" />
+        {status === 'loading' && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
+          </div>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          Start
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={selection.start}
+            onChange={(e) => setSelectionStart(parseFloat(e.target.value))}
+            disabled={busy}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          End
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={selection.end}
+            onChange={(e) => setSelectionEnd(parseFloat(e.target.value))}
+            disabled={busy}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+      </div>
+
+      {/* Edits */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleAutoTrim}
+          disabled={busy}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+          title="Select from the first to the last word"
+        >
+          <Wand2 className="w-4 h-4" />
+          Find speech
+        </button>
+        <button
+          type="button"
+          onClick={handleKeepSelection}
+          disabled={busy}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+        >
+          <Crop className="w-4 h-4" />
+          Trim to selection
+        </button>
+        <button
+          type="button"
+          onClick={handleCutSelection}
+          disabled={busy}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+        >
+          <Scissors className="w-4 h-4" />
+          Cut selection
+        </button>
+        <button
+          type="button"
+          onClick={handleRerecord}
+          disabled={status === 'loading' || status === 'saving'}
+          className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg disabled:opacity-50 ${
+            status === 'recording'
+              ? 'text-white bg-red-600 hover:bg-red-700 animate-pulse'
+              : 'text-indigo-700 bg-indigo-50 hover:bg-indigo-100'
+          }`}
+        >
+          {status === 'recording' ? <Square className="w-4 h-4" /> : <Mic className="w-4 h-4" />}
+          {status === 'recording' ? 'Stop' : 'Re-record selection'}
+        </button>
+        <button
+          type="button"
+          onClick={handleUndo}
+          disabled={busy || history.length === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+      </div>
+
+      {/* Processing */}
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={normalize}
+            onChange={(e) => setNormalize(e.target.checked)}
+            className="rounded text-indigo-600"
+          />
+          Normalize volume
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={gateEnabled}
+            onChange={(e) => setGateEnabled(e.target.checked)}
+            className="rounded text-indigo-600"
+          />
+          Noise gate
+        </label>
+        {gateEnabled && (
+          <label className="block text-xs text-gray-600 pl-6">
+            Silence below {gateDb} dB
+            <input
+              type="range"
+              min={-70}
+              max={-20}
+              step={1}
+              value={gateDb}
+              onChange={(e) => setGateDb(parseInt(e.target.value, 10))}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center gap-2 pt-2 border-t border-gray-100">
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={busy}
+          className="flex items-center gap-1 px-3 py-2 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+        >
+          {isPlaying ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          {isPlaying ? 'Stop' : 'Preview selection'}
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={status === 'saving'}
+            className="flex items-center gap-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={busy}
+            className="flex items-center gap-1 px-4 py-2 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {status === 'saving' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            {status === 'saving' ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
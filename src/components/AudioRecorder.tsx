@@ -1,19 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Play, Trash2, AlertCircle } from 'lucide-react';
+import { Mic, Square, Play, Trash2, AlertCircle, History, Scissors } from 'lucide-react';
+import { AudioAsset, getAudioBlob, getRecordings, saveRecording } from '../services/audioAssets';
+import AudioEditor from './AudioEditor';
 
 interface AudioRecorderProps {
-  onRecordingComplete: (audioBase64: string) => void;
-  existingRecording?: string;
+  onRecordingComplete: (audioAssetId: string) => void;
+  existingAssetId?: string;
   onClearRecording?: () => void;
 }
 
-export default function AudioRecorder({ onRecordingComplete, existingRecording, onClearRecording }: AudioRecorderProps) {
+export default function AudioRecorder({ onRecordingComplete, existingAssetId, onClearRecording }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [audioURL, setAudioURL] = useState<string | null>(null);
-  const [audioBase64, setAudioBase64] = useState<string | null>(existingRecording || null);
+  const [assetId, setAssetId] = useState<string | null>(existingAssetId || null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [savedRecordings, setSavedRecordings] = useState<AudioAsset[]>([]);
+  const [editingSource, setEditingSource] = useState<Blob | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -25,11 +29,19 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (audioURL && !existingRecording) {
+      if (audioURL) {
         URL.revokeObjectURL(audioURL);
       }
     };
-  }, [audioURL, existingRecording]);
+  }, [audioURL]);
+
+  // Recordings made for other reminders can be reused
+  useEffect(() => {
+    if (assetId || isRecording) return;
+    getRecordings()
+      .then(setSavedRecordings)
+      .catch(err => console.error('Error loading saved recordings:', err));
+  }, [assetId, isRecording]);
 
   const startRecording = async () => {
     setError(null);
@@ -45,19 +57,9 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
         }
       };
 
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        const url = URL.createObjectURL(audioBlob);
-        setAudioURL(url);
-
-        // Convert to base64
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
-        reader.onloadend = () => {
-          const base64 = reader.result as string;
-          setAudioBase64(base64);
-          onRecordingComplete(base64);
-        };
+      mediaRecorder.onstop = () => {
+        // Open the take in the editor; it's saved from there
+        setEditingSource(new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' }));
 
         // Stop all tracks
         stream.getTracks().forEach(track => track.stop());
@@ -88,10 +90,20 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
     }
   };
 
-  const playRecording = () => {
+  const playRecording = async () => {
     setError(null);
-    // Use audioURL (blob) if available, otherwise use base64
-    const audioSource = audioURL || audioBase64;
+    // Use audioURL (blob) if available, otherwise load the saved recording
+    let audioSource = audioURL;
+    if (!audioSource && assetId) {
+      try {
+        audioSource = URL.createObjectURL(await getAudioBlob(assetId));
+        setAudioURL(audioSource);
+      } catch (err) {
+        console.error('Error loading recording:', err);
+        setError('Failed to load recording. Check your connection and try again.');
+        return;
+      }
+    }
 
     if (audioSource) {
       if (audioRef.current) {
@@ -129,7 +141,7 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
       URL.revokeObjectURL(audioURL);
     }
     setAudioURL(null);
-    setAudioBase64(null);
+    setAssetId(null);
     setRecordingTime(0);
     if (audioRef.current) {
       audioRef.current.pause();
@@ -141,6 +153,44 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
     }
   };
 
+  // Keep the edited take in the audio store; reminders refer to it by id
+  const handleEditorSave = async (audio: Blob, durationMs: number) => {
+    try {
+      const asset = await saveRecording(audio, durationMs);
+      if (audioURL) {
+        URL.revokeObjectURL(audioURL);
+      }
+      setAudioURL(URL.createObjectURL(audio));
+      setAssetId(asset.id);
+      setRecordingTime(Math.round(durationMs / 1000));
+      setEditingSource(null);
+      onRecordingComplete(asset.id);
+    } catch (err) {
+      console.error('Error saving recording:', err);
+      setEditingSource(null);
+      setError('Failed to save recording. Please try again.');
+    }
+  };
+
+  // Edits are saved as a new recording, so reminders sharing this one keep it
+  const editRecording = async () => {
+    if (!assetId) return;
+    setError(null);
+    try {
+      setEditingSource(await getAudioBlob(assetId));
+    } catch (err) {
+      console.error('Error loading recording:', err);
+      setError('Failed to load recording. Check your connection and try again.');
+    }
+  };
+
+  const selectSavedRecording = (asset: AudioAsset) => {
+    setError(null);
+    setAssetId(asset.id);
+    setRecordingTime(asset.durationMs ? Math.round(asset.durationMs / 1000) : 0);
+    onRecordingComplete(asset.id);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -154,6 +204,7 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
       </label>
       <p className="text-xs text-gray-500 mb-3">
         Record your own voice instead of using AI text-to-speech. Your recording will play when you answer the call.
+        Trim dead air and even out the volume before saving.
       </p>
 
       {/* Error Message */}
@@ -172,7 +223,13 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
         </div>
       )}
 
-      {!audioURL && !audioBase64 ? (
+      {editingSource ? (
+        <AudioEditor
+          source={editingSource}
+          onSave={handleEditorSave}
+          onCancel={() => setEditingSource(null)}
+        />
+      ) : isRecording || (!audioURL && !assetId) ? (
         <div className="flex flex-col items-center justify-center p-6 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
           {isRecording ? (
             <>
@@ -204,6 +261,31 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
                 <Mic className="w-4 h-4" />
                 Start Recording
               </button>
+              {savedRecordings.length > 0 && (
+                <div className="w-full mt-4 pt-4 border-t border-gray-200">
+                  <p className="flex items-center gap-1 text-xs font-medium text-gray-500 mb-2">
+                    <History className="w-3 h-3" />
+                    Or reuse a saved recording
+                  </p>
+                  <div className="space-y-1 max-h-32 overflow-y-auto">
+                    {savedRecordings.map(asset => (
+                      <button
+                        key={asset.id}
+                        type="button"
+                        onClick={() => selectSavedRecording(asset)}
+                        className="w-full flex items-center justify-between px-3 py-2 text-sm text-left bg-white border border-gray-200 rounded-lg hover:border-indigo-300 hover:bg-indigo-50 transition-colors"
+                      >
+                        <span className="text-gray-700">
+                          {new Date(asset.createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </span>
+                        {asset.durationMs !== undefined && (
+                          <span className="text-xs text-gray-500">{formatTime(Math.round(asset.durationMs / 1000))}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -231,6 +313,14 @@ export default function AudioRecorder({ onRecordingComplete, existingRecording,
               >
                 <Play className="w-5 h-5" />
               </button>
+              <button
+                type="button"
+                onClick={editRecording}
+                className="p-2 text-indigo-600 hover:bg-indigo-100 rounded-lg transition-colors"
+                title="Edit"
+              >
+                <Scissors className="w-5 h-5" />
+              </button>
               <button
                 type="button"
                 onClick={clearRecording}
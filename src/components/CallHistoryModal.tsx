@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { X, Phone, PhoneMissed, Clock, CheckCircle, XCircle, User, Play } from 'lucide-react';
+import { X, Phone, PhoneMissed, Clock, CheckCircle, XCircle, User, Play, AlertTriangle } from 'lucide-react';
 import { getAllCallHistory, CallHistoryEntry, clearAllCallHistory } from '../db/reminderDB';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { PendingCall } from '../services/supabaseSync';
+import { playAudioAsset } from '../services/audioAssets';
+import { ESCALATION_ACTION_LABELS } from '../utils/escalationPolicy';
 import { speakWithBrowser, speakWithOpenAI, generateReminderSpeech } from '../utils/textToSpeech';
 
 type TabType = 'my-calls' | 'received';
@@ -90,7 +92,7 @@ export default function CallHistoryModal({ onClose, initialTab = 'my-calls' }: C
   };
 
   const handleClearAll = async () => {
-    if (confirm('Are you sure you want to clear all call history?')) {
+    if (confirm('Are you sure you want to clear all call history? Your stats and streaks are kept.')) {
       await clearAllCallHistory();
       setHistory([]);
     }
@@ -99,7 +101,10 @@ export default function CallHistoryModal({ onClose, initialTab = 'my-calls' }: C
   const playMessage = async (call: PendingCall) => {
     setPlayingId(call.id);
     try {
-      if (call.use_custom_audio && call.audio_recording) {
+      if (call.use_custom_audio && call.audio_asset_id) {
+        await playAudioAsset(call.audio_asset_id);
+        setPlayingId(null);
+      } else if (call.use_custom_audio && call.audio_recording) {
         const audio = new Audio(call.audio_recording);
         audio.onended = () => setPlayingId(null);
         audio.onerror = () => setPlayingId(null);
@@ -287,6 +292,21 @@ export default function CallHistoryModal({ onClose, initialTab = 'my-calls' }: C
                               </span>
                             )}
                           </div>
+
+                          {entry.escalation && entry.escalation.length > 0 && (
+                            <ul className="mt-2 space-y-0.5 text-xs">
+                              {entry.escalation.map((step, index) => (
+                                <li
+                                  key={index}
+                                  className={`flex items-center gap-1 ${step.failed ? 'text-red-700' : 'text-orange-700'}`}
+                                >
+                                  <AlertTriangle className="w-3 h-3" />
+                                  {ESCALATION_ACTION_LABELS[step.action]}
+                                  {step.detail && <span className="text-gray-500">- {step.detail}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
                       </div>
 
@@ -2,12 +2,25 @@ import { useState, useEffect } from 'react';
 import { X, Save, AlertCircle, User, Users, Plus, Trash2, UsersRound } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { addReminder } from '../db/reminderDB';
-import { computeNextTrigger, validateReminder, RepeatType } from '../utils/reminderScheduler';
+import { computeNextTrigger, validateReminder, RepeatType, TimeZoneMode } from '../utils/reminderScheduler';
+import {
+  RecurrenceRule,
+  defaultDtstart,
+  formatRecurrenceRules,
+  legacyRepeatToRules,
+  occurrencesOnDays,
+} from '../utils/recurrence';
+import { getDeviceTimeZone } from '../utils/timeZone';
+import { MessageRotation } from '../utils/messageRotation';
 import AudioRecorder from './AudioRecorder';
+import MessagePicker from './MessagePicker';
+import RecurrenceEditor from './RecurrenceEditor';
+import TimeZonePicker from './TimeZonePicker';
 import UserSearch from './UserSearch';
 import { useAuth } from '../contexts/AuthContext';
-import { saveReminderToSupabase, UserProfile } from '../services/supabaseSync';
+import { getUserTimeZone, saveReminderToSupabase, UserProfile } from '../services/supabaseSync';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { createGroupReminder } from '../services/groupReminders';
 
 interface CreateReminderModalProps {
   onClose: () => void;
@@ -15,7 +28,7 @@ interface CreateReminderModalProps {
 }
 
 type RecipientType = 'self' | 'someone' | 'group';
-type CustomRepeatType = 'every_x_hours' | 'specific_times' | 'specific_days';
+type CustomRepeatType = 'every_x_hours' | 'specific_times' | 'specific_days' | 'advanced';
 
 interface ReminderGroup {
   id: string;
@@ -47,7 +60,10 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
   const [repeat, setRepeat] = useState<RepeatType>('daily');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [audioRecording, setAudioRecording] = useState<string | undefined>(undefined);
+  const [audioAssetId, setAudioAssetId] = useState<string | undefined>(undefined);
+  const [messageIds, setMessageIds] = useState<string[]>([]);
+  const [messageRotation, setMessageRotation] = useState<MessageRotation | undefined>(undefined);
+  const [shareWithPartners, setShareWithPartners] = useState(false);
   const [recipientType, setRecipientType] = useState<RecipientType>('self');
   const [selectedRecipient, setSelectedRecipient] = useState<UserProfile | null>(null);
 
@@ -56,6 +72,17 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
   const [everyXHours, setEveryXHours] = useState(2);
   const [specificTimes, setSpecificTimes] = useState<string[]>(() => [getCurrentTime()]);
   const [selectedDays, setSelectedDays] = useState<number[]>([1, 2, 3, 4, 5]); // Mon-Fri default
+  const [advancedRule, setAdvancedRule] = useState<RecurrenceRule>(() => ({
+    freq: 'MONTHLY',
+    interval: 1,
+    weekStart: 1,
+    byDay: [{ weekday: 1, ordinal: 1 }], // First Monday of the month
+  }));
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+
+  // Time zone
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>('device');
+  const [pinnedTimeZone, setPinnedTimeZone] = useState<string | undefined>(undefined);
 
   // Groups
   const [groups, setGroups] = useState<ReminderGroup[]>([]);
@@ -179,20 +206,46 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
         return;
       }
 
+      // Resolve the zone the reminder's wall-clock time is in
+      let timeZone = getDeviceTimeZone();
+      if (timeZoneMode === 'pinned' && pinnedTimeZone) {
+        timeZone = pinnedTimeZone;
+      } else if (timeZoneMode === 'recipient' && selectedRecipient) {
+        timeZone = (await getUserTimeZone(selectedRecipient.id)) || timeZone;
+      }
+
+      // Every reminder stores an RRULE; the simple repeat types map onto equivalent rules
+      const reminderTime = repeat === 'custom' && customRepeatType === 'specific_times' ? specificTimes[0] : time;
+      const rules = repeat === 'custom' && customRepeatType === 'advanced'
+        ? [advancedRule]
+        : legacyRepeatToRules({ repeat, customInterval, daysOfWeek, specificTimes: times });
+      const dtstart = defaultDtstart(reminderTime, rules, Date.now(), timeZone);
+      const exdates = repeat === 'custom' && customRepeatType === 'advanced'
+        ? occurrencesOnDays({ rules, dtstart, timeZone }, skipDates)
+        : [];
+
       const reminder = {
         id: uuidv4(),
         title: sanitizedTitle,
         why: sanitizedWhy,
-        time: repeat === 'custom' && customRepeatType === 'specific_times' ? specificTimes[0] : time,
+        time: reminderTime,
         repeat,
         nextTrigger: 0,
         active: true,
         createdAt: Date.now(),
-        audioRecording,
-        useCustomAudio: !!audioRecording,
+        audioAssetId,
+        useCustomAudio: !!audioAssetId,
+        messageIds: messageIds.length > 0 ? messageIds : undefined,
+        messageRotation: messageIds.length > 1 ? messageRotation : undefined,
+        shareWithPartners: recipientType === 'self' && shareWithPartners,
         customInterval,
         daysOfWeek,
         specificTimes: times,
+        rrule: formatRecurrenceRules(rules),
+        dtstart,
+        exdates: exdates.length > 0 ? exdates : undefined,
+        timeZone,
+        timeZoneMode,
       };
 
       // Validate
@@ -215,17 +268,8 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
       }
 
       if (isForGroup && selectedGroup && user && isSupabaseConfigured) {
-        // Save to group_reminders table
-        const { error: groupError } = await supabase.from('group_reminders').insert({
-          group_id: selectedGroup.id,
-          title: reminder.title,
-          why: reminder.why || null,
-          time: reminder.time,
-          repeat: reminder.repeat,
-          next_trigger: reminder.nextTrigger,
-          active: true,
-          created_by: user.id,
-        });
+        // Every member is rung at each occurrence by the reminder scheduler
+        const { error: groupError } = await createGroupReminder(reminder, selectedGroup.id, user.id);
 
         if (groupError) {
           setError('Failed to create group reminder. Please try again.');
@@ -289,6 +333,7 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
                   setRecipientType('self');
                   setSelectedRecipient(null);
                   setSelectedGroup(null);
+                  if (timeZoneMode === 'recipient') setTimeZoneMode('device');
                 }}
                 className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 transition-all ${
                   recipientType === 'self'
@@ -304,6 +349,7 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
                 onClick={() => {
                   setRecipientType('someone');
                   setSelectedGroup(null);
+                  if (timeZoneMode === 'device') setTimeZoneMode('recipient');
                 }}
                 className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 transition-all ${
                   recipientType === 'someone'
@@ -319,6 +365,7 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
                 onClick={() => {
                   setRecipientType('group');
                   setSelectedRecipient(null);
+                  if (timeZoneMode === 'recipient') setTimeZoneMode('device');
                 }}
                 className={`flex items-center justify-center gap-2 p-3 rounded-lg border-2 transition-all ${
                   recipientType === 'group'
@@ -438,11 +485,34 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
 
           {/* Audio Recorder */}
           <AudioRecorder
-            onRecordingComplete={setAudioRecording}
-            existingRecording={audioRecording}
-            onClearRecording={() => setAudioRecording(undefined)}
+            onRecordingComplete={setAudioAssetId}
+            existingAssetId={audioAssetId}
+            onClearRecording={() => setAudioAssetId(undefined)}
           />
 
+          {/* Message library */}
+          <MessagePicker
+            selectedIds={messageIds}
+            rotation={messageRotation}
+            onChange={(ids, rotation) => {
+              setMessageIds(ids);
+              setMessageRotation(rotation);
+            }}
+          />
+
+          {/* Accountability partners */}
+          {recipientType === 'self' && user && isSupabaseConfigured && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={shareWithPartners}
+                onChange={(e) => setShareWithPartners(e.target.checked)}
+                className="rounded text-indigo-600"
+              />
+              Alert my accountability partners if I miss this
+            </label>
+          )}
+
           {/* Time */}
           <div>
             <label htmlFor="reminder-time" className="label">
@@ -496,6 +566,20 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
             </p>
           </div>
 
+          {/* Time zone (group reminders use each member's own clock) */}
+          {recipientType !== 'group' && (
+            <TimeZonePicker
+              mode={timeZoneMode}
+              timeZone={pinnedTimeZone}
+              allowRecipient={recipientType === 'someone'}
+              recipientName={selectedRecipient?.full_name || undefined}
+              onChange={(mode, zone) => {
+                setTimeZoneMode(mode);
+                if (zone) setPinnedTimeZone(zone);
+              }}
+            />
+          )}
+
           {/* Repeat */}
           <div>
             <label htmlFor="reminder-repeat" className="label">
@@ -528,7 +612,7 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
             <div className="space-y-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
               <div>
                 <label className="label text-sm">Custom Repeat Type</label>
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-2 gap-2">
                   <button
                     type="button"
                     onClick={() => setCustomRepeatType('every_x_hours')}
@@ -562,6 +646,17 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
                   >
                     Specific Days
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setCustomRepeatType('advanced')}
+                    className={`p-2 text-xs font-medium rounded-lg border-2 transition-all ${
+                      customRepeatType === 'advanced'
+                        ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-200 hover:border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    Advanced
+                  </button>
                 </div>
               </div>
 
@@ -666,6 +761,18 @@ export default function CreateReminderModal({ onClose, onReminderCreated }: Crea
                   </p>
                 </div>
               )}
+
+              {/* Advanced (RRULE) */}
+              {customRepeatType === 'advanced' && (
+                <RecurrenceEditor
+                  time={time}
+                  timeZone={timeZoneMode === 'pinned' ? pinnedTimeZone : undefined}
+                  rule={advancedRule}
+                  skipDates={skipDates}
+                  onChange={setAdvancedRule}
+                  onSkipDatesChange={setSkipDates}
+                />
+              )}
             </div>
           )}
 
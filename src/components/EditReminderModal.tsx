@@ -1,7 +1,31 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { X, Save, Clock, Repeat } from 'lucide-react';
-import { Reminder, RepeatType, computeNextTrigger } from '../utils/reminderScheduler';
+import {
+  Reminder,
+  RepeatType,
+  TimeZoneMode,
+  computeNextTrigger,
+  getReminderRecurrence,
+  rezoneReminder,
+  validateReminder,
+} from '../utils/reminderScheduler';
+import {
+  RecurrenceRule,
+  defaultDtstart,
+  formatRecurrenceRules,
+  legacyRepeatToRules,
+  occurrencesOnDays,
+  toDateKey,
+} from '../utils/recurrence';
+import { getDeviceTimeZone } from '../utils/timeZone';
+import { MessageRotation } from '../utils/messageRotation';
+import { EscalationPolicy, normalizeEscalationPolicy } from '../utils/escalationPolicy';
 import { updateReminder } from '../db/reminderDB';
+import { isSupabaseConfigured } from '../lib/supabase';
+import EscalationPolicyEditor from './EscalationPolicyEditor';
+import MessagePicker from './MessagePicker';
+import RecurrenceEditor from './RecurrenceEditor';
+import TimeZonePicker from './TimeZonePicker';
 
 interface EditReminderModalProps {
   reminder: Reminder;
@@ -20,6 +44,31 @@ export default function EditReminderModal({
   const [repeat, setRepeat] = useState<RepeatType>(reminder.repeat);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [messageIds, setMessageIds] = useState<string[]>(reminder.messageIds || []);
+  const [messageRotation, setMessageRotation] = useState<MessageRotation | undefined>(reminder.messageRotation);
+  const [escalationPolicy, setEscalationPolicy] = useState<EscalationPolicy | undefined>(reminder.escalationPolicy);
+  const [shareWithPartners, setShareWithPartners] = useState(reminder.shareWithPartners ?? false);
+
+  // Existing recurrence (legacy reminders are translated to an equivalent rule)
+  const recurrence = useMemo(() => {
+    try {
+      return getReminderRecurrence(reminder);
+    } catch {
+      return null;
+    }
+  }, [reminder]);
+  const [rule, setRule] = useState<RecurrenceRule>(
+    () => recurrence?.rules[0] || { freq: 'DAILY', interval: 1, weekStart: 1 }
+  );
+  const [skipDates, setSkipDates] = useState<string[]>(
+    () => [...new Set((reminder.exdates || []).map(t => toDateKey(t, reminder.timeZone)))].sort()
+  );
+  const [ruleEdited, setRuleEdited] = useState(false);
+  const [skipDatesEdited, setSkipDatesEdited] = useState(false);
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>(reminder.timeZoneMode ?? 'device');
+  const [pinnedTimeZone, setPinnedTimeZone] = useState<string | undefined>(
+    reminder.timeZoneMode === 'pinned' ? reminder.timeZone : undefined
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,14 +88,60 @@ export default function EditReminderModal({
 
     try {
       // Create updated reminder with new values
-      const updatedReminder: Reminder = {
+      let updatedReminder: Reminder = {
         ...reminder,
         title: title.trim(),
         why: why.trim(),
         time,
         repeat,
+        messageIds: messageIds.length > 0 ? messageIds : undefined,
+        messageRotation: messageIds.length > 1 ? messageRotation : undefined,
+        escalationPolicy: normalizeEscalationPolicy(escalationPolicy),
+        shareWithPartners,
       };
 
+      // Recipient-mode reminders keep the recipient's zone; the others resolve it here
+      const timeZone = timeZoneMode === 'pinned'
+        ? pinnedTimeZone || getDeviceTimeZone()
+        : timeZoneMode === 'recipient' && reminder.timeZone ? reminder.timeZone : getDeviceTimeZone();
+      updatedReminder.timeZoneMode = timeZoneMode;
+
+      // Rebuild the rule and re-anchor the series only when the schedule itself changed;
+      // other edits keep dtstart, so the series' past occurrences stay where they were
+      const rules = repeat !== 'custom'
+        ? legacyRepeatToRules({ repeat })
+        : ruleEdited || !recurrence ? [rule] : recurrence.rules;
+      const ruleChanged = ruleEdited && (!recurrence || formatRecurrenceRules(rules) !== formatRecurrenceRules(recurrence.rules));
+
+      if (time !== reminder.time || repeat !== reminder.repeat || ruleChanged) {
+        const dtstart = defaultDtstart(time, rules, Date.now(), timeZone);
+        const exdates = occurrencesOnDays({ rules, dtstart, timeZone }, skipDates);
+
+        updatedReminder.timeZone = timeZone;
+        updatedReminder.rrule = formatRecurrenceRules(rules);
+        updatedReminder.dtstart = dtstart;
+        updatedReminder.exdates = exdates.length > 0 ? exdates : undefined;
+        // The rule now describes the schedule; drop stale legacy fields
+        updatedReminder.customInterval = undefined;
+        updatedReminder.daysOfWeek = undefined;
+        updatedReminder.specificTimes = undefined;
+      } else {
+        if (timeZone !== reminder.timeZone) {
+          // Same schedule, new zone: keep the wall-clock time
+          updatedReminder = rezoneReminder(updatedReminder, timeZone);
+        }
+        if (skipDatesEdited) {
+          const exdates = occurrencesOnDays(getReminderRecurrence({ ...updatedReminder, exdates: undefined }), skipDates);
+          updatedReminder.exdates = exdates.length > 0 ? exdates : undefined;
+        }
+      }
+
+      const validation = validateReminder(updatedReminder);
+      if (!validation.isValid) {
+        setError(validation.error || 'Invalid reminder');
+        return;
+      }
+
       // Auto-activate if changed to recurring from "once" or if past reminder is now recurring
       if (repeat !== 'once') {
         updatedReminder.active = true;
@@ -116,6 +211,16 @@ export default function EditReminderModal({
             />
           </div>
 
+          {/* Message library */}
+          <MessagePicker
+            selectedIds={messageIds}
+            rotation={messageRotation}
+            onChange={(ids, rotation) => {
+              setMessageIds(ids);
+              setMessageRotation(rotation);
+            }}
+          />
+
           {/* Time */}
           <div>
             <label className="label">
@@ -136,6 +241,17 @@ export default function EditReminderModal({
             </p>
           </div>
 
+          {/* Time zone */}
+          <TimeZonePicker
+            mode={timeZoneMode}
+            timeZone={pinnedTimeZone}
+            allowRecipient={reminder.timeZoneMode === 'recipient'}
+            onChange={(mode, zone) => {
+              setTimeZoneMode(mode);
+              if (zone) setPinnedTimeZone(zone);
+            }}
+          />
+
           {/* Repeat */}
           <div>
             <label className="label">Repeat Pattern</label>
@@ -150,10 +266,52 @@ export default function EditReminderModal({
                 <option value="hourly">Every Hour</option>
                 <option value="daily">Daily</option>
                 <option value="weekly">Weekly</option>
+                <option value="custom">Custom...</option>
               </select>
             </div>
           </div>
 
+          {/* Custom Repeat Rule */}
+          {repeat === 'custom' && (
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+              {recurrence && recurrence.rules.length > 1 && !ruleEdited && (
+                <p className="text-xs text-amber-700 mb-3">
+                  This reminder rings at several times a day. Changing the rule below replaces those times.
+                </p>
+              )}
+              <RecurrenceEditor
+                time={time}
+                timeZone={timeZoneMode === 'device' ? undefined : pinnedTimeZone || reminder.timeZone}
+                rule={rule}
+                skipDates={skipDates}
+                onChange={(nextRule) => {
+                  setRule(nextRule);
+                  setRuleEdited(true);
+                }}
+                onSkipDatesChange={(dates) => {
+                  setSkipDates(dates);
+                  setSkipDatesEdited(true);
+                }}
+              />
+            </div>
+          )}
+
+          {/* Escalation */}
+          <EscalationPolicyEditor policy={escalationPolicy} onChange={setEscalationPolicy} />
+
+          {/* Accountability partners */}
+          {isSupabaseConfigured && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={shareWithPartners}
+                onChange={(e) => setShareWithPartners(e.target.checked)}
+                className="rounded text-indigo-600"
+              />
+              Alert my accountability partners if I miss this
+            </label>
+          )}
+
           {/* Info Box */}
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <p className="text-sm text-blue-800">
@@ -0,0 +1,145 @@
+import { Plus, X } from 'lucide-react';
+import {
+  ESCALATION_ACTION_LABELS,
+  ESCALATION_PRESETS,
+  EscalationAction,
+  EscalationPolicy,
+  EscalationPreset,
+  EscalationStep,
+  MAX_ESCALATION_MISSES,
+  describeEscalationStep,
+  presetPolicy,
+} from '../utils/escalationPolicy';
+
+interface EscalationPolicyEditorProps {
+  policy?: EscalationPolicy; // Undefined: recall settings only, no escalation
+  onChange: (policy: EscalationPolicy | undefined) => void;
+}
+
+const PRESETS = Object.keys(ESCALATION_PRESETS) as EscalationPreset[];
+const ACTIONS = Object.keys(ESCALATION_ACTION_LABELS) as EscalationAction[];
+
+// A preset stays selected until its steps are edited
+function matchesPreset(policy: EscalationPolicy, preset: EscalationPreset): boolean {
+  return JSON.stringify(policy.steps) === JSON.stringify(ESCALATION_PRESETS[preset].steps);
+}
+
+export default function EscalationPolicyEditor({ policy, onChange }: EscalationPolicyEditorProps) {
+  const selected = policy
+    ? PRESETS.find(preset => matchesPreset(policy, preset)) ?? 'custom'
+    : 'off';
+
+  const updateSteps = (steps: EscalationStep[]) => {
+    onChange(steps.length > 0 ? { steps } : undefined);
+  };
+
+  const updateStep = (index: number, changes: Partial<EscalationStep>) => {
+    const steps = (policy?.steps || []).map((step, i) => {
+      if (i !== index) return step;
+      const updated = { ...step, ...changes };
+      if (updated.action === 'volume') return { ...updated, volume: updated.volume ?? 1 };
+      delete updated.volume;
+      return updated;
+    });
+    updateSteps(steps);
+  };
+
+  const addStep = () => {
+    const steps = policy?.steps || [];
+    const lastMiss = steps.reduce((max, step) => Math.max(max, step.afterMisses), 0);
+    updateSteps([...steps, { afterMisses: Math.min(lastMiss + 1, MAX_ESCALATION_MISSES), action: 'push' }]);
+  };
+
+  const options: { value: EscalationPreset | 'off'; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    ...PRESETS.map(preset => ({ value: preset, label: ESCALATION_PRESETS[preset].label })),
+  ];
+
+  return (
+    <div>
+      <label className="label">When calls go unanswered</label>
+      <div className="grid grid-cols-4 gap-2">
+        {options.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value === 'off' ? undefined : presetPolicy(value))}
+            className={`px-2 py-2 rounded-lg border-2 text-xs font-medium transition-all ${
+              selected === value
+                ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {policy && (
+        <div className="mt-3 space-y-2">
+          {policy.steps.map((step, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 whitespace-nowrap">After</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_ESCALATION_MISSES}
+                value={step.afterMisses}
+                onChange={(e) => updateStep(index, { afterMisses: Number(e.target.value) || 1 })}
+                className="input w-16 px-2"
+                aria-label="Missed calls"
+              />
+              <select
+                value={step.action}
+                onChange={(e) => updateStep(index, { action: e.target.value as EscalationAction })}
+                className="input flex-1"
+                aria-label="Action"
+              >
+                {ACTIONS.map(action => (
+                  <option key={action} value={action}>
+                    {ESCALATION_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+              {step.action === 'volume' && (
+                <select
+                  value={step.volume ?? 1}
+                  onChange={(e) => updateStep(index, { volume: Number(e.target.value) })}
+                  className="input w-20 px-2"
+                  aria-label="Volume"
+                >
+                  {[0.8, 0.9, 1].map(volume => (
+                    <option key={volume} value={volume}>{Math.round(volume * 100)}%</option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="button"
+                onClick={() => updateSteps(policy.steps.filter((_, i) => i !== index))}
+                className="p-1 hover:bg-gray-100 rounded"
+                aria-label={`Remove: ${describeEscalationStep(step)}`}
+              >
+                <X className="w-4 h-4 text-gray-500" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={addStep}
+            className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus className="w-3 h-3" />
+            Add step
+          </button>
+        </div>
+      )}
+
+      <p className="mt-1 text-xs text-gray-500">
+        {policy
+          ? 'Steps count missed calls for the same reminder; recalls follow your recall settings'
+          : 'Missed calls are only recalled, as set in Settings'}
+      </p>
+    </div>
+  );
+}
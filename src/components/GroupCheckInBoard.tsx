@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Check, X, Flame, Trophy, PhoneMissed } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  GroupCheckIn,
+  getGroupCalls,
+  getGroupCheckIns,
+  getGroupOccurrenceResults,
+  recordGroupCheckIn,
+  subscribeToGroupCheckIns,
+  updateStreakThreshold,
+} from '../services/groupReminders';
+import type { PendingCall } from '../services/supabaseSync';
+import {
+  GroupStreak,
+  LeaderboardEntry,
+  buildLeaderboard,
+  computeGroupStreak,
+  startOfWeek,
+} from '../utils/groupStreaks';
+
+interface GroupCheckInBoardProps {
+  groupId: string;
+  members: { user_id: string; name: string | null; email: string }[];
+  reminders: { id: string; title: string }[];
+  streakThreshold: number;
+  canEditThreshold: boolean; // Only admins can change the group
+  onThresholdChange: (thresholdPct: number) => void;
+}
+
+type GroupCall = Pick<PendingCall, 'group_reminder_id' | 'recipient_id' | 'status' | 'triggered_at'>;
+
+const THRESHOLD_OPTIONS = [50, 75, 90, 100];
+const STREAK_LOOKBACK_MS = 90 * 24 * 60 * 60 * 1000;
+
+const checkInKey = (groupReminderId: string, occurrenceAt: number, userId: string) =>
+  `${groupReminderId}:${occurrenceAt}:${userId}`;
+
+export default function GroupCheckInBoard({
+  groupId,
+  members,
+  reminders,
+  streakThreshold,
+  canEditThreshold,
+  onThresholdChange,
+}: GroupCheckInBoardProps) {
+  const { user } = useAuth();
+  const [todayCalls, setTodayCalls] = useState<GroupCall[]>([]);
+  const [checkIns, setCheckIns] = useState<Map<string, GroupCheckIn>>(new Map());
+  const [streak, setStreak] = useState<GroupStreak>({ current: 0, best: 0 });
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+
+  const reminderIds = reminders.map((r) => r.id).join(',');
+  const memberIds = members.map((m) => m.user_id).join(',');
+
+  const refresh = useCallback(async () => {
+    const startOfToday = new Date().setHours(0, 0, 0, 0);
+    const weekStart = startOfWeek();
+
+    const [calls, weekCheckIns, results] = await Promise.all([
+      getGroupCalls(reminderIds ? reminderIds.split(',') : [], startOfToday),
+      getGroupCheckIns(groupId, weekStart),
+      getGroupOccurrenceResults(groupId, Date.now() - STREAK_LOOKBACK_MS),
+    ]);
+
+    setTodayCalls(calls);
+    setCheckIns(new Map(weekCheckIns.map((c) => [checkInKey(c.groupReminderId, c.occurrenceAt, c.userId), c])));
+    setStreak(computeGroupStreak(results, streakThreshold));
+    setLeaderboard(buildLeaderboard(memberIds ? memberIds.split(',') : [], weekCheckIns));
+  }, [groupId, reminderIds, memberIds, streakThreshold]);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribe = subscribeToGroupCheckIns(groupId, refresh);
+    return () => unsubscribe?.();
+  }, [groupId, refresh]);
+
+  const memberName = (userId: string) => {
+    const member = members.find((m) => m.user_id === userId);
+    return member ? member.name || member.email : 'Former member';
+  };
+
+  const reminderTitle = (groupReminderId: string | null | undefined) =>
+    reminders.find((r) => r.id === groupReminderId)?.title || 'Reminder';
+
+  const checkIn = async (call: GroupCall, completed: boolean) => {
+    if (!user || !call.group_reminder_id) return;
+
+    const occurrence = { groupReminderId: call.group_reminder_id, occurrenceAt: call.triggered_at };
+    setCheckIns((prev) =>
+      new Map(prev).set(checkInKey(occurrence.groupReminderId, occurrence.occurrenceAt, user.id), {
+        ...occurrence,
+        userId: user.id,
+        completed,
+        checkedInAt: Date.now(),
+      })
+    );
+    await recordGroupCheckIn(occurrence, user.id, completed);
+    refresh();
+  };
+
+  const changeThreshold = async (thresholdPct: number) => {
+    onThresholdChange(thresholdPct);
+    await updateStreakThreshold(groupId, thresholdPct);
+  };
+
+  const thresholdOptions = THRESHOLD_OPTIONS.includes(streakThreshold)
+    ? THRESHOLD_OPTIONS
+    : [...THRESHOLD_OPTIONS, streakThreshold].sort((a, b) => a - b);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Today's Check-ins</h3>
+        <div
+          className="flex items-center gap-1 text-sm font-medium text-orange-600"
+          title={`Best: ${streak.best} in a row`}
+        >
+          <Flame className="w-4 h-4" />
+          {streak.current} in a row
+        </div>
+      </div>
+
+      {todayCalls.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-sm text-gray-500">No group calls yet today</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {todayCalls.map((call) => {
+            const checkInEntry = call.group_reminder_id
+              ? checkIns.get(checkInKey(call.group_reminder_id, call.triggered_at, call.recipient_id))
+              : undefined;
+            const missed = call.status === 'missed' || call.status === 'expired';
+            const isSelf = call.recipient_id === user?.id;
+
+            return (
+              <div
+                key={`${call.group_reminder_id}-${call.triggered_at}-${call.recipient_id}`}
+                className="p-3 flex items-center justify-between"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{memberName(call.recipient_id)}</p>
+                  <p className="text-xs text-gray-500">
+                    {reminderTitle(call.group_reminder_id)} ·{' '}
+                    {new Date(call.triggered_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </p>
+                </div>
+
+                {checkInEntry ? (
+                  <span
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                      checkInEntry.completed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                    }`}
+                  >
+                    {checkInEntry.completed ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                    {checkInEntry.completed ? 'Done' : 'Not done'}
+                  </span>
+                ) : isSelf ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => checkIn(call, true)}
+                      className="flex items-center gap-1 px-2 py-1 bg-green-600 text-white text-xs font-medium rounded-lg hover:bg-green-700"
+                    >
+                      <Check className="w-3 h-3" />
+                      I did it
+                    </button>
+                    <button
+                      onClick={() => checkIn(call, false)}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded-lg hover:bg-gray-200"
+                    >
+                      Not today
+                    </button>
+                  </div>
+                ) : (
+                  <span
+                    className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                      missed ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {missed && <PhoneMissed className="w-3 h-3" />}
+                    {missed ? 'Missed call' : 'Waiting'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Streak goal */}
+      <div className="px-4 py-3 border-t border-gray-100 flex items-center justify-between text-sm">
+        <span className="text-gray-600">Streak continues when at least</span>
+        {canEditThreshold ? (
+          <select
+            value={streakThreshold}
+            onChange={(e) => changeThreshold(Number(e.target.value))}
+            className="input w-auto py-1"
+          >
+            {thresholdOptions.map((pct) => (
+              <option key={pct} value={pct}>
+                {pct}% of members
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="font-medium text-gray-900">{streakThreshold}% of members</span>
+        )}
+      </div>
+
+      {/* Weekly leaderboard */}
+      <div className="border-t border-gray-100">
+        <div className="px-4 py-3 flex items-center gap-2">
+          <Trophy className="w-4 h-4 text-yellow-500" />
+          <h4 className="font-semibold text-gray-900 text-sm">This Week</h4>
+        </div>
+        <div className="px-4 pb-4 space-y-1">
+          {leaderboard.map((entry) => (
+            <div key={entry.userId} className="flex items-center justify-between text-sm">
+              <span className={entry.userId === user?.id ? 'font-medium text-purple-700' : 'text-gray-700'}>
+                {entry.rank}. {memberName(entry.userId)}
+              </span>
+              <span className="text-gray-500">{entry.completed} done</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
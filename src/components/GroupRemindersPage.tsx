@@ -1,9 +1,42 @@
 import { useState, useEffect } from 'react';
-import { Users, Plus, X, Bell, Trash2, UserPlus, Crown, Calendar, Clock } from 'lucide-react';
+import { useSearchParams } from 'react-router-dom';
+import { v4 as uuidv4 } from 'uuid';
+import { Users, Plus, X, Bell, BellOff, Trash2, UserPlus, Crown, Calendar, Clock, ClipboardList, Check, PhoneMissed, Shield, Link, Copy, Mail } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import UserSearch from './UserSearch';
+import GroupCheckInBoard from './GroupCheckInBoard';
 import { UserProfile } from '../services/supabaseSync';
+import { runMutation } from '../services/outbox';
+import {
+  GroupMutes,
+  GroupOccurrence,
+  createGroupReminder as saveGroupReminder,
+  getGroupMutes,
+  getGroupReminderRoster,
+  setGroupMuted,
+} from '../services/groupReminders';
+import {
+  GroupInvite,
+  INVITE_LINK_PARAM,
+  InviteLinkPreview,
+  acceptInvite,
+  createInviteLink,
+  declineInvite,
+  getGroupInvites,
+  getInviteLinkPreview,
+  getMyInvites,
+  inviteLinkUrl,
+  inviteToGroup,
+  joinGroupByLink,
+  leaveGroup as leaveMembership,
+  revokeInvite,
+  setMemberRole,
+  transferOwnership,
+} from '../services/groupMembership';
+import { computeNextTrigger, migrateLegacyRepeat, RepeatType } from '../utils/reminderScheduler';
+import { getDeviceTimeZone } from '../utils/timeZone';
+import { DEFAULT_STREAK_THRESHOLD } from '../utils/groupStreaks';
 
 interface GroupMember {
   id: string;
@@ -22,6 +55,7 @@ interface ReminderGroup {
   created_at: string;
   member_count: number;
   reminder_count: number;
+  streak_threshold: number;
   members?: GroupMember[];
 }
 
@@ -32,6 +66,7 @@ interface GroupReminder {
   why: string | null;
   time: string;
   repeat: string;
+  next_trigger: number | null;
   active: boolean;
   created_by: string;
   created_at: string;
@@ -55,9 +90,19 @@ export default function GroupRemindersPage() {
   const [pendingMembers, setPendingMembers] = useState<UserProfile[]>([]);
   const [newlyCreatedGroupId, setNewlyCreatedGroupId] = useState<string | null>(null);
 
-  // Add member form
+  // Invite form
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [addingMember, setAddingMember] = useState(false);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Invites to the signed-in user, an invite link being opened, and the selected group's open invites
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [myInvites, setMyInvites] = useState<GroupInvite[]>([]);
+  const [linkPreview, setLinkPreview] = useState<InviteLinkPreview | null>(null);
+  const [linkInvalid, setLinkInvalid] = useState(false);
+  const [joining, setJoining] = useState(false);
+  const [groupInvites, setGroupInvites] = useState<GroupInvite[]>([]);
 
   // Create reminder form
   const [reminderTitle, setReminderTitle] = useState('');
@@ -66,14 +111,31 @@ export default function GroupRemindersPage() {
   const [reminderRepeat, setReminderRepeat] = useState('daily');
   const [creatingReminder, setCreatingReminder] = useState(false);
 
+  // The signed-in member's mutes in the selected group, and the roster being viewed
+  const [mutes, setMutes] = useState<GroupMutes>({ group: false, reminderIds: [] });
+  const [rosterReminderId, setRosterReminderId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<GroupOccurrence[]>([]);
+
   useEffect(() => {
     if (user && isSupabaseConfigured) {
       fetchGroups();
+      getMyInvites(user.id).then(setMyInvites);
     } else {
       setLoading(false);
     }
   }, [user]);
 
+  // Opened from an invite link (/groups?invite=<token>)
+  const inviteToken = searchParams.get(INVITE_LINK_PARAM);
+  useEffect(() => {
+    if (!user || !inviteToken) return;
+
+    getInviteLinkPreview(inviteToken).then((preview) => {
+      setLinkPreview(preview);
+      setLinkInvalid(!preview);
+    });
+  }, [user, inviteToken]);
+
   const fetchGroups = async () => {
     if (!user) return;
 
@@ -129,6 +191,12 @@ export default function GroupRemindersPage() {
       if (remindersError) throw remindersError;
 
       setGroupReminders(remindersData || []);
+      if (user) {
+        setMutes(await getGroupMutes(groupId, user.id));
+      }
+
+      const isAdmin = membersData?.some((m) => m.user_id === user?.id && m.role === 'admin');
+      setGroupInvites(isAdmin ? await getGroupInvites(groupId) : []);
 
       // Update selected group with members
       const group = groups.find((g) => g.id === groupId);
@@ -150,32 +218,41 @@ export default function GroupRemindersPage() {
 
     setCreatingGroup(true);
     try {
-      // Create the group
-      const { data: groupData, error: groupError } = await supabase
-        .from('reminder_groups')
-        .insert({
+      // Create the group (id generated here so the member rows can reference it while offline)
+      const groupId = uuidv4();
+      const { error: groupError } = await runMutation({
+        table: 'reminder_groups',
+        op: 'insert',
+        values: {
+          id: groupId,
           name: newGroupName.trim(),
           description: newGroupDescription.trim() || null,
           created_by: user.id,
-        })
-        .select()
-        .single();
+        },
+        label: `Create group "${newGroupName.trim()}"`,
+      });
 
       if (groupError) throw groupError;
 
       // Add creator as admin member
-      const { error: memberError } = await supabase.from('group_members').insert({
-        group_id: groupData.id,
-        user_id: user.id,
-        email: user.email,
-        name: user.user_metadata?.full_name || user.email?.split('@')[0],
-        role: 'admin',
+      const { error: memberError } = await runMutation({
+        table: 'group_members',
+        op: 'insert',
+        values: {
+          id: uuidv4(),
+          group_id: groupId,
+          user_id: user.id,
+          email: user.email,
+          name: user.user_metadata?.full_name || user.email?.split('@')[0],
+          role: 'admin',
+        },
+        label: 'Join group as admin',
       });
 
       if (memberError) throw memberError;
 
       // Store the new group ID and move to members step
-      setNewlyCreatedGroupId(groupData.id);
+      setNewlyCreatedGroupId(groupId);
       setCreateGroupStep('members');
       fetchGroups();
     } catch (err: unknown) {
@@ -200,21 +277,21 @@ export default function GroupRemindersPage() {
     setPendingMembers(pendingMembers.filter(m => m.id !== memberId));
   };
 
+  const inviter = () => ({
+    id: user!.id,
+    name: user!.user_metadata?.full_name || user!.email?.split('@')[0] || null,
+  });
+
   const addMembersToGroup = async () => {
-    if (!newlyCreatedGroupId || pendingMembers.length === 0) return;
+    if (!user || !newlyCreatedGroupId || pendingMembers.length === 0) return;
 
     setAddingMember(true);
     try {
+      const group = { id: newlyCreatedGroupId, name: newGroupName.trim() };
       for (const member of pendingMembers) {
-        const { error } = await supabase.from('group_members').insert({
-          group_id: newlyCreatedGroupId,
-          user_id: member.id,
-          email: member.email,
-          name: member.full_name || member.email?.split('@')[0],
-          role: 'member',
-        });
+        const { error } = await inviteToGroup(group, member, inviter());
         if (error) {
-          console.error(`Failed to add member ${member.email}:`, error);
+          console.error(`Failed to invite ${member.email}:`, error);
         }
       }
 
@@ -251,34 +328,130 @@ export default function GroupRemindersPage() {
   const addMember = async () => {
     if (!user || !selectedGroup || !selectedUser) return;
 
+    if (selectedGroup.members?.some((m) => m.user_id === selectedUser.id)) {
+      alert(`${selectedUser.full_name || selectedUser.email} is already in this group.`);
+      return;
+    }
+
     setAddingMember(true);
     try {
-      const { error } = await supabase.from('group_members').insert({
-        group_id: selectedGroup.id,
-        user_id: selectedUser.id,
-        email: selectedUser.email,
-        name: selectedUser.full_name || selectedUser.email?.split('@')[0],
-        role: 'member',
-      });
+      const { error } = await inviteToGroup(selectedGroup, selectedUser, inviter());
 
       if (error) throw error;
 
-      setShowAddMember(false);
-      setSelectedUser(null);
+      closeAddMember();
       fetchGroupDetails(selectedGroup.id);
     } catch (err: any) {
-      console.error('Failed to add member:', err);
-      alert(err.message || 'Failed to add member. Please try again.');
+      console.error('Failed to invite member:', err);
+      alert(err.message || 'Failed to send the invite. Please try again.');
     } finally {
       setAddingMember(false);
     }
   };
 
+  const closeAddMember = () => {
+    setShowAddMember(false);
+    setSelectedUser(null);
+    setInviteLink(null);
+    setLinkCopied(false);
+  };
+
+  const makeInviteLink = async () => {
+    if (!user || !selectedGroup) return;
+
+    const { url, error } = await createInviteLink(selectedGroup, inviter());
+    if (error) {
+      alert('Failed to create an invite link. Please try again.');
+      return;
+    }
+    setInviteLink(url);
+    fetchGroupDetails(selectedGroup.id);
+  };
+
+  const copyInviteLink = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const cancelInvite = async (inviteId: string) => {
+    setGroupInvites((prev) => prev.filter((i) => i.id !== inviteId));
+    await revokeInvite(inviteId);
+  };
+
+  const respondToInvite = async (invite: GroupInvite, accept: boolean) => {
+    setMyInvites((prev) => prev.filter((i) => i.id !== invite.id));
+
+    const { error } = accept ? await acceptInvite(invite.id) : await declineInvite(invite.id);
+    if (error) {
+      alert(error.message);
+      return;
+    }
+    if (accept) fetchGroups();
+  };
+
+  const closeInviteLink = () => {
+    searchParams.delete(INVITE_LINK_PARAM);
+    setSearchParams(searchParams, { replace: true });
+    setLinkPreview(null);
+    setLinkInvalid(false);
+  };
+
+  const joinFromLink = async () => {
+    if (!inviteToken) return;
+
+    setJoining(true);
+    const { error } = await joinGroupByLink(inviteToken);
+    setJoining(false);
+
+    if (error) {
+      alert(error.message);
+      return;
+    }
+    closeInviteLink();
+    fetchGroups();
+  };
+
+  const changeRole = async (member: GroupMember, role: GroupMember['role']) => {
+    if (!selectedGroup) return;
+
+    const { error } = await setMemberRole(member.id, role);
+    if (error) {
+      alert('Failed to change the member\'s role. Please try again.');
+      return;
+    }
+    fetchGroupDetails(selectedGroup.id);
+  };
+
+  const makeOwner = async (member: GroupMember) => {
+    if (!selectedGroup) return;
+    if (!confirm(`Make ${member.name || member.email} the owner of "${selectedGroup.name}"? You'll stay an admin.`)) return;
+
+    const { error } = await transferOwnership(selectedGroup.id, member.user_id);
+    if (error) {
+      alert(error.message);
+      return;
+    }
+    setGroups((prev) =>
+      prev.map((g) => (g.id === selectedGroup.id ? { ...g, created_by: member.user_id } : g))
+    );
+    setSelectedGroup({
+      ...selectedGroup,
+      created_by: member.user_id,
+      members: selectedGroup.members?.map((m) => (m.id === member.id ? { ...m, role: 'admin' as const } : m)),
+    });
+  };
+
   const removeMember = async (memberId: string) => {
     if (!confirm('Are you sure you want to remove this member?')) return;
 
     try {
-      const { error } = await supabase.from('group_members').delete().eq('id', memberId);
+      const { error } = await runMutation({
+        table: 'group_members',
+        op: 'delete',
+        match: { id: memberId },
+        label: 'Remove group member',
+      });
 
       if (error) throw error;
 
@@ -295,15 +468,21 @@ export default function GroupRemindersPage() {
 
     setCreatingReminder(true);
     try {
-      const { error } = await supabase.from('group_reminders').insert({
-        group_id: selectedGroup.id,
+      // Rings at this wall-clock time in the creator's zone for everyone
+      const reminder = migrateLegacyRepeat({
+        id: uuidv4(),
         title: reminderTitle.trim(),
-        why: reminderWhy.trim() || null,
+        why: reminderWhy.trim(),
         time: reminderTime,
-        repeat: reminderRepeat,
+        repeat: reminderRepeat as RepeatType,
+        nextTrigger: 0,
         active: true,
-        created_by: user.id,
+        createdAt: Date.now(),
+        timeZone: getDeviceTimeZone(),
       });
+      reminder.nextTrigger = computeNextTrigger(reminder);
+
+      const { error } = await saveGroupReminder(reminder, selectedGroup.id, user.id);
 
       if (error) throw error;
 
@@ -321,11 +500,62 @@ export default function GroupRemindersPage() {
     }
   };
 
+  const toggleGroupMute = async () => {
+    if (!user || !selectedGroup) return;
+
+    const muted = !mutes.group;
+    setMutes({ ...mutes, group: muted });
+    await setGroupMuted(selectedGroup.id, user.id, muted);
+  };
+
+  const toggleReminderMute = async (reminderId: string) => {
+    if (!user || !selectedGroup) return;
+
+    const muted = !mutes.reminderIds.includes(reminderId);
+    setMutes({
+      ...mutes,
+      reminderIds: muted
+        ? [...mutes.reminderIds, reminderId]
+        : mutes.reminderIds.filter((id) => id !== reminderId),
+    });
+    await setGroupMuted(selectedGroup.id, user.id, muted, reminderId);
+  };
+
+  const toggleRoster = async (reminderId: string) => {
+    if (rosterReminderId === reminderId) {
+      setRosterReminderId(null);
+      return;
+    }
+
+    setRosterReminderId(reminderId);
+    setRoster([]);
+    setRoster(await getGroupReminderRoster(reminderId));
+  };
+
+  const memberName = (userId: string) => {
+    const member = selectedGroup?.members?.find((m) => m.user_id === userId);
+    return member ? member.name || member.email : 'Former member';
+  };
+
+  const changeStreakThreshold = (thresholdPct: number) => {
+    if (!selectedGroup) return;
+
+    setSelectedGroup({ ...selectedGroup, streak_threshold: thresholdPct });
+    setGroups((prev) =>
+      prev.map((g) => (g.id === selectedGroup.id ? { ...g, streak_threshold: thresholdPct } : g))
+    );
+  };
+
   const deleteReminder = async (reminderId: string) => {
     if (!confirm('Are you sure you want to delete this reminder?')) return;
 
     try {
-      const { error } = await supabase.from('group_reminders').delete().eq('id', reminderId);
+      const { error } = await runMutation({
+        table: 'group_reminders',
+        op: 'delete',
+        match: { id: reminderId },
+        label: 'Delete group reminder',
+      });
 
       if (error) throw error;
 
@@ -337,26 +567,34 @@ export default function GroupRemindersPage() {
     }
   };
 
-  const leaveGroup = async (groupId: string) => {
+  const leaveGroup = async (group: ReminderGroup) => {
     if (!user) return;
-    if (!confirm('Are you sure you want to leave this group?')) return;
+
+    const ownsGroup = group.created_by === user.id;
+    const othersRemain = (group.members?.length ?? group.member_count) > 1;
+    const message = !othersRemain
+      ? 'You are the last member. Leaving deletes this group. Continue?'
+      : ownsGroup
+        ? 'You own this group. If you leave, the longest-standing admin becomes the owner. Continue?'
+        : 'Are you sure you want to leave this group?';
+    if (!confirm(message)) return;
 
     try {
-      const { error } = await supabase
-        .from('group_members')
-        .delete()
-        .eq('group_id', groupId)
-        .eq('user_id', user.id);
+      const { error } = await leaveMembership(group.id);
 
       if (error) throw error;
 
       setSelectedGroup(null);
       fetchGroups();
-    } catch (err) {
+    } catch (err: any) {
       console.error('Failed to leave group:', err);
+      alert(err.message || 'Failed to leave the group. Please try again.');
     }
   };
 
+  const myRole = selectedGroup?.members?.find((m) => m.user_id === user?.id)?.role;
+  const isOwner = !!user && selectedGroup?.created_by === user.id;
+
   if (!isSupabaseConfigured) {
     return (
       <div className="space-y-6">
@@ -402,6 +640,72 @@ export default function GroupRemindersPage() {
         </button>
       </div>
 
+      {/* Opened from an invite link */}
+      {(linkPreview || linkInvalid) && (
+        <div className="bg-purple-50 border border-purple-200 rounded-xl p-4 flex items-center justify-between gap-4">
+          {linkPreview ? (
+            <p className="text-sm text-purple-900">
+              {linkPreview.inviterName || 'Someone'} invited you to join <strong>{linkPreview.groupName}</strong>.
+            </p>
+          ) : (
+            <p className="text-sm text-purple-900">This invite link has expired or been revoked.</p>
+          )}
+          <div className="flex gap-2 flex-shrink-0">
+            {linkPreview && (
+              <button
+                onClick={joinFromLink}
+                disabled={joining}
+                className="px-3 py-1.5 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50"
+              >
+                {joining ? 'Joining...' : 'Join Group'}
+              </button>
+            )}
+            <button
+              onClick={closeInviteLink}
+              className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50"
+            >
+              {linkPreview ? 'Not Now' : 'Dismiss'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Invitations to the signed-in user */}
+      {myInvites.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-2">
+            <Mail className="w-4 h-4 text-purple-600" />
+            <h2 className="font-semibold text-gray-900">Invitations ({myInvites.length})</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {myInvites.map((invite) => (
+              <div key={invite.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{invite.group_name}</p>
+                  <p className="text-xs text-gray-500">
+                    From {invite.inviter_name || 'a group admin'} · expires {new Date(invite.expires_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => respondToInvite(invite, true)}
+                    className="px-3 py-1.5 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    onClick={() => respondToInvite(invite, false)}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-50"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* How it works */}
       <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-xl p-6 border border-purple-100">
         <h3 className="font-semibold text-purple-900 mb-3">How Group Reminders Work</h3>
@@ -498,7 +802,7 @@ export default function GroupRemindersPage() {
                     </div>
                   </div>
                   <button
-                    onClick={() => leaveGroup(selectedGroup.id)}
+                    onClick={() => leaveGroup(selectedGroup)}
                     className="text-sm text-red-600 hover:text-red-800"
                   >
                     Leave Group
@@ -506,13 +810,15 @@ export default function GroupRemindersPage() {
                 </div>
 
                 <div className="flex gap-2">
-                  <button
-                    onClick={() => setShowAddMember(true)}
-                    className="flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 text-sm font-medium rounded-lg hover:bg-purple-200"
-                  >
-                    <UserPlus className="w-4 h-4" />
-                    Add Member
-                  </button>
+                  {myRole === 'admin' && (
+                    <button
+                      onClick={() => setShowAddMember(true)}
+                      className="flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 text-sm font-medium rounded-lg hover:bg-purple-200"
+                    >
+                      <UserPlus className="w-4 h-4" />
+                      Invite
+                    </button>
+                  )}
                   <button
                     onClick={() => setShowCreateReminder(true)}
                     className="flex items-center gap-2 px-3 py-2 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700"
@@ -520,9 +826,35 @@ export default function GroupRemindersPage() {
                     <Plus className="w-4 h-4" />
                     New Reminder
                   </button>
+                  <button
+                    onClick={toggleGroupMute}
+                    className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg ${
+                      mutes.group
+                        ? 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                        : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                    }`}
+                    title={mutes.group ? 'You get no calls from this group' : 'You get this group\'s calls'}
+                  >
+                    {mutes.group ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                    {mutes.group ? 'Muted' : 'Mute Calls'}
+                  </button>
                 </div>
               </div>
 
+              {/* Check-in board, streak and leaderboard */}
+              {selectedGroup.members && (
+                <GroupCheckInBoard
+                  groupId={selectedGroup.id}
+                  members={selectedGroup.members}
+                  reminders={groupReminders}
+                  streakThreshold={selectedGroup.streak_threshold ?? DEFAULT_STREAK_THRESHOLD}
+                  canEditThreshold={selectedGroup.members.some(
+                    (m) => m.user_id === user?.id && m.role === 'admin'
+                  )}
+                  onThresholdChange={changeStreakThreshold}
+                />
+              )}
+
               {/* Members */}
               <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
                 <div className="px-4 py-3 border-b border-gray-100">
@@ -544,24 +876,81 @@ export default function GroupRemindersPage() {
                             <span className="font-medium text-gray-900 text-sm">
                               {member.name || member.email}
                             </span>
-                            {member.role === 'admin' && (
-                              <Crown className="w-4 h-4 text-yellow-500" />
+                            {member.user_id === selectedGroup.created_by ? (
+                              <span title="Owner"><Crown className="w-4 h-4 text-yellow-500" /></span>
+                            ) : member.role === 'admin' && (
+                              <span title="Admin"><Shield className="w-4 h-4 text-purple-500" /></span>
                             )}
                           </div>
                           <span className="text-xs text-gray-500">{member.email}</span>
                         </div>
                       </div>
-                      {member.user_id !== user?.id && member.role !== 'admin' && (
-                        <button
-                          onClick={() => removeMember(member.id)}
-                          className="p-1.5 text-gray-400 hover:text-red-500"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                      {myRole === 'admin' && member.user_id !== user?.id && member.user_id !== selectedGroup.created_by && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => changeRole(member, member.role === 'admin' ? 'member' : 'admin')}
+                            className="px-2 py-1 text-xs font-medium text-purple-700 hover:bg-purple-50 rounded-lg"
+                          >
+                            {member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                          </button>
+                          {isOwner && (
+                            <button
+                              onClick={() => makeOwner(member)}
+                              className="px-2 py-1 text-xs font-medium text-purple-700 hover:bg-purple-50 rounded-lg"
+                            >
+                              Make owner
+                            </button>
+                          )}
+                          {member.role === 'member' && (
+                            <button
+                              onClick={() => removeMember(member.id)}
+                              className="p-1.5 text-gray-400 hover:text-red-500"
+                              title="Remove from group"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
                       )}
                     </div>
                   ))}
                 </div>
+
+                {/* Open invites (admins) */}
+                {groupInvites.length > 0 && (
+                  <div className="border-t border-gray-100 p-3 space-y-2">
+                    <p className="text-xs font-medium text-gray-500 uppercase">Invited</p>
+                    {groupInvites.map((invite) => (
+                      <div key={invite.id} className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2 text-gray-700">
+                          {invite.token ? <Link className="w-4 h-4 text-gray-400" /> : <Mail className="w-4 h-4 text-gray-400" />}
+                          {invite.token ? 'Invite link' : invite.invitee_email}
+                          <span className="text-xs text-gray-400">
+                            until {new Date(invite.expires_at).toLocaleDateString()}
+                          </span>
+                        </span>
+                        <div className="flex items-center gap-1">
+                          {invite.token && (
+                            <button
+                              onClick={() => copyInviteLink(inviteLinkUrl(invite.token!))}
+                              className="p-1.5 text-gray-400 hover:text-purple-600"
+                              title="Copy link"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => cancelInvite(invite.id)}
+                            className="p-1.5 text-gray-400 hover:text-red-500"
+                            title="Revoke"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
               {/* Reminders */}
@@ -578,31 +967,95 @@ export default function GroupRemindersPage() {
                   </div>
                 ) : (
                   <div className="divide-y divide-gray-100">
-                    {groupReminders.map((reminder) => (
-                      <div key={reminder.id} className="p-4">
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <h4 className="font-medium text-gray-900">{reminder.title}</h4>
-                            {reminder.why && (
-                              <p className="text-sm text-gray-600">{reminder.why}</p>
-                            )}
-                            <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
-                              <span className="flex items-center gap-1">
-                                <Clock className="w-3 h-3" />
-                                {reminder.time}
-                              </span>
-                              <span className="capitalize">{reminder.repeat}</span>
+                    {groupReminders.map((reminder) => {
+                      const muted = mutes.group || mutes.reminderIds.includes(reminder.id);
+
+                      return (
+                        <div key={reminder.id} className="p-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <h4 className="font-medium text-gray-900">{reminder.title}</h4>
+                              {reminder.why && (
+                                <p className="text-sm text-gray-600">{reminder.why}</p>
+                              )}
+                              <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+                                <span className="flex items-center gap-1">
+                                  <Clock className="w-3 h-3" />
+                                  {reminder.time}
+                                </span>
+                                <span className="capitalize">{reminder.repeat}</span>
+                                {reminder.active && reminder.next_trigger && (
+                                  <span>Next: {new Date(reminder.next_trigger).toLocaleString()}</span>
+                                )}
+                                {!reminder.active && <span>Finished</span>}
+                              </div>
+                            </div>
+                            <div className="flex items-center">
+                              <button
+                                onClick={() => toggleReminderMute(reminder.id)}
+                                disabled={mutes.group}
+                                className={`p-2 disabled:opacity-50 ${muted ? 'text-gray-400 hover:text-gray-600' : 'text-purple-600 hover:text-purple-800'}`}
+                                title={mutes.group ? 'The whole group is muted' : muted ? 'Unmute this reminder' : 'Mute this reminder'}
+                              >
+                                {muted ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                              </button>
+                              <button
+                                onClick={() => toggleRoster(reminder.id)}
+                                className={`p-2 ${rosterReminderId === reminder.id ? 'text-purple-600' : 'text-gray-400 hover:text-purple-600'}`}
+                                title="Who answered"
+                              >
+                                <ClipboardList className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => deleteReminder(reminder.id)}
+                                className="p-2 text-gray-400 hover:text-red-500"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
                             </div>
                           </div>
-                          <button
-                            onClick={() => deleteReminder(reminder.id)}
-                            className="p-2 text-gray-400 hover:text-red-500"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
+
+                          {/* Roster: one row per recent occurrence */}
+                          {rosterReminderId === reminder.id && (
+                            <div className="mt-3 space-y-2">
+                              {roster.length === 0 ? (
+                                <p className="text-xs text-gray-500">No calls yet</p>
+                              ) : (
+                                roster.map((occurrence) => (
+                                  <div key={occurrence.triggeredAt} className="p-2 bg-gray-50 rounded-lg">
+                                    <p className="text-xs font-medium text-gray-700 mb-1">
+                                      {new Date(occurrence.triggeredAt).toLocaleString()}
+                                    </p>
+                                    <div className="flex flex-wrap gap-1">
+                                      {occurrence.entries.map((entry) => (
+                                        <span
+                                          key={entry.userId}
+                                          className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                                            entry.status === 'answered'
+                                              ? 'bg-green-100 text-green-700'
+                                              : entry.status === 'pending' || entry.status === 'delivered'
+                                                ? 'bg-gray-100 text-gray-600'
+                                                : 'bg-red-100 text-red-700'
+                                          }`}
+                                          title={entry.answeredAt ? `Answered ${new Date(entry.answeredAt).toLocaleTimeString()}` : entry.status}
+                                        >
+                                          {entry.status === 'answered' ? (
+                                            <Check className="w-3 h-3" />
+                                          ) : entry.status === 'missed' || entry.status === 'expired' ? (
+                                            <PhoneMissed className="w-3 h-3" />
+                                          ) : null}
+                                          {memberName(entry.userId)}
+                                        </span>
+                                      ))}
+                                    </div>
+                                  </div>
+                                ))
+                              )}
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
@@ -627,7 +1080,7 @@ export default function GroupRemindersPage() {
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
               <div>
                 <h2 className="text-xl font-bold text-gray-900">
-                  {createGroupStep === 'details' ? 'Create Group' : 'Add Members'}
+                  {createGroupStep === 'details' ? 'Create Group' : 'Invite Members'}
                 </h2>
                 <p className="text-sm text-gray-500">
                   Step {createGroupStep === 'details' ? '1' : '2'} of 2
@@ -692,7 +1145,7 @@ export default function GroupRemindersPage() {
                 <>
                   <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
                     <p className="text-sm text-green-800">
-                      <strong>"{newGroupName}"</strong> created! Now add members to your group.
+                      <strong>"{newGroupName}"</strong> created! Now invite members. They join once they accept.
                     </p>
                   </div>
 
@@ -711,7 +1164,7 @@ export default function GroupRemindersPage() {
                   {pendingMembers.length > 0 && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Members to add ({pendingMembers.length})
+                        Members to invite ({pendingMembers.length})
                       </label>
                       <div className="space-y-2 max-h-40 overflow-y-auto">
                         {pendingMembers.map((member) => (
@@ -746,7 +1199,7 @@ export default function GroupRemindersPage() {
 
                   {pendingMembers.length === 0 && (
                     <p className="text-sm text-gray-500 text-center py-4">
-                      Search above to add members, or skip to finish creating your group.
+                      Search above to invite members, or skip to finish creating your group.
                     </p>
                   )}
                 </>
@@ -772,7 +1225,7 @@ export default function GroupRemindersPage() {
                     disabled={!newGroupName.trim() || creatingGroup}
                     className="flex-1 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50"
                   >
-                    {creatingGroup ? 'Creating...' : 'Next: Add Members'}
+                    {creatingGroup ? 'Creating...' : 'Next: Invite Members'}
                   </button>
                 </>
               ) : (
@@ -788,7 +1241,7 @@ export default function GroupRemindersPage() {
                     disabled={pendingMembers.length === 0 || addingMember}
                     className="flex-1 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50"
                   >
-                    {addingMember ? 'Adding...' : `Add ${pendingMembers.length} Member${pendingMembers.length !== 1 ? 's' : ''}`}
+                    {addingMember ? 'Inviting...' : `Invite ${pendingMembers.length} Member${pendingMembers.length !== 1 ? 's' : ''}`}
                   </button>
                 </>
               )}
@@ -802,8 +1255,8 @@ export default function GroupRemindersPage() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h2 className="text-xl font-bold text-gray-900">Add Member</h2>
-              <button onClick={() => { setShowAddMember(false); setSelectedUser(null); }} className="p-2 hover:bg-gray-100 rounded-lg">
+              <h2 className="text-xl font-bold text-gray-900">Invite to {selectedGroup?.name}</h2>
+              <button onClick={closeAddMember} className="p-2 hover:bg-gray-100 rounded-lg">
                 <X className="w-5 h-5 text-gray-500" />
               </button>
             </div>
@@ -819,21 +1272,52 @@ export default function GroupRemindersPage() {
                   <p className="text-sm text-gray-600">{selectedUser.email}</p>
                 </div>
               )}
+
+              <p className="text-sm text-gray-500">
+                They'll get an invitation and join once they accept.
+              </p>
+
+              {/* Invite link */}
+              <div className="pt-4 border-t border-gray-200">
+                {inviteLink ? (
+                  <div className="flex items-center gap-2">
+                    <input type="text" value={inviteLink} readOnly className="input flex-1 text-sm" />
+                    <button
+                      onClick={() => copyInviteLink(inviteLink)}
+                      className="p-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200"
+                      title="Copy link"
+                    >
+                      {linkCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={makeInviteLink}
+                    className="flex items-center gap-2 text-sm font-medium text-purple-600 hover:text-purple-800"
+                  >
+                    <Link className="w-4 h-4" />
+                    Create an invite link instead
+                  </button>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  Anyone signed in with the link can join for the next 7 days.
+                </p>
+              </div>
             </div>
 
             <div className="flex gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-2xl">
               <button
-                onClick={() => { setShowAddMember(false); setSelectedUser(null); }}
+                onClick={closeAddMember}
                 className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50"
               >
-                Cancel
+                {inviteLink ? 'Done' : 'Cancel'}
               </button>
               <button
                 onClick={addMember}
                 disabled={!selectedUser || addingMember}
                 className="flex-1 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50"
               >
-                {addingMember ? 'Adding...' : 'Add Member'}
+                {addingMember ? 'Sending...' : 'Send Invite'}
               </button>
             </div>
           </div>
@@ -908,7 +1392,7 @@ export default function GroupRemindersPage() {
               </div>
 
               <p className="text-sm text-gray-500">
-                All group members will receive this reminder at the scheduled time.
+                All group members get a call at the scheduled time, unless they've muted it.
               </p>
             </div>
 
@@ -17,6 +17,8 @@ interface HeaderProps {
   isSyncing?: boolean;
   onSyncClick?: () => void;
   lastSyncAt?: number | null;
+  pendingWrites?: number;
+  failedWrites?: number;
 }
 
 // Check if beta features are enabled
@@ -45,6 +47,8 @@ export default function Header({
   isSyncing = false,
   onSyncClick,
   lastSyncAt,
+  pendingWrites = 0,
+  failedWrites = 0,
 }: HeaderProps) {
   const { user } = useAuth();
   const [now, setNow] = useState(new Date());
@@ -236,19 +240,34 @@ export default function Header({
                 className={`relative p-1.5 rounded-full bg-white focus:outline-none transition-colors ${
                   isSyncing
                     ? 'text-indigo-500'
-                    : lastSyncAt
-                      ? 'text-green-500 hover:text-green-600'
-                      : 'text-gray-400 hover:text-gray-500'
+                    : failedWrites > 0
+                      ? 'text-red-500 hover:text-red-600'
+                      : pendingWrites > 0
+                        ? 'text-amber-500 hover:text-amber-600'
+                        : lastSyncAt
+                          ? 'text-green-500 hover:text-green-600'
+                          : 'text-gray-400 hover:text-gray-500'
                 }`}
                 title={
                   isSyncing
                     ? 'Syncing...'
-                    : lastSyncAt
-                      ? `Last synced: ${new Date(lastSyncAt).toLocaleTimeString()}`
-                      : 'Sync reminders'
+                    : failedWrites > 0
+                      ? `${failedWrites} change${failedWrites === 1 ? '' : 's'} failed to save - click to retry`
+                      : pendingWrites > 0
+                        ? `${pendingWrites} change${pendingWrites === 1 ? '' : 's'} waiting for a connection`
+                        : lastSyncAt
+                          ? `Last synced: ${new Date(lastSyncAt).toLocaleTimeString()}`
+                          : 'Sync reminders'
                 }
               >
                 <RefreshCw className={`h-5 w-5 ${isSyncing ? 'animate-spin' : ''}`} />
+                {(failedWrites > 0 || pendingWrites > 0) && (
+                  <span className={`absolute -top-1 -right-1 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center ${
+                    failedWrites > 0 ? 'bg-red-500' : 'bg-amber-500'
+                  }`}>
+                    {failedWrites > 0 ? failedWrites : pendingWrites}
+                  </span>
+                )}
               </button>
             )}
 
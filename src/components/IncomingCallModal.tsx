@@ -2,6 +2,8 @@ import { Phone, PhoneOff, User, Clock, Sparkles } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import logger from '../utils/logger';
+import { generateAlarm } from '../utils/ringtones';
+import { DEFAULT_RING_VOLUME, RingStyle } from '../utils/escalationPolicy';
 
 interface IncomingCallModalProps {
   reminderTitle: string;
@@ -10,10 +12,12 @@ interface IncomingCallModalProps {
   onAnswer: () => void;
   onDecline: () => void;
   onSnooze?: (minutes: number) => void;
+  ringStyle?: RingStyle; // Escalated calls ring with an alarm and/or louder
   // Optional: for calls from other users
   senderName?: string;
   senderEmail?: string;
   isFromOther?: boolean;
+  isMotivation?: boolean; // A partner calling to cheer the user on
 }
 
 // Snooze options in minutes
@@ -26,19 +30,50 @@ export default function IncomingCallModal({
   onAnswer,
   onDecline,
   onSnooze,
+  ringStyle,
   senderName,
   senderEmail,
   isFromOther = false,
+  isMotivation = false,
 }: IncomingCallModalProps) {
   const [isRinging, setIsRinging] = useState(true);
   const [showSnoozeOptions, setShowSnoozeOptions] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  const alarm = ringStyle?.alarm ?? false;
+  const volume = ringStyle?.volume ?? DEFAULT_RING_VOLUME;
+
   useEffect(() => {
+    if (alarm) {
+      // Escalated call: loop the generated alarm instead of the ringtone
+      const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+      if (AudioContextClass) {
+        const audioContext = new AudioContextClass();
+        const source = audioContext.createBufferSource();
+        const gain = audioContext.createGain();
+        source.buffer = generateAlarm(audioContext);
+        source.loop = true;
+        gain.gain.value = volume;
+        source.connect(gain);
+        gain.connect(audioContext.destination);
+        source.start();
+
+        return () => {
+          try {
+            source.stop();
+          } catch {
+            // Ignore if already stopped
+          }
+          audioContext.close().catch(() => {});
+        };
+      }
+    }
+
     // Play ringtone - use ref to properly manage audio lifecycle
     const audio = new Audio('/ringtone.mp3');
     audioRef.current = audio;
     audio.loop = true;
+    audio.volume = volume;
     audio.play().catch((error) => {
       logger.warn('Failed to play ringtone:', error);
     });
@@ -50,7 +85,7 @@ export default function IncomingCallModal({
         audioRef.current = null;
       }
     };
-  }, []);
+  }, [alarm, volume]);
 
   const handleSnooze = (minutes: number) => {
     if (onSnooze) {
@@ -184,7 +219,9 @@ export default function IncomingCallModal({
               <Phone className="w-4 h-4 text-green-400" />
             </motion.div>
             <span className="text-sm">
-              {isFromOther
+              {isMotivation
+                ? 'is calling to cheer you on...'
+                : isFromOther
                 ? 'is sending you a reminder...'
                 : recallAttempt > 1
                   ? 'Calling again...'
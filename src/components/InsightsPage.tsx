@@ -1,17 +1,12 @@
 import { useState, useEffect } from 'react';
 import { TrendingUp, Phone, CheckCircle, Clock, Target, Award, BarChart3 } from 'lucide-react';
-import {
-  getAllCallHistory,
-  getAllCompletionPrompts,
-  type CallHistoryEntry,
-  type CompletionPrompt,
-} from '../db/reminderDB';
+import { getAllOccurrences, type OccurrenceRecord } from '../db/reminderDB';
+import { summarizeOccurrences } from '../utils/occurrences';
 
 type TimeRange = 'today' | 'week' | 'month' | 'all';
 
 export default function InsightsPage() {
-  const [callHistory, setCallHistory] = useState<CallHistoryEntry[]>([]);
-  const [completionPrompts, setCompletionPrompts] = useState<CompletionPrompt[]>([]);
+  const [occurrences, setOccurrences] = useState<OccurrenceRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<TimeRange>('all');
 
@@ -22,12 +17,7 @@ export default function InsightsPage() {
   const loadData = async () => {
     setLoading(true);
     try {
-      const [calls, prompts] = await Promise.all([
-        getAllCallHistory(),
-        getAllCompletionPrompts(),
-      ]);
-      setCallHistory(calls);
-      setCompletionPrompts(prompts);
+      setOccurrences(await getAllOccurrences());
     } catch (error) {
       console.error('Failed to load insights data:', error);
     } finally {
@@ -56,19 +46,20 @@ export default function InsightsPage() {
 
   const timeRangeBoundary = getTimeRangeBoundary(timeRange);
 
-  // Filter data based on time range
-  const filteredCallHistory = callHistory.filter(c => c.timestamp >= timeRangeBoundary);
-  const filteredCompletionPrompts = completionPrompts.filter(p => p.promptedAt >= timeRangeBoundary);
+  // Filter data based on time range (by when each occurrence was due)
+  const filteredOccurrences = occurrences.filter(o => o.scheduledAt >= timeRangeBoundary);
+  const summary = summarizeOccurrences(filteredOccurrences);
 
   // Calculate statistics
   const stats = {
-    totalCalls: filteredCallHistory.length,
-    answeredCalls: filteredCallHistory.filter(c => c.answered).length,
-    missedCalls: filteredCallHistory.filter(c => !c.answered).length,
-    // For completion, count prompts that user responded to (completed OR skipped with response)
-    totalPrompts: filteredCompletionPrompts.filter(p => p.respondedAt).length,
-    completedTasks: filteredCompletionPrompts.filter(p => p.completed).length,
-    recallAttempts: filteredCallHistory.filter(c => (c.recallAttempt || 1) > 1).length,
+    totalCalls: summary.calls,
+    answeredCalls: summary.answeredCalls,
+    missedCalls: summary.missedCalls,
+    // For completion, count occurrences the user said whether they did (done, not done or
+    // skipped) and ones missed outright, including those that never rang
+    totalPrompts: summary.due,
+    completedTasks: summary.completed,
+    recallAttempts: summary.recalls,
   };
 
   // Answer rate based on actual calls
@@ -97,13 +88,7 @@ export default function InsightsPage() {
   }
 
   // Average call duration
-  const durationsMs = filteredCallHistory
-    .filter(c => c.duration && c.duration > 0)
-    .map(c => c.duration!);
-  const avgDurationMs = durationsMs.length > 0
-    ? durationsMs.reduce((sum, d) => sum + d, 0) / durationsMs.length
-    : 0;
-  const avgDurationSec = Math.round(avgDurationMs / 1000);
+  const avgDurationSec = Math.round(summary.averageCallMs / 1000);
 
   // Get score color and label
   const getScoreColor = (score: number) => {
@@ -139,20 +124,16 @@ export default function InsightsPage() {
       const dayStart = date.getTime();
       const dayEnd = dayStart + 24 * 60 * 60 * 1000;
 
-      const dayCalls = callHistory.filter(c => c.timestamp >= dayStart && c.timestamp < dayEnd);
-      const dayPrompts = completionPrompts.filter(p => p.promptedAt >= dayStart && p.promptedAt < dayEnd && p.respondedAt);
-
-      const dayAnswered = dayCalls.filter(c => c.answered).length;
-      const dayCompleted = dayPrompts.filter(p => p.completed).length;
+      const day = summarizeOccurrences(occurrences.filter(o => o.scheduledAt >= dayStart && o.scheduledAt < dayEnd));
 
-      const dayAnswerRate = dayCalls.length > 0 ? Math.round((dayAnswered / dayCalls.length) * 100) : 0;
-      const dayCompletionRate = dayPrompts.length > 0 ? Math.round((dayCompleted / dayPrompts.length) * 100) : 0;
+      const dayAnswerRate = day.calls > 0 ? Math.round((day.answeredCalls / day.calls) * 100) : 0;
+      const dayCompletionRate = day.due > 0 ? Math.round((day.completed / day.due) * 100) : 0;
 
       // Calculate day score - reward answering even without check-ins
       let dayScore: number;
-      if (dayPrompts.length > 0) {
+      if (day.due > 0) {
         dayScore = Math.round((dayAnswerRate + dayCompletionRate) / 2);
-      } else if (dayCalls.length > 0) {
+      } else if (day.calls > 0) {
         dayScore = Math.round(dayAnswerRate * 0.7);
       } else {
         dayScore = 0;
@@ -161,8 +142,8 @@ export default function InsightsPage() {
       days.push({
         date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
         score: dayScore,
-        calls: dayCalls.length,
-        answered: dayAnswered,
+        calls: day.calls,
+        answered: day.answeredCalls,
       });
     }
 
@@ -179,7 +160,7 @@ export default function InsightsPage() {
     );
   }
 
-  if (stats.totalCalls === 0) {
+  if (summary.occurrences === 0) {
     return (
       <div className="text-center py-12">
         <TrendingUp className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -231,7 +212,7 @@ export default function InsightsPage() {
           </div>
         </div>
         <p className="text-xs text-gray-600 mt-2">
-          {stats.totalCalls} calls · {stats.totalPrompts} check-ins
+          {summary.occurrences} reminders · {stats.totalCalls} calls · {summary.checkedIn} check-ins
         </p>
       </div>
 
@@ -269,7 +250,7 @@ export default function InsightsPage() {
           </div>
           <p className="text-sm font-medium text-gray-600">Avg Call Time</p>
           <p className="text-xs text-gray-500 mt-1">
-            {durationsMs.length} calls tracked
+            {summary.timedCalls} calls tracked
           </p>
         </div>
 
@@ -442,6 +423,15 @@ export default function InsightsPage() {
               <span className="text-xs text-gray-500">({100 - answerRate}%)</span>
             </div>
           </div>
+          {summary.neverRang > 0 && (
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-gray-400 rounded-full"></div>
+                <span className="text-sm text-gray-700">Never rang (app closed)</span>
+              </div>
+              <span className="text-sm font-semibold text-gray-900">{summary.neverRang}</span>
+            </div>
+          )}
         </div>
 
         {/* Simple Progress Bar */}
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2, Play, Mic, MessageSquare, X } from 'lucide-react';
+import {
+  LibraryMessage,
+  createRecordedMessage,
+  createTextMessage,
+  deleteMessage,
+  getMessages,
+} from '../services/messageLibrary';
+import { playAudioAsset } from '../services/audioAssets';
+import { MESSAGE_MOODS } from '../utils/messageRotation';
+import AudioRecorder from './AudioRecorder';
+
+type MessageKind = LibraryMessage['kind'];
+
+export default function MessageLibrary() {
+  const [messages, setMessages] = useState<LibraryMessage[]>([]);
+  const [moodFilter, setMoodFilter] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState('');
+
+  // New message form
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<MessageKind>('recording');
+  const [text, setText] = useState('');
+  const [audioAssetId, setAudioAssetId] = useState<string | undefined>(undefined);
+  const [moods, setMoods] = useState<string[]>([]);
+  const [customMood, setCustomMood] = useState('');
+
+  const loadMessages = async () => {
+    setMessages(await getMessages());
+  };
+
+  useEffect(() => {
+    loadMessages();
+  }, []);
+
+  // Suggested moods plus any the user has made up
+  const allMoods = useMemo(
+    () => Array.from(new Set([...MESSAGE_MOODS, ...messages.flatMap((message) => message.moods)])),
+    [messages]
+  );
+
+  const visible = moodFilter
+    ? messages.filter((message) => message.moods.includes(moodFilter))
+    : messages;
+
+  const resetForm = () => {
+    setName('');
+    setKind('recording');
+    setText('');
+    setAudioAssetId(undefined);
+    setMoods([]);
+    setCustomMood('');
+    setError('');
+    setIsAdding(false);
+  };
+
+  const toggleMood = (mood: string) => {
+    setMoods(moods.includes(mood) ? moods.filter((m) => m !== mood) : [...moods, mood]);
+  };
+
+  const addCustomMood = () => {
+    const mood = customMood.trim().toLowerCase();
+    if (mood && !moods.includes(mood)) {
+      setMoods([...moods, mood]);
+    }
+    setCustomMood('');
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Give the message a name');
+      return;
+    }
+
+    try {
+      if (kind === 'recording') {
+        if (!audioAssetId) {
+          setError('Record the message first');
+          return;
+        }
+        await createRecordedMessage(name, audioAssetId, moods);
+      } else {
+        if (!text.trim()) {
+          setError('Write the message first');
+          return;
+        }
+        await createTextMessage(name, text, moods);
+      }
+      resetForm();
+      await loadMessages();
+    } catch (err) {
+      console.error('Failed to save message:', err);
+      setError('Failed to save message. Please try again.');
+    }
+  };
+
+  const handleDelete = async (message: LibraryMessage) => {
+    if (!confirm(`Delete "${message.name}"? Reminders using it will skip it.`)) return;
+    await deleteMessage(message.id);
+    await loadMessages();
+  };
+
+  const handlePlay = (message: LibraryMessage) => {
+    if (message.audioAssetId) {
+      playAudioAsset(message.audioAssetId).catch((err) => console.error('Failed to play message:', err));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Message Library</h3>
+          <p className="text-sm text-gray-600">
+            Recordings and scripts your reminders and panic button can rotate through.
+          </p>
+        </div>
+        {!isAdding && (
+          <button type="button" onClick={() => setIsAdding(true)} className="btn-primary flex items-center gap-1.5">
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">New message</span>
+            <button type="button" onClick={resetForm} className="p-1 hover:bg-gray-100 rounded" aria-label="Cancel">
+              <X className="w-4 h-4 text-gray-500" />
+            </button>
+          </div>
+
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Morning pep talk"
+            className="input"
+            maxLength={100}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { value: 'recording' as const, label: 'Recording', icon: Mic },
+              { value: 'text' as const, label: 'Text', icon: MessageSquare },
+            ]).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setKind(value)}
+                className={`flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                  kind === value
+                    ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'recording' ? (
+            <AudioRecorder
+              onRecordingComplete={setAudioAssetId}
+              existingAssetId={audioAssetId}
+              onClearRecording={() => setAudioAssetId(undefined)}
+            />
+          ) : (
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="What should your future self hear?"
+              className="input min-h-[80px] resize-none"
+              rows={3}
+              maxLength={1000}
+            />
+          )}
+
+          <div>
+            <label className="label">Mood</label>
+            <div className="flex flex-wrap gap-1.5">
+              {Array.from(new Set([...allMoods, ...moods])).map((mood) => (
+                <button
+                  key={mood}
+                  type="button"
+                  onClick={() => toggleMood(mood)}
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-all ${
+                    moods.includes(mood)
+                      ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {mood}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={customMood}
+                onChange={(e) => setCustomMood(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addCustomMood();
+                  }
+                }}
+                placeholder="Add your own mood"
+                className="input flex-1"
+                maxLength={30}
+              />
+              <button type="button" onClick={addCustomMood} className="btn-secondary">
+                Add
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button type="button" onClick={handleSave} className="btn-primary w-full">
+            Save message
+          </button>
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {allMoods.filter((mood) => messages.some((message) => message.moods.includes(mood))).map((mood) => (
+            <button
+              key={mood}
+              type="button"
+              onClick={() => setMoodFilter(moodFilter === mood ? null : mood)}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-all ${
+                moodFilter === mood
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {mood}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {messages.length === 0 && !isAdding ? (
+        <p className="text-sm text-gray-500">No messages yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((message) => (
+            <div key={message.id} className="flex items-start gap-3 p-3 border border-gray-200 rounded-lg">
+              {message.kind === 'recording' ? (
+                <Mic className="w-4 h-4 mt-0.5 text-indigo-600 flex-shrink-0" />
+              ) : (
+                <MessageSquare className="w-4 h-4 mt-0.5 text-indigo-600 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{message.name}</p>
+                {message.text && <p className="text-xs text-gray-600 line-clamp-2">{message.text}</p>}
+                {message.moods.length > 0 && (
+                  <p className="text-xs text-gray-400">{message.moods.join(', ')}</p>
+                )}
+              </div>
+              {message.audioAssetId && (
+                <button
+                  type="button"
+                  onClick={() => handlePlay(message)}
+                  className="p-1.5 hover:bg-gray-100 rounded"
+                  aria-label={`Play ${message.name}`}
+                >
+                  <Play className="w-4 h-4 text-gray-600" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleDelete(message)}
+                className="p-1.5 hover:bg-red-50 rounded"
+                aria-label={`Delete ${message.name}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Mic, MessageSquare } from 'lucide-react';
+import { LibraryMessage, getMessages } from '../services/messageLibrary';
+import { DEFAULT_MESSAGE_ROTATION, MESSAGE_ROTATION_LABELS, MessageRotation } from '../utils/messageRotation';
+
+interface MessagePickerProps {
+  selectedIds: string[];
+  rotation?: MessageRotation;
+  onChange: (ids: string[], rotation?: MessageRotation) => void;
+  label?: string;
+}
+
+export default function MessagePicker({
+  selectedIds,
+  rotation,
+  onChange,
+  label = 'Messages from your library',
+}: MessagePickerProps) {
+  const [messages, setMessages] = useState<LibraryMessage[]>([]);
+  const [moodFilter, setMoodFilter] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMessages().then(setMessages);
+  }, []);
+
+  const moods = useMemo(
+    () => Array.from(new Set(messages.flatMap((message) => message.moods))).sort(),
+    [messages]
+  );
+
+  const visible = moodFilter
+    ? messages.filter((message) => message.moods.includes(moodFilter) || selectedIds.includes(message.id))
+    : messages;
+
+  const toggle = (id: string) => {
+    const ids = selectedIds.includes(id)
+      ? selectedIds.filter((selected) => selected !== id)
+      : [...selectedIds, id];
+    onChange(ids, rotation);
+  };
+
+  if (messages.length === 0) {
+    return (
+      <div>
+        <label className="label">{label}</label>
+        <p className="text-xs text-gray-500">
+          Add recordings or text messages in Settings → Messages to rotate through them here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="label">{label}</label>
+
+      {moods.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {moods.map((mood) => (
+            <button
+              key={mood}
+              type="button"
+              onClick={() => setMoodFilter(moodFilter === mood ? null : mood)}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-all ${
+                moodFilter === mood
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {mood}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5 max-h-48 overflow-y-auto">
+        {visible.map((message) => {
+          const selected = selectedIds.includes(message.id);
+          const Icon = message.kind === 'recording' ? Mic : MessageSquare;
+          return (
+            <button
+              key={message.id}
+              type="button"
+              onClick={() => toggle(message.id)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg border-2 text-left text-sm transition-all ${
+                selected
+                  ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                  : 'border-gray-200 text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              <Icon className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1 truncate">{message.name}</span>
+              {message.moods.length > 0 && (
+                <span className="text-xs text-gray-400 truncate">{message.moods.join(', ')}</span>
+              )}
+              {selected && <Check className="w-4 h-4 flex-shrink-0" />}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedIds.length > 1 && (
+        <select
+          value={rotation ?? DEFAULT_MESSAGE_ROTATION}
+          onChange={(e) => onChange(selectedIds, e.target.value as MessageRotation)}
+          className="input mt-2"
+          aria-label="Rotation"
+        >
+          {(Object.keys(MESSAGE_ROTATION_LABELS) as MessageRotation[]).map((value) => (
+            <option key={value} value={value}>
+              {MESSAGE_ROTATION_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <p className="mt-1 text-xs text-gray-500">
+        {selectedIds.length === 0 && 'None selected - the call uses your recording or a generated script'}
+        {selectedIds.length === 1 && 'This message plays on every call'}
+        {selectedIds.length > 1 && `Rotates through ${selectedIds.length} messages`}
+      </p>
+    </div>
+  );
+}
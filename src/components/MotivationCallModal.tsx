@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { X, Phone, Moon, MessageSquare, Mic, Library } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import AudioRecorder from './AudioRecorder';
+import MessagePicker from './MessagePicker';
+import { CallPreferences, getCallPreferences } from '../services/supabaseSync';
+import { MotivationContent, sendMotivationCall } from '../services/partnerNotifications';
+import { formatQuietHours, isInQuietHours } from '../utils/quietHours';
+
+interface MotivationCallModalProps {
+  partnershipId: string;
+  partnerId: string; // Who gets the call
+  partnerName: string;
+  onClose: () => void;
+  onSent: () => void;
+}
+
+type ContentKind = MotivationContent['kind'];
+
+const CONTENT_OPTIONS: { value: ContentKind; label: string; icon: typeof MessageSquare }[] = [
+  { value: 'text', label: 'Type it', icon: MessageSquare },
+  { value: 'recording', label: 'Record it', icon: Mic },
+  { value: 'library', label: 'From library', icon: Library },
+];
+
+export default function MotivationCallModal({
+  partnershipId,
+  partnerId,
+  partnerName,
+  onClose,
+  onSent,
+}: MotivationCallModalProps) {
+  const { user } = useAuth();
+  const [kind, setKind] = useState<ContentKind>('text');
+  const [text, setText] = useState('');
+  const [audioAssetId, setAudioAssetId] = useState<string | undefined>();
+  const [messageId, setMessageId] = useState<string | undefined>();
+  const [preferences, setPreferences] = useState<CallPreferences | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCallPreferences(partnerId).then(setPreferences);
+  }, [partnerId]);
+
+  // Same checks the server makes; shown up front so nothing is recorded for nothing
+  const quiet = preferences?.quietHours && isInQuietHours(preferences.quietHours, preferences.timeZone || undefined)
+    ? preferences.quietHours
+    : null;
+  const callsOff = preferences?.motivationCallsPerDay === 0;
+
+  const content: MotivationContent | null =
+    kind === 'text' ? (text.trim() ? { kind, text: text.trim() } : null)
+      : kind === 'recording' ? (audioAssetId ? { kind, audioAssetId } : null)
+        : messageId ? { kind, messageId } : null;
+
+  const handleSend = async () => {
+    if (!user || !content) return;
+
+    setSending(true);
+    setError(null);
+
+    const { error } = await sendMotivationCall(user.id, partnershipId, content);
+
+    setSending(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    onSent();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">Call {partnerName}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-800 text-sm">
+              {error}
+            </div>
+          )}
+
+          {quiet && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm flex items-start gap-2">
+              <Moon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                {partnerName} is in quiet hours ({formatQuietHours(quiet)} their time). Try again after {quiet.end}.
+              </span>
+            </div>
+          )}
+
+          {callsOff && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm">
+              {partnerName} has turned off motivation calls.
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            {CONTENT_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setKind(value)}
+                className={`flex flex-col items-center gap-1 px-2 py-2 rounded-lg border-2 text-xs font-medium transition-all ${
+                  kind === value
+                    ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                    : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'text' && (
+            <div>
+              <label className="label">What should the call say?</label>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="input min-h-[96px]"
+                placeholder="You've got this! One step at a time."
+                maxLength={500}
+              />
+            </div>
+          )}
+
+          {kind === 'recording' && (
+            <AudioRecorder
+              existingAssetId={audioAssetId}
+              onRecordingComplete={setAudioAssetId}
+              onClearRecording={() => setAudioAssetId(undefined)}
+            />
+          )}
+
+          {kind === 'library' && (
+            <MessagePicker
+              selectedIds={messageId ? [messageId] : []}
+              onChange={(ids) => setMessageId(ids[ids.length - 1])}
+              label="Pick a message"
+            />
+          )}
+
+          <p className="text-sm text-gray-500">
+            It rings {partnerName} right away, like a reminder from you.
+          </p>
+        </div>
+
+        <div className="flex gap-3 p-6 border-t border-gray-200 bg-gray-50 rounded-b-2xl">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-white border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!content || sending || !!quiet || callsOff}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {sending ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                Calling...
+              </>
+            ) : (
+              <>
+                <Phone className="w-5 h-5" />
+                Call them now
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
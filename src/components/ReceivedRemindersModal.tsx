@@ -3,6 +3,7 @@ import { X, Play, Phone, User, Clock, Check, XCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { PendingCall } from '../services/supabaseSync';
+import { playAudioAsset } from '../services/audioAssets';
 import { speakWithBrowser, speakWithOpenAI, generateReminderSpeech } from '../utils/textToSpeech';
 
 interface ReceivedRemindersModalProps {
@@ -46,8 +47,11 @@ export default function ReceivedRemindersModal({ onClose }: ReceivedRemindersMod
     setPlayingId(call.id);
 
     try {
-      // Check if there's custom audio
-      if (call.use_custom_audio && call.audio_recording) {
+      // Check if there's custom audio (older calls carry it inline as base64)
+      if (call.use_custom_audio && call.audio_asset_id) {
+        await playAudioAsset(call.audio_asset_id);
+        setPlayingId(null);
+      } else if (call.use_custom_audio && call.audio_recording) {
         const audio = new Audio(call.audio_recording);
         audio.onended = () => setPlayingId(null);
         audio.onerror = () => {
@@ -0,0 +1,370 @@
+import { useMemo, useState } from 'react';
+import { CalendarX, Plus, X } from 'lucide-react';
+import {
+  RecurrenceRule,
+  Frequency,
+  ByDay,
+  defaultDtstart,
+  describeRule,
+  listOccurrences,
+  occurrencesOnDays,
+  toDateKey,
+} from '../utils/recurrence';
+import { fromZonedWallTime, toZonedWallTime } from '../utils/timeZone';
+
+interface RecurrenceEditorProps {
+  time: string; // HH:MM the rule fires at
+  timeZone?: string; // IANA zone `time` is in, device zone if omitted
+  rule: RecurrenceRule;
+  skipDates: string[]; // YYYY-MM-DD dates to leave out of the series
+  onChange: (rule: RecurrenceRule) => void;
+  onSkipDatesChange: (dates: string[]) => void;
+}
+
+type MonthlyMode = 'day' | 'weekday';
+type EndMode = 'never' | 'until' | 'count';
+type WeekdayKind = 'weekday' | 'weekend' | number;
+
+const DAYS_OF_WEEK = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+];
+
+const FREQUENCY_OPTIONS: { value: Frequency; unit: string }[] = [
+  { value: 'HOURLY', unit: 'hour' },
+  { value: 'DAILY', unit: 'day' },
+  { value: 'WEEKLY', unit: 'week' },
+  { value: 'MONTHLY', unit: 'month' },
+  { value: 'YEARLY', unit: 'year' },
+];
+
+const POSITIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const WEEKDAY_SET = [1, 2, 3, 4, 5];
+const WEEKEND_SET = [0, 6];
+
+// Work out which "On the [position] [kind]" choice a monthly rule represents
+function readWeekdayRule(rule: RecurrenceRule): { position: number; kind: WeekdayKind } {
+  const byDay = rule.byDay || [];
+  const weekdays = byDay.map(d => d.weekday).sort((a, b) => a - b).join(',');
+
+  if (rule.bySetPos?.length) {
+    const position = rule.bySetPos[0];
+    if (weekdays === WEEKDAY_SET.join(',')) return { position, kind: 'weekday' };
+    if (weekdays === WEEKEND_SET.join(',')) return { position, kind: 'weekend' };
+  }
+
+  return { position: byDay[0]?.ordinal ?? 1, kind: byDay[0]?.weekday ?? 1 };
+}
+
+function weekdayRuleParts(position: number, kind: WeekdayKind): Pick<RecurrenceRule, 'byDay' | 'bySetPos'> {
+  if (kind === 'weekday' || kind === 'weekend') {
+    const days = kind === 'weekday' ? WEEKDAY_SET : WEEKEND_SET;
+    return { byDay: days.map(weekday => ({ weekday })), bySetPos: [position] };
+  }
+  return { byDay: [{ weekday: kind, ordinal: position }], bySetPos: undefined };
+}
+
+export default function RecurrenceEditor({ time, timeZone, rule, skipDates, onChange, onSkipDatesChange }: RecurrenceEditorProps) {
+  const [newSkipDate, setNewSkipDate] = useState('');
+
+  const dtstart = useMemo(() => defaultDtstart(time, [rule], Date.now(), timeZone), [time, rule, timeZone]);
+  const start = toZonedWallTime(dtstart, timeZone);
+  const startDate = new Date(start.year, start.month, start.day);
+
+  const monthlyMode: MonthlyMode = rule.byDay?.length ? 'weekday' : 'day';
+  const endMode: EndMode = rule.count !== undefined ? 'count' : rule.until !== undefined ? 'until' : 'never';
+  const { position, kind } = readWeekdayRule(rule);
+
+  const preview = useMemo(() => {
+    try {
+      const recurrence = { rules: [rule], dtstart, timeZone };
+      const exdates = occurrencesOnDays(recurrence, skipDates);
+      return listOccurrences({ ...recurrence, exdates }, Date.now(), 3);
+    } catch {
+      return [];
+    }
+  }, [rule, dtstart, skipDates, timeZone]);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    onChange({ ...rule, ...changes });
+  };
+
+  const handleFrequencyChange = (freq: Frequency) => {
+    // Reset day selectors so the new frequency starts from a sensible default
+    const base: RecurrenceRule = {
+      freq,
+      interval: 1,
+      weekStart: rule.weekStart,
+      count: rule.count,
+      until: rule.until,
+    };
+    if (freq === 'WEEKLY') {
+      base.byDay = [{ weekday: startDate.getDay() }];
+    } else if (freq === 'MONTHLY') {
+      base.byMonthDay = [startDate.getDate()];
+    }
+    onChange(base);
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const current = (rule.byDay || []).map(d => d.weekday);
+    if (current.includes(weekday)) {
+      if (current.length === 1) return; // Keep at least one day selected
+      update({ byDay: (rule.byDay || []).filter(d => d.weekday !== weekday) });
+    } else {
+      const byDay: ByDay[] = [...current, weekday].sort((a, b) => a - b).map(d => ({ weekday: d }));
+      update({ byDay });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') {
+      update({ count: undefined, until: undefined });
+    } else if (mode === 'count') {
+      update({ count: rule.count ?? 10, until: undefined });
+    } else {
+      // Default to the end of the day one month after the series starts
+      const until = fromZonedWallTime({ ...start, month: start.month + 1, hour: 23, minute: 59 }, timeZone);
+      update({ count: undefined, until });
+    }
+  };
+
+  const addSkipDate = () => {
+    if (!newSkipDate || skipDates.includes(newSkipDate)) return;
+    onSkipDatesChange([...skipDates, newSkipDate].sort());
+    setNewSkipDate('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Frequency & Interval */}
+      <div>
+        <label className="label text-sm">Repeat every</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            max="99"
+            value={rule.interval}
+            onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="input w-20 text-center"
+          />
+          <select
+            value={rule.freq}
+            onChange={(e) => handleFrequencyChange(e.target.value as Frequency)}
+            className="input flex-1"
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.unit}{rule.interval > 1 ? 's' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Weekly: days of week */}
+      {rule.freq === 'WEEKLY' && (
+        <div>
+          <label className="label text-sm">On</label>
+          <div className="flex flex-wrap gap-2">
+            {DAYS_OF_WEEK.map((day) => (
+              <button
+                key={day.value}
+                type="button"
+                onClick={() => toggleWeekday(day.value)}
+                className={`w-10 h-10 rounded-full text-sm font-medium transition-all ${
+                  rule.byDay?.some(d => d.weekday === day.value)
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {day.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Monthly: day of month or nth weekday */}
+      {rule.freq === 'MONTHLY' && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={monthlyMode === 'day'}
+              onChange={() => update({ byDay: undefined, bySetPos: undefined, byMonthDay: [startDate.getDate()] })}
+            />
+            On day
+            <select
+              value={rule.byMonthDay?.[0] ?? startDate.getDate()}
+              onChange={(e) => update({ byDay: undefined, bySetPos: undefined, byMonthDay: [Number(e.target.value)] })}
+              disabled={monthlyMode !== 'day'}
+              className="input w-28 py-1"
+            >
+              {Array.from({ length: 31 }, (_, i) => i + 1).map((d) => (
+                <option key={d} value={d}>{d}</option>
+              ))}
+              <option value={-1}>Last day</option>
+            </select>
+          </label>
+          <label className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              checked={monthlyMode === 'weekday'}
+              onChange={() => update({ byMonthDay: undefined, ...weekdayRuleParts(1, startDate.getDay()) })}
+            />
+            On the
+            <select
+              value={position}
+              onChange={(e) => update({ byMonthDay: undefined, ...weekdayRuleParts(Number(e.target.value), kind) })}
+              disabled={monthlyMode !== 'weekday'}
+              className="input w-28 py-1"
+            >
+              {POSITIONS.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+            <select
+              value={String(kind)}
+              onChange={(e) => {
+                const value = e.target.value;
+                const nextKind: WeekdayKind = value === 'weekday' || value === 'weekend' ? value : Number(value);
+                update({ byMonthDay: undefined, ...weekdayRuleParts(position, nextKind) });
+              }}
+              disabled={monthlyMode !== 'weekday'}
+              className="input w-36 py-1"
+            >
+              {DAYS_OF_WEEK.map((day) => (
+                <option key={day.value} value={day.value}>{day.label}</option>
+              ))}
+              <option value="weekday">Weekday</option>
+              <option value="weekend">Weekend day</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      {/* Ends */}
+      <div>
+        <label className="label text-sm">Ends</label>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            className="input w-32"
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endMode === 'until' && rule.until !== undefined && (
+            <input
+              type="date"
+              value={toDateKey(rule.until, timeZone)}
+              onChange={(e) => {
+                if (!e.target.value) return;
+                const [y, m, d] = e.target.value.split('-').map(Number);
+                update({ until: fromZonedWallTime({ year: y, month: m - 1, day: d, hour: 23, minute: 59 }, timeZone) });
+              }}
+              className="input flex-1"
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min="1"
+                max="999"
+                value={rule.count ?? 1}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="input w-20 text-center"
+              />
+              <span className="text-gray-600 text-sm">occurrences</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Skipped dates (EXDATE) */}
+      <div>
+        <label className="label text-sm">Skip dates</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={newSkipDate}
+            onChange={(e) => setNewSkipDate(e.target.value)}
+            className="input flex-1"
+          />
+          <button
+            type="button"
+            onClick={addSkipDate}
+            disabled={!newSkipDate}
+            className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-40"
+            aria-label="Add skip date"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        {skipDates.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {skipDates.map((date) => (
+              <span
+                key={date}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
+              >
+                <CalendarX className="w-3 h-3" />
+                {date}
+                <button
+                  type="button"
+                  onClick={() => onSkipDatesChange(skipDates.filter(d => d !== date))}
+                  className="text-gray-400 hover:text-red-500"
+                  aria-label={`Remove ${date}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Summary & preview */}
+      <div className="p-3 bg-white rounded-lg border border-gray-200">
+        <p className="text-sm font-medium text-gray-800">
+          {describeRule(rule)} at {time}
+        </p>
+        {preview.length > 0 ? (
+          <ul className="mt-1 space-y-0.5">
+            {preview.map((t) => (
+              <li key={t} className="text-xs text-gray-500">
+                {new Date(t).toLocaleString(undefined, {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  timeZone,
+                })}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-1 text-xs text-red-600">This rule has no upcoming occurrences</p>
+        )}
+      </div>
+    </div>
+  );
+}
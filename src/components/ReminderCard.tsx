@@ -1,7 +1,8 @@
 import { useState } from 'react';
-import { Clock, Repeat, Trash2, Edit, Play, Pause, Calendar, CheckCircle, AlertTriangle, Flame } from 'lucide-react';
+import { Clock, Repeat, Trash2, Edit, Play, Pause, Calendar, CheckCircle, AlertTriangle, Flame, Snowflake } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { Reminder, computeNextTrigger, getStreakColor } from '../utils/reminderScheduler';
+import { formatStreak, getStreakStatus } from '../utils/streaks';
 import { updateReminder, deleteReminder } from '../db/reminderDB';
 import { useReminderCountdown } from '../hooks/useReminderCountdown';
 
@@ -56,6 +57,8 @@ export default function ReminderCard({ reminder, onUpdate, onEdit, onCheckIn, vi
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const countdown = useReminderCountdown(reminder);
+  const streak = getStreakStatus(reminder);
+  const freezesLeft = streak.freezeTokens - streak.freezesNeeded;
 
   const handleToggleActive = async () => {
     try {
@@ -250,19 +253,28 @@ export default function ReminderCard({ reminder, onUpdate, onEdit, onCheckIn, vi
         )}
 
         {/* Streak display */}
-        {reminder.streak && reminder.streak.count > 0 && (
+        {reminder.streak && streak.current > 0 && (
           <motion.div
             initial={{ scale: 0.8, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
-            className={`flex items-center gap-1.5 text-sm ${getStreakColor(reminder.streak.count)}`}
+            className={`flex items-center gap-1.5 text-sm ${getStreakColor(streak.current)}`}
           >
             <Flame className="w-4 h-4" />
-            <span className="font-bold">{reminder.streak.count} day streak</span>
-            {reminder.streak.longestStreak > reminder.streak.count && (
+            <span className="font-bold">{formatStreak(streak.current, reminder)}</span>
+            {reminder.streak.longestStreak > streak.current && (
               <span className="text-xs text-gray-400 dark:text-gray-500">
                 (best: {reminder.streak.longestStreak})
               </span>
             )}
+            {freezesLeft > 0 && (
+              <span
+                className="flex items-center gap-0.5 text-xs text-sky-500"
+                title={`${freezesLeft} streak freeze${freezesLeft === 1 ? '' : 's'} - each covers one missed reminder`}
+              >
+                <Snowflake className="w-3 h-3" />
+                {freezesLeft}
+              </span>
+            )}
           </motion.div>
         )}
       </div>
@@ -1,13 +1,22 @@
 import { useState, useEffect } from 'react';
-import { X, Save, Key, Volume2, Bell, Music, Phone, AlertCircle, Mic, Play, Download, Upload, LogOut, User, Beaker, Sun, Moon, Monitor, Square, Sparkles } from 'lucide-react';
+import { X, Save, Key, Volume2, Bell, Music, Phone, AlertCircle, Mic, Play, Download, Upload, LogOut, User, Beaker, Sun, Moon, Monitor, Square, Sparkles, Library, Flame } from 'lucide-react';
 import { AVAILABLE_RINGTONES, type RingtoneType, generateRingtone } from '../utils/ringtones';
 import { getBrowserVoices, OPENAI_VOICES, previewVoice, type TTSProvider, type BrowserVoice } from '../utils/textToSpeech';
+import { getRecognizers, type RecognizerType } from '../utils/speechRecognition';
+import { DEFAULT_LLM_SETTINGS, LLM_PROVIDERS, resolveLLMSettings, type LLMProviderOptions, type LLMProviderType, type LLMSettings } from '../services/llmProviders';
 import { exportAllData, importData, type ExportData } from '../db/reminderDB';
 import AudioRecorder from './AudioRecorder';
+import MessageLibrary from './MessageLibrary';
+import MessagePicker from './MessagePicker';
+import type { MessageRotation } from '../utils/messageRotation';
 import { useAuth } from '../contexts/AuthContext';
 import { isSupabaseConfigured } from '../lib/supabase';
 import { useTheme } from '../contexts/ThemeContext';
 import { CURATED_SOUNDS, type Sound } from '../services/soundLibrary';
+import { getCallPreferences, updateCallPreferences, type CallPreferences } from '../services/supabaseSync';
+import { flushOutbox, getOutboxStatus } from '../services/outbox';
+import { DEFAULT_MOTIVATION_CALLS_PER_DAY, DEFAULT_QUIET_HOURS, MAX_MOTIVATION_CALLS_PER_DAY } from '../utils/quietHours';
+import { DEFAULT_STREAK_GRACE_HOURS, FREEZE_EARN_EVERY, MAX_FREEZE_TOKENS, STREAK_GRACE_OPTIONS } from '../utils/streaks';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -19,19 +28,26 @@ interface BetaFeatures {
 
 interface Settings {
   apiKey: string;
-  apiEndpoint: string;
   voiceEnabled: boolean;
   notificationsEnabled: boolean;
   ringtone: RingtoneType;
   autoRecallEnabled: boolean;
   maxRecallAttempts: number;
-  panicAudio?: string;
+  streakGraceHours: number; // Extra time to do a reminder after the next one is due
+  panicAudioAssetId?: string; // Recording in the audio store
+  panicMessageIds?: string[]; // Library messages to rotate through instead
+  panicMessageRotation?: MessageRotation;
   // TTS Settings
   ttsProvider: TTSProvider;
   browserVoice?: string;
   browserRate: number;
   browserPitch: number;
   openaiVoice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
+  // Call scripts
+  llm: LLMSettings;
+  // Conversational calls
+  conversationalCalls: boolean;
+  speechRecognizer: RecognizerType;
   // Beta Features
   betaFeatures?: BetaFeatures;
 }
@@ -41,16 +57,19 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
   const { theme, setTheme } = useTheme();
   const [settings, setSettings] = useState<Settings>({
     apiKey: '',
-    apiEndpoint: 'https://api.openai.com/v1/audio/speech',
     voiceEnabled: true,
     notificationsEnabled: true,
     ringtone: 'reflection',
     autoRecallEnabled: true,
     maxRecallAttempts: 0,
+    streakGraceHours: DEFAULT_STREAK_GRACE_HOURS,
     ttsProvider: 'browser',
     browserRate: 1.0,
     browserPitch: 1.0,
     openaiVoice: 'nova',
+    llm: DEFAULT_LLM_SETTINGS,
+    conversationalCalls: false,
+    speechRecognizer: 'browser',
     betaFeatures: {
       partners: false,
     },
@@ -63,17 +82,33 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
   const [playingCuratedSound, setPlayingCuratedSound] = useState<string | null>(null);
   const [curatedAudioElement, setCuratedAudioElement] = useState<HTMLAudioElement | null>(null);
   const [browserVoices, setBrowserVoices] = useState<BrowserVoice[]>([]);
+  const [recognizers] = useState(getRecognizers);
   const [isPreviewingVoice, setIsPreviewingVoice] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'voice' | 'data' | 'account'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'voice' | 'messages' | 'data' | 'account'>('general');
   const [importStatus, setImportStatus] = useState<string | null>(null);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [logoutError, setLogoutError] = useState<string | null>(null);
+  // Kept on the profile rather than in localStorage: partners' calls are checked against it
+  const [callPreferences, setCallPreferences] = useState<Pick<CallPreferences, 'quietHours' | 'motivationCallsPerDay'>>({
+    quietHours: null,
+    motivationCallsPerDay: DEFAULT_MOTIVATION_CALLS_PER_DAY,
+  });
 
   const handleLogout = async () => {
     if (!confirm('Are you sure you want to sign out? Your local data will be cleared.')) {
       return;
     }
 
+    // Changes made offline only live in the outbox until they reach the cloud
+    await flushOutbox();
+    const { pending, failed } = await getOutboxStatus();
+    const unsent = pending + failed;
+    if (unsent > 0 && !confirm(
+      `${unsent} change${unsent === 1 ? " hasn't" : "s haven't"} been saved to the cloud yet and will be lost if you sign out now. Sign out anyway?`
+    )) {
+      return;
+    }
+
     setIsLoggingOut(true);
     setLogoutError(null);
 
@@ -93,7 +128,8 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
     try {
       const savedSettings = localStorage.getItem('aiReminderSettings');
       if (savedSettings) {
-        setSettings(prev => ({ ...prev, ...JSON.parse(savedSettings) }));
+        const parsed = JSON.parse(savedSettings);
+        setSettings(prev => ({ ...prev, ...parsed, llm: resolveLLMSettings(parsed.llm) }));
       }
     } catch (error) {
       console.warn('Failed to parse settings from localStorage:', error);
@@ -104,9 +140,19 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
     getBrowserVoices().then(setBrowserVoices).catch(console.warn);
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    getCallPreferences(user.id).then(preferences => {
+      if (preferences) setCallPreferences(preferences);
+    });
+  }, [user]);
+
   const handleSave = () => {
     setIsSaving(true);
     localStorage.setItem('aiReminderSettings', JSON.stringify(settings));
+    if (user) {
+      updateCallPreferences(user.id, callPreferences);
+    }
 
     setTimeout(() => {
       setIsSaving(false);
@@ -264,6 +310,20 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
     }
   };
 
+  const updateLLMProvider = (changes: Partial<LLMProviderOptions>) => {
+    const provider = settings.llm.provider;
+    setSettings({
+      ...settings,
+      llm: {
+        ...settings.llm,
+        providers: {
+          ...settings.llm.providers,
+          [provider]: { ...settings.llm.providers[provider], ...changes },
+        },
+      },
+    });
+  };
+
   const handlePreviewVoice = async () => {
     if (isPreviewingVoice) return;
     setIsPreviewingVoice(true);
@@ -343,6 +403,7 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
             {[
               { id: 'general' as const, label: 'General', icon: Bell },
               { id: 'voice' as const, label: 'Voice', icon: Mic },
+              { id: 'messages' as const, label: 'Messages', icon: Library },
               { id: 'data' as const, label: 'Data', icon: Download },
               ...(isSupabaseConfigured ? [{ id: 'account' as const, label: 'Account', icon: User }] : []),
             ].map((tab) => (
@@ -492,6 +553,40 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                 )}
               </div>
 
+              {/* Streak Settings */}
+              <div className="space-y-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <div className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+                  <Flame className="w-5 h-5 text-indigo-600" />
+                  <span>Streaks</span>
+                </div>
+
+                <div>
+                  <label htmlFor="streak-grace-hours" className="block text-sm font-medium text-gray-700 mb-2">
+                    Grace Period
+                  </label>
+                  <select
+                    id="streak-grace-hours"
+                    value={settings.streakGraceHours}
+                    onChange={(e) => setSettings({ ...settings, streakGraceHours: parseInt(e.target.value) })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                  >
+                    {STREAK_GRACE_OPTIONS.map((hours) => (
+                      <option key={hours} value={hours}>
+                        {hours === 0 ? 'None' : `${hours} hour${hours === 1 ? '' : 's'}`}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    How long after the next one is due a reminder still counts toward your streak
+                  </p>
+                </div>
+
+                <p className="text-sm text-gray-600">
+                  Every {FREEZE_EARN_EVERY} in a row earns a streak freeze (up to {MAX_FREEZE_TOKENS}). A freeze is used
+                  automatically to cover a missed reminder, so your streak keeps going.
+                </p>
+              </div>
+
               {/* Ringtone Selection */}
               <div className="space-y-4 pt-4 border-t border-gray-200">
                 <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
@@ -806,6 +901,174 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                 )}
               </div>
 
+              {/* Call Script Provider */}
+              <div className="space-y-4 pt-4 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                  <Sparkles className="w-5 h-5 text-indigo-600" />
+                  <span>Call Script</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Who writes what your future self says on reminder and panic calls. If a provider can't answer in time, the built-in script is used.
+                </p>
+
+                <div className="space-y-2">
+                  {(Object.keys(LLM_PROVIDERS) as LLMProviderType[]).map((type) => (
+                    <div
+                      key={type}
+                      className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
+                        settings.llm.provider === type
+                          ? 'border-indigo-500 bg-indigo-50'
+                          : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+                      }`}
+                      onClick={() => setSettings({ ...settings, llm: { ...settings.llm, provider: type } })}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center ${
+                          settings.llm.provider === type ? 'border-indigo-500 bg-indigo-500' : 'border-gray-300'
+                        }`}>
+                          {settings.llm.provider === type && <div className="w-2 h-2 rounded-full bg-white" />}
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">{LLM_PROVIDERS[type].label}</p>
+                          <p className="text-xs text-gray-600">{LLM_PROVIDERS[type].description}</p>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {settings.llm.provider !== 'template' && (() => {
+                  const provider = settings.llm.provider;
+                  const options = settings.llm.providers[provider];
+                  return (
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor="llm-model" className="block text-sm font-medium text-gray-700 mb-2">Model</label>
+                          <input
+                            id="llm-model"
+                            type="text"
+                            value={options.model}
+                            onChange={(e) => updateLLMProvider({ model: e.target.value })}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="llm-endpoint" className="block text-sm font-medium text-gray-700 mb-2">Endpoint</label>
+                          <input
+                            id="llm-endpoint"
+                            type="url"
+                            value={options.endpoint}
+                            onChange={(e) => updateLLMProvider({ endpoint: e.target.value })}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                        </div>
+                      </div>
+
+                      {LLM_PROVIDERS[provider].needsApiKey && (
+                        <div>
+                          <label htmlFor="llm-api-key" className="block text-sm font-medium text-gray-700 mb-2">API Key</label>
+                          <input
+                            id="llm-api-key"
+                            type="password"
+                            value={options.apiKey || ''}
+                            onChange={(e) => updateLLMProvider({ apiKey: e.target.value })}
+                            placeholder={provider === 'openai' ? 'Uses your OpenAI voice key if empty' : 'sk-ant-...'}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            autoComplete="off"
+                          />
+                        </div>
+                      )}
+
+                      <div>
+                        <label htmlFor="llm-persona" className="block text-sm font-medium text-gray-700 mb-2">Persona</label>
+                        <textarea
+                          id="llm-persona"
+                          value={options.persona}
+                          onChange={(e) => updateLLMProvider({ persona: e.target.value })}
+                          rows={3}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        />
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor="llm-max-tokens" className="block text-sm font-medium text-gray-700 mb-2">Max Tokens</label>
+                          <input
+                            id="llm-max-tokens"
+                            type="number"
+                            min={16}
+                            max={1000}
+                            value={options.maxTokens}
+                            onChange={(e) => updateLLMProvider({ maxTokens: parseInt(e.target.value) || DEFAULT_LLM_SETTINGS.providers[provider].maxTokens })}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor="llm-timeout" className="block text-sm font-medium text-gray-700 mb-2">Timeout (seconds)</label>
+                          <input
+                            id="llm-timeout"
+                            type="number"
+                            min={1}
+                            max={60}
+                            value={options.timeoutMs / 1000}
+                            onChange={(e) => updateLLMProvider({ timeoutMs: (parseFloat(e.target.value) || 1) * 1000 })}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })()}
+              </div>
+
+              {/* Conversational Calls */}
+              <div className="space-y-4 pt-4 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                  <Mic className="w-5 h-5 text-indigo-600" />
+                  <span>Talk Back</span>
+                </div>
+
+                <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">Conversational Calls</p>
+                    <p className="text-sm text-gray-600">Answer out loud: "done", "snooze 10 minutes", "skip today" or "why?"</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.conversationalCalls}
+                      onChange={(e) => setSettings({ ...settings, conversationalCalls: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-indigo-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-600"></div>
+                  </label>
+                </div>
+
+                {settings.conversationalCalls && (
+                  <div>
+                    <label htmlFor="speech-recognizer" className="block text-sm font-medium text-gray-700 mb-2">Speech Recognition</label>
+                    <select
+                      id="speech-recognizer"
+                      value={settings.speechRecognizer}
+                      onChange={(e) => setSettings({ ...settings, speechRecognizer: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    >
+                      {recognizers.map((recognizer) => (
+                        <option key={recognizer.type} value={recognizer.type} disabled={!recognizer.available}>
+                          {recognizer.label}{recognizer.available ? '' : ' (not supported in this browser)'}
+                        </option>
+                      ))}
+                    </select>
+                    {!recognizers.some(r => r.available) && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        This browser can't recognize speech, so calls will stay one-way.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Panic Button Audio */}
               <div className="space-y-4 pt-4 border-t border-gray-200">
                 <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
@@ -818,15 +1081,30 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                     Record a personal message that will play when you activate the panic button.
                   </p>
                   <AudioRecorder
-                    onRecordingComplete={(audio) => setSettings({ ...settings, panicAudio: audio })}
-                    existingRecording={settings.panicAudio}
-                    onClearRecording={() => setSettings({ ...settings, panicAudio: undefined })}
+                    onRecordingComplete={(assetId) => setSettings({ ...settings, panicAudioAssetId: assetId })}
+                    existingAssetId={settings.panicAudioAssetId}
+                    onClearRecording={() => setSettings({ ...settings, panicAudioAssetId: undefined })}
                   />
+                  <div className="mt-4">
+                    <MessagePicker
+                      label="Or rotate through library messages"
+                      selectedIds={settings.panicMessageIds || []}
+                      rotation={settings.panicMessageRotation}
+                      onChange={(ids, rotation) => setSettings({
+                        ...settings,
+                        panicMessageIds: ids.length > 0 ? ids : undefined,
+                        panicMessageRotation: rotation,
+                      })}
+                    />
+                  </div>
                 </div>
               </div>
             </>
           )}
 
+          {/* Messages Tab */}
+          {activeTab === 'messages' && <MessageLibrary />}
+
           {/* Data & Backup Tab */}
           {activeTab === 'data' && (
             <>
@@ -916,6 +1194,78 @@ export default function SettingsModal({ onClose }: SettingsModalProps) {
                 </div>
               </div>
 
+              <div className="space-y-4 pt-4 border-t border-gray-200">
+                <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+                  <Moon className="w-5 h-5 text-indigo-600" />
+                  <span>Calls from Partners</span>
+                </div>
+
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!!callPreferences.quietHours}
+                      onChange={(e) => setCallPreferences({
+                        ...callPreferences,
+                        quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null,
+                      })}
+                      className="rounded text-indigo-600"
+                    />
+                    Quiet hours: no motivation calls
+                  </label>
+
+                  {callPreferences.quietHours && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="label">From</label>
+                        <input
+                          type="time"
+                          value={callPreferences.quietHours.start}
+                          onChange={(e) => setCallPreferences({
+                            ...callPreferences,
+                            quietHours: { ...callPreferences.quietHours!, start: e.target.value },
+                          })}
+                          className="input"
+                        />
+                      </div>
+                      <div>
+                        <label className="label">Until</label>
+                        <input
+                          type="time"
+                          value={callPreferences.quietHours.end}
+                          onChange={(e) => setCallPreferences({
+                            ...callPreferences,
+                            quietHours: { ...callPreferences.quietHours!, end: e.target.value },
+                          })}
+                          className="input"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="label">Motivation calls per partner per day</label>
+                    <select
+                      value={callPreferences.motivationCallsPerDay}
+                      onChange={(e) => setCallPreferences({
+                        ...callPreferences,
+                        motivationCallsPerDay: Number(e.target.value),
+                      })}
+                      className="input"
+                    >
+                      {Array.from({ length: MAX_MOTIVATION_CALLS_PER_DAY + 1 }, (_, count) => (
+                        <option key={count} value={count}>
+                          {count === 0 ? 'None (turn them off)' : count}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Quiet hours follow this device's time zone
+                    </p>
+                  </div>
+                </div>
+              </div>
+
               <div className="space-y-4 pt-4 border-t border-gray-200">
                 <div className="flex items-center gap-2 text-lg font-semibold text-gray-900">
                   <LogOut className="w-5 h-5 text-red-600" />
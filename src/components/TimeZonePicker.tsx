@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import { Globe, MapPin, Smartphone } from 'lucide-react';
+import { TimeZoneMode } from '../utils/reminderScheduler';
+import { formatTimeZoneLabel, getDeviceTimeZone, getTimeZoneOptions } from '../utils/timeZone';
+
+interface TimeZonePickerProps {
+  mode: TimeZoneMode;
+  timeZone?: string; // Pinned zone (only used in "pinned" mode)
+  allowRecipient?: boolean; // Offer "their local time" for reminders sent to others
+  recipientName?: string;
+  onChange: (mode: TimeZoneMode, timeZone?: string) => void;
+}
+
+export default function TimeZonePicker({
+  mode,
+  timeZone,
+  allowRecipient = false,
+  recipientName,
+  onChange,
+}: TimeZonePickerProps) {
+  const deviceZone = getDeviceTimeZone();
+  const zones = useMemo(() => getTimeZoneOptions(), []);
+
+  const options: { value: TimeZoneMode; label: string; icon: typeof Globe }[] = [
+    { value: 'device', label: 'Follow my device', icon: Smartphone },
+    { value: 'pinned', label: 'Pin to zone', icon: MapPin },
+  ];
+  if (allowRecipient) {
+    options.push({ value: 'recipient', label: 'Their local time', icon: Globe });
+  }
+
+  return (
+    <div>
+      <label className="label">Time zone</label>
+      <div className={`grid gap-2 ${allowRecipient ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {options.map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onChange(value, value === 'pinned' ? timeZone || deviceZone : undefined)}
+            className={`flex items-center justify-center gap-1.5 px-2 py-2 rounded-lg border-2 text-xs font-medium transition-all ${
+              mode === value
+                ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                : 'border-gray-200 text-gray-600 hover:border-gray-300'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'pinned' && (
+        <select
+          value={timeZone || deviceZone}
+          onChange={(e) => onChange('pinned', e.target.value)}
+          className="input mt-2"
+          aria-label="Time zone"
+        >
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replace(/_/g, ' ')}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <p className="mt-1 text-xs text-gray-500">
+        {mode === 'device' && `Rings at this time wherever you are (now ${formatTimeZoneLabel(deviceZone)})`}
+        {mode === 'pinned' && `Always rings at this time in ${formatTimeZoneLabel(timeZone || deviceZone)}`}
+        {mode === 'recipient' && `Rings at this time in ${recipientName || 'the recipient'}'s local time zone`}
+      </p>
+    </div>
+  );
+}
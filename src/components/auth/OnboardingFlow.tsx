@@ -13,7 +13,7 @@ import {
   Target,
   Zap,
 } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { runMutation } from '../../services/outbox';
 import { useAuth } from '../../contexts/AuthContext';
 
 interface OnboardingFlowProps {
@@ -91,11 +91,17 @@ export default function OnboardingFlow({ onComplete }: OnboardingFlowProps) {
       // Complete onboarding
       if (user) {
         try {
-          await supabase.from('user_settings').upsert({
-            user_id: user.id,
-            onboarding_completed: true,
-            notifications_enabled: notificationsEnabled,
-            updated_at: new Date().toISOString(),
+          await runMutation({
+            table: 'user_settings',
+            op: 'upsert',
+            values: {
+              user_id: user.id,
+              onboarding_completed: true,
+              notifications_enabled: notificationsEnabled,
+              updated_at: new Date().toISOString(),
+            },
+            onConflict: 'user_id',
+            label: 'Save onboarding settings',
           });
         } catch (error) {
           console.error('Failed to save onboarding settings to Supabase:', error);
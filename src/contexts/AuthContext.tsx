@@ -2,6 +2,10 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { closeDB } from '../db/reminderDB';
+import { updateProfileTimeZone } from '../services/supabaseSync';
+import { getDeviceTimeZone } from '../utils/timeZone';
+import { unsubscribeFromPush } from '../utils/pushNotifications';
+import { flushOutbox } from '../services/outbox';
 
 interface AuthContextType {
   user: User | null;
@@ -45,6 +49,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Keep the profile's time zone current so reminders from others ring at local time
+  useEffect(() => {
+    if (!user) return;
+    updateProfileTimeZone(user.id, getDeviceTimeZone());
+  }, [user?.id]);
+
   const signUp = async (email: string, password: string, fullName?: string) => {
     const { error } = await supabase.auth.signUp({
       email,
@@ -78,6 +88,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = async () => {
     try {
+      // Stop pushes to this device for the signed-out account
+      await unsubscribeFromPush();
+
+      // Send any offline writes before the queue is deleted with the database
+      await flushOutbox();
+
       // Close IndexedDB connection
       closeDB();
 
@@ -93,6 +109,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Clear localStorage settings
       localStorage.removeItem('aiReminderSettings');
       localStorage.removeItem('yrfrsf-tts-settings');
+      localStorage.removeItem('yfs-history-sync-cursors'); // Pull history again from scratch next time
 
       // Sign out from Supabase
       const { error } = await supabase.auth.signOut();
@@ -6,7 +6,12 @@
  */
 
 import { openDB, IDBPDatabase } from 'idb';
-import { Reminder } from '../utils/reminderScheduler';
+import { v4 as uuidv4 } from 'uuid';
+import { Reminder, migrateLegacyRepeat } from '../utils/reminderScheduler';
+import { stampReminderChanges } from '../utils/reminderMerge';
+import { buildOccurrenceRecords, missingOccurrences, occurrenceGaps, occurrenceId, summarizeOccurrences } from '../utils/occurrences';
+import { streakFromOccurrences } from '../utils/streaks';
+import type { EscalationAction } from '../utils/escalationPolicy';
 import logger from '../utils/logger';
 
 // ============================================================================
@@ -14,12 +19,27 @@ import logger from '../utils/logger';
 // ============================================================================
 
 const DB_NAME = 'reminder-db';
-const DB_VERSION = 3; // Incremented for completion tracking & auto-recall
+const DB_VERSION = 10; // Incremented for the occurrence log
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+// One turn of a conversational call
+export interface CallTranscriptLine {
+  speaker: 'ai' | 'user';
+  text: string;
+  at: number; // UTC timestamp
+}
+
+// An escalation step taken after a missed call (see utils/escalationPolicy.ts)
+export interface EscalationRecord {
+  action: EscalationAction;
+  at: number; // UTC timestamp
+  detail?: string;
+  failed?: boolean;
+}
+
 export interface CallHistoryEntry {
   id: string;
   reminderId: string;
@@ -33,8 +53,14 @@ export interface CallHistoryEntry {
   voicePlayed: boolean; // Whether AI voice was played
   voicePlayedSuccessfully?: boolean; // Whether voice played without errors
   recallAttempt?: number; // Which recall attempt this was (1, 2, 3, etc.)
+  occurrenceAt?: number; // Scheduled time of the occurrence this call is for (recalls share it)
   taskCompleted?: boolean; // Did user mark task as completed?
   taskCompletedAt?: number; // When task was marked complete
+  transcript?: CallTranscriptLine[]; // Conversational calls: what was said, in order
+  outcome?: 'done' | 'snoozed' | 'skipped' | 'missed'; // What the user asked for during the call, or missed by escalation
+  escalation?: EscalationRecord[]; // Escalation steps taken after this call was missed
+  updatedAt?: number; // Last local change (sync version)
+  syncedAt?: number; // updatedAt of the version last exchanged with the cloud
 }
 
 export interface CompletionPrompt {
@@ -43,10 +69,125 @@ export interface CompletionPrompt {
   reminderTitle: string;
   reminderWhy: string;
   callHistoryId: string; // Link to the call that triggered this
+  occurrenceAt?: number; // Scheduled time of the occurrence, when there's no call to take it from
   promptedAt: number; // When we asked
   respondedAt?: number; // When user responded
   completed: boolean; // User's response: true = yes, false = no
   skipped?: boolean; // User dismissed without answering
+  updatedAt?: number; // Last local change (sync version)
+  syncedAt?: number; // updatedAt of the version last exchanged with the cloud
+}
+
+// One scheduled instance of a reminder and how it went, summarized from its
+// calls and check-ins. Stats and streaks are worked out from these
+// (see utils/occurrences.ts).
+export interface OccurrenceRecord {
+  id: string; // `${reminderId}:${scheduledAt}`
+  reminderId: string;
+  reminderTitle: string;
+  scheduledAt: number; // When it was due (UTC)
+  firedAt?: number; // When its first call rang
+  calls: number; // Calls rung for it, recalls included
+  answeredCalls: number;
+  voiceCalls: number; // Calls where the message played
+  callDurationMs: number; // Total over the calls with a recorded duration
+  timedCalls: number;
+  answered: boolean;
+  completed: boolean;
+  completedAt?: number;
+  checkedIn: boolean; // Said whether it was done, after the call or during it
+  skipped: boolean;
+  snoozes: number;
+  missed: boolean; // Never answered and not done, or marked missed by escalation
+  updatedAt: number;
+}
+
+// A Supabase write recorded while offline, replayed in order once back online
+export interface OutboxEntry {
+  id?: number; // Auto-incremented; replay order
+  table: string;
+  op: 'insert' | 'upsert' | 'update' | 'delete';
+  values?: Record<string, unknown> | Record<string, unknown>[];
+  match?: Record<string, string | number | boolean | null>; // Equality filters for update/delete
+  onConflict?: string; // Upsert conflict columns
+  ignoreDuplicates?: boolean;
+  label: string; // What the user did, shown in the sync status
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number; // Backoff: not retried before this
+  lockedUntil?: number; // Being replayed by a tab or the service worker
+  status: 'pending' | 'failed';
+  lastError?: string;
+}
+
+// A queued re-call of a declined/missed reminder. Only the reminder id is
+// stored; the current reminder is loaded when the recall fires.
+export interface PendingRecall {
+  id: string;
+  reminderId: string;
+  attemptNumber: number;
+  nextRecallTime: number; // UTC timestamp
+  callHistoryId: string; // The call that was declined
+  createdAt: number;
+  claimedUntil?: number; // Being fired by a tab
+}
+
+// Synthesized speech, kept so a script is only sent to the TTS API once
+export interface TTSCacheEntry {
+  key: string; // Hash of provider, model, voice and text
+  audio: Blob;
+  size: number; // Bytes
+  createdAt: number;
+  lastUsedAt: number; // For least-recently-used eviction
+}
+
+// A call script written ahead of a reminder's trigger time
+export interface PreparedCall {
+  reminderId: string;
+  trigger: number; // The nextTrigger it was prepared for
+  title: string; // Reminder as it was when prepared; a later edit makes it stale
+  why: string;
+  script: string;
+  audioCached: boolean; // Speech is in the TTS cache (OpenAI TTS only)
+  preparedAt: number;
+}
+
+// A voice recording. Reminders point at it by id, so one recording can be
+// shared by many reminders. `audio` is missing until a recording made on
+// another device is downloaded (see services/audioAssets.ts).
+export interface AudioAsset {
+  id: string;
+  audio?: Blob;
+  mimeType: string;
+  size: number; // Bytes
+  durationMs?: number;
+  createdAt: number;
+  uploadedAt?: number; // When it reached Supabase Storage
+}
+
+// A named message in the user's library: a recording or a script to speak.
+// Reminders, the panic button and calls to partners pick from these by id.
+export interface LibraryMessage {
+  id: string;
+  name: string;
+  kind: 'recording' | 'text';
+  audioAssetId?: string; // kind 'recording'
+  text?: string; // kind 'text'
+  moods: string[]; // e.g. "gentle", "tough love"
+  lastPlayedAt?: number; // Drives rotation (see utils/messageRotation.ts)
+  createdAt: number;
+  deletedAt?: number; // Kept as a tombstone so the deletion syncs
+  updatedAt?: number; // Last local change (sync version)
+  syncedAt?: number; // updatedAt of the version last exchanged with the cloud
+}
+
+// Lets the service worker replay the outbox with no tab open
+export interface OutboxCredentials {
+  id: 'session';
+  url: string;
+  anonKey: string;
+  accessToken: string;
+  expiresAt: number; // UTC ms; the service worker leaves expired sessions to the app
 }
 
 interface ReminderDB {
@@ -77,6 +218,100 @@ interface ReminderDB {
       'by-completed': boolean;
     };
   };
+  outbox: {
+    key: number;
+    value: OutboxEntry;
+  };
+  outboxCredentials: {
+    key: string;
+    value: OutboxCredentials;
+  };
+  recalls: {
+    key: string;
+    value: PendingRecall;
+    indexes: {
+      'by-nextRecallTime': number;
+      'by-reminderId': string;
+    };
+  };
+  ttsCache: {
+    key: string;
+    value: TTSCacheEntry;
+    indexes: {
+      'by-lastUsedAt': number;
+    };
+  };
+  preparedCalls: {
+    key: string;
+    value: PreparedCall;
+  };
+  audio: {
+    key: string;
+    value: AudioAsset;
+  };
+  messages: {
+    key: string;
+    value: LibraryMessage;
+  };
+  occurrences: {
+    key: string;
+    value: OccurrenceRecord;
+    indexes: {
+      'by-scheduledAt': number;
+      'by-reminderId': string;
+    };
+  };
+}
+
+// Where recalls were kept before the recalls store (version 6)
+const LEGACY_RECALLS_KEY = 'pendingRecalls';
+
+// ============================================================================
+// LEGACY MIGRATION
+// ============================================================================
+
+function readLegacyRecalls(): PendingRecall[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_RECALLS_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter(recall => recall && typeof recall.reminderId === 'string')
+      .map(recall => ({
+        id: uuidv4(),
+        reminderId: recall.reminderId,
+        attemptNumber: recall.attemptNumber ?? 2,
+        nextRecallTime: recall.nextRecallTime ?? Date.now(),
+        callHistoryId: recall.callHistoryId ?? '',
+        createdAt: Date.now(),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+// Base64 data URLs (what AudioRecorder used to produce) back into Blobs.
+// Synchronous so it can run inside the upgrade transaction.
+function dataUrlToBlob(dataUrl: string): Blob | null {
+  const match = dataUrl.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match) return null;
+
+  try {
+    const data = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+    const bytes = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      bytes[i] = data.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: match[1] || 'audio/webm' });
+  } catch {
+    return null;
+  }
+}
+
+function legacyAudioAsset(dataUrl: string): AudioAsset | null {
+  const audio = dataUrlToBlob(dataUrl);
+  if (!audio) return null;
+  return { id: uuidv4(), audio, mimeType: audio.type, size: audio.size, createdAt: Date.now() };
 }
 
 // ============================================================================
@@ -85,6 +320,42 @@ interface ReminderDB {
 
 let db: IDBPDatabase<ReminderDB> | null = null;
 
+// ============================================================================
+// CHANGE NOTIFICATIONS
+// ============================================================================
+
+// Fired on this window whenever reminders are written here or in another tab,
+// so the scheduler can re-arm its timer
+export const REMINDERS_CHANGED_EVENT = 'remindersChanged';
+
+const REMINDERS_CHANNEL_NAME = 'yfs-reminders';
+let remindersChannel: BroadcastChannel | null = null;
+
+function getRemindersChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!remindersChannel) {
+    remindersChannel = new BroadcastChannel(REMINDERS_CHANNEL_NAME);
+    remindersChannel.onmessage = () => {
+      window.dispatchEvent(new CustomEvent(REMINDERS_CHANGED_EVENT));
+    };
+  }
+  return remindersChannel;
+}
+
+function notifyRemindersChanged(): void {
+  window.dispatchEvent(new CustomEvent(REMINDERS_CHANGED_EVENT));
+  getRemindersChannel()?.postMessage(REMINDERS_CHANGED_EVENT);
+}
+
+/**
+ * Listen for reminder writes from any tab. Returns an unsubscribe function.
+ */
+export function onRemindersChanged(listener: () => void): () => void {
+  getRemindersChannel(); // Start relaying writes from other tabs
+  window.addEventListener(REMINDERS_CHANGED_EVENT, listener);
+  return () => window.removeEventListener(REMINDERS_CHANGED_EVENT, listener);
+}
+
 // ============================================================================
 // DATABASE INITIALIZATION
 // ============================================================================
@@ -100,9 +371,14 @@ export async function initDB(): Promise<IDBPDatabase<ReminderDB>> {
 
   try {
     db = await openDB<ReminderDB>(DB_NAME, DB_VERSION, {
-      upgrade(database, oldVersion, newVersion) {
+      upgrade(database, oldVersion, newVersion, transaction) {
         logger.log(`Upgrading database from version ${oldVersion} to ${newVersion}`);
 
+        // Changes to existing reminders are applied in one pass at the end, so
+        // each step sees the previous one's changes and every reminder is put once
+        let moveRecording: ((reminder: Reminder) => Reminder) | null = null;
+        let backfillOccurrences = false;
+
         // Create the reminders object store
         if (!database.objectStoreNames.contains('reminders')) {
           const store = database.createObjectStore('reminders', {
@@ -144,6 +420,170 @@ export async function initDB(): Promise<IDBPDatabase<ReminderDB>> {
 
           logger.log('Database initialized with completionPrompts store');
         }
+
+        // Create the outbox stores for offline writes (version 5+)
+        if (!database.objectStoreNames.contains('outbox')) {
+          database.createObjectStore('outbox', {
+            keyPath: 'id',
+            autoIncrement: true
+          });
+          database.createObjectStore('outboxCredentials', {
+            keyPath: 'id'
+          });
+
+          logger.log('Database initialized with outbox stores');
+        }
+
+        // Create the recall queue (version 6+)
+        if (!database.objectStoreNames.contains('recalls')) {
+          const recallStore = database.createObjectStore('recalls', {
+            keyPath: 'id'
+          });
+
+          recallStore.createIndex('by-nextRecallTime', 'nextRecallTime');
+          recallStore.createIndex('by-reminderId', 'reminderId');
+
+          // Move recalls over from localStorage, dropping the reminder copies they carried
+          const legacyRecalls = readLegacyRecalls();
+          legacyRecalls.forEach(recall => recallStore.put(recall));
+          transaction.done.then(() => {
+            localStorage.removeItem(LEGACY_RECALLS_KEY);
+            if (legacyRecalls.length > 0) {
+              logger.log(`Migrated ${legacyRecalls.length} pending recall(s) from localStorage`);
+            }
+          });
+
+          logger.log('Database initialized with recalls store');
+        }
+
+        // Create the TTS cache and prepared call stores (version 7+)
+        if (!database.objectStoreNames.contains('ttsCache')) {
+          const ttsStore = database.createObjectStore('ttsCache', {
+            keyPath: 'key'
+          });
+          ttsStore.createIndex('by-lastUsedAt', 'lastUsedAt');
+
+          database.createObjectStore('preparedCalls', {
+            keyPath: 'reminderId'
+          });
+
+          logger.log('Database initialized with ttsCache and preparedCalls stores');
+        }
+
+        // Create the audio asset store (version 8+)
+        if (!database.objectStoreNames.contains('audio')) {
+          const audioStore = database.createObjectStore('audio', {
+            keyPath: 'id'
+          });
+
+          // Move base64 recordings off reminders; identical recordings share one asset
+          if (oldVersion > 0) {
+            const assetsByData = new Map<string, AudioAsset>();
+            const toAsset = (dataUrl: string) => {
+              let asset = assetsByData.get(dataUrl) ?? null;
+              if (!asset) {
+                asset = legacyAudioAsset(dataUrl);
+                if (asset) {
+                  assetsByData.set(dataUrl, asset);
+                  audioStore.put(asset);
+                }
+              }
+              return asset;
+            };
+
+            moveRecording = r => {
+              const asset = r.audioRecording ? toAsset(r.audioRecording) : null;
+              if (!asset) return r;
+              const { audioRecording: _legacy, ...rest } = r;
+              return stampReminderChanges(r, { ...rest, audioAssetId: asset.id });
+            };
+
+            // The panic button's recording lives in the app settings
+            try {
+              const settings = JSON.parse(localStorage.getItem('aiReminderSettings') || '{}');
+              const panicAsset = typeof settings.panicAudio === 'string' ? toAsset(settings.panicAudio) : null;
+              if (panicAsset) {
+                transaction.done.then(() => {
+                  const { panicAudio: _legacy, ...rest } = settings;
+                  localStorage.setItem('aiReminderSettings', JSON.stringify({ ...rest, panicAudioAssetId: panicAsset.id }));
+                });
+              }
+            } catch {
+              // Unreadable settings keep their recording as-is
+            }
+          }
+
+          logger.log('Database initialized with audio store');
+        }
+
+        // Create the message library store (version 9+)
+        if (!database.objectStoreNames.contains('messages')) {
+          database.createObjectStore('messages', {
+            keyPath: 'id'
+          });
+
+          logger.log('Database initialized with messages store');
+        }
+
+        // Create the occurrence log (version 10+), backfilled from call history and check-ins
+        if (!database.objectStoreNames.contains('occurrences')) {
+          const occurrenceStore = database.createObjectStore('occurrences', {
+            keyPath: 'id'
+          });
+          occurrenceStore.createIndex('by-scheduledAt', 'scheduledAt');
+          occurrenceStore.createIndex('by-reminderId', 'reminderId');
+
+          backfillOccurrences = oldVersion > 0;
+
+          logger.log('Database initialized with occurrences store');
+        }
+
+        if (oldVersion > 0 && (oldVersion < 4 || moveRecording || backfillOccurrences)) {
+          const reminderStore = transaction.objectStore('reminders');
+          const occurrenceStore = transaction.objectStore('occurrences');
+          Promise.all([
+            reminderStore.getAll(),
+            backfillOccurrences ? transaction.objectStore('callHistory').getAll() : [],
+            backfillOccurrences ? transaction.objectStore('completionPrompts').getAll() : [],
+          ]).then(([reminders, calls, prompts]) => {
+            let backfilled = 0;
+
+            for (const reminder of reminders) {
+              let next = reminder;
+
+              // Translate legacy repeat types into RRULEs (version 4+)
+              if (oldVersion < 4) next = migrateLegacyRepeat(next);
+
+              // Move base64 recordings into the audio store (version 8+)
+              if (moveRecording) next = moveRecording(next);
+
+              // Backfill the occurrence log from call history and check-ins (version 10+)
+              if (backfillOccurrences) {
+                const records = buildOccurrenceRecords(
+                  next,
+                  calls.filter(call => call.reminderId === reminder.id),
+                  prompts.filter(prompt => prompt.reminderId === reminder.id)
+                );
+                records.push(...occurrenceGaps(next, records));
+                records.forEach(record => occurrenceStore.put(record));
+                backfilled += records.length;
+
+                // Reminders with nothing logged keep the streak they had
+                const streak = streakFromOccurrences(next, records);
+                if (streak) next = { ...next, streak };
+              }
+
+              if (next !== reminder) reminderStore.put(next);
+            }
+
+            logger.log(`Migrated ${reminders.length} reminder(s)`);
+            if (backfillOccurrences) {
+              logger.log(`Backfilled ${backfilled} occurrence(s) from call history`);
+            }
+          }).catch(error => {
+            logger.error('Failed to migrate reminders:', error);
+          });
+        }
       },
       blocked() {
         logger.warn('Database upgrade blocked - please close other tabs with this app');
@@ -174,12 +614,19 @@ export async function initDB(): Promise<IDBPDatabase<ReminderDB>> {
 // CRUD OPERATIONS
 // ============================================================================
 
+// Deleted reminders stay in the store as tombstones until the deletion has
+// synced; everything outside of sync only ever sees live reminders
+function isLive(reminder: Reminder): boolean {
+  return !reminder.deletedAt;
+}
+
 /**
  * Get all reminders from the database.
  */
 export async function getAllReminders(): Promise<Reminder[]> {
   const database = await initDB();
-  return database.getAll('reminders');
+  const allReminders = await database.getAll('reminders');
+  return allReminders.filter(isLive);
 }
 
 /**
@@ -187,7 +634,8 @@ export async function getAllReminders(): Promise<Reminder[]> {
  */
 export async function getReminder(id: string): Promise<Reminder | undefined> {
   const database = await initDB();
-  return database.get('reminders', id);
+  const reminder = await database.get('reminders', id);
+  return reminder && isLive(reminder) ? reminder : undefined;
 }
 
 /**
@@ -195,43 +643,103 @@ export async function getReminder(id: string): Promise<Reminder | undefined> {
  */
 export async function addReminder(reminder: Reminder): Promise<void> {
   const database = await initDB();
-  await database.add('reminders', reminder);
+  await database.add('reminders', stampReminderChanges(undefined, reminder));
+  notifyRemindersChanged();
   logger.log('Reminder added:', reminder.title);
 }
 
 /**
  * Update an existing reminder.
+ * Changed fields are stamped with the current time for sync conflict resolution.
  */
 export async function updateReminder(reminder: Reminder): Promise<void> {
   const database = await initDB();
-  await database.put('reminders', reminder);
+  const tx = database.transaction('reminders', 'readwrite');
+  const existing = await tx.store.get(reminder.id);
+
+  // A stale copy (e.g. from a scheduler tick) must not bring a deleted reminder back
+  if (existing?.deletedAt) {
+    await tx.done;
+    logger.warn('Ignoring update to deleted reminder:', reminder.title);
+    return;
+  }
+
+  // The streak belongs to the occurrence log (see refreshOccurrences), not to copies of the reminder
+  await tx.store.put(stampReminderChanges(existing, { ...reminder, streak: existing?.streak ?? reminder.streak }));
+  await tx.done;
+  notifyRemindersChanged();
   logger.log('Reminder updated:', reminder.title);
 }
 
 /**
  * Delete a reminder by ID.
+ * Leaves a tombstone so the deletion reaches the cloud and other devices.
  */
 export async function deleteReminder(id: string): Promise<void> {
   const database = await initDB();
-  await database.delete('reminders', id);
+  const existing = await database.get('reminders', id);
+  if (!existing || existing.deletedAt) return;
+
+  const now = Date.now();
+  await database.put('reminders', { ...existing, deletedAt: now, updatedAt: now });
+  notifyRemindersChanged();
   logger.log('Reminder deleted locally:', id);
 
-  // Also delete from Supabase if configured
+  // Propagate right away if we can; the next sync retries and then purges the tombstone
   try {
+    const { isSupabaseConfigured } = await import('../lib/supabase');
+    if (!isSupabaseConfigured) {
+      await purgeReminder(id);
+      return;
+    }
+
     const { deleteReminderFromSupabase } = await import('../services/supabaseSync');
-    await deleteReminderFromSupabase(id);
-    logger.log('Reminder deleted from cloud:', id);
+    const { error } = await deleteReminderFromSupabase(id, now);
+    if (!error) {
+      logger.log('Reminder deleted from cloud:', id);
+    }
   } catch (err) {
-    logger.warn('Failed to delete from cloud (may not exist):', err);
+    logger.warn('Failed to delete from cloud (will retry on next sync):', err);
   }
 }
 
+// ============================================================================
+// SYNC OPERATIONS
+// ============================================================================
+
+/**
+ * Get all reminders including tombstones, for sync.
+ */
+export async function getAllRemindersForSync(): Promise<Reminder[]> {
+  const database = await initDB();
+  return database.getAll('reminders');
+}
+
+/**
+ * Store a reminder exactly as merged by sync, keeping its field versions.
+ */
+export async function putSyncedReminder(reminder: Reminder): Promise<void> {
+  const database = await initDB();
+  await database.put('reminders', reminder);
+  notifyRemindersChanged();
+  logger.log('Reminder synced:', reminder.title);
+}
+
+/**
+ * Remove a reminder for good, once its deletion has synced.
+ */
+export async function purgeReminder(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('reminders', id);
+}
+
 /**
  * Delete all reminders (use with caution).
  */
 export async function clearAllReminders(): Promise<void> {
   const database = await initDB();
   await database.clear('reminders');
+  notifyRemindersChanged();
   logger.log('All reminders cleared');
 }
 
@@ -243,8 +751,7 @@ export async function clearAllReminders(): Promise<void> {
  * Get all active reminders.
  */
 export async function getActiveReminders(): Promise<Reminder[]> {
-  const database = await initDB();
-  const allReminders = await database.getAll('reminders');
+  const allReminders = await getAllReminders();
   return allReminders.filter(r => r.active === true);
 }
 
@@ -252,8 +759,7 @@ export async function getActiveReminders(): Promise<Reminder[]> {
  * Get all inactive reminders.
  */
 export async function getInactiveReminders(): Promise<Reminder[]> {
-  const database = await initDB();
-  const allReminders = await database.getAll('reminders');
+  const allReminders = await getAllReminders();
   return allReminders.filter(r => r.active === false);
 }
 
@@ -263,17 +769,16 @@ export async function getInactiveReminders(): Promise<Reminder[]> {
 export async function getRemindersByNextTrigger(): Promise<Reminder[]> {
   const database = await initDB();
   const index = database.transaction('reminders').store.index('by-nextTrigger');
-  return index.getAll();
+  const reminders = await index.getAll();
+  return reminders.filter(isLive);
 }
 
 /**
  * Get upcoming reminders (active and scheduled for the future).
  */
 export async function getUpcomingReminders(limit?: number): Promise<Reminder[]> {
-  const database = await initDB();
   const now = Date.now();
-  
-  const allReminders = await database.getAll('reminders');
+  const allReminders = await getAllReminders();
   
   const upcoming = allReminders
     .filter(r => r.active && r.nextTrigger > now)
@@ -286,22 +791,44 @@ export async function getUpcomingReminders(limit?: number): Promise<Reminder[]>
  * Get overdue reminders (active but scheduled time has passed).
  */
 export async function getOverdueReminders(): Promise<Reminder[]> {
-  const database = await initDB();
   const now = Date.now();
-  
-  const allReminders = await database.getAll('reminders');
+  const allReminders = await getAllReminders();
   
   return allReminders
     .filter(r => r.active && r.nextTrigger <= now)
     .sort((a, b) => a.nextTrigger - b.nextTrigger);
 }
 
+/**
+ * Get the active reminder that is due next, without loading the rest.
+ */
+export async function getNextScheduledReminder(): Promise<Reminder | undefined> {
+  const database = await initDB();
+  let cursor = await database.transaction('reminders').store.index('by-nextTrigger').openCursor();
+
+  while (cursor) {
+    if (cursor.value.active && isLive(cursor.value)) {
+      return cursor.value;
+    }
+    cursor = await cursor.continue();
+  }
+  return undefined;
+}
+
+/**
+ * Get active reminders due at or before `now`, oldest first.
+ */
+export async function getDueReminders(now: number = Date.now()): Promise<Reminder[]> {
+  const database = await initDB();
+  const due = await database.getAllFromIndex('reminders', 'by-nextTrigger', IDBKeyRange.upperBound(now));
+  return due.filter(r => r.active && isLive(r));
+}
+
 /**
  * Search reminders by title or why field.
  */
 export async function searchReminders(query: string): Promise<Reminder[]> {
-  const database = await initDB();
-  const allReminders = await database.getAll('reminders');
+  const allReminders = await getAllReminders();
   
   const lowerQuery = query.toLowerCase();
   
@@ -323,9 +850,10 @@ export async function addReminders(reminders: Reminder[]): Promise<void> {
   const tx = database.transaction('reminders', 'readwrite');
   
   await Promise.all([
-    ...reminders.map(r => tx.store.add(r)),
+    ...reminders.map(r => tx.store.add(stampReminderChanges(undefined, r))),
     tx.done,
   ]);
+  notifyRemindersChanged();
   
   logger.log(`Added ${reminders.length} reminders`);
 }
@@ -337,25 +865,38 @@ export async function updateReminders(reminders: Reminder[]): Promise<void> {
   const database = await initDB();
   const tx = database.transaction('reminders', 'readwrite');
   
+  // Same rules as updateReminder: deleted reminders stay deleted, edited fields get stamped
   await Promise.all([
-    ...reminders.map(r => tx.store.put(r)),
+    ...reminders.map(async reminder => {
+      const existing = await tx.store.get(reminder.id);
+      if (existing?.deletedAt) return;
+      await tx.store.put(stampReminderChanges(existing, { ...reminder, streak: existing?.streak ?? reminder.streak }));
+    }),
     tx.done,
   ]);
+  notifyRemindersChanged();
   
   logger.log(`Updated ${reminders.length} reminders`);
 }
 
 /**
- * Delete multiple reminders by IDs.
+ * Delete multiple reminders by IDs (as tombstones, synced later).
  */
 export async function deleteReminders(ids: string[]): Promise<void> {
   const database = await initDB();
   const tx = database.transaction('reminders', 'readwrite');
+  const now = Date.now();
   
   await Promise.all([
-    ...ids.map(id => tx.store.delete(id)),
+    ...ids.map(async id => {
+      const existing = await tx.store.get(id);
+      if (existing && !existing.deletedAt) {
+        await tx.store.put({ ...existing, deletedAt: now, updatedAt: now });
+      }
+    }),
     tx.done,
   ]);
+  notifyRemindersChanged();
   
   logger.log(`Deleted ${ids.length} reminders`);
 }
@@ -368,8 +909,8 @@ export async function deleteReminders(ids: string[]): Promise<void> {
  * Get total count of reminders.
  */
 export async function getReminderCount(): Promise<number> {
-  const database = await initDB();
-  return database.count('reminders');
+  const reminders = await getAllReminders();
+  return reminders.length;
 }
 
 /**
@@ -485,8 +1026,9 @@ export async function getDBStats(): Promise<{
  */
 export async function addCallHistory(entry: CallHistoryEntry): Promise<void> {
   const database = await initDB();
-  await database.add('callHistory', entry);
+  await database.add('callHistory', { ...entry, updatedAt: Date.now() });
   logger.log('Call history entry added:', entry.id);
+  await refreshOccurrences(entry.reminderId, [entry.id]);
 }
 
 /**
@@ -494,8 +1036,9 @@ export async function addCallHistory(entry: CallHistoryEntry): Promise<void> {
  */
 export async function updateCallHistory(entry: CallHistoryEntry): Promise<void> {
   const database = await initDB();
-  await database.put('callHistory', entry);
+  await database.put('callHistory', { ...entry, updatedAt: Date.now() });
   logger.log('Call history entry updated:', entry.id);
+  await refreshOccurrences(entry.reminderId, [entry.id]);
 }
 
 /**
@@ -555,7 +1098,8 @@ export async function clearAllCallHistory(): Promise<void> {
 }
 
 /**
- * Get call history statistics.
+ * Get call history statistics, from the occurrence log (so they survive
+ * clearing the history itself).
  */
 export async function getCallHistoryStats(): Promise<{
   total: number;
@@ -564,26 +1108,14 @@ export async function getCallHistoryStats(): Promise<{
   withVoice: number;
   averageDuration: number;
 }> {
-  const allHistory = await getAllCallHistory();
-
-  const answered = allHistory.filter(h => h.answered).length;
-  const missed = allHistory.filter(h => !h.answered).length;
-  const withVoice = allHistory.filter(h => h.voicePlayed).length;
-
-  const durations = allHistory
-    .filter(h => h.duration !== undefined)
-    .map(h => h.duration!);
-
-  const averageDuration = durations.length > 0
-    ? durations.reduce((sum, d) => sum + d, 0) / durations.length
-    : 0;
+  const stats = summarizeOccurrences(await getAllOccurrences());
 
   return {
-    total: allHistory.length,
-    answered,
-    missed,
-    withVoice,
-    averageDuration,
+    total: stats.calls,
+    answered: stats.answeredCalls,
+    missed: stats.missedCalls,
+    withVoice: stats.voiceCalls,
+    averageDuration: stats.averageCallMs,
   };
 }
 
@@ -596,8 +1128,9 @@ export async function getCallHistoryStats(): Promise<{
  */
 export async function addCompletionPrompt(prompt: CompletionPrompt): Promise<void> {
   const database = await initDB();
-  await database.add('completionPrompts', prompt);
+  await database.add('completionPrompts', { ...prompt, updatedAt: Date.now() });
   logger.log('Completion prompt added:', prompt.id);
+  await refreshOccurrences(prompt.reminderId, [prompt.id]);
 }
 
 /**
@@ -613,10 +1146,11 @@ export async function updateCompletionPrompt(id: string, updates: Partial<Comple
   }
 
   // Merge updates with existing data
-  const updatedPrompt = { ...existingPrompt, ...updates };
+  const updatedPrompt = { ...existingPrompt, ...updates, updatedAt: Date.now() };
 
   await database.put('completionPrompts', updatedPrompt);
   logger.log('Completion prompt updated:', id);
+  await refreshOccurrences(updatedPrompt.reminderId, [id]);
 }
 
 /**
@@ -655,6 +1189,561 @@ export async function deleteCompletionPrompt(id: string): Promise<void> {
   logger.log('Completion prompt deleted:', id);
 }
 
+// ============================================================================
+// HISTORY SYNC OPERATIONS
+// ============================================================================
+
+// Stores synced one row per entry (see syncHistoryTable in services/supabaseSync.ts)
+type HistoryStoreName = 'callHistory' | 'completionPrompts' | 'messages';
+type HistoryEntry<Name extends HistoryStoreName> = ReminderDB[Name]['value'];
+
+interface SyncableEntry {
+  id: string;
+  updatedAt?: number;
+  syncedAt?: number;
+}
+
+function hasUnsyncedChanges(entry: SyncableEntry): boolean {
+  return !entry.syncedAt || (entry.updatedAt ?? 0) > entry.syncedAt;
+}
+
+async function getUnsyncedEntries<Name extends HistoryStoreName>(storeName: Name): Promise<HistoryEntry<Name>[]> {
+  const database = await initDB();
+  const entries: HistoryEntry<Name>[] = await database.getAll(storeName);
+  return entries.filter(hasUnsyncedChanges);
+}
+
+async function markEntriesSynced<Name extends HistoryStoreName>(
+  storeName: Name,
+  entries: HistoryEntry<Name>[]
+): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction(storeName, 'readwrite');
+  const now = Date.now();
+
+  for (const entry of entries) {
+    const current: HistoryEntry<Name> | undefined = await tx.store.get(entry.id);
+    // Changed again while uploading - leave it for the next sync
+    if (!current || current.updatedAt !== entry.updatedAt) continue;
+
+    const version = current.updatedAt ?? now;
+    await tx.store.put({ ...current, updatedAt: version, syncedAt: version });
+  }
+  await tx.done;
+}
+
+async function saveEntriesFromCloud<Name extends HistoryStoreName>(
+  storeName: Name,
+  entries: HistoryEntry<Name>[]
+): Promise<number> {
+  const database = await initDB();
+  const tx = database.transaction(storeName, 'readwrite');
+  let saved = 0;
+
+  for (const entry of entries) {
+    const current: HistoryEntry<Name> | undefined = await tx.store.get(entry.id);
+    // Same or newer version here already (including our own uploads coming back)
+    if (current && (hasUnsyncedChanges(current) || (current.updatedAt ?? 0) >= (entry.updatedAt ?? 0))) continue;
+
+    await tx.store.put({ ...entry, syncedAt: entry.updatedAt });
+    saved++;
+  }
+  await tx.done;
+
+  return saved;
+}
+
+/**
+ * Get call history entries created or changed since they were last synced.
+ */
+export async function getUnsyncedCallHistory(): Promise<CallHistoryEntry[]> {
+  return getUnsyncedEntries('callHistory');
+}
+
+/**
+ * Mark uploaded call history entries as synced.
+ */
+export async function markCallHistorySynced(entries: CallHistoryEntry[]): Promise<void> {
+  await markEntriesSynced('callHistory', entries);
+}
+
+/**
+ * Store call history entries pulled from the cloud, skipping ones we already
+ * have at the same or a newer version. Returns how many were stored.
+ */
+export async function saveCallHistoryFromCloud(entries: CallHistoryEntry[]): Promise<number> {
+  const saved = await saveEntriesFromCloud('callHistory', entries);
+  if (saved > 0) await refreshOccurrencesForEntries(entries);
+  return saved;
+}
+
+/**
+ * Get completion prompts created or changed since they were last synced.
+ */
+export async function getUnsyncedCompletionPrompts(): Promise<CompletionPrompt[]> {
+  return getUnsyncedEntries('completionPrompts');
+}
+
+/**
+ * Mark uploaded completion prompts as synced.
+ */
+export async function markCompletionPromptsSynced(prompts: CompletionPrompt[]): Promise<void> {
+  await markEntriesSynced('completionPrompts', prompts);
+}
+
+/**
+ * Store completion prompts pulled from the cloud, skipping ones we already
+ * have at the same or a newer version. Returns how many were stored.
+ */
+export async function saveCompletionPromptsFromCloud(prompts: CompletionPrompt[]): Promise<number> {
+  const saved = await saveEntriesFromCloud('completionPrompts', prompts);
+  if (saved > 0) await refreshOccurrencesForEntries(prompts);
+  return saved;
+}
+
+// ============================================================================
+// OCCURRENCE LOG OPERATIONS
+// ============================================================================
+
+/**
+ * Re-summarize the occurrences of a reminder that the given calls and
+ * check-ins belong to (all of them if no ids are given), then refresh the
+ * reminder's streak from the log. Calls that aren't about a stored reminder
+ * (panic, calls from others) have no occurrences.
+ */
+async function refreshOccurrences(reminderId: string, entryIds?: string[]): Promise<void> {
+  try {
+    const database = await initDB();
+    const tx = database.transaction(['reminders', 'callHistory', 'completionPrompts', 'occurrences'], 'readwrite');
+    const reminderStore = tx.objectStore('reminders');
+    const occurrenceStore = tx.objectStore('occurrences');
+
+    const reminder = await reminderStore.get(reminderId);
+    if (!reminder) {
+      await tx.done;
+      return;
+    }
+
+    const calls = await tx.objectStore('callHistory').index('by-reminderId').getAll(reminderId);
+    const prompts = await tx.objectStore('completionPrompts').index('by-reminderId').getAll(reminderId);
+    for (const record of buildOccurrenceRecords(reminder, calls, prompts, entryIds && new Set(entryIds))) {
+      await occurrenceStore.put(record);
+    }
+
+    // Occurrences that never rang here, e.g. ones another device rang while this one was off
+    const records = await occurrenceStore.index('by-reminderId').getAll(reminderId);
+    for (const record of occurrenceGaps(reminder, records)) {
+      await occurrenceStore.put(record);
+    }
+
+    const streak = streakFromOccurrences(reminder, records);
+    const streakChanged = !!streak && JSON.stringify(streak) !== JSON.stringify(reminder.streak);
+    if (streakChanged) {
+      await reminderStore.put({ ...reminder, streak });
+    }
+    await tx.done;
+
+    if (streakChanged) notifyRemindersChanged();
+  } catch (error) {
+    // History is saved either way; the log catches up on the next change
+    logger.warn('Failed to update the occurrence log:', error);
+  }
+}
+
+/**
+ * Log a reminder's occurrences due from `from` through `through` that have
+ * nothing logged yet. The scheduler calls this as a reminder comes due, so
+ * occurrences it skips after the app was closed are logged (as missed) too.
+ */
+export async function logDueOccurrences(reminder: Reminder, from: number, through: number): Promise<void> {
+  try {
+    const database = await initDB();
+    const tx = database.transaction('occurrences', 'readwrite');
+    const logged = await tx.store.index('by-reminderId').getAll(reminder.id);
+    for (const record of missingOccurrences(reminder, logged, from, through)) {
+      await tx.store.put(record);
+    }
+    await tx.done;
+  } catch (error) {
+    logger.warn('Failed to log due occurrences:', error);
+  }
+}
+
+async function refreshOccurrencesForEntries(entries: { id: string; reminderId: string }[]): Promise<void> {
+  const idsByReminder = new Map<string, string[]>();
+  for (const entry of entries) {
+    idsByReminder.set(entry.reminderId, [...(idsByReminder.get(entry.reminderId) || []), entry.id]);
+  }
+
+  for (const [reminderId, ids] of idsByReminder) {
+    await refreshOccurrences(reminderId, ids);
+  }
+}
+
+/**
+ * Get every logged occurrence, most recently scheduled first.
+ */
+export async function getAllOccurrences(): Promise<OccurrenceRecord[]> {
+  const database = await initDB();
+  const records = await database.getAll('occurrences');
+  return records.sort((a, b) => b.scheduledAt - a.scheduledAt);
+}
+
+/**
+ * Get the logged occurrences of a reminder, most recently scheduled first.
+ */
+export async function getOccurrencesForReminder(reminderId: string): Promise<OccurrenceRecord[]> {
+  const database = await initDB();
+  const records = await database.getAllFromIndex('occurrences', 'by-reminderId', reminderId);
+  return records.sort((a, b) => b.scheduledAt - a.scheduledAt);
+}
+
+/**
+ * Get one occurrence of a reminder, if anything has happened for it yet.
+ */
+export async function getOccurrence(reminderId: string, scheduledAt: number): Promise<OccurrenceRecord | undefined> {
+  const database = await initDB();
+  return database.get('occurrences', occurrenceId(reminderId, scheduledAt));
+}
+
+// ============================================================================
+// OUTBOX OPERATIONS
+// ============================================================================
+
+/**
+ * Record a write to replay later. Returns its id.
+ */
+export async function addOutboxEntry(entry: OutboxEntry): Promise<number> {
+  const database = await initDB();
+  return (await database.add('outbox', entry)) as number;
+}
+
+/**
+ * Get all outbox entries in replay order.
+ */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const database = await initDB();
+  return database.getAll('outbox');
+}
+
+/**
+ * Lock an entry for replay, unless a tab or the service worker already holds it.
+ * Returns the locked entry, or undefined if it's gone or taken.
+ */
+export async function claimOutboxEntry(id: number, leaseMs: number): Promise<OutboxEntry | undefined> {
+  const database = await initDB();
+  const tx = database.transaction('outbox', 'readwrite');
+  const entry = await tx.store.get(id);
+  const now = Date.now();
+
+  if (!entry || (entry.lockedUntil ?? 0) > now) {
+    await tx.done;
+    return undefined;
+  }
+
+  const claimed = { ...entry, lockedUntil: now + leaseMs };
+  await tx.store.put(claimed);
+  await tx.done;
+  return claimed;
+}
+
+/**
+ * Update an outbox entry (retry schedule, status, lock).
+ */
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const database = await initDB();
+  await database.put('outbox', entry);
+}
+
+/**
+ * Remove an outbox entry once replayed or discarded.
+ */
+export async function deleteOutboxEntry(id: number): Promise<void> {
+  const database = await initDB();
+  await database.delete('outbox', id);
+}
+
+/**
+ * Store (or clear) the session the service worker replays the outbox with.
+ */
+export async function saveOutboxCredentials(credentials: OutboxCredentials | null): Promise<void> {
+  const database = await initDB();
+  if (credentials) {
+    await database.put('outboxCredentials', credentials);
+  } else {
+    await database.delete('outboxCredentials', 'session');
+  }
+}
+
+// ============================================================================
+// RECALL OPERATIONS
+// ============================================================================
+
+/**
+ * Queue a recall.
+ */
+export async function addRecall(recall: PendingRecall): Promise<void> {
+  const database = await initDB();
+  await database.put('recalls', recall);
+}
+
+/**
+ * Get all queued recalls, soonest first.
+ */
+export async function getAllRecalls(): Promise<PendingRecall[]> {
+  const database = await initDB();
+  return database.getAllFromIndex('recalls', 'by-nextRecallTime');
+}
+
+/**
+ * Get recalls due at or before `now` that no tab is firing.
+ */
+export async function getDueRecalls(now: number = Date.now()): Promise<PendingRecall[]> {
+  const database = await initDB();
+  const due = await database.getAllFromIndex('recalls', 'by-nextRecallTime', IDBKeyRange.upperBound(now));
+  return due.filter(recall => (recall.claimedUntil ?? 0) <= now);
+}
+
+/**
+ * Lock a due recall for firing, so two tabs can't ring the same recall.
+ * Returns the locked recall, or undefined if it's gone or taken.
+ */
+export async function claimRecall(id: string, leaseMs: number): Promise<PendingRecall | undefined> {
+  const database = await initDB();
+  const tx = database.transaction('recalls', 'readwrite');
+  const recall = await tx.store.get(id);
+  const now = Date.now();
+
+  if (!recall || recall.nextRecallTime > now || (recall.claimedUntil ?? 0) > now) {
+    await tx.done;
+    return undefined;
+  }
+
+  const claimed = { ...recall, claimedUntil: now + leaseMs };
+  await tx.store.put(claimed);
+  await tx.done;
+  return claimed;
+}
+
+/**
+ * Remove a recall once it has fired. Only the holder of the claim can
+ * complete it; returns false if the claim expired and was taken over.
+ */
+export async function completeRecall(recall: PendingRecall): Promise<boolean> {
+  const database = await initDB();
+  const tx = database.transaction('recalls', 'readwrite');
+  const stored = await tx.store.get(recall.id);
+
+  const owned = !!stored && stored.claimedUntil === recall.claimedUntil;
+  if (owned) {
+    await tx.store.delete(recall.id);
+  }
+  await tx.done;
+  return owned;
+}
+
+/**
+ * Remove every queued recall for a reminder.
+ */
+export async function deleteRecallsForReminder(reminderId: string): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('recalls', 'readwrite');
+  const keys = await tx.store.index('by-reminderId').getAllKeys(reminderId);
+  await Promise.all(keys.map(key => tx.store.delete(key)));
+  await tx.done;
+}
+
+/**
+ * Remove all queued recalls.
+ */
+export async function clearAllRecalls(): Promise<void> {
+  const database = await initDB();
+  await database.clear('recalls');
+}
+
+// ============================================================================
+// TTS CACHE OPERATIONS
+// ============================================================================
+
+/**
+ * Get cached speech and mark it as just used.
+ */
+export async function getCachedAudio(key: string): Promise<Blob | undefined> {
+  const database = await initDB();
+  const tx = database.transaction('ttsCache', 'readwrite');
+  const entry = await tx.store.get(key);
+  if (entry) {
+    await tx.store.put({ ...entry, lastUsedAt: Date.now() });
+  }
+  await tx.done;
+  return entry?.audio;
+}
+
+/**
+ * Cache speech, then evict the least recently used entries until the
+ * cache fits in `maxBytes`.
+ */
+export async function putCachedAudio(key: string, audio: Blob, maxBytes: number): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('ttsCache', 'readwrite');
+  const now = Date.now();
+  await tx.store.put({ key, audio, size: audio.size, createdAt: now, lastUsedAt: now });
+
+  // Walk newest to oldest; everything past the cap goes
+  let total = 0;
+  let cursor = await tx.store.index('by-lastUsedAt').openCursor(null, 'prev');
+  while (cursor) {
+    total += cursor.value.size;
+    if (total > maxBytes && cursor.value.key !== key) {
+      await cursor.delete();
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+}
+
+/**
+ * Number of cached clips and their total size in bytes.
+ */
+export async function getTTSCacheStats(): Promise<{ count: number; bytes: number }> {
+  const database = await initDB();
+  let count = 0;
+  let bytes = 0;
+  let cursor = await database.transaction('ttsCache').store.openCursor();
+  while (cursor) {
+    count++;
+    bytes += cursor.value.size;
+    cursor = await cursor.continue();
+  }
+  return { count, bytes };
+}
+
+export async function clearTTSCache(): Promise<void> {
+  const database = await initDB();
+  await database.clear('ttsCache');
+}
+
+// ============================================================================
+// PREPARED CALL OPERATIONS
+// ============================================================================
+
+export async function savePreparedCall(prepared: PreparedCall): Promise<void> {
+  const database = await initDB();
+  await database.put('preparedCalls', prepared);
+}
+
+export async function getPreparedCall(reminderId: string): Promise<PreparedCall | undefined> {
+  const database = await initDB();
+  return database.get('preparedCalls', reminderId);
+}
+
+export async function deletePreparedCall(reminderId: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('preparedCalls', reminderId);
+}
+
+/**
+ * Remove prepared calls for triggers before `before` that were never answered.
+ */
+export async function deleteStalePreparedCalls(before: number): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('preparedCalls', 'readwrite');
+  let cursor = await tx.store.openCursor();
+  while (cursor) {
+    if (cursor.value.trigger < before) {
+      await cursor.delete();
+    }
+    cursor = await cursor.continue();
+  }
+  await tx.done;
+}
+
+// ============================================================================
+// AUDIO ASSET OPERATIONS
+// ============================================================================
+
+export async function putAudioAsset(asset: AudioAsset): Promise<void> {
+  const database = await initDB();
+  await database.put('audio', asset);
+}
+
+export async function getAudioAsset(id: string): Promise<AudioAsset | undefined> {
+  const database = await initDB();
+  return database.get('audio', id);
+}
+
+/**
+ * Get all recordings, newest first.
+ */
+export async function getAllAudioAssets(): Promise<AudioAsset[]> {
+  const database = await initDB();
+  const assets = await database.getAll('audio');
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Get recordings made here that haven't reached Supabase Storage yet.
+ */
+export async function getUnuploadedAudioAssets(): Promise<AudioAsset[]> {
+  const database = await initDB();
+  const assets = await database.getAll('audio');
+  return assets.filter(asset => asset.audio && !asset.uploadedAt);
+}
+
+export async function deleteAudioAsset(id: string): Promise<void> {
+  const database = await initDB();
+  await database.delete('audio', id);
+}
+
+// ============================================================================
+// MESSAGE LIBRARY OPERATIONS
+// ============================================================================
+
+/**
+ * Save a library message, stamping it for sync.
+ */
+export async function putLibraryMessage(message: LibraryMessage): Promise<void> {
+  const database = await initDB();
+  await database.put('messages', { ...message, updatedAt: Date.now() });
+}
+
+export async function getLibraryMessage(id: string): Promise<LibraryMessage | undefined> {
+  const database = await initDB();
+  return database.get('messages', id);
+}
+
+/**
+ * Get the library, alphabetically, without deleted messages.
+ */
+export async function getLibraryMessages(): Promise<LibraryMessage[]> {
+  const database = await initDB();
+  const messages = await database.getAll('messages');
+  return messages
+    .filter(message => !message.deletedAt)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get messages by id, in the order given, skipping deleted or unknown ones.
+ */
+export async function getLibraryMessagesByIds(ids: string[]): Promise<LibraryMessage[]> {
+  const database = await initDB();
+  const messages = await Promise.all(ids.map(id => database.get('messages', id)));
+  return messages.filter((message): message is LibraryMessage => !!message && !message.deletedAt);
+}
+
+export async function getUnsyncedLibraryMessages(): Promise<LibraryMessage[]> {
+  return getUnsyncedEntries('messages');
+}
+
+export async function markLibraryMessagesSynced(messages: LibraryMessage[]): Promise<void> {
+  return markEntriesSynced('messages', messages);
+}
+
+export async function saveLibraryMessagesFromCloud(messages: LibraryMessage[]): Promise<number> {
+  return saveEntriesFromCloud('messages', messages);
+}
+
 // ============================================================================
 // DATA EXPORT/IMPORT OPERATIONS
 // ============================================================================
@@ -665,9 +1754,29 @@ export interface ExportData {
   reminders: Reminder[];
   callHistory: CallHistoryEntry[];
   completionPrompts: CompletionPrompt[];
+  occurrences?: OccurrenceRecord[];
+  audio?: ExportedAudioAsset[]; // Recordings, since Blobs don't survive JSON
+  messages?: LibraryMessage[];
   settings?: Record<string, unknown>;
 }
 
+export interface ExportedAudioAsset {
+  id: string;
+  mimeType: string;
+  durationMs?: number;
+  createdAt: number;
+  dataUrl: string;
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
 /**
  * Export all data from all stores for backup.
  */
@@ -677,6 +1786,19 @@ export async function exportAllData(): Promise<ExportData> {
   const reminders = await database.getAll('reminders');
   const callHistory = await database.getAll('callHistory');
   const completionPrompts = await database.getAll('completionPrompts');
+  const occurrences = await database.getAll('occurrences');
+  const messages = (await database.getAll('messages')).filter(message => !message.deletedAt);
+  const audio = await Promise.all(
+    (await database.getAll('audio'))
+      .filter(asset => asset.audio)
+      .map(async asset => ({
+        id: asset.id,
+        mimeType: asset.mimeType,
+        durationMs: asset.durationMs,
+        createdAt: asset.createdAt,
+        dataUrl: await blobToDataUrl(asset.audio!),
+      }))
+  );
 
   // Also export localStorage settings
   let settings: Record<string, unknown> = {};
@@ -695,6 +1817,9 @@ export async function exportAllData(): Promise<ExportData> {
     reminders,
     callHistory,
     completionPrompts,
+    occurrences,
+    audio,
+    messages,
     settings,
   };
 }
@@ -711,8 +1836,57 @@ export async function importData(
   const errors: string[] = [];
   let imported = 0;
 
+  // Import recordings first, so the reminders' audio ids resolve
+  if (data.audio && Array.isArray(data.audio)) {
+    const tx = database.transaction('audio', 'readwrite');
+    for (const exported of data.audio) {
+      const audio = dataUrlToBlob(exported.dataUrl);
+      if (!audio) {
+        errors.push(`Failed to import recording: ${exported.id}`);
+        continue;
+      }
+      const { dataUrl: _dataUrl, ...asset } = exported;
+      await tx.store.put({ ...asset, audio, size: audio.size });
+    }
+    await tx.done;
+  }
+
+  // Import the message library
+  if (data.messages && Array.isArray(data.messages)) {
+    const tx = database.transaction('messages', 'readwrite');
+    for (const message of data.messages) {
+      try {
+        if (options.merge || !(await tx.store.get(message.id))) {
+          await tx.store.put({ ...message, syncedAt: undefined });
+        }
+        imported++;
+      } catch (e) {
+        errors.push(`Failed to import message: ${message.name}`);
+      }
+    }
+    await tx.done;
+  }
+
   // Import reminders
   if (data.reminders && Array.isArray(data.reminders)) {
+    // Backups from before the audio store carry base64 recordings
+    const legacyAssets = data.reminders
+      .filter(r => r.audioRecording)
+      .map(r => {
+        const asset = legacyAudioAsset(r.audioRecording!);
+        if (asset) {
+          delete r.audioRecording;
+          r.audioAssetId = asset.id;
+        }
+        return asset;
+      })
+      .filter((asset): asset is AudioAsset => asset !== null);
+    if (legacyAssets.length > 0) {
+      const audioTx = database.transaction('audio', 'readwrite');
+      await Promise.all(legacyAssets.map(asset => audioTx.store.put(asset)));
+      await audioTx.done;
+    }
+
     const tx = database.transaction('reminders', 'readwrite');
     for (const reminder of data.reminders) {
       try {
@@ -730,6 +1904,7 @@ export async function importData(
       }
     }
     await tx.done;
+    notifyRemindersChanged();
   }
 
   // Import call history
@@ -774,6 +1949,18 @@ export async function importData(
     await tx.done;
   }
 
+  // Import the occurrence log, then bring it up to date with the imported history
+  if (data.occurrences && Array.isArray(data.occurrences)) {
+    const tx = database.transaction('occurrences', 'readwrite');
+    for (const record of data.occurrences) {
+      if (options.merge || !(await tx.store.get(record.id))) {
+        await tx.store.put(record);
+      }
+    }
+    await tx.done;
+  }
+  await refreshOccurrencesForEntries([...(data.callHistory || []), ...(data.completionPrompts || [])]);
+
   // Import settings
   if (data.settings) {
     try {
@@ -1,57 +1,228 @@
 import { useState, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Reminder } from '../utils/reminderScheduler';
-import { addCallHistory, updateCallHistory, CallHistoryEntry } from '../db/reminderDB';
-import { scheduleRecall, cancelRecall } from '../utils/autoRecall';
-import { speakWithBrowser, speakWithOpenAI, generateReminderSpeech } from '../utils/textToSpeech';
+import { Reminder, snoozeReminder } from '../utils/reminderScheduler';
+import { occurrenceAtTime } from '../utils/occurrences';
+import {
+  addCallHistory,
+  updateCallHistory,
+  addCompletionPrompt,
+  getReminder,
+  updateReminder,
+  CallHistoryEntry,
+  CallTranscriptLine,
+} from '../db/reminderDB';
+import { escalateMissedCall, cancelRecall } from '../utils/autoRecall';
+import { broadcastCall, onCallBroadcast } from '../utils/tabCoordinator';
+import { getCallTTSSettings, speakWithBrowser, speakWithOpenAI } from '../utils/textToSpeech';
+import { generateCallScript } from '../services/llmProviders';
+import { getAudioBlob } from '../services/audioAssets';
+import { chooseMessage } from '../services/messageLibrary';
+import { buildCallContext } from '../utils/callContext';
+import { takePreparedScript } from '../utils/callPrefetch';
+import { CallIntent, endsCall, parseCallIntent, replyForIntent } from '../utils/callIntents';
+import { isRecognizerAvailable, RecognizerType } from '../utils/speechRecognition';
+import { useAuth } from '../contexts/AuthContext';
+import { GroupOccurrenceRef, recordGroupCheckIn } from '../services/groupReminders';
 
 export type CallState = 'idle' | 'incoming' | 'active' | 'ended';
 
+// Reminder as carried by a reminderTriggered event
+export type CallReminder = Reminder & {
+  recallAttempt?: number;
+  scriptKind?: 'reminder' | 'panic'; // Which call script to generate (default: reminder)
+  scriptText?: string; // Exact words to say instead of a generated script
+  groupOccurrence?: GroupOccurrenceRef; // Set for one member's ring of a group reminder
+  // Calls from other people (see App's pending call handling)
+  isFromOther?: boolean;
+  isMotivation?: boolean; // A partner calling to cheer the user on
+  senderName?: string;
+  senderEmail?: string;
+};
+
 export interface MissedCall {
   reminder: Reminder;
   timestamp: number;
 }
 
+// Conversational calls hang up after this many turns with nothing heard
+const MAX_SILENT_TURNS = 2;
+
+// The settings that decide whether a call listens for replies (saved by SettingsModal)
+interface ConversationSettings {
+  conversationalCalls: boolean;
+  speechRecognizer: RecognizerType;
+}
+
+function loadConversationSettings(): ConversationSettings {
+  try {
+    const settingsStr = localStorage.getItem('aiReminderSettings');
+    if (settingsStr) {
+      const settings = JSON.parse(settingsStr);
+      return {
+        conversationalCalls: !!settings.conversationalCalls,
+        speechRecognizer: settings.speechRecognizer || 'browser',
+      };
+    }
+  } catch {
+    // Use default settings if parse fails
+  }
+
+  return { conversationalCalls: false, speechRecognizer: 'browser' };
+}
+
+// Speak with the TTS provider chosen in settings
+async function speakWithSettings(text: string): Promise<void> {
+  const settings = getCallTTSSettings();
+
+  if (settings.provider === 'openai') {
+    await speakWithOpenAI(text, settings);
+  } else {
+    await speakWithBrowser(text, settings);
+  }
+}
+
+/**
+ * Carry out what the user asked for during a conversational call.
+ * Returns the call's outcome, or null if nothing could be done
+ * (e.g. snoozing a panic call, which has no stored reminder).
+ */
+async function applyCallIntent(
+  intent: CallIntent,
+  reminder: Reminder,
+  callHistoryId: string
+): Promise<CallHistoryEntry['outcome'] | null> {
+  const now = Date.now();
+  const prompt = {
+    id: `${callHistoryId}-prompt`,
+    reminderId: reminder.id,
+    reminderTitle: reminder.title,
+    reminderWhy: reminder.why || '',
+    callHistoryId,
+    promptedAt: now,
+    respondedAt: now,
+  };
+
+  switch (intent.type) {
+    case 'done':
+      // Answered here instead of in the completion prompt after the call (the streak follows from it)
+      await addCompletionPrompt({ ...prompt, completed: true });
+      return 'done';
+    case 'snooze': {
+      const stored = await getReminder(reminder.id);
+      if (!stored) return null;
+      // The stored copy already moved on; snoozes of the occurrence ringing are counted on the call's copy.
+      // One-time reminders were switched off when they rang - bring them back for the snooze
+      const snoozed = snoozeReminder({ ...stored, snoozeCount: reminder.snoozeCount }, intent.minutes);
+      await updateReminder({ ...snoozed, active: true });
+      return 'snoozed';
+    }
+    case 'skip':
+      await addCompletionPrompt({ ...prompt, completed: false, skipped: true });
+      return 'skipped';
+    default:
+      return null;
+  }
+}
+
 export function useCallManager() {
+  const { user } = useAuth();
   const [callState, setCallState] = useState<CallState>('idle');
-  const [currentReminder, setCurrentReminder] = useState<Reminder | null>(null);
+  const [currentReminder, setCurrentReminder] = useState<CallReminder | null>(null);
   const [isAISpeaking, setIsAISpeaking] = useState(false);
   const [missedCalls, setMissedCalls] = useState<MissedCall[]>([]);
   const [currentCallHistory, setCurrentCallHistory] = useState<CallHistoryEntry | null>(null);
+  // The ringing call belongs to another tab and is only shown here
+  const [isMirroredCall, setIsMirroredCall] = useState(false);
+  // The user can talk back (speech recognition on, see ActiveCallModal)
+  const [isConversational, setIsConversational] = useState(false);
 
   // Use ref to keep track of current call history for event handlers
   const callHistoryRef = useRef<CallHistoryEntry | null>(null);
   // Track the actual start time of the call for accurate duration
   const callStartTimeRef = useRef<number | null>(null);
 
+  const callStateRef = useRef<CallState>('idle');
+  const conversationRef = useRef(false);
+  // What the caller said when the call was answered, added to the transcript once spoken
+  const openingLineRef = useRef<string | null>(null);
+  const silentTurnsRef = useRef(0);
+
+  // Save a call history change, keeping the ref current for event handlers
+  const saveCallHistory = async (entry: CallHistoryEntry) => {
+    callHistoryRef.current = entry;
+    setCurrentCallHistory(entry);
+    await updateCallHistory(entry);
+  };
+
+  const appendTranscript = async (speaker: CallTranscriptLine['speaker'], text: string) => {
+    const entry = callHistoryRef.current;
+    if (!entry) return;
+    await saveCallHistory({
+      ...entry,
+      transcript: [...(entry.transcript || []), { speaker, text, at: Date.now() }],
+    });
+  };
+
   // Update ref whenever currentCallHistory changes
   useEffect(() => {
     callHistoryRef.current = currentCallHistory;
   }, [currentCallHistory]);
 
+  useEffect(() => {
+    callStateRef.current = callState;
+  }, [callState]);
+
+  // Mirror calls ringing in other tabs, and drop them once handled there
+  useEffect(() => {
+    return onCallBroadcast(message => {
+      if (message.type === 'incoming') {
+        if (callStateRef.current !== 'idle') return;
+        setCurrentReminder(message.reminder);
+        setCurrentCallHistory(message.callHistory);
+        setIsMirroredCall(true);
+        setCallState('incoming');
+        return;
+      }
+
+      // Answered or declined in another tab
+      if (callStateRef.current === 'incoming' && callHistoryRef.current?.id === message.callId) {
+        setCallState('idle');
+        setCurrentReminder(null);
+        setCurrentCallHistory(null);
+        setIsMirroredCall(false);
+      }
+    });
+  }, []);
+
   useEffect(() => {
     const handleReminderTriggered = async (event: CustomEvent) => {
-      const reminder = event.detail as Reminder;
+      const reminder = event.detail as CallReminder;
       setCurrentReminder(reminder);
+      setIsMirroredCall(false);
       setCallState('incoming');
 
       // Get recall attempt number from event
-      const recallAttempt = (event.detail as any).recallAttempt || 1;
+      const recallAttempt = reminder.recallAttempt ?? 1;
 
       // Create initial call history entry
+      const timestamp = Date.now();
       const callEntry: CallHistoryEntry = {
         id: uuidv4(),
         reminderId: reminder.id,
         reminderTitle: reminder.title,
         reminderWhy: reminder.why || '',
-        timestamp: Date.now(),
+        timestamp,
         answered: false,
         voicePlayed: false,
         recallAttempt,
+        occurrenceAt: occurrenceAtTime(reminder, timestamp),
       };
 
       await addCallHistory(callEntry);
       setCurrentCallHistory(callEntry);
+
+      // Ring in the other open tabs too
+      broadcastCall({ type: 'incoming', callId: callEntry.id, reminder, callHistory: callEntry });
     };
 
     const handleSpeakingStart = () => {
@@ -60,6 +231,17 @@ export function useCallManager() {
 
     const handleSpeakingEnd = async () => {
       setIsAISpeaking(false);
+
+      // Conversational calls stay open for the user to answer
+      if (conversationRef.current) {
+        if (openingLineRef.current) {
+          const openingLine = openingLineRef.current;
+          openingLineRef.current = null;
+          await appendTranscript('ai', openingLine);
+        }
+        return;
+      }
+
       // Auto-end call after AI finishes speaking - save duration immediately
       setTimeout(async () => {
         const callHistory = callHistoryRef.current;
@@ -108,6 +290,19 @@ export function useCallManager() {
 
   const answerCall = async () => {
     setCallState('active');
+    setIsMirroredCall(false);
+
+    // Dismiss the call in the other tabs
+    if (currentCallHistory) {
+      broadcastCall({ type: 'answered', callId: currentCallHistory.id });
+    }
+
+    // Talk back only where speech can be recognized; otherwise the call stays one-way
+    const settings = loadConversationSettings();
+    const conversational = settings.conversationalCalls && isRecognizerAvailable(settings.speechRecognizer);
+    conversationRef.current = conversational;
+    silentTurnsRef.current = 0;
+    setIsConversational(conversational);
 
     // Record the exact time the call was answered for accurate duration tracking
     const answeredAtTime = Date.now();
@@ -116,7 +311,7 @@ export function useCallManager() {
 
     // Cancel any pending recalls for this reminder (user answered!)
     if (currentReminder) {
-      cancelRecall(currentReminder.id);
+      await cancelRecall(currentReminder.id);
     }
 
     // Update call history: call answered
@@ -126,25 +321,51 @@ export function useCallManager() {
         answered: true,
         answeredAt: answeredAtTime,
       };
-      await updateCallHistory(updatedEntry);
-      setCurrentCallHistory(updatedEntry);
-      // Also update the ref immediately for accurate duration tracking
-      callHistoryRef.current = updatedEntry;
+      // Also updates the ref immediately for accurate duration tracking
+      await saveCallHistory(updatedEntry);
     }
 
     // NOW play voice (custom recording or AI TTS)
     if (currentReminder) {
+      // Library messages: a recording plays like a custom recording, a text script is said as written
+      let recordingAssetId = currentReminder.useCustomAudio ? currentReminder.audioAssetId : undefined;
+      let scriptText = currentReminder.scriptText;
+      if (currentReminder.messageIds?.length) {
+        const message = await chooseMessage(currentReminder.messageIds, currentReminder.messageRotation).catch(error => {
+          console.warn('Could not pick a library message:', error);
+          return undefined;
+        });
+        if (message?.kind === 'recording' && message.audioAssetId) {
+          recordingAssetId = message.audioAssetId;
+        } else if (message?.kind === 'text' && message.text) {
+          recordingAssetId = undefined;
+          scriptText = message.text;
+        }
+      }
+      const legacyRecording = currentReminder.useCustomAudio && !scriptText ? currentReminder.audioRecording : undefined;
+
       // Check if there's a custom audio recording
-      if (currentReminder.useCustomAudio && currentReminder.audioRecording) {
+      if (recordingAssetId || legacyRecording) {
         try {
           // Play custom audio recording
+          openingLineRef.current = conversational ? '(Played your recorded message)' : null;
           window.dispatchEvent(new Event('aiSpeakingStart'));
 
-          const audio = new Audio(currentReminder.audioRecording);
+          // Recordings from the audio store (downloaded on first play); older ones are inline base64
+          const audioUrl = recordingAssetId
+            ? URL.createObjectURL(await getAudioBlob(recordingAssetId))
+            : legacyRecording!;
+          const releaseUrl = () => {
+            if (recordingAssetId) URL.revokeObjectURL(audioUrl);
+          };
+
+          const audio = new Audio(audioUrl);
           audio.onended = () => {
+            releaseUrl();
             window.dispatchEvent(new Event('aiSpeakingEnd'));
           };
           audio.onerror = () => {
+            releaseUrl();
             console.error('❌ Custom audio playback failed');
             window.dispatchEvent(new Event('aiSpeakingEnd'));
           };
@@ -159,8 +380,7 @@ export function useCallManager() {
               voicePlayed: true,
               voicePlayedSuccessfully: true,
             };
-            await updateCallHistory(updatedEntry);
-            setCurrentCallHistory(updatedEntry);
+            await saveCallHistory(updatedEntry);
           }
         } catch (error) {
           console.error("❌ Custom audio playback failed:", error);
@@ -174,43 +394,42 @@ export function useCallManager() {
               voicePlayed: true,
               voicePlayedSuccessfully: false,
             };
-            await updateCallHistory(updatedEntry);
-            setCurrentCallHistory(updatedEntry);
+            await saveCallHistory(updatedEntry);
           }
 
           // Still dispatch speaking end event so call doesn't hang
           window.dispatchEvent(new Event('aiSpeakingEnd'));
         }
       } else {
-        // Use TTS (browser or OpenAI based on settings)
-        let settings = null;
-        try {
-          const settingsStr = localStorage.getItem('aiReminderSettings');
-          settings = settingsStr ? JSON.parse(settingsStr) : null;
-        } catch {
-          // Use default settings if parse fails
-        }
-        const speechText = generateReminderSpeech(currentReminder.title, currentReminder.why);
+        // A library text message, else a script from the LLM provider chosen in settings,
+        // spoken with TTS (browser or OpenAI)
+        const kind = currentReminder.scriptKind === 'panic' ? 'panic' : 'reminder';
+        const recallAttempt = currentCallHistory?.recallAttempt || currentReminder.recallAttempt || 1;
+
+        // First calls' scripts are usually prepared ahead of time (see callPrefetch)
+        const preparedScript = scriptText ?? (kind === 'reminder' && recallAttempt === 1
+          ? await takePreparedScript(currentReminder).catch(() => null)
+          : null);
+        const context = kind === 'reminder' && !preparedScript
+          ? await buildCallContext(currentReminder, recallAttempt, currentCallHistory?.id).catch(error => {
+              console.warn('Could not load call context:', error);
+              return undefined;
+            })
+          : undefined;
+        const speechText = preparedScript ?? await generateCallScript({
+          kind,
+          title: currentReminder.title,
+          why: currentReminder.why,
+          context,
+        });
+        openingLineRef.current = conversational ? speechText : null;
 
         // Dispatch speaking start event
         window.dispatchEvent(new Event('aiSpeakingStart'));
 
         try {
-          // Check which TTS provider to use
-          if (settings?.ttsProvider === 'openai' && settings?.apiKey) {
-            // Use OpenAI TTS
-            await speakWithOpenAI(speechText, {
-              openaiApiKey: settings.apiKey,
-              openaiVoice: settings.openaiVoice || 'nova',
-            });
-          } else {
-            // Use Browser TTS (default, free)
-            await speakWithBrowser(speechText, {
-              browserVoice: settings?.browserVoice,
-              browserRate: settings?.browserRate || 1.0,
-              browserPitch: settings?.browserPitch || 1.0,
-            });
-          }
+          // Uses OpenAI TTS if configured, otherwise the browser's (default, free)
+          await speakWithSettings(speechText);
 
           // Update call history: voice played successfully
           if (currentCallHistory) {
@@ -221,8 +440,7 @@ export function useCallManager() {
               voicePlayed: true,
               voicePlayedSuccessfully: true,
             };
-            await updateCallHistory(updatedEntry);
-            setCurrentCallHistory(updatedEntry);
+            await saveCallHistory(updatedEntry);
           }
 
           // Dispatch speaking end event
@@ -239,8 +457,7 @@ export function useCallManager() {
               voicePlayed: true,
               voicePlayedSuccessfully: false,
             };
-            await updateCallHistory(updatedEntry);
-            setCurrentCallHistory(updatedEntry);
+            await saveCallHistory(updatedEntry);
           }
 
           // Dispatch speaking end event even on failure
@@ -251,8 +468,12 @@ export function useCallManager() {
   };
 
   const declineCall = async () => {
+    setIsMirroredCall(false);
+
     // Update call history: call declined (not answered)
     if (currentCallHistory) {
+      broadcastCall({ type: 'declined', callId: currentCallHistory.id });
+
       const updatedEntry = {
         ...currentCallHistory,
         answered: false,
@@ -261,10 +482,12 @@ export function useCallManager() {
       };
       await updateCallHistory(updatedEntry);
 
-      // Schedule auto-recall for this declined call
+      // Escalate and schedule auto-recall for this declined call
       if (currentReminder) {
-        const nextAttempt = (currentCallHistory.recallAttempt || 1) + 1;
-        scheduleRecall(currentReminder, nextAttempt, updatedEntry.id);
+        const escalatedEntry = await escalateMissedCall(currentReminder, updatedEntry, user?.id);
+        if (escalatedEntry !== updatedEntry) {
+          await updateCallHistory(escalatedEntry);
+        }
       }
 
       setCurrentCallHistory(null);
@@ -296,19 +519,25 @@ export function useCallManager() {
   };
 
   const hangupCall = async () => {
+    conversationRef.current = false;
+    openingLineRef.current = null;
+    setIsConversational(false);
+
     // Update call history: call ended with duration
-    if (currentCallHistory) {
+    // (the ref also holds transcript lines added since the last render)
+    const callHistory = callHistoryRef.current ?? currentCallHistory;
+    if (callHistory) {
       const endedAt = Date.now();
       const callStartTime = callStartTimeRef.current;
       // Use the ref-tracked start time for accurate duration calculation
       const duration = callStartTime
         ? endedAt - callStartTime
-        : (currentCallHistory.answeredAt ? endedAt - currentCallHistory.answeredAt : 0);
+        : (callHistory.answeredAt ? endedAt - callHistory.answeredAt : 0);
 
       console.log('[CallManager] Call hung up. Duration:', duration, 'ms');
 
       const updatedEntry = {
-        ...currentCallHistory,
+        ...callHistory,
         endedAt,
         duration,
       };
@@ -326,6 +555,69 @@ export function useCallManager() {
     }, 1000);
   };
 
+  /**
+   * Handle one turn of a conversational call: what the user said (null if
+   * nothing was heard). Acts on it, speaks the reply and hangs up once the
+   * user is done. Returns whether to keep listening.
+   */
+  const respondToCaller = async (heard: string | null): Promise<boolean> => {
+    const callHistory = callHistoryRef.current;
+    if (!conversationRef.current || !currentReminder || !callHistory) return false;
+
+    let reply: string;
+    let hangUp = false;
+
+    if (heard === null) {
+      silentTurnsRef.current += 1;
+      if (silentTurnsRef.current < MAX_SILENT_TURNS) return true;
+      reply = `I'll let you go. You've got this!`;
+      hangUp = true;
+    } else {
+      silentTurnsRef.current = 0;
+      await appendTranscript('user', heard);
+
+      const intent = parseCallIntent(heard);
+      const outcome = await applyCallIntent(intent, currentReminder, callHistory.id);
+      hangUp = endsCall(intent);
+
+      if (outcome) {
+        const entry = callHistoryRef.current ?? callHistory;
+        await saveCallHistory({
+          ...entry,
+          outcome,
+          ...(outcome === 'done' ? { taskCompleted: true, taskCompletedAt: Date.now() } : {}),
+        });
+
+        // A group call's answer also goes on the group's check-in board
+        const groupOccurrence = currentReminder.groupOccurrence;
+        if (user && groupOccurrence && (outcome === 'done' || outcome === 'skipped')) {
+          recordGroupCheckIn(groupOccurrence, user.id, outcome === 'done');
+        }
+      }
+
+      reply = intent.type === 'snooze' && !outcome
+        ? `This call can't be snoozed, but I'm here whenever you need me.`
+        : replyForIntent(intent, currentReminder);
+    }
+
+    await appendTranscript('ai', reply);
+
+    window.dispatchEvent(new Event('aiSpeakingStart'));
+    try {
+      await speakWithSettings(reply);
+    } catch (error) {
+      console.error('❌ TTS failed:', error);
+    } finally {
+      window.dispatchEvent(new Event('aiSpeakingEnd'));
+    }
+
+    if (hangUp) {
+      await hangupCall();
+      return false;
+    }
+    return true;
+  };
+
   const clearMissedCalls = () => {
     setMissedCalls([]);
   };
@@ -336,9 +628,12 @@ export function useCallManager() {
     isAISpeaking,
     missedCalls,
     currentCallHistory,
+    isMirroredCall,
+    isConversational,
     answerCall,
     declineCall,
     hangupCall,
+    respondToCaller,
     clearMissedCalls,
   };
 }
@@ -0,0 +1,14 @@
+/**
+ * Hook to prepare call scripts and speech ahead of trigger time.
+ * Only runs in the tab that owns scheduling (see useTabLeader).
+ */
+
+import { useEffect } from 'react';
+import { startCallPrefetcher } from '../utils/callPrefetch';
+
+export function useCallPrefetch(enabled: boolean = true) {
+  useEffect(() => {
+    if (!enabled) return;
+    return startCallPrefetcher();
+  }, [enabled]);
+}
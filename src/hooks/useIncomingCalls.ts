@@ -39,8 +39,11 @@ export function useIncomingCalls() {
 
       // Show browser notification
       if (Notification.permission === 'granted') {
-        new Notification(`📞 Incoming Reminder from ${newCall.sender_name || 'Someone'}`, {
-          body: newCall.reminder_title,
+        const isMotivation = newCall.call_type === 'motivation';
+        new Notification(isMotivation
+          ? `💪 ${newCall.sender_name || 'Your partner'} is calling to cheer you on`
+          : `📞 Incoming Reminder from ${newCall.sender_name || 'Someone'}`, {
+          body: isMotivation ? newCall.message_text || 'Sent you a voice message' : newCall.reminder_title,
           icon: '/favicon.ico',
           tag: `incoming-${newCall.id}`,
           requireInteraction: true,
@@ -0,0 +1,68 @@
+/**
+ * Push Notifications Hook
+ *
+ * Registers this device for server pushes while signed in, and applies
+ * snooze/decline actions taken on push notifications for the user's own
+ * reminders. Calls from others are updated on the server by the service
+ * worker itself; answering just brings the app up, where the normal
+ * schedulers ring the call. Snoozes taken with the app closed were also sent
+ * to the server (see push-action), so they count from when they were taken.
+ */
+
+import { useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { getReminder, updateReminder } from '../db/reminderDB';
+import { computeNextRecurrence, snoozeReminder } from '../utils/reminderScheduler';
+import { NotificationActionEvent, onNotificationAction, registerPushSubscription } from '../utils/pushNotifications';
+import logger from '../utils/logger';
+
+const NOTIFICATION_SNOOZE_MINUTES = 10;
+
+async function applyReminderAction({ action, data, takenAt }: NotificationActionEvent): Promise<void> {
+  if (data.kind !== 'reminder' || !data.reminderId) return;
+  if (action !== 'snooze' && action !== 'decline') return;
+
+  const reminder = await getReminder(data.reminderId);
+  if (!reminder || !reminder.active) return;
+
+  // The scheduler already moved past the pushed occurrence - nothing left to act on
+  const occurrence = data.occurrence ?? Date.now();
+  if (reminder.nextTrigger > occurrence) return;
+
+  if (action === 'snooze') {
+    await updateReminder(snoozeReminder(reminder, NOTIFICATION_SNOOZE_MINUTES, takenAt));
+    logger.log(`Snoozed "${reminder.title}" from notification`);
+    return;
+  }
+
+  // Decline: skip this occurrence
+  const nextTrigger = computeNextRecurrence(reminder);
+  await updateReminder(nextTrigger === null
+    ? { ...reminder, active: false }
+    : { ...reminder, nextTrigger });
+  logger.log(`Declined "${reminder.title}" from notification`);
+}
+
+export function usePushNotifications() {
+  const { user } = useAuth();
+
+  // Keep this device's subscription stored for the signed-in user
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured) return;
+    if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+    registerPushSubscription(user.id).catch(error => {
+      logger.warn('Push registration failed:', error);
+    });
+  }, [user?.id]);
+
+  // Apply actions from notifications (live, or queued while the app was closed)
+  useEffect(() => {
+    return onNotificationAction(event => {
+      applyReminderAction(event).catch(error => {
+        logger.error('Failed to apply notification action:', error);
+      });
+    });
+  }, []);
+}
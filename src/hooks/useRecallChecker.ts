@@ -1,31 +1,48 @@
 /**
- * Hook to check for due recalls and trigger them
+ * Hook to check for due recalls and trigger them.
+ * Only runs in the tab that owns scheduling (see useTabLeader).
  */
 
 import { useEffect } from 'react';
-import { getDueRecalls, removeRecall } from '../utils/autoRecall';
+import { claimDueRecalls, completeClaimedRecall } from '../utils/autoRecall';
+import { getReminder } from '../db/reminderDB';
+import logger from '../utils/logger';
 
-export function useRecallChecker() {
+export function useRecallChecker(enabled: boolean = true) {
   useEffect(() => {
-    // Check every 10 seconds for due recalls
-    const interval = setInterval(() => {
-      const dueRecalls = getDueRecalls();
-
-      dueRecalls.forEach(recall => {
-        // Dispatch reminder event with recall attempt number
-        const event = new CustomEvent('reminderTriggered', {
-          detail: {
-            ...recall.reminder,
-            recallAttempt: recall.attemptNumber,
-          },
-        });
-        window.dispatchEvent(event);
+    if (!enabled) return;
+
+    const checkRecalls = async () => {
+      // Claimed recalls belong to this tab; other tabs skip them
+      const dueRecalls = await claimDueRecalls();
+
+      for (const recall of dueRecalls) {
+        const reminder = await getReminder(recall.reminderId);
+
+        // Deleted or switched off since the call was declined - drop the recall
+        if (reminder && reminder.active) {
+          // Dispatch reminder event with recall attempt number
+          const event = new CustomEvent('reminderTriggered', {
+            detail: {
+              ...reminder,
+              recallAttempt: recall.attemptNumber,
+            },
+          });
+          window.dispatchEvent(event);
+        }
 
         // Remove from pending recalls
-        removeRecall(recall.reminderId);
+        await completeClaimedRecall(recall);
+      }
+    };
+
+    // Check every 10 seconds for due recalls
+    const interval = setInterval(() => {
+      checkRecalls().catch(error => {
+        logger.error('Failed to check recalls:', error);
       });
     }, 10000); // Check every 10 seconds
 
     return () => clearInterval(interval);
-  }, []);
+  }, [enabled]);
 }
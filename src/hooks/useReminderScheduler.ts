@@ -6,12 +6,9 @@
  */
 
 import { useEffect, useRef } from 'react';
-import { startReminderScheduler, Reminder } from '../utils/reminderScheduler';
+import { startReminderScheduler, SchedulerStore } from '../utils/reminderScheduler';
 
-interface UseReminderSchedulerOptions {
-  getAllReminders: () => Promise<Reminder[]>;
-  updateReminder: (reminder: Reminder) => Promise<void>;
-  checkInterval?: number; // How often to check (ms), default 5000
+interface UseReminderSchedulerOptions extends SchedulerStore {
   enabled?: boolean; // Whether scheduler should be active, default true
 }
 
@@ -21,17 +18,23 @@ interface UseReminderSchedulerOptions {
  * Usage:
  * ```tsx
  * useReminderScheduler({
+ *   getNextReminder: db.getNextScheduledReminder,
+ *   getDueReminders: db.getDueReminders,
  *   getAllReminders: db.getAllReminders,
  *   updateReminder: db.updateReminder,
- *   checkInterval: 5000,
+ *   logDueOccurrences: db.logDueOccurrences,
+ *   onRemindersChanged: db.onRemindersChanged,
  *   enabled: true
  * });
  * ```
  */
 export function useReminderScheduler({
+  getNextReminder,
+  getDueReminders,
   getAllReminders,
   updateReminder,
-  checkInterval = 5000,
+  logDueOccurrences,
+  onRemindersChanged,
   enabled = true,
 }: UseReminderSchedulerOptions): void {
   const stopSchedulerRef = useRef<(() => void) | null>(null);
@@ -47,11 +50,14 @@ export function useReminderScheduler({
     }
 
     // Start the scheduler
-    const stopScheduler = startReminderScheduler(
+    const stopScheduler = startReminderScheduler({
+      getNextReminder,
+      getDueReminders,
       getAllReminders,
       updateReminder,
-      checkInterval
-    );
+      logDueOccurrences,
+      onRemindersChanged,
+    });
 
     stopSchedulerRef.current = stopScheduler;
 
@@ -62,5 +68,5 @@ export function useReminderScheduler({
         stopSchedulerRef.current = null;
       }
     };
-  }, [getAllReminders, updateReminder, checkInterval, enabled]);
+  }, [getNextReminder, getDueReminders, getAllReminders, updateReminder, logDueOccurrences, onRemindersChanged, enabled]);
 }
@@ -1,25 +1,79 @@
 /**
  * Reminder Sync Hook
  *
- * Automatically syncs reminders between local IndexedDB and Supabase
- * when the user is authenticated.
+ * Automatically syncs reminders, call history and completion prompts
+ * between local IndexedDB and Supabase when the user is authenticated,
+ * uploads voice recordings, and replays writes queued while offline.
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { getAllReminders, updateReminder, addReminder, getReminder } from '../db/reminderDB';
-import { performFullSync, SyncResult } from '../services/supabaseSync';
-import { Reminder } from '../utils/reminderScheduler';
+import {
+  getAllRemindersForSync,
+  putSyncedReminder,
+  purgeReminder,
+  getUnsyncedCallHistory,
+  markCallHistorySynced,
+  saveCallHistoryFromCloud,
+  getUnsyncedCompletionPrompts,
+  markCompletionPromptsSynced,
+  saveCompletionPromptsFromCloud,
+  getUnsyncedLibraryMessages,
+  markLibraryMessagesSynced,
+  saveLibraryMessagesFromCloud,
+} from '../db/reminderDB';
+import {
+  performFullSync,
+  syncCallHistory,
+  syncCompletionPrompts,
+  syncLibraryMessages,
+  SyncResult,
+  HistorySyncResult,
+} from '../services/supabaseSync';
+import {
+  OUTBOX_CHANGED_EVENT,
+  getOutboxStatus,
+  retryFailedMutations,
+  startOutboxReplay,
+} from '../services/outbox';
+import { uploadPendingAudioAssets } from '../services/audioAssets';
 
 export interface SyncStatus {
   lastSyncAt: number | null;
   isSyncing: boolean;
   fromCloud: SyncResult | null;
   toCloud: SyncResult | null;
+  callHistory: HistorySyncResult | null;
+  completionPrompts: HistorySyncResult | null;
+  pendingWrites: number; // Offline writes waiting to be replayed
+  failedWrites: number; // Offline writes that gave up; retried by manual sync
   error: string | null;
 }
 
+// Pull cursors for the history tables, per user
+const HISTORY_CURSORS_KEY = 'yfs-history-sync-cursors';
+
+interface HistoryCursors {
+  userId: string;
+  callHistory: string | null;
+  completionPrompts: string | null;
+  messages?: string | null; // Message library (added later, so may be missing)
+}
+
+function loadHistoryCursors(userId: string): HistoryCursors {
+  try {
+    const stored = localStorage.getItem(HISTORY_CURSORS_KEY);
+    if (stored) {
+      const cursors = JSON.parse(stored) as HistoryCursors;
+      if (cursors.userId === userId) return cursors;
+    }
+  } catch {
+    // Corrupt value - start over with a full pull
+  }
+  return { userId, callHistory: null, completionPrompts: null };
+}
+
 export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () => void) {
   const { user } = useAuth();
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
@@ -27,6 +81,10 @@ export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () =>
     isSyncing: false,
     fromCloud: null,
     toCloud: null,
+    callHistory: null,
+    completionPrompts: null,
+    pendingWrites: 0,
+    failedWrites: 0,
     error: null,
   });
   const hasSyncedRef = useRef(false);
@@ -38,16 +96,6 @@ export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () =>
     onSyncCompleteRef.current = onSyncComplete;
   }, [onSyncComplete]);
 
-  // Save reminder to local DB (used by sync)
-  const saveLocalReminder = useCallback(async (reminder: Reminder) => {
-    const existing = await getReminder(reminder.id);
-    if (existing) {
-      await updateReminder(reminder);
-    } else {
-      await addReminder(reminder);
-    }
-  }, []);
-
   // Perform sync
   const performSync = useCallback(async () => {
     if (!user || !isSupabaseConfigured || syncInProgressRef.current) {
@@ -58,30 +106,71 @@ export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () =>
     setSyncStatus(prev => ({ ...prev, isSyncing: true, error: null }));
 
     try {
-      // Get current local reminders
-      const localReminders = await getAllReminders();
+      // Recordings first, so reminders never point at audio the cloud doesn't have
+      await uploadPendingAudioAssets(user.id);
+
+      // Get current local reminders, including deletions not yet synced
+      const localReminders = await getAllRemindersForSync();
 
-      // Perform two-way sync with ability to refresh local reminders after cloud sync
-      const result = await performFullSync(user.id, localReminders, saveLocalReminder, getAllReminders);
+      // Perform two-way sync with ability to refresh local reminders after cloud sync.
+      // Merged reminders are stored as-is so their field versions aren't re-stamped.
+      const result = await performFullSync(
+        user.id,
+        localReminders,
+        putSyncedReminder,
+        getAllRemindersForSync,
+        purgeReminder
+      );
+
+      // Then call history, completion prompts and the message library, incrementally from the last pull
+      const cursors = loadHistoryCursors(user.id);
+      const callHistory = await syncCallHistory(user.id, cursors.callHistory, {
+        getUnsynced: getUnsyncedCallHistory,
+        markSynced: markCallHistorySynced,
+        saveFromCloud: saveCallHistoryFromCloud,
+      });
+      const completionPrompts = await syncCompletionPrompts(user.id, cursors.completionPrompts, {
+        getUnsynced: getUnsyncedCompletionPrompts,
+        markSynced: markCompletionPromptsSynced,
+        saveFromCloud: saveCompletionPromptsFromCloud,
+      });
+      const messages = await syncLibraryMessages(user.id, cursors.messages ?? null, {
+        getUnsynced: getUnsyncedLibraryMessages,
+        markSynced: markLibraryMessagesSynced,
+        saveFromCloud: saveLibraryMessagesFromCloud,
+      });
+      localStorage.setItem(HISTORY_CURSORS_KEY, JSON.stringify({
+        userId: user.id,
+        callHistory: callHistory.cursor,
+        completionPrompts: completionPrompts.cursor,
+        messages: messages.cursor,
+      }));
 
-      setSyncStatus({
+      setSyncStatus(prev => ({
+        ...prev,
         lastSyncAt: Date.now(),
         isSyncing: false,
         fromCloud: result.fromCloud,
         toCloud: result.toCloud,
+        callHistory,
+        completionPrompts,
         error: null,
-      });
+      }));
 
       // Store last sync time
       localStorage.setItem('yfs-last-sync', Date.now().toString());
 
       console.log('[useReminderSync] Sync complete:', {
-        fromCloud: `${result.fromCloud.synced} items (${result.fromCloud.created} created, ${result.fromCloud.updated} updated)`,
-        toCloud: `${result.toCloud.synced} items (${result.toCloud.created} created, ${result.toCloud.updated} updated)`,
+        fromCloud: `${result.fromCloud.synced} items (${result.fromCloud.created} created, ${result.fromCloud.updated} updated, ${result.fromCloud.deleted} deleted)`,
+        toCloud: `${result.toCloud.synced} items (${result.toCloud.created} created, ${result.toCloud.updated} updated, ${result.toCloud.deleted} deleted)`,
+        conflicts: result.fromCloud.conflicts.length,
+        callHistory: `${callHistory.pulled} pulled, ${callHistory.pushed} pushed`,
+        completionPrompts: `${completionPrompts.pulled} pulled, ${completionPrompts.pushed} pushed`,
       });
 
       // Notify callback if data was synced from cloud
-      if (result.fromCloud.synced > 0 && onSyncCompleteRef.current) {
+      const pulledHistory = callHistory.pulled + completionPrompts.pulled;
+      if ((result.fromCloud.synced > 0 || pulledHistory > 0) && onSyncCompleteRef.current) {
         onSyncCompleteRef.current();
       }
     } catch (err) {
@@ -94,7 +183,30 @@ export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () =>
     } finally {
       syncInProgressRef.current = false;
     }
-  }, [user, saveLocalReminder]);
+  }, [user]);
+
+  // Replay offline writes while signed in, and keep the pending/failed counts current
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured) return;
+
+    const refreshOutboxStatus = async () => {
+      try {
+        const { pending, failed } = await getOutboxStatus();
+        setSyncStatus(prev => ({ ...prev, pendingWrites: pending, failedWrites: failed }));
+      } catch (err) {
+        console.warn('[useReminderSync] Failed to read outbox:', err);
+      }
+    };
+
+    const stopReplay = startOutboxReplay();
+    refreshOutboxStatus();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refreshOutboxStatus);
+
+    return () => {
+      stopReplay();
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, refreshOutboxStatus);
+    };
+  }, [user]);
 
   // Auto-sync on mount and when user changes
   useEffect(() => {
@@ -148,6 +260,9 @@ export function useReminderSync(refreshTrigger?: number, onSyncComplete?: () =>
   // Manual sync function for user-triggered sync
   const manualSync = useCallback(async () => {
     hasSyncedRef.current = true; // Mark as synced
+    await retryFailedMutations().catch(err => {
+      console.warn('[useReminderSync] Failed to retry offline writes:', err);
+    });
     await performSync();
   }, [performSync]);
 
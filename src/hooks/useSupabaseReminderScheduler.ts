@@ -1,15 +1,25 @@
 /**
  * Supabase Reminder Scheduler Hook
  *
- * This hook checks for reminders stored in Supabase that need to be triggered
- * and creates pending calls for recipients.
+ * Fallback for delivering reminders sent to others. The server-side scheduler
+ * (supabase/functions/reminder-scheduler) normally creates the recipient's
+ * pending calls; this hook only picks up reminders it has left overdue, e.g.
+ * when the function isn't deployed. Both share dispatchDueReminders (and
+ * dispatchDueGroupReminders for group reminders the user created), whose row
+ * leases keep them from dispatching the same occurrence twice.
+ *
+ * Reminders in "recipient" time zone mode follow the recipient's profile zone,
+ * so "09:00" rings at 09:00 wherever the recipient currently is.
  */
 
 import { useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import { createPendingCall, DbReminder } from '../services/supabaseSync';
-import { computeNextRecurrence, RepeatType } from '../utils/reminderScheduler';
+import { dispatchDueGroupReminders, dispatchDueReminders } from '../services/reminderDispatcher';
+
+// How long a reminder must be overdue before the browser steps in for the server
+const FALLBACK_GRACE_MS = 2 * 60 * 1000;
 
 /**
  * Hook to manage Supabase-based reminder scheduling for sending to others
@@ -21,85 +31,13 @@ export function useSupabaseReminderScheduler() {
   useEffect(() => {
     if (!user || !isSupabaseConfigured) return;
 
+    const workerId = `browser:${uuidv4()}`;
+
     const checkReminders = async () => {
       try {
-        const now = Date.now();
-
-        // Fetch all active reminders created by this user that are for others
-        const { data: reminders, error } = await supabase
-          .from('reminders')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('active', true)
-          .eq('is_for_self', false)
-          .lte('next_trigger', now);
-
-        if (error || !reminders || reminders.length === 0) return;
-
-        for (const dbReminder of reminders as DbReminder[]) {
-          // Only process reminders for other users
-          if (!dbReminder.recipient_id) continue;
-
-          // Create pending call for recipient
-          const senderName = dbReminder.sender_name
-            || user?.user_metadata?.full_name
-            || user?.email?.split('@')[0]
-            || 'Someone';
-
-          const { error: callError } = await createPendingCall(
-            {
-              id: dbReminder.id,
-              title: dbReminder.title,
-              why: dbReminder.why || '',
-              time: dbReminder.time,
-              repeat: dbReminder.repeat as RepeatType,
-              nextTrigger: dbReminder.next_trigger,
-              active: dbReminder.active,
-              createdAt: new Date(dbReminder.created_at).getTime(),
-              audioRecording: dbReminder.audio_recording || undefined,
-              useCustomAudio: dbReminder.use_custom_audio,
-              customInterval: dbReminder.days_of_week ? undefined : undefined, // TODO: Add custom_interval to DbReminder
-              daysOfWeek: dbReminder.days_of_week || undefined,
-            },
-            user.id,
-            dbReminder.recipient_id,
-            senderName,
-            user?.email || ''
-          );
-
-          if (callError) continue;
-
-          // Calculate next occurrence
-          const reminder = {
-            id: dbReminder.id,
-            title: dbReminder.title,
-            why: dbReminder.why || '',
-            time: dbReminder.time,
-            repeat: dbReminder.repeat as RepeatType,
-            nextTrigger: dbReminder.next_trigger,
-            active: dbReminder.active,
-            createdAt: new Date(dbReminder.created_at).getTime(),
-            daysOfWeek: dbReminder.days_of_week || undefined,
-            audioRecording: dbReminder.audio_recording || undefined,
-            useCustomAudio: dbReminder.use_custom_audio,
-          };
-
-          const nextTrigger = computeNextRecurrence(reminder);
-
-          if (nextTrigger === null) {
-            // One-time reminder - deactivate it
-            await supabase
-              .from('reminders')
-              .update({ active: false })
-              .eq('id', dbReminder.id);
-          } else {
-            // Recurring reminder - update next trigger time
-            await supabase
-              .from('reminders')
-              .update({ next_trigger: nextTrigger })
-              .eq('id', dbReminder.id);
-          }
-        }
+        const options = { workerId, userId: user.id, graceMs: FALLBACK_GRACE_MS };
+        await dispatchDueReminders(supabase, options);
+        await dispatchDueGroupReminders(supabase, options);
       } catch {
         // Silent fail for scheduler checks
       }
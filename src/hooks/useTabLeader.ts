@@ -0,0 +1,16 @@
+/**
+ * Hook exposing whether this tab owns reminder scheduling
+ */
+
+import { useEffect, useState } from 'react';
+import { startLeaderElection } from '../utils/tabCoordinator';
+
+export function useTabLeader(): boolean {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    return startLeaderElection(setIsLeader);
+  }, []);
+
+  return isLeader;
+}
@@ -60,6 +60,27 @@ export interface DbCallHistory {
   recall_attempt?: number;
   task_completed?: boolean;
   task_completed_at?: number;
+  transcript?: { speaker: 'ai' | 'user'; text: string; at: number }[];
+  outcome?: 'done' | 'snoozed' | 'skipped' | 'missed';
+  escalation?: { action: string; at: number; detail?: string; failed?: boolean }[];
+  client_updated_at?: number; // Device-side version, used to de-duplicate on pull
+  updated_at?: string; // Server-side change time, used as the pull cursor
+}
+
+export interface DbCompletionPrompt {
+  id: string;
+  user_id: string;
+  reminder_id: string;
+  reminder_title: string;
+  reminder_why?: string;
+  call_history_id?: string;
+  occurrence_at?: number;
+  prompted_at: number;
+  responded_at?: number;
+  completed: boolean;
+  skipped?: boolean;
+  client_updated_at?: number;
+  updated_at?: string;
 }
 
 export interface DbUserSettings {
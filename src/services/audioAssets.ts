@@ -0,0 +1,186 @@
+/**
+ * Audio Asset Service
+ *
+ * Voice recordings (reminder messages, the panic button's message) are kept
+ * as Blobs in the IndexedDB `audio` store and as objects in Supabase Storage.
+ * Reminders and pending calls only carry the asset id, so a recording can be
+ * shared by any number of reminders and is never copied into rows.
+ *
+ * Recordings made on another device, or sent by someone else, are downloaded
+ * the first time they're played and kept locally from then on.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  AudioAsset,
+  getAllAudioAssets,
+  getAudioAsset,
+  getUnuploadedAudioAssets,
+  putAudioAsset,
+} from '../db/reminderDB';
+
+export type { AudioAsset };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AUDIO_BUCKET = 'audio-recordings';
+
+// Cloud rows of the `audio_assets` table
+interface DbAudioAsset {
+  id: string;
+  owner_id: string;
+  storage_path: string;
+  mime_type: string;
+  size: number;
+  duration_ms: number | null;
+}
+
+// Files are stored per owner, which is what the Storage policies check
+function storagePath(ownerId: string, assetId: string): string {
+  return `${ownerId}/${assetId}`;
+}
+
+// ============================================================================
+// LOCAL RECORDINGS
+// ============================================================================
+
+/**
+ * Keep a new recording. Returns its id for use as a reminder's audioAssetId.
+ */
+export async function saveRecording(audio: Blob, durationMs?: number): Promise<AudioAsset> {
+  const asset: AudioAsset = {
+    id: uuidv4(),
+    audio,
+    mimeType: audio.type || 'audio/webm',
+    size: audio.size,
+    durationMs,
+    createdAt: Date.now(),
+  };
+  await putAudioAsset(asset);
+  return asset;
+}
+
+/**
+ * Recordings on this device, newest first, for picking one to reuse.
+ */
+export async function getRecordings(): Promise<AudioAsset[]> {
+  const assets = await getAllAudioAssets();
+  return assets.filter(asset => asset.audio);
+}
+
+/**
+ * The recording's audio, downloaded from Supabase Storage if it isn't here yet.
+ */
+export async function getAudioBlob(assetId: string): Promise<Blob> {
+  const local = await getAudioAsset(assetId);
+  if (local?.audio) {
+    return local.audio;
+  }
+
+  if (!isSupabaseConfigured) {
+    throw new Error('Recording is not on this device');
+  }
+
+  const { data: row, error: rowError } = await supabase
+    .from('audio_assets')
+    .select('id, owner_id, storage_path, mime_type, size, duration_ms')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (rowError) throw rowError;
+  if (!row) throw new Error('Recording not found');
+
+  const cloudAsset = row as DbAudioAsset;
+  const { data: audio, error } = await supabase.storage.from(AUDIO_BUCKET).download(cloudAsset.storage_path);
+  if (error || !audio) throw error || new Error('Recording download failed');
+
+  await putAudioAsset({
+    id: assetId,
+    audio,
+    mimeType: cloudAsset.mime_type,
+    size: audio.size,
+    durationMs: cloudAsset.duration_ms ?? undefined,
+    createdAt: local?.createdAt ?? Date.now(),
+    uploadedAt: Date.now(), // Came from the cloud, so nothing to upload
+  });
+  return audio;
+}
+
+/**
+ * Play a recording. Resolves when it finishes.
+ */
+export async function playAudioAsset(assetId: string): Promise<void> {
+  const audioUrl = URL.createObjectURL(await getAudioBlob(assetId));
+  const audio = new Audio(audioUrl);
+
+  return new Promise((resolve, reject) => {
+    audio.onended = () => {
+      URL.revokeObjectURL(audioUrl);
+      resolve();
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(audioUrl);
+      reject(new Error('Failed to play recording'));
+    };
+    audio.play().catch(error => {
+      URL.revokeObjectURL(audioUrl);
+      reject(error);
+    });
+  });
+}
+
+// ============================================================================
+// CLOUD UPLOAD
+// ============================================================================
+
+/**
+ * Upload a recording made on this device, if it isn't in Storage yet.
+ * Must happen before a reminder or call pointing at it reaches another device.
+ */
+export async function uploadAudioAsset(assetId: string, userId: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const asset = await getAudioAsset(assetId);
+    if (!asset?.audio || asset.uploadedAt) return { error: null };
+
+    const path = storagePath(userId, asset.id);
+    const { error: uploadError } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .upload(path, asset.audio, { contentType: asset.mimeType, upsert: true });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from('audio_assets').upsert({
+      id: asset.id,
+      owner_id: userId,
+      storage_path: path,
+      mime_type: asset.mimeType,
+      size: asset.size,
+      duration_ms: asset.durationMs ?? null,
+    }, { onConflict: 'id' });
+    if (error) throw error;
+
+    await putAudioAsset({ ...asset, uploadedAt: Date.now() });
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to upload recording:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Upload every recording still waiting, e.g. ones recorded offline.
+ */
+export async function uploadPendingAudioAssets(userId: string): Promise<number> {
+  if (!isSupabaseConfigured) return 0;
+
+  let uploaded = 0;
+  for (const asset of await getUnuploadedAudioAssets()) {
+    const { error } = await uploadAudioAsset(asset.id, userId);
+    if (!error) uploaded++;
+  }
+  return uploaded;
+}
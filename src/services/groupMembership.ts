@@ -0,0 +1,345 @@
+/**
+ * Group Membership Service
+ *
+ * Who is in a group and what they may do. Nobody is added to a group
+ * without saying yes: admins send invites (the `group_invites` table) to a
+ * person, who accepts or declines, or share an invite link that anyone can
+ * use until it expires. Admins promote and demote members, and the owner
+ * (the group's creator) can hand the group to someone else.
+ *
+ * Joining, leaving and transferring ownership go straight to the database
+ * functions rather than through the outbox, since the server decides who
+ * takes over a group and whether an invite is still valid (see
+ * migration_group_reminders.sql, which also enforces every rule here).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { runMutation } from './outbox';
+import type { UserProfile } from './supabaseSync';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type GroupRole = 'admin' | 'member';
+
+export type GroupInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export interface GroupInvite {
+  id: string;
+  group_id: string;
+  group_name: string;
+  invited_by: string;
+  inviter_name: string | null;
+  invitee_id: string | null; // NULL for invite links
+  invitee_email: string | null;
+  token: string | null; // Invite links only
+  status: GroupInviteStatus;
+  expires_at: string;
+  created_at: string;
+}
+
+// What an invite link leads to, shown before joining
+export interface InviteLinkPreview {
+  groupId: string;
+  groupName: string;
+  inviterName: string | null;
+  expiresAt: string;
+}
+
+// Who is sending an invite, as shown to the invitee
+export interface Inviter {
+  id: string;
+  name: string | null;
+}
+
+export const INVITE_LINK_PARAM = 'invite';
+
+const INVITE_EXPIRY_DAYS = 7;
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+function inviteExpiry(): string {
+  return new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Invite a user to a group. They join only once they accept.
+ */
+export async function inviteToGroup(
+  group: { id: string; name: string },
+  invitee: UserProfile,
+  inviter: Inviter
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
+
+  try {
+    const { error } = await runMutation({
+      table: 'group_invites',
+      op: 'insert',
+      values: {
+        id: uuidv4(), // Client id, so a replayed insert can't invite twice
+        group_id: group.id,
+        group_name: group.name,
+        invited_by: inviter.id,
+        inviter_name: inviter.name,
+        invitee_id: invitee.id,
+        invitee_email: invitee.email,
+        expires_at: inviteExpiry(),
+      },
+      label: `Invite ${invitee.email} to group`,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to invite to group:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Create an invite link for a group, valid for a week unless revoked
+ */
+export async function createInviteLink(
+  group: { id: string; name: string },
+  inviter: Inviter
+): Promise<{ url: string | null; error: Error | null }> {
+  if (!isSupabaseConfigured) return { url: null, error: new Error('Supabase not configured') };
+
+  try {
+    const token = uuidv4();
+    const { error } = await runMutation({
+      table: 'group_invites',
+      op: 'insert',
+      values: {
+        id: uuidv4(),
+        group_id: group.id,
+        group_name: group.name,
+        invited_by: inviter.id,
+        inviter_name: inviter.name,
+        token,
+        expires_at: inviteExpiry(),
+      },
+      label: 'Create group invite link',
+    });
+
+    if (error) throw error;
+    return { url: inviteLinkUrl(token), error: null };
+  } catch (err) {
+    console.error('Failed to create invite link:', err);
+    return { url: null, error: err as Error };
+  }
+}
+
+export function inviteLinkUrl(token: string): string {
+  return `${window.location.origin}/groups?${INVITE_LINK_PARAM}=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Open invites addressed to the user
+ */
+export async function getMyInvites(userId: string): Promise<GroupInvite[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('group_invites')
+      .select('*')
+      .eq('invitee_id', userId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (err) {
+    console.error('Failed to fetch group invites:', err);
+    return [];
+  }
+}
+
+/**
+ * A group's open invites and links (visible to its admins)
+ */
+export async function getGroupInvites(groupId: string): Promise<GroupInvite[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('group_invites')
+      .select('*')
+      .eq('group_id', groupId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (err) {
+    console.error('Failed to fetch group invites:', err);
+    return [];
+  }
+}
+
+/**
+ * Accept an invite and join its group
+ */
+export async function acceptInvite(inviteId: string): Promise<{ groupId: string | null; error: Error | null }> {
+  if (!isSupabaseConfigured) return { groupId: null, error: new Error('Supabase not configured') };
+
+  try {
+    const { data, error } = await supabase.rpc('accept_group_invite', { p_invite_id: inviteId });
+
+    if (error) throw new Error(error.message);
+    return { groupId: data as string, error: null };
+  } catch (err) {
+    console.error('Failed to accept group invite:', err);
+    return { groupId: null, error: err as Error };
+  }
+}
+
+export async function declineInvite(inviteId: string): Promise<{ error: Error | null }> {
+  return closeInvite(inviteId, 'declined', 'Decline group invite');
+}
+
+/**
+ * Withdraw an invite or invite link (admins)
+ */
+export async function revokeInvite(inviteId: string): Promise<{ error: Error | null }> {
+  return closeInvite(inviteId, 'revoked', 'Revoke group invite');
+}
+
+async function closeInvite(
+  inviteId: string,
+  status: 'declined' | 'revoked',
+  label: string
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'group_invites',
+      op: 'update',
+      values: { status },
+      match: { id: inviteId },
+      label,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error(`Failed to ${status === 'declined' ? 'decline' : 'revoke'} group invite:`, err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * The group an invite link is for, or null if it has expired or been revoked
+ */
+export async function getInviteLinkPreview(token: string): Promise<InviteLinkPreview | null> {
+  if (!isSupabaseConfigured) return null;
+
+  try {
+    const { data, error } = await supabase.rpc('get_group_invite', { p_token: token });
+
+    if (error) throw error;
+
+    const row = (data || [])[0];
+    if (!row) return null;
+    return {
+      groupId: row.group_id,
+      groupName: row.group_name,
+      inviterName: row.inviter_name,
+      expiresAt: row.expires_at,
+    };
+  } catch (err) {
+    console.error('Failed to fetch invite link:', err);
+    return null;
+  }
+}
+
+/**
+ * Join the group an invite link is for
+ */
+export async function joinGroupByLink(token: string): Promise<{ groupId: string | null; error: Error | null }> {
+  if (!isSupabaseConfigured) return { groupId: null, error: new Error('Supabase not configured') };
+
+  try {
+    const { data, error } = await supabase.rpc('join_group_by_token', { p_token: token });
+
+    if (error) throw new Error(error.message);
+    return { groupId: data as string, error: null };
+  } catch (err) {
+    console.error('Failed to join group by link:', err);
+    return { groupId: null, error: err as Error };
+  }
+}
+
+// ============================================================================
+// ROLES & OWNERSHIP
+// ============================================================================
+
+/**
+ * Promote a member to admin or demote an admin (admins only; not the owner)
+ */
+export async function setMemberRole(memberId: string, role: GroupRole): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'group_members',
+      op: 'update',
+      values: { role },
+      match: { id: memberId },
+      label: role === 'admin' ? 'Make group admin' : 'Remove group admin',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to change member role:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Hand the group to another member (owner only). They become an admin.
+ */
+export async function transferOwnership(groupId: string, newOwnerId: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
+
+  try {
+    const { error } = await supabase.rpc('transfer_group_ownership', {
+      p_group_id: groupId,
+      p_new_owner_id: newOwnerId,
+    });
+
+    if (error) throw new Error(error.message);
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to transfer group ownership:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Leave a group. If the user owns it, the longest-standing admin takes over;
+ * if they were the last member, the group is deleted.
+ */
+export async function leaveGroup(groupId: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
+
+  try {
+    const { error } = await supabase.rpc('leave_group', { p_group_id: groupId });
+
+    if (error) throw new Error(error.message);
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to leave group:', err);
+    return { error: err as Error };
+  }
+}
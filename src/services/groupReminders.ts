@@ -0,0 +1,376 @@
+/**
+ * Group Reminders Service
+ *
+ * Reminders shared by a group (the `group_reminders` table). The reminder
+ * scheduler rings every member at each occurrence (see
+ * dispatchDueGroupReminders in reminderDispatcher.ts); this module creates
+ * them, lets a member mute a group or a single reminder for themselves, and
+ * reads back who answered each occurrence.
+ *
+ * After a group call, the member's answer to "did you do it?" is stored as a
+ * check-in, which drives the group's check-in board, streak and weekly
+ * leaderboard (see utils/groupStreaks.ts).
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Reminder } from '../utils/reminderScheduler';
+import { runMutation } from './outbox';
+import { toDbGroupReminder } from './reminderMapping';
+import type { PendingCall } from './supabaseSync';
+import type { OccurrenceResult } from '../utils/groupStreaks';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface GroupMutes {
+  group: boolean; // Every reminder in the group is muted
+  reminderIds: string[]; // Individually muted reminders
+}
+
+// How one member's call for an occurrence went
+export interface RosterEntry {
+  userId: string;
+  status: PendingCall['status'];
+  answeredAt: number | null;
+}
+
+export interface GroupOccurrence {
+  triggeredAt: number;
+  entries: RosterEntry[];
+}
+
+export interface GroupCheckIn {
+  groupReminderId: string;
+  occurrenceAt: number;
+  userId: string;
+  completed: boolean;
+  checkedInAt: number;
+}
+
+// The occurrence a group call rang for, carried through the call to its completion prompt
+export interface GroupOccurrenceRef {
+  groupReminderId: string;
+  occurrenceAt: number;
+}
+
+interface DbGroupCheckIn {
+  group_reminder_id: string;
+  occurrence_at: number;
+  user_id: string;
+  completed: boolean;
+  checked_in_at: number;
+}
+
+const ROSTER_OCCURRENCES = 5;
+const ROSTER_MAX_MEMBERS = 50; // Bounds the query; larger groups show fewer occurrences
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Share a reminder with a group. `reminder.nextTrigger` should already be
+ * computed; the scheduler takes it from there.
+ */
+export async function createGroupReminder(
+  reminder: Reminder,
+  groupId: string,
+  userId: string
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
+
+  try {
+    const { error } = await runMutation({
+      table: 'group_reminders',
+      op: 'insert',
+      values: toDbGroupReminder(reminder, groupId, userId),
+      label: `Create group reminder "${reminder.title}"`,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to create group reminder:', err);
+    return { error: err as Error };
+  }
+}
+
+// ============================================================================
+// MUTES
+// ============================================================================
+
+/**
+ * What the user has muted in a group
+ */
+export async function getGroupMutes(groupId: string, userId: string): Promise<GroupMutes> {
+  const none: GroupMutes = { group: false, reminderIds: [] };
+  if (!isSupabaseConfigured) return none;
+
+  try {
+    const { data, error } = await supabase
+      .from('group_member_mutes')
+      .select('group_reminder_id')
+      .eq('group_id', groupId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    const rows = (data || []) as { group_reminder_id: string | null }[];
+    return {
+      group: rows.some(row => row.group_reminder_id === null),
+      reminderIds: rows.flatMap(row => (row.group_reminder_id ? [row.group_reminder_id] : [])),
+    };
+  } catch (err) {
+    console.error('Failed to fetch group mutes:', err);
+    return none;
+  }
+}
+
+/**
+ * Mute or unmute the user's calls for a whole group, or for one of its
+ * reminders when `groupReminderId` is given
+ */
+export async function setGroupMuted(
+  groupId: string,
+  userId: string,
+  muted: boolean,
+  groupReminderId: string | null = null
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  const target = { group_id: groupId, user_id: userId, group_reminder_id: groupReminderId };
+
+  try {
+    const { error } = muted
+      ? await runMutation({
+          table: 'group_member_mutes',
+          op: 'insert',
+          values: target,
+          label: groupReminderId ? 'Mute group reminder' : 'Mute group',
+        })
+      : await runMutation({
+          table: 'group_member_mutes',
+          op: 'delete',
+          match: target,
+          label: groupReminderId ? 'Unmute group reminder' : 'Unmute group',
+        });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to change group mute:', err);
+    return { error: err as Error };
+  }
+}
+
+// ============================================================================
+// ROSTER
+// ============================================================================
+
+/**
+ * Who answered and who missed the latest occurrences of a group reminder,
+ * newest first. Members who were muted at the time have no entry.
+ */
+export async function getGroupReminderRoster(groupReminderId: string): Promise<GroupOccurrence[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('pending_calls')
+      .select('recipient_id, status, answered_at, triggered_at')
+      .eq('group_reminder_id', groupReminderId)
+      .order('triggered_at', { ascending: false })
+      .limit(ROSTER_OCCURRENCES * ROSTER_MAX_MEMBERS);
+
+    if (error) throw error;
+
+    const occurrences = new Map<number, RosterEntry[]>();
+    for (const call of (data || []) as Pick<PendingCall, 'recipient_id' | 'status' | 'answered_at' | 'triggered_at'>[]) {
+      if (!occurrences.has(call.triggered_at)) {
+        if (occurrences.size === ROSTER_OCCURRENCES) break;
+        occurrences.set(call.triggered_at, []);
+      }
+      occurrences.get(call.triggered_at)!.push({
+        userId: call.recipient_id,
+        status: call.status,
+        answeredAt: call.answered_at,
+      });
+    }
+
+    return Array.from(occurrences, ([triggeredAt, entries]) => ({ triggeredAt, entries }));
+  } catch (err) {
+    console.error('Failed to fetch group reminder roster:', err);
+    return [];
+  }
+}
+
+/**
+ * Group calls rung since `since`, for every reminder of a group
+ */
+export async function getGroupCalls(
+  groupReminderIds: string[],
+  since: number
+): Promise<Pick<PendingCall, 'group_reminder_id' | 'recipient_id' | 'status' | 'triggered_at'>[]> {
+  if (!isSupabaseConfigured || groupReminderIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('pending_calls')
+      .select('group_reminder_id, recipient_id, status, triggered_at')
+      .in('group_reminder_id', groupReminderIds)
+      .gte('triggered_at', since)
+      .order('triggered_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (err) {
+    console.error('Failed to fetch group calls:', err);
+    return [];
+  }
+}
+
+// ============================================================================
+// CHECK-INS
+// ============================================================================
+
+/**
+ * Record whether the user did a group reminder's occurrence. Answering
+ * again for the same occurrence replaces the earlier answer.
+ */
+export async function recordGroupCheckIn(
+  occurrence: GroupOccurrenceRef,
+  userId: string,
+  completed: boolean
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'group_check_ins',
+      op: 'upsert',
+      values: {
+        group_reminder_id: occurrence.groupReminderId,
+        occurrence_at: occurrence.occurrenceAt,
+        user_id: userId,
+        completed,
+        checked_in_at: Date.now(),
+      },
+      onConflict: 'group_reminder_id,occurrence_at,user_id',
+      label: completed ? 'Check in to group reminder' : 'Report group reminder not done',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to record group check-in:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Every member's check-ins for a group's occurrences since `since`
+ */
+export async function getGroupCheckIns(groupId: string, since: number): Promise<GroupCheckIn[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('group_check_ins')
+      .select('group_reminder_id, occurrence_at, user_id, completed, checked_in_at')
+      .eq('group_id', groupId)
+      .gte('occurrence_at', since);
+
+    if (error) throw error;
+
+    return ((data || []) as DbGroupCheckIn[]).map(row => ({
+      groupReminderId: row.group_reminder_id,
+      occurrenceAt: row.occurrence_at,
+      userId: row.user_id,
+      completed: row.completed,
+      checkedInAt: row.checked_in_at,
+    }));
+  } catch (err) {
+    console.error('Failed to fetch group check-ins:', err);
+    return [];
+  }
+}
+
+/**
+ * Called and completed counts for a group's occurrences since `since`
+ */
+export async function getGroupOccurrenceResults(groupId: string, since: number): Promise<OccurrenceResult[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('group_occurrence_results')
+      .select('group_reminder_id, occurrence_at, called, completed, responded')
+      .eq('group_id', groupId)
+      .gte('occurrence_at', since);
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      groupReminderId: row.group_reminder_id,
+      occurrenceAt: row.occurrence_at,
+      called: Number(row.called),
+      completed: Number(row.completed),
+      responded: Number(row.responded),
+    }));
+  } catch (err) {
+    console.error('Failed to fetch group occurrence results:', err);
+    return [];
+  }
+}
+
+/**
+ * Change the share of members who must complete an occurrence to keep the streak
+ */
+export async function updateStreakThreshold(groupId: string, thresholdPct: number): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'reminder_groups',
+      op: 'update',
+      values: { streak_threshold: thresholdPct },
+      match: { id: groupId },
+      label: 'Change group streak goal',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to update streak threshold:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Subscribe to check-ins in a group (new answers and changed ones)
+ */
+export function subscribeToGroupCheckIns(
+  groupId: string,
+  onChange: () => void
+): (() => void) | null {
+  if (!isSupabaseConfigured) return null;
+
+  const channel = supabase
+    .channel(`group_check_ins_${groupId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'group_check_ins',
+        filter: `group_id=eq.${groupId}`,
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * LLM Provider Service
+ *
+ * Writes what the caller says on reminder and panic calls. Providers:
+ * - openai: any OpenAI-compatible chat completions API (OpenAI, OpenRouter, Groq, ...)
+ * - anthropic: the Anthropic Messages API
+ * - local: a model on this machine via Ollama or a llama.cpp server
+ *   (both serve the OpenAI-compatible API, so no key is needed)
+ * - template: fixed wording, works offline and instantly (default)
+ *
+ * Each provider keeps its own model, persona, token limit and timeout in the
+ * `llm` entry of the app settings. Whatever goes wrong - no key, timeout,
+ * server error - the call falls back to the template script, so a call is
+ * never left silent.
+ */
+
+import { generatePanicSpeech, generateReminderSpeech } from '../utils/textToSpeech';
+import { CallContext, describeCallContext, getCallSignals } from '../utils/callContext';
+
+// ============================================================================
+// TYPES & DEFAULTS
+// ============================================================================
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'local' | 'template';
+
+export interface LLMProviderOptions {
+  model: string;
+  endpoint: string; // Base URL
+  apiKey?: string; // openai falls back to the main OpenAI key in settings
+  persona: string; // System prompt: who is calling and how they talk
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderType;
+  providers: Record<LLMProviderType, LLMProviderOptions>;
+}
+
+export interface CallScriptRequest {
+  kind: 'reminder' | 'panic';
+  title: string;
+  why?: string;
+  context?: CallContext; // Track record for this reminder; omitted for panic calls
+}
+
+interface LLMProviderDefinition {
+  label: string;
+  description: string;
+  needsApiKey: boolean;
+  complete?: (options: LLMProviderOptions, system: string, prompt: string, signal: AbortSignal) => Promise<string>;
+}
+
+const DEFAULT_PERSONA =
+  'You are the user\'s future self, making a quick phone call. Say hello, then deliver the reminder in one or two warm, encouraging spoken sentences. No lists, no emojis, nothing that can\'t be read aloud.';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'template',
+  providers: {
+    openai: {
+      model: 'gpt-4o-mini',
+      endpoint: 'https://api.openai.com/v1',
+      persona: DEFAULT_PERSONA,
+      maxTokens: 120,
+      timeoutMs: 8000,
+    },
+    anthropic: {
+      model: 'claude-3-5-haiku-latest',
+      endpoint: 'https://api.anthropic.com',
+      persona: DEFAULT_PERSONA,
+      maxTokens: 120,
+      timeoutMs: 8000,
+    },
+    local: {
+      model: 'llama3.2',
+      endpoint: 'http://localhost:11434/v1',
+      persona: DEFAULT_PERSONA,
+      maxTokens: 120,
+      timeoutMs: 15000, // Local models can be slow to load
+    },
+    template: {
+      model: '',
+      endpoint: '',
+      persona: '',
+      maxTokens: 0,
+      timeoutMs: 0,
+    },
+  },
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+async function completeOpenAICompatible(
+  options: LLMProviderOptions,
+  system: string,
+  prompt: string,
+  signal: AbortSignal
+): Promise<string> {
+  const response = await fetch(`${options.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: options.model,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+      max_tokens: options.maxTokens,
+      temperature: 0.7,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Chat API failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || '';
+}
+
+async function completeAnthropic(
+  options: LLMProviderOptions,
+  system: string,
+  prompt: string,
+  signal: AbortSignal
+): Promise<string> {
+  const response = await fetch(`${options.endpoint.replace(/\/+$/, '')}/v1/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': options.apiKey || '',
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true', // The key is the user's own, entered in Settings
+    },
+    body: JSON.stringify({
+      model: options.model,
+      system,
+      messages: [{ role: 'user', content: prompt }],
+      max_tokens: options.maxTokens,
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Messages API failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join(' ');
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderType, LLMProviderDefinition> = {
+  template: {
+    label: 'Built-in Script (Offline)',
+    description: 'Fixed wording, instant and free',
+    needsApiKey: false,
+  },
+  openai: {
+    label: 'OpenAI-Compatible',
+    description: 'OpenAI or any service with the same chat API',
+    needsApiKey: true,
+    complete: completeOpenAICompatible,
+  },
+  anthropic: {
+    label: 'Anthropic',
+    description: 'Claude models via the Messages API',
+    needsApiKey: true,
+    complete: completeAnthropic,
+  },
+  local: {
+    label: 'Local Model',
+    description: 'Ollama or llama.cpp running on this machine',
+    needsApiKey: false,
+    complete: completeOpenAICompatible,
+  },
+};
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Merge stored LLM settings over the defaults, provider by provider.
+ */
+export function resolveLLMSettings(stored?: Partial<LLMSettings>): LLMSettings {
+  const providers = { ...DEFAULT_LLM_SETTINGS.providers };
+  for (const type of Object.keys(providers) as LLMProviderType[]) {
+    providers[type] = { ...providers[type], ...stored?.providers?.[type] };
+  }
+  return {
+    provider: stored?.provider && stored.provider in LLM_PROVIDERS ? stored.provider : DEFAULT_LLM_SETTINGS.provider,
+    providers,
+  };
+}
+
+/**
+ * Get LLM settings from localStorage.
+ * The OpenAI provider shares the main OpenAI key unless it has its own.
+ */
+export function getLLMSettings(): LLMSettings {
+  let stored: { llm?: Partial<LLMSettings>; apiKey?: string } = {};
+  try {
+    stored = JSON.parse(localStorage.getItem('aiReminderSettings') || '{}');
+  } catch {
+    // Use defaults on error
+  }
+
+  const settings = resolveLLMSettings(stored.llm);
+  if (!settings.providers.openai.apiKey && stored.apiKey) {
+    settings.providers.openai = { ...settings.providers.openai, apiKey: stored.apiKey };
+  }
+  return settings;
+}
+
+// ============================================================================
+// CALL SCRIPTS
+// ============================================================================
+
+// Stable per reminder and day, so a call and its recalls don't reuse one line
+function pickVariant<T>(options: T[], seed: string): T {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash * 31 + seed.charCodeAt(i)) | 0;
+  }
+  return options[Math.abs(hash) % options.length];
+}
+
+function contextualReminderScript(request: CallScriptRequest, context: CallContext): string {
+  const signals = getCallSignals(context);
+  const seed = `${request.title}:${new Date().toDateString()}:${context.recallAttempt}`;
+  const { title, why } = request;
+  const parts: string[] = [];
+
+  if (signals.escalation === 2) {
+    parts.push(pickVariant([
+      `Okay, this is call number ${context.recallAttempt}. I'm not letting this one go.`,
+      `Me again - third time's the charm. We need to talk about ${title}.`,
+      `I've called ${context.recallAttempt - 1} times already. Please, stay on the line this time.`,
+    ], seed));
+  } else if (signals.escalation === 1) {
+    parts.push(pickVariant([
+      `Hey, it's me again. Calling back like I promised.`,
+      `Back again! I know you're busy, but this one matters.`,
+      `Second try - you didn't think I'd forget, did you?`,
+    ], seed));
+  } else {
+    parts.push(pickVariant([
+      `Hey! This is your future self calling.`,
+      `Hi, it's you - from the future.`,
+      `Hey there, your future self here.`,
+    ], seed));
+  }
+
+  parts.push(signals.escalation === 2
+    ? `${title}. Right now, please - not in a minute.`
+    : pickVariant([`It's time for: ${title}.`, `Time for ${title}.`, `${title} - it's that time.`], seed));
+
+  if (signals.milestone) {
+    parts.push(pickVariant([
+      `Do it now and that's ${signals.milestone} in a row. That's a big one!`,
+      `This makes ${signals.milestone} straight if you do it. Let's celebrate that.`,
+    ], seed));
+  } else if (signals.liveStreak >= 2 && !signals.completedToday) {
+    parts.push(pickVariant([
+      `You're on a streak of ${signals.liveStreak}. Let's not break it.`,
+      `${signals.liveStreak} in a row so far - keep it alive.`,
+    ], seed));
+  } else if (signals.brokenStreakBest) {
+    parts.push(`Your best run was ${signals.brokenStreakBest} in a row. This can be the start of the next one.`);
+  }
+
+  if (signals.skippedYesterday) {
+    parts.push(pickVariant([
+      `We skipped it yesterday, and that's okay - but let's get back on track today.`,
+      `Yesterday was a day off. Today's a fresh start.`,
+    ], seed));
+  } else if (signals.missedCallsInARow >= 2 && signals.escalation === 0) {
+    parts.push(`You've missed my last ${signals.missedCallsInARow} calls about this. I'm glad you picked up.`);
+  }
+
+  if (why) {
+    parts.push(signals.escalation === 2
+      ? `Remember what you told me: ${why}.`
+      : pickVariant([`Remember why this matters: ${why}.`, `You said it yourself: ${why}.`], seed));
+  }
+
+  if (signals.snoozeCount >= 3 && signals.escalation > 0) {
+    parts.push(`That's ${signals.snoozeCount} snoozes. No more putting it off.`);
+  }
+
+  parts.push(signals.escalation === 2
+    ? pickVariant([`Do it now. I know you can.`, `Just start. Two minutes. Go.`], seed)
+    : pickVariant([`You've got this! Take action now.`, `Go get it done - I believe in you.`, `Let's do this.`], seed));
+
+  return parts.join(' ');
+}
+
+/**
+ * Built-in script. With a call context it varies the wording and reacts to
+ * recalls, streaks and skips like the LLM providers do.
+ */
+export function templateCallScript(request: CallScriptRequest): string {
+  if (request.kind === 'panic') {
+    return generatePanicSpeech();
+  }
+  return request.context
+    ? contextualReminderScript(request, request.context)
+    : generateReminderSpeech(request.title, request.why);
+}
+
+function buildPrompt(request: CallScriptRequest): string {
+  if (request.kind === 'panic') {
+    return `I pressed my panic button: I'm about to give in to a temptation. ${request.why ? `What I wrote down for moments like this: ${request.why}. ` : ''}Talk me through it - calm, kind, and brief.`;
+  }
+  const prompt = `Reminder: ${request.title}. ${request.why ? `Why it matters to me: ${request.why}.` : ''}`;
+  const contextLines = request.context ? describeCallContext(request.context) : [];
+  return contextLines.length > 0
+    ? `${prompt}\n\nWhat you know about me and this reminder (use what fits, don't recite it):\n- ${contextLines.join('\n- ')}`
+    : prompt;
+}
+
+/**
+ * Write what the caller should say, with the provider chosen in settings.
+ * Falls back to the template script if the provider is unavailable or slow.
+ */
+export async function generateCallScript(
+  request: CallScriptRequest,
+  settings: LLMSettings = getLLMSettings()
+): Promise<string> {
+  const definition = LLM_PROVIDERS[settings.provider];
+  const options = settings.providers[settings.provider];
+
+  if (!definition.complete || (definition.needsApiKey && !options.apiKey)) {
+    return templateCallScript(request);
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs);
+
+  try {
+    const script = await definition.complete(
+      options,
+      options.persona || DEFAULT_PERSONA,
+      buildPrompt(request),
+      controller.signal
+    );
+    return script.trim() || templateCallScript(request);
+  } catch (error) {
+    console.warn(`[LLM] ${definition.label} failed, using the built-in script:`, error);
+    return templateCallScript(request);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
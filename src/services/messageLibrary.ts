@@ -0,0 +1,92 @@
+/**
+ * Message Library Service
+ *
+ * The user's own library of named messages - voice recordings and text
+ * scripts - tagged by mood. Reminders, the panic button and calls to
+ * partners reference messages by id and rotate through them (see
+ * utils/messageRotation.ts), so the same clip isn't heard every day.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LibraryMessage,
+  getLibraryMessage,
+  getLibraryMessages,
+  getLibraryMessagesByIds,
+  putLibraryMessage,
+} from '../db/reminderDB';
+import { MessageRotation, pickMessage } from '../utils/messageRotation';
+
+export type { LibraryMessage };
+
+// ============================================================================
+// LIBRARY
+// ============================================================================
+
+export function getMessages(): Promise<LibraryMessage[]> {
+  return getLibraryMessages();
+}
+
+export async function createTextMessage(name: string, text: string, moods: string[] = []): Promise<LibraryMessage> {
+  const message: LibraryMessage = {
+    id: uuidv4(),
+    name: name.trim(),
+    kind: 'text',
+    text: text.trim(),
+    moods,
+    createdAt: Date.now(),
+  };
+  await putLibraryMessage(message);
+  return message;
+}
+
+export async function createRecordedMessage(name: string, audioAssetId: string, moods: string[] = []): Promise<LibraryMessage> {
+  const message: LibraryMessage = {
+    id: uuidv4(),
+    name: name.trim(),
+    kind: 'recording',
+    audioAssetId,
+    moods,
+    createdAt: Date.now(),
+  };
+  await putLibraryMessage(message);
+  return message;
+}
+
+export async function updateMessage(
+  id: string,
+  changes: Partial<Pick<LibraryMessage, 'name' | 'text' | 'audioAssetId' | 'moods'>>
+): Promise<void> {
+  const message = await getLibraryMessage(id);
+  if (!message) throw new Error('Message not found');
+  await putLibraryMessage({ ...message, ...changes });
+}
+
+/**
+ * Remove a message from the library. Reminders that still list it skip it.
+ */
+export async function deleteMessage(id: string): Promise<void> {
+  const message = await getLibraryMessage(id);
+  if (message) {
+    await putLibraryMessage({ ...message, deletedAt: Date.now() });
+  }
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/**
+ * Pick the message to play next from `ids` and record that it was played.
+ * Returns undefined if none of them are in the library any more.
+ */
+export async function chooseMessage(
+  ids: string[],
+  rotation?: MessageRotation
+): Promise<LibraryMessage | undefined> {
+  const message = pickMessage(await getLibraryMessagesByIds(ids), rotation);
+  if (message) {
+    await putLibraryMessage({ ...message, lastPlayedAt: Date.now() });
+  }
+  return message;
+}
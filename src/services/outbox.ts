@@ -0,0 +1,350 @@
+/**
+ * Offline Write Outbox
+ *
+ * Supabase writes go through runMutation(): online they run straight away,
+ * offline (or on a network/server error) they are recorded in the IndexedDB
+ * outbox and replayed in order once connectivity returns, with exponential
+ * backoff between attempts. The service worker replays the same outbox via
+ * Background Sync when no tab is open (see public/service-worker.js).
+ *
+ * Writes are described as plain data (table, operation, values, equality
+ * filters) so they survive a reload and can be replayed without the code
+ * that issued them. Inserts carry a client-generated id, so replaying one
+ * that already landed (the response was lost) fails with 409 and counts as
+ * delivered.
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  OutboxEntry,
+  addOutboxEntry,
+  claimOutboxEntry,
+  deleteOutboxEntry,
+  getOutboxEntries,
+  saveOutboxCredentials,
+  updateOutboxEntry,
+} from '../db/reminderDB';
+import logger from '../utils/logger';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type Mutation = Pick<OutboxEntry, 'table' | 'op' | 'values' | 'match' | 'onConflict' | 'ignoreDuplicates' | 'label'>;
+
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  entries: OutboxEntry[];
+}
+
+export const OUTBOX_SYNC_TAG = 'sync-outbox';
+export const OUTBOX_CHANGED_EVENT = 'outboxChanged';
+
+const BASE_RETRY_MS = 5 * 1000;
+const MAX_RETRY_MS = 10 * 60 * 1000;
+const MAX_ATTEMPTS = 8; // ~20 minutes of retries, then the entry is shown as failed
+const LEASE_MS = 30 * 1000;
+
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+async function executeMutation(mutation: Mutation): Promise<{ error: { message: string } | null; status: number }> {
+  const table = supabase.from(mutation.table);
+  const match = Object.entries(mutation.match || {});
+
+  // Never let a missing filter turn into a whole-table update or delete
+  if ((mutation.op === 'update' || mutation.op === 'delete') && match.length === 0) {
+    return { error: { message: `Refusing to ${mutation.op} ${mutation.table} without a filter` }, status: 400 };
+  }
+
+  switch (mutation.op) {
+    case 'insert':
+      return table.insert(mutation.values ?? {});
+    case 'upsert':
+      return table.upsert(mutation.values ?? {}, {
+        onConflict: mutation.onConflict,
+        ignoreDuplicates: mutation.ignoreDuplicates,
+      });
+    case 'update': {
+      let query = table.update(mutation.values ?? {});
+      for (const [column, value] of match) {
+        query = value === null ? query.is(column, null) : query.eq(column, value);
+      }
+      return query;
+    }
+    case 'delete': {
+      let query = table.delete();
+      for (const [column, value] of match) {
+        query = value === null ? query.is(column, null) : query.eq(column, value);
+      }
+      return query;
+    }
+  }
+}
+
+// Worth retrying: no connection, timeouts, rate limits, server errors and
+// expired sessions (refreshed before the next attempt)
+function isTransientError(error: { message: string }, status: number): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (status === 0 || status === 401 || status === 408 || status === 429 || status >= 500) return true;
+  return /failed to fetch|networkerror|load failed|network request failed|timeout/i.test(error.message);
+}
+
+// A replayed insert whose row is already there: the earlier attempt landed
+// even though its response never arrived
+function isAlreadyApplied(mutation: Mutation, status: number): boolean {
+  return mutation.op === 'insert' && status === 409;
+}
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+  return delay / 2 + Math.random() * (delay / 2); // Jitter so tabs and devices don't retry in lockstep
+}
+
+// ============================================================================
+// QUEUEING
+// ============================================================================
+
+function notifyOutboxChanged(): void {
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    };
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    // Not supported (e.g. Safari, Firefox) - the online listener covers it while a tab is open
+    logger.warn('Background Sync unavailable:', error);
+  }
+}
+
+async function enqueue(mutation: Mutation, lastError?: string): Promise<void> {
+  const now = Date.now();
+  await addOutboxEntry({
+    ...mutation,
+    createdAt: now,
+    attempts: lastError ? 1 : 0,
+    nextAttemptAt: lastError ? now + retryDelay(1) : now,
+    status: 'pending',
+    lastError,
+  });
+  logger.log(`Queued offline write: ${mutation.label}`);
+
+  notifyOutboxChanged();
+  scheduleFlush();
+  requestBackgroundSync();
+}
+
+/**
+ * Run a Supabase write, or queue it for replay if it can't reach the server.
+ * A queued write counts as success for the caller (`queued: true`); only
+ * errors a retry can't fix (validation, permissions) are returned.
+ */
+export async function runMutation(mutation: Mutation): Promise<{ error: Error | null; queued: boolean }> {
+  // Writes must land in order, so anything behind a queued write queues too
+  const backlog = (await getOutboxEntries()).some(entry => entry.status === 'pending');
+
+  if (backlog || !navigator.onLine) {
+    await enqueue(mutation);
+    return { error: null, queued: true };
+  }
+
+  try {
+    const { error, status } = await executeMutation(mutation);
+    if (!error) return { error: null, queued: false };
+
+    if (isTransientError(error, status)) {
+      await enqueue(mutation, error.message);
+      return { error: null, queued: true };
+    }
+    return { error: new Error(error.message), queued: false };
+  } catch (err) {
+    // fetch itself threw - treat like being offline
+    await enqueue(mutation, err instanceof Error ? err.message : String(err));
+    return { error: null, queued: true };
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+function scheduleFlush(delay: number = 0): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(delay, 0));
+}
+
+/**
+ * Replay due outbox entries in order. Stops at the first entry that still
+ * can't be delivered and schedules the next attempt for it.
+ * Returns how many entries were delivered.
+ */
+export async function flushOutbox(): Promise<number> {
+  if (flushing || !isSupabaseConfigured || !navigator.onLine) return 0;
+  flushing = true;
+
+  let delivered = 0;
+  try {
+    const entries = await getOutboxEntries();
+
+    for (const queued of entries) {
+      if (queued.status !== 'pending' || queued.id === undefined) continue;
+
+      const now = Date.now();
+      if (queued.nextAttemptAt > now) {
+        scheduleFlush(queued.nextAttemptAt - now);
+        break;
+      }
+
+      const entry = await claimOutboxEntry(queued.id, LEASE_MS);
+      if (!entry) {
+        // The service worker or another tab is on it
+        scheduleFlush(LEASE_MS);
+        break;
+      }
+
+      let error: { message: string } | null;
+      let status: number;
+      try {
+        ({ error, status } = await executeMutation(entry));
+      } catch (err) {
+        error = { message: err instanceof Error ? err.message : String(err) };
+        status = 0;
+      }
+
+      if (!error || isAlreadyApplied(entry, status)) {
+        await deleteOutboxEntry(queued.id);
+        delivered++;
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      if (isTransientError(error, status) && attempts < MAX_ATTEMPTS) {
+        const nextAttemptAt = Date.now() + retryDelay(attempts);
+        await updateOutboxEntry({ ...entry, attempts, nextAttemptAt, lockedUntil: undefined, lastError: error.message });
+        scheduleFlush(nextAttemptAt - Date.now());
+        break;
+      }
+
+      // Out of retries, or rejected outright - park it for the user and move on
+      logger.error(`Offline write failed: ${entry.label}`, error.message);
+      await updateOutboxEntry({ ...entry, attempts, status: 'failed', lockedUntil: undefined, lastError: error.message });
+    }
+  } catch (err) {
+    logger.error('Failed to replay outbox:', err);
+  } finally {
+    flushing = false;
+    notifyOutboxChanged();
+  }
+
+  if (delivered > 0) {
+    logger.log(`Replayed ${delivered} offline write(s)`);
+  }
+  return delivered;
+}
+
+/**
+ * Put failed entries back in the queue and replay them.
+ */
+export async function retryFailedMutations(): Promise<void> {
+  const entries = await getOutboxEntries();
+  const now = Date.now();
+
+  for (const entry of entries) {
+    if (entry.status === 'failed') {
+      await updateOutboxEntry({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: now });
+    }
+  }
+
+  notifyOutboxChanged();
+  await flushOutbox();
+}
+
+/**
+ * Drop an entry without replaying it.
+ */
+export async function discardMutation(id: number): Promise<void> {
+  await deleteOutboxEntry(id);
+  notifyOutboxChanged();
+}
+
+/**
+ * Current pending and failed writes.
+ */
+export async function getOutboxStatus(): Promise<OutboxStatus> {
+  const entries = await getOutboxEntries();
+  return {
+    pending: entries.filter(entry => entry.status === 'pending').length,
+    failed: entries.filter(entry => entry.status === 'failed').length,
+    entries,
+  };
+}
+
+function saveSessionForServiceWorker(session: Session | null): void {
+  const url = import.meta.env.VITE_SUPABASE_URL || '';
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+
+  saveOutboxCredentials(session && url && anonKey ? {
+    id: 'session',
+    url,
+    anonKey,
+    accessToken: session.access_token,
+    expiresAt: (session.expires_at ?? 0) * 1000,
+  } : null).catch(error => {
+    logger.warn('Failed to store outbox credentials:', error);
+  });
+}
+
+/**
+ * Replay the outbox whenever it may succeed: now, on reconnect, after a
+ * token refresh, and when the service worker hands a Background Sync over
+ * to an open tab. Returns a cleanup function.
+ */
+export function startOutboxReplay(): () => void {
+  if (!isSupabaseConfigured) return () => {};
+
+  const handleOnline = () => {
+    flushOutbox();
+  };
+
+  const handleServiceWorkerMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'OUTBOX_FLUSH') {
+      flushOutbox();
+    }
+  };
+
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    saveSessionForServiceWorker(session);
+    if (session) {
+      flushOutbox();
+    }
+  });
+
+  window.addEventListener('online', handleOnline);
+  navigator.serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
+  flushOutbox();
+
+  return () => {
+    subscription.unsubscribe();
+    window.removeEventListener('online', handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', handleServiceWorkerMessage);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Partner Notifications Service
+ *
+ * Alerts sent between accountability partners (the `partner_notifications`
+ * table): missed reminders, motivation calls and streak updates.
+ *
+ * Only reminders the user has chosen to share (Reminder.shareWithPartners)
+ * ever produce a missed-reminder alert, and only partners who have missed
+ * alerts switched on (accountability_partners.notify_on_missed) get one.
+ * The database enforces the same rules (see migration_partner_alerts.sql).
+ *
+ * Motivation calls ring the partner like a reminder from someone else. They
+ * are sent straight to the database rather than through the outbox, because
+ * the recipient's quiet hours and rate limits are checked at the moment of
+ * sending (see migration_motivation_calls.sql).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { Reminder } from '../utils/reminderScheduler';
+import { runMutation } from './outbox';
+import { uploadAudioAsset } from './audioAssets';
+import { getMessages } from './messageLibrary';
+import type { PendingCall } from './supabaseSync';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type PartnerNotificationType = 'missed_reminder' | 'motivation_call' | 'streak_update';
+
+export interface PartnerNotification {
+  id: string;
+  partnership_id: string;
+  user_id: string; // Who the notification is about
+  partner_id: string; // Who receives it
+  reminder_id: string | null;
+  notification_type: PartnerNotificationType;
+  message: string | null;
+  read: boolean;
+  created_at: string;
+  from_name?: string; // Resolved from the partnership, not stored
+}
+
+interface PartnershipNames {
+  user_id: string;
+  partner_name: string | null;
+  partner_email: string | null;
+  requester_name: string | null;
+  requester_email: string | null;
+}
+
+// What a motivation call says: typed text, a fresh recording, or a library message
+export type MotivationContent =
+  | { kind: 'text'; text: string }
+  | { kind: 'recording'; audioAssetId: string }
+  | { kind: 'library'; messageId: string };
+
+const INBOX_LIMIT = 50;
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Tell the user's accountability partners (those with notify_on_missed on)
+ * that a shared reminder went unanswered. Private reminders are never sent.
+ * Returns how many partners were alerted.
+ */
+export async function notifyPartnersOfMissedReminder(
+  userId: string,
+  reminder: Reminder,
+  misses: number
+): Promise<{ notified: number; error: Error | null }> {
+  if (!isSupabaseConfigured) return { notified: 0, error: new Error('Supabase not configured') };
+  if (!reminder.shareWithPartners) return { notified: 0, error: null };
+
+  try {
+    const { data, error: partnersError } = await supabase
+      .from('accountability_partners')
+      .select('id, user_id, partner_id')
+      .or(`user_id.eq.${userId},partner_id.eq.${userId}`)
+      .eq('status', 'accepted')
+      .eq('notify_on_missed', true);
+
+    if (partnersError) throw partnersError;
+
+    const partnerships = (data || []) as { id: string; user_id: string; partner_id: string }[];
+    if (partnerships.length === 0) return { notified: 0, error: null };
+
+    const { error } = await runMutation({
+      table: 'partner_notifications',
+      op: 'insert',
+      values: partnerships.map(partnership => ({
+        id: uuidv4(), // Client id, so a replayed insert can't alert twice
+        partnership_id: partnership.id,
+        user_id: userId,
+        partner_id: partnership.user_id === userId ? partnership.partner_id : partnership.user_id,
+        reminder_id: reminder.id,
+        notification_type: 'missed_reminder',
+        message: `Missed "${reminder.title}" ${misses} ${misses === 1 ? 'time' : 'times'} in a row`,
+      })),
+      label: `Alert partners about "${reminder.title}"`,
+    });
+
+    if (error) throw error;
+    return { notified: partnerships.length, error: null };
+  } catch (err) {
+    console.error('Failed to notify partners:', err);
+    return { notified: 0, error: err as Error };
+  }
+}
+
+/**
+ * Ring the other side of a partnership with a motivation call. Fails with a
+ * message fit to show the sender when the partner is in quiet hours or has
+ * had enough calls for today.
+ */
+export async function sendMotivationCall(
+  userId: string,
+  partnershipId: string,
+  content: MotivationContent
+): Promise<{ call: PendingCall | null; error: Error | null }> {
+  if (!isSupabaseConfigured) return { call: null, error: new Error('Supabase not configured') };
+
+  try {
+    let text: string | null = null;
+    let audioAssetId: string | null = null;
+
+    if (content.kind === 'library') {
+      const message = (await getMessages()).find(m => m.id === content.messageId);
+      if (!message) throw new Error('That message is no longer in your library');
+      text = message.text || null;
+      audioAssetId = message.audioAssetId || null;
+    } else if (content.kind === 'text') {
+      text = content.text;
+    } else {
+      audioAssetId = content.audioAssetId;
+    }
+
+    if (audioAssetId) {
+      const { error: uploadError } = await uploadAudioAsset(audioAssetId, userId);
+      if (uploadError) throw uploadError;
+    }
+
+    const { data, error } = await supabase.rpc('send_motivation_call', {
+      p_partnership_id: partnershipId,
+      p_message_text: text,
+      p_audio_asset_id: audioAssetId,
+    });
+
+    if (error) throw new Error(error.message);
+    return { call: data as PendingCall, error: null };
+  } catch (err) {
+    console.error('Failed to send motivation call:', err);
+    return { call: null, error: err as Error };
+  }
+}
+
+// ============================================================================
+// INBOX
+// ============================================================================
+
+// Name of the partner a notification came from, as stored on the partnership
+function senderName(notification: PartnerNotification, partnership: PartnershipNames | null): string {
+  if (!partnership) return 'Your partner';
+  const fromRequester = partnership.user_id === notification.user_id;
+  return (fromRequester
+    ? partnership.requester_name || partnership.requester_email
+    : partnership.partner_name || partnership.partner_email) || 'Your partner';
+}
+
+/**
+ * Notifications sent to the user, newest first
+ */
+export async function getPartnerNotifications(userId: string): Promise<PartnerNotification[]> {
+  if (!isSupabaseConfigured) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('partner_notifications')
+      .select('*, partnership:accountability_partners(user_id, partner_name, partner_email, requester_name, requester_email)')
+      .eq('partner_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT);
+
+    if (error) throw error;
+
+    return (data || []).map(({ partnership, ...notification }) => ({
+      ...(notification as PartnerNotification),
+      from_name: senderName(notification as PartnerNotification, partnership as PartnershipNames | null),
+    }));
+  } catch (err) {
+    console.error('Failed to get partner notifications:', err);
+    return [];
+  }
+}
+
+/**
+ * Mark one notification as read
+ */
+export async function markPartnerNotificationRead(id: string): Promise<{ error: Error | null }> {
+  return updateNotifications({ id }, 'Mark notification read');
+}
+
+/**
+ * Mark all of the user's unread notifications as read
+ */
+export async function markAllPartnerNotificationsRead(userId: string): Promise<{ error: Error | null }> {
+  return updateNotifications({ partner_id: userId, read: false }, 'Mark notifications read');
+}
+
+async function updateNotifications(
+  match: Record<string, string | boolean>,
+  label: string
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'partner_notifications',
+      op: 'update',
+      values: { read: true },
+      match,
+      label,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to mark notifications read:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Remove a notification from the inbox
+ */
+export async function deletePartnerNotification(id: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'partner_notifications',
+      op: 'delete',
+      match: { id },
+      label: 'Delete partner notification',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to delete notification:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Subscribe to notifications sent to the user (new ones and read changes)
+ */
+export function subscribeToPartnerNotifications(
+  userId: string,
+  onChange: () => void
+): (() => void) | null {
+  if (!isSupabaseConfigured) return null;
+
+  const channel = supabase
+    .channel(`partner_notifications_${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'partner_notifications',
+        filter: `partner_id=eq.${userId}`,
+      },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,422 @@
+/**
+ * Reminder Dispatcher
+ *
+ * Turns due reminders sent to other people into `pending_calls` rows and
+ * advances their `next_trigger` with the same recurrence logic the app uses.
+ * Group reminders fan out the same way, one call per member who hasn't
+ * muted the group or that reminder. The push sender also uses it to work out
+ * which occurrence of a self reminder to push to a device with the app closed.
+ *
+ * Shared by the server-side scheduler (supabase/functions/reminder-scheduler)
+ * and the browser fallback in useSupabaseReminderScheduler, so it only depends
+ * on the Supabase client it is given and the pure scheduling utils. Only the
+ * supabase/functions tree is deployed, so the functions use a bundled copy:
+ * run `npm run build:functions` after changing this or the utils it uses.
+ *
+ * Safe under concurrent runs:
+ * - claim_due_reminders() leases rows with FOR UPDATE SKIP LOCKED, so two
+ *   workers never dispatch the same reminder at the same time
+ * - pending_calls is unique on (reminder_id, triggered_at), and on
+ *   (group_reminder_id, recipient_id, triggered_at) for group calls, so a
+ *   worker that dies after creating a call can't create a duplicate when the
+ *   lease expires
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PendingCall } from './supabaseSync';
+import { DbGroupReminder, DbReminder, fromDbGroupReminder, fromDbReminder } from './reminderMapping';
+import { computeNextRecurrence, computeNextTrigger, getReminderRecurrence, rezoneReminder } from '../utils/reminderScheduler';
+import { previousOccurrence } from '../utils/recurrence';
+import { MessageRotation, pickMessage } from '../utils/messageRotation';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface DispatchOptions {
+  workerId: string; // Identifies this worker's leases
+  userId?: string; // Only dispatch this sender's reminders (browser fallback)
+  graceMs?: number; // Only pick up reminders overdue by at least this long
+  leaseMs?: number; // How long a claim is honoured before another worker may retry
+  batchSize?: number;
+}
+
+export interface DispatchResult {
+  claimed: number;
+  dispatched: number; // pending_calls created (duplicates are not counted)
+  completed: number; // Series that ended and were deactivated
+  errors: string[];
+}
+
+interface SenderProfile {
+  email: string | null;
+  full_name: string | null;
+}
+
+// A member's mute: the whole group when group_reminder_id is null
+interface GroupMuteRow {
+  user_id: string;
+  group_reminder_id: string | null;
+}
+
+// The columns of `library_messages` a call needs
+interface LibraryMessageRow {
+  id: string;
+  kind: 'recording' | 'text';
+  audio_asset_id: string | null;
+  text: string | null;
+  last_played_at: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_LEASE_MS = 60 * 1000;
+const DEFAULT_BATCH_SIZE = 50;
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Claim due reminders, create a pending call for each occurrence, then
+ * schedule the next occurrence and release the claim.
+ */
+export async function dispatchDueReminders(
+  client: SupabaseClient,
+  options: DispatchOptions
+): Promise<DispatchResult> {
+  const result: DispatchResult = { claimed: 0, dispatched: 0, completed: 0, errors: [] };
+  const now = Date.now();
+
+  const { data, error } = await client.rpc('claim_due_reminders', {
+    p_worker_id: options.workerId,
+    p_now: now,
+    p_grace_ms: options.graceMs ?? 0,
+    p_lease_ms: options.leaseMs ?? DEFAULT_LEASE_MS,
+    p_limit: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    p_user_id: options.userId ?? null,
+  });
+
+  if (error) {
+    result.errors.push(`Failed to claim due reminders: ${error.message}`);
+    return result;
+  }
+
+  const rows = (data || []) as DbReminder[];
+  result.claimed = rows.length;
+
+  const senders = new Map<string, SenderProfile | null>();
+  const timeZones = new Map<string, string | null>();
+
+  for (const row of rows) {
+    try {
+      if (!senders.has(row.user_id)) {
+        senders.set(row.user_id, await getProfile<SenderProfile>(client, row.user_id, 'email, full_name'));
+      }
+      const sender = senders.get(row.user_id);
+
+      if (await createOccurrenceCall(client, row, sender ?? null)) {
+        result.dispatched++;
+      }
+
+      let reminder = fromDbReminder(row);
+
+      // Re-anchor to the recipient's current zone before scheduling the next call
+      if (reminder.timeZoneMode === 'recipient' && row.recipient_id) {
+        if (!timeZones.has(row.recipient_id)) {
+          const profile = await getProfile<{ time_zone: string | null }>(client, row.recipient_id, 'time_zone');
+          timeZones.set(row.recipient_id, profile?.time_zone || null);
+        }
+        const recipientZone = timeZones.get(row.recipient_id);
+        if (recipientZone && recipientZone !== reminder.timeZone) {
+          reminder = rezoneReminder(reminder, recipientZone);
+        }
+      }
+
+      const nextTrigger = computeNextRecurrence(reminder);
+      const changes = nextTrigger === null
+        // Series has ended (one-time, COUNT or UNTIL reached) - deactivate it
+        ? { active: false }
+        : {
+            next_trigger: nextTrigger,
+            time_zone: reminder.timeZone || null,
+            dtstart: reminder.dtstart ?? null,
+            exdates: reminder.exdates || null,
+          };
+
+      const { error: updateError } = await client
+        .from('reminders')
+        .update({ ...changes, claimed_at: null, claimed_by: null })
+        .eq('id', row.id)
+        .eq('claimed_by', options.workerId);
+
+      if (updateError) throw updateError;
+      if (nextTrigger === null) result.completed++;
+    } catch (err) {
+      result.errors.push(`Failed to dispatch reminder ${row.id}: ${err instanceof Error ? err.message : err}`);
+      await releaseClaim(client, row.id, options.workerId);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create the pending call for a reminder's current occurrence.
+ * Returns false if this occurrence was already dispatched.
+ */
+async function createOccurrenceCall(
+  client: SupabaseClient,
+  row: DbReminder,
+  sender: SenderProfile | null
+): Promise<boolean> {
+  if (!row.recipient_id) return false;
+
+  const message = row.message_ids?.length
+    ? await pickLibraryMessage(client, row.message_ids, row.message_rotation as MessageRotation | null)
+    : null;
+
+  const pendingCall: Omit<PendingCall, 'id' | 'created_at'> = {
+    reminder_id: row.id,
+    sender_id: row.user_id,
+    recipient_id: row.recipient_id,
+    sender_name: row.sender_name || sender?.full_name || sender?.email?.split('@')[0] || 'Someone',
+    sender_email: sender?.email || null,
+    reminder_title: row.title,
+    reminder_why: row.why,
+    audio_recording: message ? null : row.audio_recording,
+    audio_asset_id: message ? message.audio_asset_id : row.audio_asset_id ?? null,
+    use_custom_audio: message ? !!message.audio_asset_id : row.use_custom_audio || false,
+    message_text: message?.text ?? null,
+    // The occurrence time (not "now") is what makes retries idempotent
+    triggered_at: row.next_trigger,
+    status: 'pending',
+    answered_at: null,
+  };
+
+  const { data, error } = await client
+    .from('pending_calls')
+    .upsert(pendingCall, { onConflict: 'reminder_id,triggered_at', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  const created = !!data && data.length > 0;
+
+  if (created && message) {
+    await client
+      .from('library_messages')
+      .update({ last_played_at: Date.now() })
+      .eq('id', message.id);
+  }
+
+  return created;
+}
+
+/**
+ * Choose the next message from the sender's library for a reminder that
+ * rotates through several. Returns null if none of them exist any more.
+ */
+async function pickLibraryMessage(
+  client: SupabaseClient,
+  ids: string[],
+  rotation: MessageRotation | null
+): Promise<LibraryMessageRow | null> {
+  const { data, error } = await client
+    .from('library_messages')
+    .select('id, kind, audio_asset_id, text, last_played_at')
+    .in('id', ids)
+    .is('deleted_at', null);
+
+  if (error) throw error;
+
+  // Rotation follows the reminder's order, not the query's
+  const rows = (data || []) as LibraryMessageRow[];
+  const ordered = ids
+    .map(id => rows.find(message => message.id === id))
+    .filter((message): message is LibraryMessageRow => !!message)
+    .map(message => ({ ...message, lastPlayedAt: message.last_played_at ?? undefined }));
+
+  return pickMessage(ordered, rotation ?? undefined) ?? null;
+}
+
+// ============================================================================
+// GROUP DISPATCH
+// ============================================================================
+
+/**
+ * Claim due group reminders, ring every member who hasn't muted them, then
+ * schedule the next occurrence and release the claim.
+ */
+export async function dispatchDueGroupReminders(
+  client: SupabaseClient,
+  options: DispatchOptions
+): Promise<DispatchResult> {
+  const result: DispatchResult = { claimed: 0, dispatched: 0, completed: 0, errors: [] };
+  const now = Date.now();
+
+  const { data, error } = await client.rpc('claim_due_group_reminders', {
+    p_worker_id: options.workerId,
+    p_now: now,
+    p_grace_ms: options.graceMs ?? 0,
+    p_lease_ms: options.leaseMs ?? DEFAULT_LEASE_MS,
+    p_limit: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    p_user_id: options.userId ?? null,
+  });
+
+  if (error) {
+    result.errors.push(`Failed to claim due group reminders: ${error.message}`);
+    return result;
+  }
+
+  const rows = (data || []) as DbGroupReminder[];
+  result.claimed = rows.length;
+
+  for (const row of rows) {
+    try {
+      // Rows created before group scheduling only know their time; pin them to the creator's zone
+      if (!row.time_zone) {
+        const profile = await getProfile<{ time_zone: string | null }>(client, row.created_by, 'time_zone');
+        row.time_zone = profile?.time_zone || null;
+      }
+
+      const reminder = fromDbGroupReminder(row);
+      let nextTrigger: number | null;
+
+      if (row.next_trigger === null) {
+        // Never scheduled: work out the first occurrence without ringing anyone
+        nextTrigger = computeNextTrigger(reminder);
+      } else {
+        result.dispatched += await createGroupOccurrenceCalls(client, row, row.next_trigger);
+        nextTrigger = computeNextRecurrence(reminder);
+      }
+
+      const changes = nextTrigger === null
+        ? { active: false }
+        : {
+            next_trigger: nextTrigger,
+            rrule: reminder.rrule || null,
+            dtstart: reminder.dtstart ?? null,
+            time_zone: reminder.timeZone || null,
+          };
+
+      const { error: updateError } = await client
+        .from('group_reminders')
+        .update({ ...changes, claimed_at: null, claimed_by: null })
+        .eq('id', row.id)
+        .eq('claimed_by', options.workerId);
+
+      if (updateError) throw updateError;
+      if (nextTrigger === null) result.completed++;
+    } catch (err) {
+      result.errors.push(`Failed to dispatch group reminder ${row.id}: ${err instanceof Error ? err.message : err}`);
+      await client
+        .from('group_reminders')
+        .update({ claimed_at: null, claimed_by: null })
+        .eq('id', row.id)
+        .eq('claimed_by', options.workerId);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a pending call for each member who should hear this occurrence.
+ * Returns how many were created (members already called are skipped).
+ */
+async function createGroupOccurrenceCalls(
+  client: SupabaseClient,
+  row: DbGroupReminder,
+  triggeredAt: number
+): Promise<number> {
+  const [membersResult, mutesResult, groupResult] = await Promise.all([
+    client.from('group_members').select('user_id').eq('group_id', row.group_id),
+    client.from('group_member_mutes').select('user_id, group_reminder_id').eq('group_id', row.group_id),
+    client.from('reminder_groups').select('name').eq('id', row.group_id).maybeSingle(),
+  ]);
+
+  if (membersResult.error) throw membersResult.error;
+  if (mutesResult.error) throw mutesResult.error;
+
+  const muted = new Set(
+    ((mutesResult.data || []) as GroupMuteRow[])
+      .filter(mute => mute.group_reminder_id === null || mute.group_reminder_id === row.id)
+      .map(mute => mute.user_id)
+  );
+  const recipients = ((membersResult.data || []) as { user_id: string }[])
+    .map(member => member.user_id)
+    .filter(userId => !muted.has(userId));
+
+  if (recipients.length === 0) return 0;
+
+  const groupName = (groupResult.data as { name: string } | null)?.name || 'Your group';
+  const calls: Omit<PendingCall, 'id' | 'created_at'>[] = recipients.map(recipientId => ({
+    reminder_id: null,
+    group_reminder_id: row.id,
+    sender_id: row.created_by,
+    recipient_id: recipientId,
+    sender_name: groupName,
+    sender_email: null,
+    reminder_title: row.title,
+    reminder_why: row.why,
+    audio_recording: null,
+    use_custom_audio: false,
+    // The occurrence time (not "now") is what makes retries idempotent
+    triggered_at: triggeredAt,
+    status: 'pending',
+    answered_at: null,
+  }));
+
+  const { data, error } = await client
+    .from('pending_calls')
+    .upsert(calls, { onConflict: 'group_reminder_id,recipient_id,triggered_at', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+// ============================================================================
+// SELF REMINDER PUSHES
+// ============================================================================
+
+/**
+ * The occurrence of a self reminder to push at `now`, or null if there is
+ * nothing to push. Only a device with the app open advances next_trigger, so
+ * a stale next_trigger means every device is closed: push the latest
+ * occurrence the series has reached (or next_trigger itself, after a snooze
+ * from a notification moved it), unless it is older than `maxAgeMs` or was
+ * already pushed.
+ */
+export function selfReminderPushOccurrence(row: DbReminder, now: number, maxAgeMs: number): number | null {
+  if (!row.active || row.next_trigger > now) return null;
+
+  const latest = previousOccurrence(getReminderRecurrence(fromDbReminder(row)), now);
+  const occurrence = Math.max(latest ?? row.next_trigger, row.next_trigger);
+
+  if (occurrence <= now - maxAgeMs) return null;
+  if (row.pushed_trigger != null && row.pushed_trigger >= occurrence) return null;
+  return occurrence;
+}
+
+async function getProfile<T>(client: SupabaseClient, userId: string, columns: string): Promise<T | null> {
+  const { data, error } = await client
+    .from('profiles')
+    .select(columns)
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) return null;
+  return data as T | null;
+}
+
+// Give the reminder back so another run can retry it without waiting for the lease
+async function releaseClaim(client: SupabaseClient, reminderId: string, workerId: string): Promise<void> {
+  await client
+    .from('reminders')
+    .update({ claimed_at: null, claimed_by: null })
+    .eq('id', reminderId)
+    .eq('claimed_by', workerId);
+}
@@ -0,0 +1,191 @@
+/**
+ * Reminder Row Mapping
+ *
+ * Converts between the app's Reminder objects and rows of the Supabase
+ * `reminders` and `group_reminders` tables. Kept free of the browser
+ * Supabase client so the server-side scheduler can share it.
+ */
+
+import { Reminder, TimeZoneMode, migrateLegacyRepeat } from '../utils/reminderScheduler';
+import { MessageRotation } from '../utils/messageRotation';
+import { EscalationPolicy, normalizeEscalationPolicy } from '../utils/escalationPolicy';
+
+export interface DbReminder {
+  id: string;
+  user_id: string;
+  title: string;
+  why: string | null;
+  time: string;
+  next_trigger: number;
+  repeat: string;
+  days_of_week: number[] | null;
+  custom_interval: number | null;
+  specific_times: string[] | null;
+  rrule: string | null;
+  dtstart: number | null;
+  exdates: number[] | null;
+  time_zone: string | null;
+  time_zone_mode: string | null;
+  active: boolean;
+  audio_recording: string | null; // Legacy base64; superseded by audio_asset_id
+  audio_asset_id?: string | null;
+  use_custom_audio: boolean;
+  message_ids?: string[] | null;
+  message_rotation?: string | null;
+  escalation_policy?: EscalationPolicy | null;
+  share_with_partners?: boolean | null;
+  created_at: string;
+  updated_at: string;
+  // Recipient fields
+  recipient_id: string | null;
+  recipient_email: string | null;
+  is_for_self: boolean;
+  sender_name: string | null;
+  // Sync versioning (see utils/reminderMerge.ts)
+  field_versions?: Record<string, number> | null;
+  deleted_at?: number | null;
+  // Scheduler lease (set while a worker is dispatching this reminder)
+  claimed_at?: number | null;
+  claimed_by?: string | null;
+  // Occurrence last pushed to the owner's devices (see _shared/webPush.ts)
+  pushed_trigger?: number | null;
+}
+
+// Convert local Reminder to DB format
+export function toDbReminder(reminder: Reminder, userId: string, recipientId?: string, recipientEmail?: string, senderName?: string): Omit<DbReminder, 'created_at' | 'updated_at'> {
+  return {
+    id: reminder.id,
+    user_id: userId,
+    title: reminder.title,
+    why: reminder.why || null,
+    time: reminder.time,
+    next_trigger: reminder.nextTrigger,
+    repeat: reminder.repeat,
+    days_of_week: reminder.daysOfWeek || null,
+    custom_interval: reminder.customInterval || null,
+    specific_times: reminder.specificTimes || null,
+    rrule: reminder.rrule || null,
+    dtstart: reminder.dtstart ?? null,
+    exdates: reminder.exdates || null,
+    time_zone: reminder.timeZone || null,
+    time_zone_mode: reminder.timeZoneMode || null,
+    active: reminder.active,
+    audio_recording: reminder.audioRecording || null,
+    audio_asset_id: reminder.audioAssetId || null,
+    use_custom_audio: reminder.useCustomAudio || false,
+    message_ids: reminder.messageIds?.length ? reminder.messageIds : null,
+    message_rotation: reminder.messageRotation || null,
+    escalation_policy: reminder.escalationPolicy || null,
+    share_with_partners: reminder.shareWithPartners || false,
+    recipient_id: recipientId || null,
+    recipient_email: recipientEmail || null,
+    is_for_self: !recipientId && !recipientEmail,
+    sender_name: senderName || null,
+    field_versions: reminder.fieldVersions || null,
+    deleted_at: reminder.deletedAt ?? null,
+  };
+}
+
+// Convert DB Reminder to local format
+// Rows written before RRULE support get an equivalent rule derived from their legacy repeat fields
+export function fromDbReminder(dbReminder: DbReminder): Reminder & { recipientId?: string; recipientEmail?: string; isForSelf?: boolean; senderName?: string } {
+  return migrateLegacyRepeat({
+    id: dbReminder.id,
+    title: dbReminder.title,
+    why: dbReminder.why || '',
+    time: dbReminder.time,
+    nextTrigger: dbReminder.next_trigger,
+    repeat: dbReminder.repeat as Reminder['repeat'],
+    daysOfWeek: dbReminder.days_of_week || undefined,
+    customInterval: dbReminder.custom_interval || undefined,
+    specificTimes: dbReminder.specific_times || undefined,
+    rrule: dbReminder.rrule || undefined,
+    dtstart: dbReminder.dtstart ?? undefined,
+    exdates: dbReminder.exdates || undefined,
+    timeZone: dbReminder.time_zone || undefined,
+    timeZoneMode: (dbReminder.time_zone_mode as TimeZoneMode) || undefined,
+    active: dbReminder.active,
+    createdAt: new Date(dbReminder.created_at).getTime(),
+    audioRecording: dbReminder.audio_recording || undefined,
+    audioAssetId: dbReminder.audio_asset_id || undefined,
+    useCustomAudio: dbReminder.use_custom_audio || false,
+    messageIds: dbReminder.message_ids || undefined,
+    messageRotation: (dbReminder.message_rotation as MessageRotation) || undefined,
+    escalationPolicy: normalizeEscalationPolicy(dbReminder.escalation_policy),
+    shareWithPartners: dbReminder.share_with_partners || false,
+    updatedAt: new Date(dbReminder.updated_at).getTime(),
+    deletedAt: dbReminder.deleted_at ?? undefined,
+    fieldVersions: dbReminder.field_versions || undefined,
+    recipientId: dbReminder.recipient_id || undefined,
+    recipientEmail: dbReminder.recipient_email || undefined,
+    isForSelf: dbReminder.is_for_self,
+    senderName: dbReminder.sender_name || undefined,
+  });
+}
+
+// ============================================================================
+// GROUP REMINDERS
+// ============================================================================
+
+// A reminder shared by a whole group; its schedule fields mirror `reminders`
+export interface DbGroupReminder {
+  id: string;
+  group_id: string;
+  title: string;
+  why: string | null;
+  time: string;
+  repeat: string;
+  next_trigger: number | null; // NULL on rows created before group scheduling
+  rrule: string | null;
+  dtstart: number | null;
+  exdates: number[] | null;
+  time_zone: string | null;
+  active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  // Scheduler lease (set while a worker is fanning this reminder out)
+  claimed_at?: number | null;
+  claimed_by?: string | null;
+}
+
+export function toDbGroupReminder(
+  reminder: Reminder,
+  groupId: string,
+  createdBy: string
+): Omit<DbGroupReminder, 'created_at' | 'updated_at'> {
+  return {
+    id: reminder.id,
+    group_id: groupId,
+    title: reminder.title,
+    why: reminder.why || null,
+    time: reminder.time,
+    repeat: reminder.repeat,
+    next_trigger: reminder.nextTrigger,
+    rrule: reminder.rrule || null,
+    dtstart: reminder.dtstart ?? null,
+    exdates: reminder.exdates || null,
+    time_zone: reminder.timeZone || null,
+    active: reminder.active,
+    created_by: createdBy,
+  };
+}
+
+// Rows without a next_trigger come back with 0, which anchors their series at the next `time`
+export function fromDbGroupReminder(row: DbGroupReminder): Reminder {
+  return migrateLegacyRepeat({
+    id: row.id,
+    title: row.title,
+    why: row.why || '',
+    time: row.time,
+    repeat: row.repeat as Reminder['repeat'],
+    nextTrigger: row.next_trigger ?? 0,
+    rrule: row.rrule || undefined,
+    dtstart: row.dtstart ?? undefined,
+    exdates: row.exdates || undefined,
+    timeZone: row.time_zone || undefined,
+    timeZoneMode: row.time_zone ? 'pinned' : undefined,
+    active: row.active,
+    createdAt: new Date(row.created_at).getTime(),
+  });
+}
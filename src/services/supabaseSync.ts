@@ -1,45 +1,39 @@
 // Supabase Sync Service - Handles syncing reminders and real-time notifications
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase, isSupabaseConfigured, DbCallHistory, DbCompletionPrompt } from '../lib/supabase';
+import type { CallHistoryEntry, CompletionPrompt, LibraryMessage } from '../db/reminderDB';
 import { Reminder } from '../utils/reminderScheduler';
+import { mergeReminders } from '../utils/reminderMerge';
+import { DbReminder, fromDbReminder, toDbReminder } from './reminderMapping';
+import { runMutation } from './outbox';
+import { uploadAudioAsset } from './audioAssets';
+import { chooseMessage } from './messageLibrary';
+import { DEFAULT_MOTIVATION_CALLS_PER_DAY, QuietHours } from '../utils/quietHours';
 
-// Types for Supabase tables
-export interface DbReminder {
-  id: string;
-  user_id: string;
-  title: string;
-  why: string | null;
-  time: string;
-  next_trigger: number;
-  repeat: string;
-  days_of_week: number[] | null;
-  custom_interval: number | null;
-  specific_times: string[] | null;
-  active: boolean;
-  audio_recording: string | null;
-  use_custom_audio: boolean;
-  created_at: string;
-  updated_at: string;
-  // Recipient fields
-  recipient_id: string | null;
-  recipient_email: string | null;
-  is_for_self: boolean;
-  sender_name: string | null;
-}
+export type { DbReminder };
+export { fromDbReminder };
 
+// Types for Supabase tables
 export interface PendingCall {
   id: string;
   reminder_id: string | null;
+  group_reminder_id?: string | null; // Set instead of reminder_id for a group reminder's call to one member
   sender_id: string;
   recipient_id: string;
   sender_name: string | null;
   sender_email: string | null;
   reminder_title: string;
   reminder_why: string | null;
-  audio_recording: string | null;
+  audio_recording: string | null; // Legacy base64; superseded by audio_asset_id
+  audio_asset_id?: string | null;
   use_custom_audio: boolean;
+  message_text?: string | null; // Text script from the sender's message library, spoken as written
+  call_type?: 'reminder' | 'motivation'; // motivation: a partner calling to cheer the recipient on
   triggered_at: number;
   status: 'pending' | 'delivered' | 'answered' | 'missed' | 'expired';
   answered_at: number | null;
+  pushed_at?: number | null; // Last Web Push to the recipient's devices
+  snoozed_until?: number | null; // Snoozed from a notification; pushed again after this
   created_at: string;
 }
 
@@ -50,6 +44,13 @@ export interface UserProfile {
   avatar_url: string | null;
 }
 
+// What the user lets partners do, kept on their profile so senders' calls can be checked
+export interface CallPreferences {
+  quietHours: QuietHours | null;
+  motivationCallsPerDay: number;
+  timeZone: string | null;
+}
+
 export interface Contact {
   id: string;
   user_id: string;
@@ -64,52 +65,6 @@ export interface Contact {
   updated_at: string;
 }
 
-// Convert local Reminder to DB format
-function toDbReminder(reminder: Reminder, userId: string, recipientId?: string, recipientEmail?: string, senderName?: string): Omit<DbReminder, 'created_at' | 'updated_at'> {
-  return {
-    id: reminder.id,
-    user_id: userId,
-    title: reminder.title,
-    why: reminder.why || null,
-    time: reminder.time,
-    next_trigger: reminder.nextTrigger,
-    repeat: reminder.repeat,
-    days_of_week: reminder.daysOfWeek || null,
-    custom_interval: reminder.customInterval || null,
-    specific_times: reminder.specificTimes || null,
-    active: reminder.active,
-    audio_recording: reminder.audioRecording || null,
-    use_custom_audio: reminder.useCustomAudio || false,
-    recipient_id: recipientId || null,
-    recipient_email: recipientEmail || null,
-    is_for_self: !recipientId && !recipientEmail,
-    sender_name: senderName || null,
-  };
-}
-
-// Convert DB Reminder to local format
-function fromDbReminder(dbReminder: DbReminder): Reminder & { recipientId?: string; recipientEmail?: string; isForSelf?: boolean; senderName?: string } {
-  return {
-    id: dbReminder.id,
-    title: dbReminder.title,
-    why: dbReminder.why || '',
-    time: dbReminder.time,
-    nextTrigger: dbReminder.next_trigger,
-    repeat: dbReminder.repeat as Reminder['repeat'],
-    daysOfWeek: dbReminder.days_of_week || undefined,
-    customInterval: dbReminder.custom_interval || undefined,
-    specificTimes: dbReminder.specific_times || undefined,
-    active: dbReminder.active,
-    createdAt: new Date(dbReminder.created_at).getTime(),
-    audioRecording: dbReminder.audio_recording || undefined,
-    useCustomAudio: dbReminder.use_custom_audio || false,
-    recipientId: dbReminder.recipient_id || undefined,
-    recipientEmail: dbReminder.recipient_email || undefined,
-    isForSelf: dbReminder.is_for_self,
-    senderName: dbReminder.sender_name || undefined,
-  };
-}
-
 // ============================================================================
 // REMINDER SYNC OPERATIONS
 // ============================================================================
@@ -129,11 +84,20 @@ export async function saveReminderToSupabase(
   }
 
   try {
+    // The recipient's device downloads the recording from Storage
+    if (reminder.audioAssetId) {
+      await uploadAudioAsset(reminder.audioAssetId, userId);
+    }
+
     const dbReminder = toDbReminder(reminder, userId, recipientId, recipientEmail, senderName);
 
-    const { error } = await supabase
-      .from('reminders')
-      .upsert(dbReminder, { onConflict: 'id' });
+    const { error } = await runMutation({
+      table: 'reminders',
+      op: 'upsert',
+      values: dbReminder,
+      onConflict: 'id',
+      label: `Save reminder "${reminder.title}"`,
+    });
 
     if (error) throw error;
     return { error: null };
@@ -155,6 +119,7 @@ export async function getUserReminders(userId: string): Promise<Reminder[]> {
       .select('*')
       .eq('user_id', userId)
       .eq('is_for_self', true)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -176,6 +141,7 @@ export async function getReceivedReminders(userId: string): Promise<Reminder[]>
       .from('reminders')
       .select('*')
       .eq('recipient_id', userId)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -187,16 +153,27 @@ export async function getReceivedReminders(userId: string): Promise<Reminder[]>
 }
 
 /**
- * Delete a reminder from Supabase
+ * Delete a reminder from Supabase.
+ * Leaves a tombstone row so other devices learn about the deletion on their next sync.
  */
-export async function deleteReminderFromSupabase(reminderId: string): Promise<{ error: Error | null }> {
+export async function deleteReminderFromSupabase(
+  reminderId: string,
+  deletedAt: number = Date.now()
+): Promise<{ error: Error | null }> {
   if (!isSupabaseConfigured) return { error: null };
 
   try {
-    const { error } = await supabase
-      .from('reminders')
-      .delete()
-      .eq('id', reminderId);
+    const { error } = await runMutation({
+      table: 'reminders',
+      op: 'update',
+      values: {
+        deleted_at: deletedAt,
+        active: false, // Keeps the scheduler and push sender away from it
+        updated_at: new Date(deletedAt).toISOString(),
+      },
+      match: { id: reminderId },
+      label: 'Delete reminder',
+    });
 
     if (error) throw error;
     return { error: null };
@@ -216,9 +193,10 @@ export async function updateReminderInSupabase(
   if (!isSupabaseConfigured) return { error: null };
 
   try {
-    const { error } = await supabase
-      .from('reminders')
-      .update({
+    const { error } = await runMutation({
+      table: 'reminders',
+      op: 'update',
+      values: {
         title: reminder.title,
         why: reminder.why || null,
         time: reminder.time,
@@ -227,12 +205,26 @@ export async function updateReminderInSupabase(
         days_of_week: reminder.daysOfWeek || null,
         custom_interval: reminder.customInterval || null,
         specific_times: reminder.specificTimes || null,
+        rrule: reminder.rrule || null,
+        dtstart: reminder.dtstart ?? null,
+        exdates: reminder.exdates || null,
+        time_zone: reminder.timeZone || null,
+        time_zone_mode: reminder.timeZoneMode || null,
         active: reminder.active,
         audio_recording: reminder.audioRecording || null,
+        audio_asset_id: reminder.audioAssetId || null,
         use_custom_audio: reminder.useCustomAudio || false,
-      })
-      .eq('id', reminder.id)
-      .eq('user_id', userId);
+        message_ids: reminder.messageIds?.length ? reminder.messageIds : null,
+        message_rotation: reminder.messageRotation || null,
+        escalation_policy: reminder.escalationPolicy || null,
+        share_with_partners: reminder.shareWithPartners || false,
+        // Lets other devices merge this edit field by field (see utils/reminderMerge.ts)
+        field_versions: reminder.fieldVersions || null,
+        deleted_at: reminder.deletedAt ?? null,
+      },
+      match: { id: reminder.id, user_id: userId },
+      label: `Update reminder "${reminder.title}"`,
+    });
 
     if (error) throw error;
     return { error: null };
@@ -291,6 +283,218 @@ export async function searchUsersByEmail(emailQuery: string, limit: number = 5):
   }
 }
 
+// ============================================================================
+// PROFILE TIME ZONE
+// ============================================================================
+
+/**
+ * Get a user's IANA time zone, as last reported by their device
+ */
+export async function getUserTimeZone(userId: string): Promise<string | null> {
+  if (!isSupabaseConfigured) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('time_zone')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // No rows found
+      throw error;
+    }
+    return data?.time_zone || null;
+  } catch (err) {
+    console.error('Failed to fetch user time zone:', err);
+    return null;
+  }
+}
+
+/**
+ * Record the current user's device time zone so senders can ring them at their local time
+ */
+export async function updateProfileTimeZone(userId: string, timeZone: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'profiles',
+      op: 'update',
+      values: { time_zone: timeZone },
+      match: { id: userId },
+      label: 'Update time zone',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to update profile time zone:', err);
+    return { error: err as Error };
+  }
+}
+
+// ============================================================================
+// PROFILE CALL PREFERENCES
+// ============================================================================
+
+// Postgres TIME comes back as "HH:MM:SS"
+function toQuietHours(start: string | null, end: string | null): QuietHours | null {
+  if (!start || !end) return null;
+  return { start: start.slice(0, 5), end: end.slice(0, 5) };
+}
+
+/**
+ * Get a user's quiet hours and motivation call allowance. Profiles are
+ * readable by any signed-in user, so senders can check before calling.
+ */
+export async function getCallPreferences(userId: string): Promise<CallPreferences | null> {
+  if (!isSupabaseConfigured) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('quiet_hours_start, quiet_hours_end, motivation_calls_per_day, time_zone')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null; // No rows found
+      throw error;
+    }
+    return {
+      quietHours: toQuietHours(data.quiet_hours_start, data.quiet_hours_end),
+      motivationCallsPerDay: data.motivation_calls_per_day ?? DEFAULT_MOTIVATION_CALLS_PER_DAY,
+      timeZone: data.time_zone || null,
+    };
+  } catch (err) {
+    console.error('Failed to fetch call preferences:', err);
+    return null;
+  }
+}
+
+/**
+ * Save the current user's quiet hours and motivation call allowance
+ */
+export async function updateCallPreferences(
+  userId: string,
+  preferences: Pick<CallPreferences, 'quietHours' | 'motivationCallsPerDay'>
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'profiles',
+      op: 'update',
+      values: {
+        quiet_hours_start: preferences.quietHours?.start ?? null,
+        quiet_hours_end: preferences.quietHours?.end ?? null,
+        motivation_calls_per_day: preferences.motivationCallsPerDay,
+      },
+      match: { id: userId },
+      label: 'Update call preferences',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to update call preferences:', err);
+    return { error: err as Error };
+  }
+}
+
+// ============================================================================
+// PUSH SUBSCRIPTIONS (one per device)
+// ============================================================================
+
+/**
+ * Store this device's push subscription so the server can ring it when the app is closed
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: { endpoint: string; keys: { p256dh: string; auth: string } }
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'push_subscriptions',
+      op: 'upsert',
+      values: {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+        user_agent: navigator.userAgent.slice(0, 255),
+      },
+      onConflict: 'endpoint',
+      label: 'Register device for notifications',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to save push subscription:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Remove a device's push subscription (e.g. on sign out)
+ */
+export async function deletePushSubscription(endpoint: string): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: null };
+
+  try {
+    const { error } = await runMutation({
+      table: 'push_subscriptions',
+      op: 'delete',
+      match: { endpoint },
+      label: 'Unregister device from notifications',
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to delete push subscription:', err);
+    return { error: err as Error };
+  }
+}
+
+/**
+ * Ask the server to push a reminder that keeps going unanswered to all of the
+ * user's devices (see the escalation step in utils/escalationPolicy.ts)
+ */
+export async function queueEscalationPush(
+  userId: string,
+  reminder: Reminder,
+  misses: number
+): Promise<{ error: Error | null }> {
+  if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
+
+  try {
+    const { error } = await runMutation({
+      table: 'escalation_pushes',
+      op: 'insert',
+      values: {
+        id: uuidv4(), // Client id, so a replayed insert can't push twice
+        user_id: userId,
+        reminder_id: reminder.id,
+        title: `Missed ${misses} ${misses === 1 ? 'call' : 'calls'}: ${reminder.title}`,
+        body: reminder.why || 'Your future self is still trying to reach you',
+        created_at: Date.now(),
+      },
+      label: `Escalate "${reminder.title}" to other devices`,
+    });
+
+    if (error) throw error;
+    return { error: null };
+  } catch (err) {
+    console.error('Failed to queue escalation push:', err);
+    return { error: err as Error };
+  }
+}
+
 // ============================================================================
 // PENDING CALLS OPERATIONS (for recipient notifications)
 // ============================================================================
@@ -308,7 +512,20 @@ export async function createPendingCall(
   if (!isSupabaseConfigured) return { error: new Error('Supabase not configured') };
 
   try {
-    const pendingCall: Omit<PendingCall, 'id' | 'created_at'> = {
+    // A message from the sender's library takes the place of the reminder's own recording
+    const message = reminder.messageIds?.length
+      ? await chooseMessage(reminder.messageIds, reminder.messageRotation)
+      : undefined;
+    const audioAssetId = message
+      ? message.audioAssetId
+      : reminder.audioAssetId;
+
+    if (audioAssetId) {
+      await uploadAudioAsset(audioAssetId, senderId);
+    }
+
+    const pendingCall: Omit<PendingCall, 'created_at'> = {
+      id: uuidv4(), // Client id, so a replayed insert can't ring twice
       reminder_id: reminder.id,
       sender_id: senderId,
       recipient_id: recipientId,
@@ -316,16 +533,21 @@ export async function createPendingCall(
       sender_email: senderEmail,
       reminder_title: reminder.title,
       reminder_why: reminder.why || null,
-      audio_recording: reminder.audioRecording || null,
-      use_custom_audio: reminder.useCustomAudio || false,
+      audio_recording: message ? null : reminder.audioRecording || null,
+      audio_asset_id: audioAssetId || null,
+      use_custom_audio: message ? !!message.audioAssetId : reminder.useCustomAudio || false,
+      message_text: message?.text || null,
       triggered_at: Date.now(),
       status: 'pending',
       answered_at: null,
     };
 
-    const { error } = await supabase
-      .from('pending_calls')
-      .insert(pendingCall);
+    const { error } = await runMutation({
+      table: 'pending_calls',
+      op: 'insert',
+      values: pendingCall,
+      label: `Call for "${reminder.title}"`,
+    });
 
     if (error) throw error;
     return { error: null };
@@ -371,10 +593,13 @@ export async function updatePendingCallStatus(
     const updateData: Partial<PendingCall> = { status };
     if (answeredAt) updateData.answered_at = answeredAt;
 
-    const { error } = await supabase
-      .from('pending_calls')
-      .update(updateData)
-      .eq('id', callId);
+    const { error } = await runMutation({
+      table: 'pending_calls',
+      op: 'update',
+      values: updateData,
+      match: { id: callId },
+      label: `Mark call ${status}`,
+    });
 
     if (error) throw error;
     return { error: null };
@@ -486,23 +711,41 @@ export async function addContact(
   if (!isSupabaseConfigured) return { contact: null, error: new Error('Supabase not configured') };
 
   try {
-    const { data, error } = await supabase
-      .from('contacts')
-      .insert({
-        user_id: userId,
-        nickname: contact.nickname,
-        email: contact.email.toLowerCase(),
-        full_name: contact.full_name || null,
-        contact_user_id: contact.contact_user_id || null,
-        avatar_url: contact.avatar_url || null,
-        notes: contact.notes || null,
-        is_favorite: contact.is_favorite || false,
-      })
-      .select()
-      .single();
+    // Id is generated here so the contact can be returned even when the write is queued offline
+    const now = new Date().toISOString();
+    const newContact: Contact = {
+      id: uuidv4(),
+      user_id: userId,
+      nickname: contact.nickname,
+      email: contact.email.toLowerCase(),
+      full_name: contact.full_name || null,
+      contact_user_id: contact.contact_user_id || null,
+      avatar_url: contact.avatar_url || null,
+      notes: contact.notes || null,
+      is_favorite: contact.is_favorite || false,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const { error } = await runMutation({
+      table: 'contacts',
+      op: 'insert',
+      values: {
+        id: newContact.id,
+        user_id: newContact.user_id,
+        nickname: newContact.nickname,
+        email: newContact.email,
+        full_name: newContact.full_name,
+        contact_user_id: newContact.contact_user_id,
+        avatar_url: newContact.avatar_url,
+        notes: newContact.notes,
+        is_favorite: newContact.is_favorite,
+      },
+      label: `Add contact "${contact.nickname}"`,
+    });
 
     if (error) throw error;
-    return { contact: data, error: null };
+    return { contact: newContact, error: null };
   } catch (err) {
     console.error('Failed to add contact:', err);
     return { contact: null, error: err as Error };
@@ -519,10 +762,13 @@ export async function updateContact(
   if (!isSupabaseConfigured) return { error: null };
 
   try {
-    const { error } = await supabase
-      .from('contacts')
-      .update(updates)
-      .eq('id', contactId);
+    const { error } = await runMutation({
+      table: 'contacts',
+      op: 'update',
+      values: updates,
+      match: { id: contactId },
+      label: 'Update contact',
+    });
 
     if (error) throw error;
     return { error: null };
@@ -539,10 +785,12 @@ export async function deleteContact(contactId: string): Promise<{ error: Error |
   if (!isSupabaseConfigured) return { error: null };
 
   try {
-    const { error } = await supabase
-      .from('contacts')
-      .delete()
-      .eq('id', contactId);
+    const { error } = await runMutation({
+      table: 'contacts',
+      op: 'delete',
+      match: { id: contactId },
+      label: 'Delete contact',
+    });
 
     if (error) throw error;
     return { error: null };
@@ -581,30 +829,60 @@ export async function getContactByNickname(userId: string, nickname: string): Pr
 // TWO-WAY SYNC OPERATIONS
 // ============================================================================
 
+
+// Two copies of a reminder were edited independently and had to be merged
+export interface SyncConflict {
+  reminderId: string;
+  title: string;
+  keptLocal: string[]; // Fields where this device's edit won
+  keptCloud: string[]; // Fields where another device's edit won
+}
+
 export interface SyncResult {
   success: boolean;
   synced: number;
   created: number;
   updated: number;
+  deleted: number;
+  conflicts: SyncConflict[];
   errors: string[];
 }
 
+function emptySyncResult(): SyncResult {
+  return {
+    success: false,
+    synced: 0,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    conflicts: [],
+    errors: [],
+  };
+}
+
+// All of the user's own reminders in the cloud, tombstones included
+async function fetchCloudReminders(userId: string): Promise<{ data: DbReminder[]; error: Error | null }> {
+  const { data, error } = await supabase
+    .from('reminders')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_for_self', true);
+
+  return { data: (data || []) as DbReminder[], error };
+}
+
 /**
  * Sync reminders from Supabase to local IndexedDB.
- * Merges cloud data with local data, preferring more recent updates.
+ * Each reminder is merged field by field, keeping the most recent write of
+ * every field; deletions from other devices are applied as local tombstones.
+ * `localReminders` must include tombstones (see getAllRemindersForSync).
  */
 export async function syncRemindersFromCloud(
   userId: string,
   localReminders: Reminder[],
   saveLocalReminder: (reminder: Reminder) => Promise<void>
 ): Promise<SyncResult> {
-  const result: SyncResult = {
-    success: false,
-    synced: 0,
-    created: 0,
-    updated: 0,
-    errors: [],
-  };
+  const result = emptySyncResult();
 
   if (!isSupabaseConfigured) {
     result.errors.push('Supabase not configured');
@@ -612,50 +890,53 @@ export async function syncRemindersFromCloud(
   }
 
   try {
-    // Fetch all self-reminders for this user from Supabase
-    const { data: cloudReminders, error } = await supabase
-      .from('reminders')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_for_self', true);
+    const { data: cloudReminders, error } = await fetchCloudReminders(userId);
 
     if (error) {
       result.errors.push(`Failed to fetch cloud reminders: ${error.message}`);
       return result;
     }
 
-    if (!cloudReminders || cloudReminders.length === 0) {
-      result.success = true;
-      return result;
-    }
-
     // Create a map of local reminders by ID for quick lookup
     const localRemindersMap = new Map(localReminders.map(r => [r.id, r]));
 
     // Process each cloud reminder
-    for (const dbReminder of cloudReminders as DbReminder[]) {
+    for (const dbReminder of cloudReminders) {
       try {
         const localReminder = localRemindersMap.get(dbReminder.id);
-        const cloudUpdatedAt = new Date(dbReminder.updated_at).getTime();
+        const cloudReminder = fromDbReminder(dbReminder);
 
         if (!localReminder) {
+          // Deleted before this device ever saw it
+          if (cloudReminder.deletedAt) continue;
+
           // Reminder exists in cloud but not locally - create locally
-          const newReminder = fromDbReminder(dbReminder);
-          await saveLocalReminder(newReminder);
+          await saveLocalReminder(cloudReminder);
           result.created++;
           result.synced++;
-        } else {
-          // Reminder exists in both - check which is newer
-          // Use nextTrigger update time or createdAt as proxy for "last updated"
-          const localUpdatedEstimate = localReminder.nextTrigger || localReminder.createdAt;
-
-          // If cloud is newer, update local
-          if (cloudUpdatedAt > localUpdatedEstimate) {
-            const updatedReminder = fromDbReminder(dbReminder);
-            await saveLocalReminder(updatedReminder);
+          continue;
+        }
+
+        const { merged, localChanged, keptLocal, keptRemote } = mergeReminders(localReminder, cloudReminder);
+
+        // Both sides changed since they last met
+        if (keptLocal.length > 0 && keptRemote.length > 0) {
+          result.conflicts.push({
+            reminderId: merged.id,
+            title: merged.title,
+            keptLocal,
+            keptCloud: keptRemote,
+          });
+        }
+
+        if (localChanged) {
+          await saveLocalReminder(merged);
+          if (merged.deletedAt && !localReminder.deletedAt) {
+            result.deleted++;
+          } else {
             result.updated++;
-            result.synced++;
           }
+          result.synced++;
         }
       } catch (err) {
         result.errors.push(`Failed to sync reminder ${dbReminder.id}: ${err}`);
@@ -672,19 +953,16 @@ export async function syncRemindersFromCloud(
 
 /**
  * Sync local reminders to Supabase.
- * Uploads local reminders that don't exist in cloud or are newer.
+ * Uploads reminders the cloud doesn't have, fields edited more recently
+ * here, and local deletions. Tombstones the cloud already knows about are
+ * handed to `purgeLocalReminder`.
  */
 export async function syncRemindersToCloud(
   userId: string,
-  localReminders: Reminder[]
+  localReminders: Reminder[],
+  purgeLocalReminder?: (id: string) => Promise<void>
 ): Promise<SyncResult> {
-  const result: SyncResult = {
-    success: false,
-    synced: 0,
-    created: 0,
-    updated: 0,
-    errors: [],
-  };
+  const result = emptySyncResult();
 
   if (!isSupabaseConfigured) {
     result.errors.push('Supabase not configured');
@@ -693,64 +971,56 @@ export async function syncRemindersToCloud(
 
   try {
     // Fetch existing cloud reminders to compare
-    const { data: existingCloud, error: fetchError } = await supabase
-      .from('reminders')
-      .select('id, updated_at')
-      .eq('user_id', userId)
-      .eq('is_for_self', true);
+    const { data: existingCloud, error: fetchError } = await fetchCloudReminders(userId);
 
     if (fetchError) {
       result.errors.push(`Failed to fetch existing cloud reminders: ${fetchError.message}`);
       return result;
     }
 
-    const cloudRemindersMap = new Map(
-      (existingCloud || []).map(r => [r.id, new Date(r.updated_at).getTime()])
-    );
+    const cloudRemindersMap = new Map(existingCloud.map(r => [r.id, fromDbReminder(r)]));
 
     // Process each local reminder
     for (const reminder of localReminders) {
       try {
-        const cloudUpdatedAt = cloudRemindersMap.get(reminder.id);
-        const dbReminder = toDbReminder(reminder, userId);
+        const cloudReminder = cloudRemindersMap.get(reminder.id);
 
-        if (cloudUpdatedAt === undefined) {
-          // Reminder doesn't exist in cloud - create it
-          const { error } = await supabase
-            .from('reminders')
-            .insert(dbReminder);
+        if (reminder.deletedAt && (!cloudReminder || cloudReminder.deletedAt)) {
+          // Never uploaded, or the deletion already synced - drop the tombstone
+          await purgeLocalReminder?.(reminder.id);
+          continue;
+        }
 
-          if (error) throw error;
+        let toUpload = reminder;
+        if (cloudReminder) {
+          const { merged, remoteChanged } = mergeReminders(reminder, cloudReminder);
+          if (!remoteChanged) continue;
+          toUpload = merged;
+        }
+
+        // Queued behind any older writes of this reminder, so the merged version lands last
+        const { error } = await runMutation({
+          table: 'reminders',
+          op: 'upsert',
+          values: {
+            ...toDbReminder(toUpload, userId),
+            updated_at: new Date(toUpload.updatedAt ?? Date.now()).toISOString(),
+          },
+          onConflict: 'id',
+          label: `Sync reminder "${toUpload.title}"`,
+        });
+
+        if (error) throw error;
+
+        if (!cloudReminder) {
           result.created++;
-          result.synced++;
+        } else if (toUpload.deletedAt) {
+          result.deleted++;
+          await purgeLocalReminder?.(reminder.id);
         } else {
-          // Reminder exists - update if local is newer
-          const localUpdatedEstimate = reminder.nextTrigger || reminder.createdAt;
-
-          if (localUpdatedEstimate > cloudUpdatedAt) {
-            const { error } = await supabase
-              .from('reminders')
-              .update({
-                title: reminder.title,
-                why: reminder.why || null,
-                time: reminder.time,
-                next_trigger: reminder.nextTrigger,
-                repeat: reminder.repeat,
-                days_of_week: reminder.daysOfWeek || null,
-                custom_interval: reminder.customInterval || null,
-                specific_times: reminder.specificTimes || null,
-                active: reminder.active,
-                audio_recording: reminder.audioRecording || null,
-                use_custom_audio: reminder.useCustomAudio || false,
-                updated_at: new Date().toISOString(),
-              })
-              .eq('id', reminder.id);
-
-            if (error) throw error;
-            result.updated++;
-            result.synced++;
-          }
+          result.updated++;
         }
+        result.synced++;
       } catch (err) {
         result.errors.push(`Failed to sync reminder ${reminder.id} to cloud: ${err}`);
       }
@@ -766,14 +1036,15 @@ export async function syncRemindersToCloud(
 
 /**
  * Perform a full two-way sync.
- * 1. Pull from cloud to local (cloud wins for conflicts)
- * 2. Push local-only items to cloud
+ * 1. Pull from cloud and merge into local (latest write per field wins)
+ * 2. Push local-only items, newer local fields and deletions to cloud
  */
 export async function performFullSync(
   userId: string,
   localReminders: Reminder[],
   saveLocalReminder: (reminder: Reminder) => Promise<void>,
-  getUpdatedLocalReminders?: () => Promise<Reminder[]>
+  getUpdatedLocalReminders?: () => Promise<Reminder[]>,
+  purgeLocalReminder?: (id: string) => Promise<void>
 ): Promise<{ fromCloud: SyncResult; toCloud: SyncResult }> {
   console.log('[Sync] Starting full two-way sync...');
   console.log('[Sync] Initial local reminders count:', localReminders.length);
@@ -782,6 +1053,10 @@ export async function performFullSync(
   const fromCloud = await syncRemindersFromCloud(userId, localReminders, saveLocalReminder);
   console.log('[Sync] From cloud:', fromCloud);
 
+  if (fromCloud.conflicts.length > 0) {
+    console.log('[Sync] Merged concurrent edits:', fromCloud.conflicts);
+  }
+
   // If we have a way to get updated local reminders, use it
   // This ensures we push the correct data after cloud sync
   let remindersToSync = localReminders;
@@ -795,8 +1070,284 @@ export async function performFullSync(
   }
 
   // Then, push to cloud
-  const toCloud = await syncRemindersToCloud(userId, remindersToSync);
+  const toCloud = await syncRemindersToCloud(userId, remindersToSync, purgeLocalReminder);
   console.log('[Sync] To cloud:', toCloud);
 
   return { fromCloud, toCloud };
 }
+
+// ============================================================================
+// HISTORY SYNC OPERATIONS (call history & completion prompts)
+// ============================================================================
+
+const HISTORY_BATCH_SIZE = 200;
+// updated_at is stamped before commit, so a row committed just after a pull
+// can carry an earlier time than the cursor. Each pull looks back this far.
+const HISTORY_CURSOR_OVERLAP_MS = 60 * 1000;
+
+export interface HistorySyncResult {
+  success: boolean;
+  pushed: number;
+  pulled: number;
+  cursor: string | null; // updated_at of the last row pulled; pass back in next time
+  errors: string[];
+}
+
+// Local side of an append-mostly store: what to upload, and where pulled rows go
+export interface HistorySyncStore<T> {
+  getUnsynced: () => Promise<T[]>;
+  markSynced: (entries: T[]) => Promise<void>;
+  saveFromCloud: (entries: T[]) => Promise<number>;
+}
+
+function toDbCallHistory(entry: CallHistoryEntry, userId: string): DbCallHistory {
+  return {
+    id: entry.id,
+    user_id: userId,
+    reminder_id: entry.reminderId,
+    reminder_title: entry.reminderTitle,
+    reminder_why: entry.reminderWhy,
+    timestamp: entry.timestamp,
+    answered: entry.answered,
+    answered_at: entry.answeredAt,
+    ended_at: entry.endedAt,
+    duration: entry.duration,
+    voice_played: entry.voicePlayed,
+    voice_played_successfully: entry.voicePlayedSuccessfully,
+    recall_attempt: entry.recallAttempt,
+    task_completed: entry.taskCompleted,
+    task_completed_at: entry.taskCompletedAt,
+    transcript: entry.transcript,
+    outcome: entry.outcome,
+    escalation: entry.escalation,
+    client_updated_at: entry.updatedAt,
+  };
+}
+
+function fromDbCallHistory(row: DbCallHistory): CallHistoryEntry {
+  return {
+    id: row.id,
+    reminderId: row.reminder_id,
+    reminderTitle: row.reminder_title,
+    reminderWhy: row.reminder_why || '',
+    timestamp: row.timestamp,
+    answered: row.answered,
+    answeredAt: row.answered_at ?? undefined,
+    endedAt: row.ended_at ?? undefined,
+    duration: row.duration ?? undefined,
+    voicePlayed: row.voice_played,
+    voicePlayedSuccessfully: row.voice_played_successfully ?? undefined,
+    recallAttempt: row.recall_attempt ?? undefined,
+    taskCompleted: row.task_completed ?? undefined,
+    taskCompletedAt: row.task_completed_at ?? undefined,
+    transcript: row.transcript ?? undefined,
+    outcome: row.outcome ?? undefined,
+    escalation: (row.escalation as CallHistoryEntry['escalation']) ?? undefined,
+    updatedAt: row.client_updated_at ?? undefined,
+  };
+}
+
+function toDbCompletionPrompt(prompt: CompletionPrompt, userId: string): DbCompletionPrompt {
+  return {
+    id: prompt.id,
+    user_id: userId,
+    reminder_id: prompt.reminderId,
+    reminder_title: prompt.reminderTitle,
+    reminder_why: prompt.reminderWhy,
+    call_history_id: prompt.callHistoryId || undefined,
+    occurrence_at: prompt.occurrenceAt,
+    prompted_at: prompt.promptedAt,
+    responded_at: prompt.respondedAt,
+    completed: prompt.completed,
+    skipped: prompt.skipped,
+    client_updated_at: prompt.updatedAt,
+  };
+}
+
+function fromDbCompletionPrompt(row: DbCompletionPrompt): CompletionPrompt {
+  return {
+    id: row.id,
+    reminderId: row.reminder_id,
+    reminderTitle: row.reminder_title,
+    reminderWhy: row.reminder_why || '',
+    callHistoryId: row.call_history_id || '',
+    occurrenceAt: row.occurrence_at ?? undefined,
+    promptedAt: row.prompted_at,
+    respondedAt: row.responded_at ?? undefined,
+    completed: row.completed,
+    skipped: row.skipped ?? undefined,
+    updatedAt: row.client_updated_at ?? undefined,
+  };
+}
+
+// Rows of the `library_messages` table
+interface DbLibraryMessage {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: 'recording' | 'text';
+  audio_asset_id: string | null;
+  text: string | null;
+  moods: string[];
+  last_played_at: number | null;
+  created_at: number;
+  deleted_at: number | null;
+  client_updated_at?: number;
+  updated_at?: string;
+}
+
+function toDbLibraryMessage(message: LibraryMessage, userId: string): DbLibraryMessage {
+  return {
+    id: message.id,
+    user_id: userId,
+    name: message.name,
+    kind: message.kind,
+    audio_asset_id: message.audioAssetId || null,
+    text: message.text || null,
+    moods: message.moods,
+    last_played_at: message.lastPlayedAt ?? null,
+    created_at: message.createdAt,
+    deleted_at: message.deletedAt ?? null,
+    client_updated_at: message.updatedAt,
+  };
+}
+
+function fromDbLibraryMessage(row: DbLibraryMessage): LibraryMessage {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    audioAssetId: row.audio_asset_id || undefined,
+    text: row.text || undefined,
+    moods: row.moods || [],
+    lastPlayedAt: row.last_played_at ?? undefined,
+    createdAt: row.created_at,
+    deletedAt: row.deleted_at ?? undefined,
+    updatedAt: row.client_updated_at ?? undefined,
+  };
+}
+
+/**
+ * Two-way incremental sync of one history table.
+ * Pulls rows changed since shortly before `cursor` page by page, then uploads
+ * local entries changed since their last sync in batches. Rows are upserted
+ * by id and pulling one again is a no-op, so overlapping pulls and retries
+ * after a partial failure never create duplicates.
+ */
+async function syncHistoryTable<T, Row extends { id: string; updated_at?: string }>(
+  table: string,
+  userId: string,
+  cursor: string | null,
+  store: HistorySyncStore<T>,
+  toDb: (entry: T, userId: string) => Row,
+  fromDb: (row: Row) => T
+): Promise<HistorySyncResult> {
+  const result: HistorySyncResult = { success: false, pushed: 0, pulled: 0, cursor, errors: [] };
+
+  if (!isSupabaseConfigured) {
+    result.errors.push('Supabase not configured');
+    return result;
+  }
+
+  try {
+    // Pull everything that changed in the cloud since the last pull, paging
+    // on (updated_at, id) so rows sharing a timestamp aren't split and lost
+    const since = cursor
+      ? new Date(Date.parse(cursor) - HISTORY_CURSOR_OVERLAP_MS).toISOString()
+      : null;
+    let last: Row | null = null;
+
+    for (;;) {
+      let query = supabase
+        .from(table)
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(HISTORY_BATCH_SIZE);
+
+      if (last?.updated_at) {
+        query = query.or(
+          `updated_at.gt."${last.updated_at}",and(updated_at.eq."${last.updated_at}",id.gt.${last.id})`
+        );
+      } else if (since) {
+        query = query.gte('updated_at', since);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        result.errors.push(`Failed to fetch ${table}: ${error.message}`);
+        return result;
+      }
+
+      const rows = (data || []) as Row[];
+      if (rows.length === 0) break;
+
+      result.pulled += await store.saveFromCloud(rows.map(fromDb));
+      last = rows[rows.length - 1];
+      // Rows from the overlap can be older than the cursor; never move it back
+      if (last.updated_at && (!result.cursor || Date.parse(last.updated_at) > Date.parse(result.cursor))) {
+        result.cursor = last.updated_at;
+      }
+
+      if (rows.length < HISTORY_BATCH_SIZE) break;
+    }
+
+    // Push local changes
+    const unsynced = await store.getUnsynced();
+    for (let i = 0; i < unsynced.length; i += HISTORY_BATCH_SIZE) {
+      const batch = unsynced.slice(i, i + HISTORY_BATCH_SIZE);
+      const { error } = await supabase
+        .from(table)
+        .upsert(batch.map(entry => toDb(entry, userId)), { onConflict: 'id' });
+
+      if (error) {
+        result.errors.push(`Failed to upload ${table}: ${error.message}`);
+        return result;
+      }
+
+      await store.markSynced(batch);
+      result.pushed += batch.length;
+    }
+
+    result.success = true;
+  } catch (err) {
+    result.errors.push(`${table} sync failed: ${err}`);
+  }
+
+  return result;
+}
+
+/**
+ * Sync call history with Supabase.
+ */
+export async function syncCallHistory(
+  userId: string,
+  cursor: string | null,
+  store: HistorySyncStore<CallHistoryEntry>
+): Promise<HistorySyncResult> {
+  return syncHistoryTable('call_history', userId, cursor, store, toDbCallHistory, fromDbCallHistory);
+}
+
+/**
+ * Sync completion prompts with Supabase.
+ */
+export async function syncCompletionPrompts(
+  userId: string,
+  cursor: string | null,
+  store: HistorySyncStore<CompletionPrompt>
+): Promise<HistorySyncResult> {
+  return syncHistoryTable('completion_prompts', userId, cursor, store, toDbCompletionPrompt, fromDbCompletionPrompt);
+}
+
+/**
+ * Sync the message library with Supabase. Recordings must be uploaded first
+ * (see uploadPendingAudioAssets) so other devices can play them.
+ */
+export async function syncLibraryMessages(
+  userId: string,
+  cursor: string | null,
+  store: HistorySyncStore<LibraryMessage>
+): Promise<HistorySyncResult> {
+  return syncHistoryTable('library_messages', userId, cursor, store, toDbLibraryMessage, fromDbLibraryMessage);
+}
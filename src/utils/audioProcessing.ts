@@ -0,0 +1,343 @@
+/**
+ * Audio Processing
+ *
+ * Client-side editing of voice recordings before they're saved: waveform
+ * peaks, trimming and cutting, re-recording part of a take, peak
+ * normalization, a noise gate, and encoding to Opus in WebM.
+ *
+ * Buffers are never modified in place; every edit returns a new AudioBuffer,
+ * so the editor can keep earlier versions for undo.
+ */
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface RenderOptions {
+  normalize: boolean; // Raise (or lower) the loudest peak to NORMALIZE_PEAK_DB
+  noiseGateDb?: number; // Silence everything quieter than this, e.g. -45
+}
+
+export const NORMALIZE_PEAK_DB = -1;
+export const DEFAULT_NOISE_GATE_DB = -45;
+
+const OUTPUT_SAMPLE_RATE = 48000; // Opus' native rate
+const OUTPUT_BITRATE = 32000; // Plenty for a single voice
+const OPUS_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+const ANALYSIS_WINDOW_SEC = 0.01;
+const GATE_HOLD_SEC = 0.15; // Keep the gate open through short pauses between words
+const GATE_RAMP_SEC = 0.02; // Fade in/out instead of clicking
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+function createBuffer(like: AudioBuffer, length: number): AudioBuffer {
+  return new AudioBuffer({
+    length: Math.max(1, length),
+    numberOfChannels: like.numberOfChannels,
+    sampleRate: like.sampleRate,
+  });
+}
+
+function toSample(buffer: AudioBuffer, seconds: number): number {
+  return Math.min(buffer.length, Math.max(0, Math.round(seconds * buffer.sampleRate)));
+}
+
+// Loudest absolute sample across all channels
+function getPeak(buffer: AudioBuffer): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+// RMS level of each analysis window, channels mixed down
+function getWindowLevels(buffer: AudioBuffer): { levels: number[]; windowSize: number } {
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * ANALYSIS_WINDOW_SEC));
+  const levels: number[] = [];
+
+  for (let start = 0; start < buffer.length; start += windowSize) {
+    const end = Math.min(buffer.length, start + windowSize);
+    let sum = 0;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = start; i < end; i++) {
+        sum += data[i] * data[i];
+      }
+    }
+    levels.push(Math.sqrt(sum / ((end - start) * buffer.numberOfChannels)));
+  }
+  return { levels, windowSize };
+}
+
+// ============================================================================
+// DECODING & ANALYSIS
+// ============================================================================
+
+/**
+ * Decode a recording (any format the browser can play) into samples.
+ */
+export async function decodeAudio(audio: Blob): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(1, 1, OUTPUT_SAMPLE_RATE);
+  return context.decodeAudioData(await audio.arrayBuffer());
+}
+
+/**
+ * Peak level (0-1) of `bins` equal slices of the buffer, for drawing a waveform.
+ */
+export function getWaveformPeaks(buffer: AudioBuffer, bins: number): number[] {
+  const binSize = buffer.length / bins;
+  const peaks = new Array<number>(bins).fill(0);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let bin = 0; bin < bins; bin++) {
+      const start = Math.floor(bin * binSize);
+      const end = Math.min(data.length, Math.floor((bin + 1) * binSize));
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peaks[bin]) peaks[bin] = value;
+      }
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Where speech starts and ends, ignoring dead air at either end.
+ * Returns the whole buffer if nothing is louder than the threshold.
+ */
+export function findSpeechBounds(
+  buffer: AudioBuffer,
+  thresholdDb: number = DEFAULT_NOISE_GATE_DB,
+  paddingSec: number = 0.15
+): { start: number; end: number } {
+  const { levels, windowSize } = getWindowLevels(buffer);
+  const threshold = dbToGain(thresholdDb);
+
+  const first = levels.findIndex(level => level > threshold);
+  if (first === -1) {
+    return { start: 0, end: buffer.duration };
+  }
+  let last = levels.length - 1;
+  while (last > first && levels[last] <= threshold) last--;
+
+  const secondsPerWindow = windowSize / buffer.sampleRate;
+  return {
+    start: Math.max(0, first * secondsPerWindow - paddingSec),
+    end: Math.min(buffer.duration, (last + 1) * secondsPerWindow + paddingSec),
+  };
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Keep only [start, end) seconds.
+ */
+export function trimAudio(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = toSample(buffer, start);
+  const to = Math.max(from, toSample(buffer, end));
+  const trimmed = createBuffer(buffer, to - from);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    trimmed.copyToChannel(buffer.getChannelData(channel).subarray(from, to), channel);
+  }
+  return trimmed;
+}
+
+/**
+ * Convert to the given sample rate and channel count.
+ */
+export async function resampleAudio(buffer: AudioBuffer, sampleRate: number, channels: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === channels) {
+    return buffer;
+  }
+
+  const context = new OfflineAudioContext(channels, Math.max(1, Math.ceil(buffer.duration * sampleRate)), sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+/**
+ * Replace [start, end) seconds with `insert` (e.g. a re-recorded phrase),
+ * or cut it out when there's nothing to insert.
+ */
+export async function replaceSegment(
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  insert?: AudioBuffer
+): Promise<AudioBuffer> {
+  const from = toSample(buffer, start);
+  const to = Math.max(from, toSample(buffer, end));
+  const replacement = insert ? await resampleAudio(insert, buffer.sampleRate, buffer.numberOfChannels) : null;
+  const insertLength = replacement?.length ?? 0;
+  const result = createBuffer(buffer, buffer.length - (to - from) + insertLength);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const output = result.getChannelData(channel);
+    output.set(data.subarray(0, from), 0);
+    if (replacement) {
+      output.set(replacement.getChannelData(channel), from);
+    }
+    output.set(data.subarray(to), from + insertLength);
+  }
+  return result;
+}
+
+/**
+ * Mute everything quieter than `thresholdDb`, with a short hold so quiet
+ * word endings survive and ramps so the gate doesn't click.
+ */
+export function applyNoiseGate(buffer: AudioBuffer, thresholdDb: number = DEFAULT_NOISE_GATE_DB): AudioBuffer {
+  const { levels, windowSize } = getWindowLevels(buffer);
+  const threshold = dbToGain(thresholdDb);
+  const holdWindows = Math.round(GATE_HOLD_SEC / ANALYSIS_WINDOW_SEC);
+
+  // Open (1) or closed (0) per window, held open after speech
+  const open = new Array<number>(levels.length).fill(0);
+  let heldFor = holdWindows + 1;
+  for (let i = 0; i < levels.length; i++) {
+    heldFor = levels[i] > threshold ? 0 : heldFor + 1;
+    open[i] = heldFor <= holdWindows ? 1 : 0;
+  }
+
+  // Per-sample gain, ramped between windows
+  const gains = new Float32Array(buffer.length);
+  const rampStep = 1 / Math.max(1, GATE_RAMP_SEC * buffer.sampleRate);
+  let gain = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const target = open[Math.floor(i / windowSize)];
+    gain = target > gain ? Math.min(target, gain + rampStep) : Math.max(target, gain - rampStep);
+    gains[i] = gain;
+  }
+
+  const gated = createBuffer(buffer, buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const output = gated.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      output[i] = data[i] * gains[i];
+    }
+  }
+  return gated;
+}
+
+/**
+ * Apply the chosen processing and mix down to mono at the output rate.
+ */
+export async function renderRecording(buffer: AudioBuffer, options: RenderOptions): Promise<AudioBuffer> {
+  const gated = options.noiseGateDb !== undefined ? applyNoiseGate(buffer, options.noiseGateDb) : buffer;
+  const peak = getPeak(gated);
+
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(gated.duration * OUTPUT_SAMPLE_RATE)), OUTPUT_SAMPLE_RATE);
+  const source = context.createBufferSource();
+  const gain = context.createGain();
+  source.buffer = gated;
+  gain.gain.value = options.normalize && peak > 0 ? dbToGain(NORMALIZE_PEAK_DB) / peak : 1;
+  source.connect(gain);
+  gain.connect(context.destination);
+  source.start();
+  return context.startRendering();
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+export function getOpusMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return OPUS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * 16-bit PCM WAV, for browsers that can't encode Opus.
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const dataSize = buffer.length * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, buffer.getChannelData(channel)[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+/**
+ * Encode as Opus (WebM, or Ogg on Safari) via MediaRecorder, falling back to WAV.
+ * MediaRecorder encodes in real time, so this takes as long as the recording.
+ */
+export async function encodeRecording(buffer: AudioBuffer): Promise<Blob> {
+  const mimeType = getOpusMimeType();
+  if (!mimeType) {
+    return encodeWav(buffer);
+  }
+
+  const context = new AudioContext({ sampleRate: buffer.sampleRate });
+  try {
+    const source = context.createBufferSource();
+    const destination = context.createMediaStreamDestination();
+    source.buffer = buffer;
+    source.connect(destination); // Not to the speakers
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: OUTPUT_BITRATE });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Encoding failed'));
+    });
+    source.onended = () => recorder.stop();
+
+    await context.resume();
+    recorder.start();
+    source.start();
+    await stopped;
+
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    await context.close();
+  }
+}
@@ -2,10 +2,34 @@
  * Auto-Recall System
  *
  * Automatically re-triggers reminders that were declined/missed
- * Keeps calling until the user answers
+ * Keeps calling until the user answers. Pending recalls are queued in
+ * IndexedDB (see the recalls store in db/reminderDB.ts).
+ *
+ * Reminders with an escalation policy also take its steps as the misses add
+ * up (see utils/escalationPolicy.ts), and stop being recalled once the
+ * policy marks the occurrence missed.
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { Reminder } from './reminderScheduler';
+import { EscalationStep, getStepsForMiss, isExhausted } from './escalationPolicy';
+import { queueEscalationPush } from '../services/supabaseSync';
+import { notifyPartnersOfMissedReminder } from '../services/partnerNotifications';
+import {
+  CallHistoryEntry,
+  EscalationRecord,
+  PendingRecall,
+  addCompletionPrompt,
+  addRecall,
+  claimRecall,
+  completeRecall,
+  deleteRecallsForReminder,
+  getAllRecalls,
+  getDueRecalls as getDueRecallsFromDB,
+  clearAllRecalls as clearAllRecallsFromDB,
+} from '../db/reminderDB';
+
+export type { PendingRecall };
 
 export interface RecallSettings {
   enabled: boolean;
@@ -13,15 +37,7 @@ export interface RecallSettings {
   recallIntervals: number[]; // Intervals in minutes [5, 10, 15, 30]
 }
 
-export interface PendingRecall {
-  reminderId: string;
-  reminder: Reminder;
-  attemptNumber: number;
-  nextRecallTime: number; // UTC timestamp
-  callHistoryId: string; // The call that was declined
-}
-
-const PENDING_RECALLS_KEY = 'pendingRecalls';
+const RECALL_CLAIM_MS = 60 * 1000; // Long enough to ring the call
 
 /**
  * Get recall settings from localStorage
@@ -74,45 +90,30 @@ export function saveRecallSettings(settings: Partial<RecallSettings>): void {
 }
 
 /**
- * Get all pending recalls
+ * Get all pending recalls, soonest first
  */
-export function getPendingRecalls(): PendingRecall[] {
-  try {
-    const recallsStr = localStorage.getItem(PENDING_RECALLS_KEY);
-    if (recallsStr) {
-      return JSON.parse(recallsStr);
-    }
-  } catch {
-    // Return empty on error
-  }
-  return [];
+export function getPendingRecalls(): Promise<PendingRecall[]> {
+  return getAllRecalls();
 }
 
 /**
- * Save pending recalls
+ * Schedule a recall for a declined/missed reminder.
+ * Returns false if the reminder won't be called again.
  */
-function savePendingRecalls(recalls: PendingRecall[]): void {
-  try {
-    localStorage.setItem(PENDING_RECALLS_KEY, JSON.stringify(recalls));
-  } catch {
-    // Ignore save errors
-  }
-}
-
-/**
- * Schedule a recall for a declined/missed reminder
- */
-export function scheduleRecall(
+export async function scheduleRecall(
   reminder: Reminder,
   attemptNumber: number,
   callHistoryId: string
-): void {
+): Promise<boolean> {
   const settings = getRecallSettings();
 
-  if (!settings.enabled) return;
+  if (!settings.enabled) return false;
 
-  // Check max attempts (attemptNumber is the NEXT attempt we'd schedule)
-  if (settings.maxAttempts > 0 && attemptNumber > settings.maxAttempts) return;
+  // Check max attempts (attemptNumber is the NEXT attempt we'd schedule).
+  // A policy that ends with "mark missed" decides when to stop instead.
+  const policyEndsCalls = reminder.escalationPolicy?.steps.some(step => step.action === 'mark-missed');
+  if (!policyEndsCalls && settings.maxAttempts > 0 && attemptNumber > settings.maxAttempts) return false;
+  if (isExhausted(reminder.escalationPolicy, attemptNumber - 1)) return false;
 
   // Get interval for this attempt (cycle through intervals if needed)
   const intervalIndex = Math.min(attemptNumber - 1, settings.recallIntervals.length - 1);
@@ -121,56 +122,142 @@ export function scheduleRecall(
   // Safety: minimum 30 seconds between recalls to prevent rapid fire
   const minIntervalMs = 30 * 1000;
   const intervalMs = Math.max(intervalMinutes * 60 * 1000, minIntervalMs);
-  const nextRecallTime = Date.now() + intervalMs;
+  const now = Date.now();
 
-  const recall: PendingRecall = {
+  await addRecall({
+    id: uuidv4(),
     reminderId: reminder.id,
-    reminder,
     attemptNumber,
-    nextRecallTime,
+    nextRecallTime: now + intervalMs,
     callHistoryId,
+    createdAt: now,
+  });
+  return true;
+}
+
+/**
+ * Handle a declined/missed call: take the escalation steps due at this many
+ * misses, then schedule the next recall unless the policy has given up.
+ * A shared reminder whose policy doesn't alert partners itself alerts them
+ * once the occurrence is finally missed.
+ * Returns the call history entry with the steps recorded.
+ */
+export async function escalateMissedCall(
+  reminder: Reminder,
+  entry: CallHistoryEntry,
+  userId?: string
+): Promise<CallHistoryEntry> {
+  const misses = entry.recallAttempt || 1;
+  const records: EscalationRecord[] = [];
+
+  for (const step of getStepsForMiss(reminder.escalationPolicy, misses)) {
+    records.push(await runEscalationStep(step, reminder, entry, misses, userId));
+  }
+
+  const recalled = await scheduleRecall(reminder, misses + 1, entry.id);
+
+  const policyAlertsPartners = reminder.escalationPolicy?.steps.some(step => step.action === 'notify-partners');
+  if (!recalled && reminder.shareWithPartners && !policyAlertsPartners) {
+    records.push(await runEscalationStep({ afterMisses: misses, action: 'notify-partners' }, reminder, entry, misses, userId));
+  }
+
+  if (records.length === 0) return entry;
+  return {
+    ...entry,
+    escalation: [...(entry.escalation || []), ...records],
+    ...(records.some(record => record.action === 'mark-missed') ? { outcome: 'missed' as const } : {}),
   };
+}
+
+async function runEscalationStep(
+  step: EscalationStep,
+  reminder: Reminder,
+  entry: CallHistoryEntry,
+  misses: number,
+  userId?: string
+): Promise<EscalationRecord> {
+  const record: EscalationRecord = { action: step.action, at: Date.now() };
+
+  switch (step.action) {
+    // Ring changes apply to the recalls from here on (see getRingStyle)
+    case 'alarm':
+      record.detail = 'Next calls ring with an alarm';
+      break;
+
+    case 'volume':
+      record.detail = `Next calls ring at ${Math.round((step.volume ?? 1) * 100)}% volume`;
+      break;
+
+    case 'push': {
+      if (!userId) return { ...record, failed: true, detail: 'Not signed in' };
+      const { error } = await queueEscalationPush(userId, reminder, misses);
+      if (error) return { ...record, failed: true, detail: error.message };
+      record.detail = 'Pushed to your devices';
+      break;
+    }
 
-  const recalls = getPendingRecalls();
+    case 'notify-partners': {
+      if (!reminder.shareWithPartners) return { ...record, detail: 'Not shared with partners' };
+      if (!userId) return { ...record, failed: true, detail: 'Not signed in' };
+      const { notified, error } = await notifyPartnersOfMissedReminder(userId, reminder, misses);
+      if (error) return { ...record, failed: true, detail: error.message };
+      record.detail = notified === 0
+        ? 'No partners to alert'
+        : `Alerted ${notified} ${notified === 1 ? 'partner' : 'partners'}`;
+      break;
+    }
 
-  // Remove any existing recall for this reminder
-  const filtered = recalls.filter(r => r.reminderId !== reminder.id);
+    case 'mark-missed':
+      await cancelRecall(reminder.id);
+      await addCompletionPrompt({
+        id: `${entry.id}-prompt`,
+        reminderId: reminder.id,
+        reminderTitle: reminder.title,
+        reminderWhy: reminder.why || '',
+        callHistoryId: entry.id,
+        promptedAt: record.at,
+        respondedAt: record.at,
+        completed: false,
+      });
+      record.detail = `Marked missed after ${misses} ${misses === 1 ? 'call' : 'calls'}`;
+      break;
+  }
 
-  // Add new recall
-  filtered.push(recall);
-  savePendingRecalls(filtered);
+  return record;
 }
 
 /**
- * Cancel a pending recall
+ * Cancel all pending recalls for a reminder
  */
-export function cancelRecall(reminderId: string): void {
-  const recalls = getPendingRecalls();
-  const filtered = recalls.filter(r => r.reminderId !== reminderId);
-  savePendingRecalls(filtered);
+export function cancelRecall(reminderId: string): Promise<void> {
+  return deleteRecallsForReminder(reminderId);
 }
 
 /**
- * Get due recalls (should be triggered now)
+ * Claim the recalls that are due now. Each recall is handed to only one tab;
+ * call completeClaimedRecall() once it has been triggered.
  */
-export function getDueRecalls(): PendingRecall[] {
-  const recalls = getPendingRecalls();
-  const now = Date.now();
-  return recalls.filter(r => r.nextRecallTime <= now);
+export async function claimDueRecalls(): Promise<PendingRecall[]> {
+  const due = await getDueRecallsFromDB();
+  const claimed: PendingRecall[] = [];
+
+  for (const recall of due) {
+    const claim = await claimRecall(recall.id, RECALL_CLAIM_MS);
+    if (claim) claimed.push(claim);
+  }
+  return claimed;
 }
 
 /**
- * Remove a recall from pending list (after it's been triggered)
+ * Remove a claimed recall from the queue (after it's been triggered)
  */
-export function removeRecall(reminderId: string): void {
-  const recalls = getPendingRecalls();
-  const filtered = recalls.filter(r => r.reminderId !== reminderId);
-  savePendingRecalls(filtered);
+export async function completeClaimedRecall(recall: PendingRecall): Promise<void> {
+  await completeRecall(recall);
 }
 
 /**
  * Clear all pending recalls
  */
-export function clearAllRecalls(): void {
-  savePendingRecalls([]);
+export function clearAllRecalls(): Promise<void> {
+  return clearAllRecallsFromDB();
 }
@@ -0,0 +1,164 @@
+/**
+ * Call Context
+ *
+ * Everything the caller knows about the user's track record with a reminder
+ * when it rings: streak, recent calls and check-ins, snoozes and which recall
+ * this is. Call scripts (LLM or template) use it to escalate on a third
+ * recall, celebrate a streak milestone, or bring up yesterday's skip.
+ */
+
+import { Reminder, StreakData } from './reminderScheduler';
+import { toDateKey } from './recurrence';
+import { getStreakStatus } from './streaks';
+import {
+  CallHistoryEntry,
+  CompletionPrompt,
+  getCallHistoryForReminder,
+  getCompletionPromptsForReminder,
+  getReminder,
+} from '../db/reminderDB';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface CallContext {
+  streak?: StreakData;
+  liveStreak: number; // As of when the call rang, 0 if it has lapsed (see getStreakStatus)
+  longestStreak: number;
+  timeZone?: string; // The reminder's zone, for what counts as "today"
+  recentCalls: Pick<CallHistoryEntry, 'timestamp' | 'answered' | 'outcome' | 'recallAttempt'>[]; // Newest first
+  recentAnswers: Pick<CompletionPrompt, 'promptedAt' | 'completed' | 'skipped'>[]; // Newest first
+  snoozeCount: number;
+  recallAttempt: number; // 1 = first call for this occurrence
+}
+
+// What stands out in the context, worked out once for both kinds of script
+export interface CallSignals {
+  escalation: 0 | 1 | 2; // 0 = first call, 1 = calling back, 2 = third call or later
+  liveStreak: number; // Occurrences done in a row, 0 if broken
+  milestone?: number; // Completing today reaches this streak milestone
+  completedToday: boolean;
+  brokenStreakBest?: number; // Best streak, when the current one has lapsed
+  skippedYesterday: boolean;
+  missedCallsInARow: number;
+  snoozeCount: number;
+}
+
+const RECENT_LIMIT = 5;
+const STREAK_MILESTONES = [3, 7, 14, 21, 30, 50, 75, 100, 150, 200, 365];
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Gather the context for a call about `reminder`. Calls that aren't about a
+ * stored reminder (panic, calls from others) get an empty track record.
+ */
+export async function buildCallContext(
+  reminder: Reminder,
+  recallAttempt: number = 1,
+  currentCallId?: string
+): Promise<CallContext> {
+  const [stored, calls, prompts] = await Promise.all([
+    getReminder(reminder.id),
+    getCallHistoryForReminder(reminder.id),
+    getCompletionPromptsForReminder(reminder.id),
+  ]);
+  const current = stored ?? reminder;
+
+  return {
+    streak: current.streak,
+    liveStreak: getStreakStatus(current).current,
+    longestStreak: current.streak?.longestStreak ?? 0,
+    timeZone: current.timeZone,
+    recentCalls: calls
+      .filter(call => call.id !== currentCallId)
+      .slice(0, RECENT_LIMIT)
+      .map(({ timestamp, answered, outcome, recallAttempt }) => ({ timestamp, answered, outcome, recallAttempt })),
+    recentAnswers: prompts
+      .filter(prompt => prompt.respondedAt || prompt.skipped)
+      .slice(0, RECENT_LIMIT)
+      .map(({ promptedAt, completed, skipped }) => ({ promptedAt, completed, skipped })),
+    snoozeCount: stored?.snoozeCount ?? reminder.snoozeCount ?? 0,
+    recallAttempt,
+  };
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+function startOfLocalDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+export function getCallSignals(context: CallContext, now: number = Date.now()): CallSignals {
+  const completedToday = context.streak?.lastCompletedDate === toDateKey(now, context.timeZone);
+  const liveStreak = context.liveStreak;
+  const nextCount = liveStreak + 1;
+
+  const todayStart = startOfLocalDay(now);
+  const yesterdayStart = startOfLocalDay(todayStart - 1);
+  const answeredYesterday = context.recentAnswers.filter(
+    answer => answer.promptedAt >= yesterdayStart && answer.promptedAt < todayStart
+  );
+
+  let missedCallsInARow = 0;
+  for (const call of context.recentCalls) {
+    if (call.answered) break;
+    missedCallsInARow++;
+  }
+
+  return {
+    escalation: context.recallAttempt >= 3 ? 2 : context.recallAttempt === 2 ? 1 : 0,
+    liveStreak,
+    milestone: !completedToday && STREAK_MILESTONES.includes(nextCount) ? nextCount : undefined,
+    completedToday,
+    brokenStreakBest: liveStreak === 0 && context.longestStreak >= 3 ? context.longestStreak : undefined,
+    skippedYesterday: answeredYesterday.length > 0 && answeredYesterday.every(answer => !answer.completed),
+    missedCallsInARow,
+    snoozeCount: context.snoozeCount,
+  };
+}
+
+/**
+ * The context as plain sentences, for an LLM prompt.
+ */
+export function describeCallContext(context: CallContext, now: number = Date.now()): string[] {
+  const signals = getCallSignals(context, now);
+  const lines: string[] = [];
+
+  if (signals.escalation > 0) {
+    lines.push(`This is call attempt ${context.recallAttempt}; the user declined or missed the earlier ones.${signals.escalation === 2 ? ' Be firmer and more urgent, but still kind.' : ''}`);
+  }
+  if (signals.completedToday) {
+    lines.push('They already did this today.');
+  }
+  if (signals.liveStreak > 0) {
+    lines.push(`Current streak: ${signals.liveStreak} in a row (best ever: ${context.longestStreak}).`);
+  }
+  if (signals.milestone) {
+    lines.push(`Doing it this time makes ${signals.milestone} in a row - celebrate that milestone.`);
+  }
+  if (signals.brokenStreakBest) {
+    lines.push(`Their streak lapsed; their best was ${signals.brokenStreakBest} in a row. Encourage a fresh start.`);
+  }
+  if (signals.skippedYesterday) {
+    lines.push('They skipped it yesterday. Mention it gently, without guilt.');
+  }
+  if (signals.missedCallsInARow >= 2) {
+    lines.push(`They missed the last ${signals.missedCallsInARow} calls about this.`);
+  }
+  if (signals.snoozeCount > 0) {
+    lines.push(`They have snoozed this ${signals.snoozeCount} time${signals.snoozeCount === 1 ? '' : 's'}.`);
+  }
+  if (context.streak?.totalCompletions) {
+    lines.push(`Completed ${context.streak.totalCompletions} time${context.streak.totalCompletions === 1 ? '' : 's'} in total.`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { CallIntent, parseCallIntent } from './callIntents';
+
+describe('parseCallIntent', () => {
+  const cases: [string, CallIntent][] = [
+    ['Done!', { type: 'done' }],
+    ['I did it', { type: 'done' }],
+    ['Yes, finished', { type: 'done' }],
+    ["I'm not done yet", { type: 'unknown' }],
+    ["I haven't finished", { type: 'unknown' }],
+    ['I haven’t finished', { type: 'unknown' }],
+    ['not finished', { type: 'unknown' }],
+    ["I didn't do it", { type: 'unknown' }],
+    ['no, not done', { type: 'unknown' }],
+    ['no I did it', { type: 'done' }],
+    ['not done yet, snooze', { type: 'snooze', minutes: 10 }],
+    ['snooze twenty minutes', { type: 'snooze', minutes: 20 }],
+    ['give me an hour', { type: 'snooze', minutes: 60 }],
+    ['skip today', { type: 'skip' }],
+    ['why?', { type: 'why' }],
+    ['thanks, bye', { type: 'goodbye' }],
+    ['', { type: 'unknown' }],
+  ];
+
+  it.each(cases)('%j', (transcript, intent) => {
+    expect(parseCallIntent(transcript)).toEqual(intent);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Call Intents
+ *
+ * Understands what the user says back during a conversational call
+ * ("done", "snooze 10 minutes", "skip today", "why?") and words the reply.
+ * Deliberately simple keyword matching: it runs offline and instantly.
+ */
+
+import { Reminder } from './reminderScheduler';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type CallIntent =
+  | { type: 'done' }
+  | { type: 'snooze'; minutes: number }
+  | { type: 'skip' }
+  | { type: 'why' }
+  | { type: 'goodbye' }
+  | { type: 'unknown' };
+
+export const DEFAULT_VOICE_SNOOZE_MINUTES = 10;
+const MAX_VOICE_SNOOZE_MINUTES = 24 * 60;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45, sixty: 60, ninety: 90,
+  half: 30, couple: 2, few: 3,
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseAmount(word: string): number | null {
+  if (/^\d+$/.test(word)) return parseInt(word, 10);
+  return NUMBER_WORDS[word] ?? null;
+}
+
+// "snooze 10 minutes", "in twenty minutes", "give me an hour", "half an hour"
+function parseSnoozeMinutes(text: string): number {
+  if (/\bhalf (an|a) hour\b/.test(text)) return 30;
+
+  const match = text.match(/\b(\d+|[a-z-]+)\s+(min(?:ute)?s?|hours?|hrs?)\b/);
+  if (match) {
+    const amount = parseAmount(match[1]);
+    if (amount !== null && amount > 0) {
+      const minutes = /^h/.test(match[2]) ? amount * 60 : amount;
+      return Math.min(minutes, MAX_VOICE_SNOOZE_MINUTES);
+    }
+  }
+  return DEFAULT_VOICE_SNOOZE_MINUTES;
+}
+
+/**
+ * Work out what the user meant. Order matters: "not done yet, snooze" is a snooze.
+ */
+export function parseCallIntent(transcript: string): CallIntent {
+  const text = transcript.toLowerCase().replace(/’/g, "'").replace(/[^\w\s'-]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!text) return { type: 'unknown' };
+
+  if (/\b(snooze|later|remind me (again )?in|call (me )?back|give me|in \d+|not (yet|now))\b/.test(text)) {
+    return { type: 'snooze', minutes: parseSnoozeMinutes(text) };
+  }
+  if (/\b(skip|not today|day off|can't today|cannot today)\b/.test(text)) {
+    return { type: 'skip' };
+  }
+  if (/\b(why|reason|remind me why|what for)\b/.test(text)) {
+    return { type: 'why' };
+  }
+  // "not done yet", "I haven't finished": say it again rather than mark it done
+  if (/\b((not|never|haven't|havent|hasn't|didn't|didnt|isn't|wasn't|ain't)( \w+)?|no) (done|did|do|doing|finished|completed?)\b/.test(text)) {
+    return { type: 'unknown' };
+  }
+  if (/\b(done|did it|finished|completed|already did|i'm on it|doing it now|yes)\b/.test(text)) {
+    return { type: 'done' };
+  }
+  if (/\b(bye|goodbye|hang up|that's all|thanks|thank you)\b/.test(text)) {
+    return { type: 'goodbye' };
+  }
+  return { type: 'unknown' };
+}
+
+/**
+ * Whether the call should end after answering this intent.
+ */
+export function endsCall(intent: CallIntent): boolean {
+  return intent.type !== 'why' && intent.type !== 'unknown';
+}
+
+// ============================================================================
+// REPLIES
+// ============================================================================
+
+/**
+ * What the caller says back.
+ */
+export function replyForIntent(intent: CallIntent, reminder: Pick<Reminder, 'title' | 'why'>): string {
+  switch (intent.type) {
+    case 'done':
+      return `Yes! I've marked "${reminder.title}" as done. Proud of you - keep it going!`;
+    case 'snooze': {
+      const amount = intent.minutes >= 60 && intent.minutes % 60 === 0
+        ? `${intent.minutes / 60} hour${intent.minutes === 60 ? '' : 's'}`
+        : `${intent.minutes} minute${intent.minutes === 1 ? '' : 's'}`;
+      return `Okay, I'll call you back in ${amount}.`;
+    }
+    case 'skip':
+      return `No problem, we'll skip today. Rest up and we'll go again next time.`;
+    case 'why':
+      return reminder.why
+        ? `You told me this matters because: ${reminder.why}. Say done when it's done, or snooze if you need a few minutes.`
+        : `You didn't leave a reason, but you set this for a reason. Say done when it's done, or snooze if you need a few minutes.`;
+    case 'goodbye':
+      return `Talk soon. You've got this!`;
+    case 'unknown':
+      return `Sorry, I didn't catch that. You can say done, snooze ten minutes, skip today, or ask me why.`;
+  }
+}
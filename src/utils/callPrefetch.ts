@@ -0,0 +1,164 @@
+/**
+ * Call Prefetch
+ *
+ * Writes each reminder's call script a few minutes before it rings and, with
+ * OpenAI TTS, generates the speech into the TTS cache. Answering then plays
+ * straight away, even if the network has dropped by trigger time.
+ *
+ * Only first calls are prepared; recalls are written when they're answered.
+ */
+
+import { Reminder } from './reminderScheduler';
+import {
+  PreparedCall,
+  deletePreparedCall,
+  deleteStalePreparedCalls,
+  getActiveReminders,
+  getPreparedCall,
+  onRemindersChanged,
+  savePreparedCall,
+} from '../db/reminderDB';
+import { buildCallContext } from './callContext';
+import { generateCallScript } from '../services/llmProviders';
+import { getCallTTSSettings, preloadSpeech } from './textToSpeech';
+import logger from './logger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PREFETCH_LEAD_MS = 5 * 60 * 1000; // Prepare this long before nextTrigger
+const RETRY_MS = 60 * 1000; // After a failed preparation
+const MAX_TIMER_MS = 60 * 1000; // Re-check at least this often (clock changes, sleep)
+const STALE_AFTER_MS = 60 * 60 * 1000; // Unanswered prepared calls are dropped after this
+
+// ============================================================================
+// PREPARED CALLS
+// ============================================================================
+
+function isPreparedFor(prepared: PreparedCall | undefined, reminder: Reminder): prepared is PreparedCall {
+  return !!prepared
+    && prepared.trigger === reminder.nextTrigger
+    && prepared.title === reminder.title
+    && prepared.why === reminder.why;
+}
+
+/**
+ * Write the script for the reminder's next call and cache its speech.
+ * Keeps an already prepared script and only retries the speech.
+ */
+export async function prepareCall(reminder: Reminder): Promise<void> {
+  const existing = await getPreparedCall(reminder.id);
+  const script = isPreparedFor(existing, reminder)
+    ? existing.script
+    : await generateCallScript({
+        kind: 'reminder',
+        title: reminder.title,
+        why: reminder.why,
+        context: await buildCallContext(reminder, 1),
+      });
+
+  const prepared: PreparedCall = {
+    reminderId: reminder.id,
+    trigger: reminder.nextTrigger,
+    title: reminder.title,
+    why: reminder.why,
+    script,
+    audioCached: false,
+    preparedAt: Date.now(),
+  };
+  await savePreparedCall(prepared);
+
+  prepared.audioCached = await preloadSpeech(script, getCallTTSSettings());
+  await savePreparedCall(prepared);
+}
+
+/**
+ * The script prepared for this call, if there is one and the reminder
+ * hasn't changed since. It's used once.
+ */
+export async function takePreparedScript(reminder: Reminder): Promise<string | null> {
+  const prepared = await getPreparedCall(reminder.id);
+  if (!prepared) return null;
+
+  await deletePreparedCall(reminder.id);
+  return isPreparedFor(prepared, reminder) ? prepared.script : null;
+}
+
+// ============================================================================
+// PREFETCHER
+// ============================================================================
+
+/**
+ * Prepare calls as they come within PREFETCH_LEAD_MS of ringing.
+ * Run it in the scheduling tab only. Returns a function to stop it.
+ */
+export function startCallPrefetcher(): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  let running = false;
+  let rerun = false;
+
+  const run = async () => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    if (timer) clearTimeout(timer);
+
+    let nextWake = Infinity;
+    try {
+      const now = Date.now();
+      await deleteStalePreparedCalls(now - STALE_AFTER_MS);
+
+      for (const reminder of await getActiveReminders()) {
+        if (stopped) return;
+        if (reminder.nextTrigger <= now) continue; // Ringing now; too late to prepare
+        if (reminder.messageIds?.length) continue; // Plays a library message, picked when answered
+
+        const prepareAt = reminder.nextTrigger - PREFETCH_LEAD_MS;
+        if (prepareAt > now) {
+          nextWake = Math.min(nextWake, prepareAt);
+          continue;
+        }
+
+        const prepared = await getPreparedCall(reminder.id);
+        const needsAudio = getCallTTSSettings().provider === 'openai';
+        if (isPreparedFor(prepared, reminder) && (prepared.audioCached || !needsAudio)) continue;
+
+        try {
+          await prepareCall(reminder);
+          logger.log(`Prepared call for "${reminder.title}"`);
+        } catch (error) {
+          logger.warn(`Could not prepare call for "${reminder.title}", will retry:`, error);
+          nextWake = Math.min(nextWake, Date.now() + RETRY_MS);
+        }
+      }
+    } catch (error) {
+      logger.error('Call prefetch failed:', error);
+      nextWake = Math.min(nextWake, Date.now() + RETRY_MS);
+    } finally {
+      running = false;
+    }
+
+    if (stopped) return;
+    if (rerun) {
+      rerun = false;
+      run();
+      return;
+    }
+    if (nextWake < Infinity) {
+      timer = setTimeout(run, Math.max(0, Math.min(nextWake - Date.now(), MAX_TIMER_MS)));
+    }
+  };
+
+  const unsubscribe = onRemindersChanged(run);
+  run();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    unsubscribe();
+  };
+}
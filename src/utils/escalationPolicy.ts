@@ -0,0 +1,144 @@
+/**
+ * Escalation Policies
+ *
+ * What happens as a reminder's call keeps going unanswered. A policy is a
+ * list of steps, each taken once the same occurrence has been missed a given
+ * number of times: ring with an alarm, ring louder, push to the user's other
+ * devices, alert accountability partners, and finally give up and mark the
+ * occurrence missed. Recalls themselves keep their timing from the recall
+ * settings (see autoRecall.ts).
+ *
+ * Pure and declarative, so policies can be stored on reminders, synced and
+ * edited without any code attached.
+ */
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type EscalationAction = 'alarm' | 'volume' | 'push' | 'notify-partners' | 'mark-missed';
+
+export interface EscalationStep {
+  afterMisses: number; // Taken when the occurrence has been missed this many times
+  action: EscalationAction;
+  volume?: number; // 0-1, for 'volume'
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+}
+
+export type EscalationPreset = 'gentle' | 'standard' | 'strict';
+
+// How the next ring of an escalated call sounds
+export interface RingStyle {
+  alarm: boolean;
+  volume: number; // 0-1
+}
+
+export const DEFAULT_RING_VOLUME = 0.7;
+export const MAX_ESCALATION_MISSES = 20;
+
+export const ESCALATION_ACTION_LABELS: Record<EscalationAction, string> = {
+  alarm: 'Ring with an alarm',
+  volume: 'Raise the volume',
+  push: 'Push to my other devices',
+  'notify-partners': 'Alert my accountability partners',
+  'mark-missed': 'Stop calling and mark it missed',
+};
+
+export const ESCALATION_PRESETS: Record<EscalationPreset, { label: string; steps: EscalationStep[] }> = {
+  gentle: {
+    label: 'Gentle',
+    steps: [
+      { afterMisses: 2, action: 'push' },
+      { afterMisses: 3, action: 'mark-missed' },
+    ],
+  },
+  standard: {
+    label: 'Standard',
+    steps: [
+      { afterMisses: 1, action: 'alarm' },
+      { afterMisses: 2, action: 'volume', volume: 1 },
+      { afterMisses: 2, action: 'push' },
+      { afterMisses: 3, action: 'notify-partners' },
+      { afterMisses: 4, action: 'mark-missed' },
+    ],
+  },
+  strict: {
+    label: 'Strict',
+    steps: [
+      { afterMisses: 1, action: 'alarm' },
+      { afterMisses: 1, action: 'volume', volume: 1 },
+      { afterMisses: 1, action: 'push' },
+      { afterMisses: 2, action: 'notify-partners' },
+      { afterMisses: 3, action: 'mark-missed' },
+    ],
+  },
+};
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export function presetPolicy(preset: EscalationPreset): EscalationPolicy {
+  return { steps: ESCALATION_PRESETS[preset].steps.map(step => ({ ...step })) };
+}
+
+/**
+ * Drop malformed steps and order the rest, so a policy synced from another
+ * device or edited by hand can always be run.
+ */
+export function normalizeEscalationPolicy(policy: EscalationPolicy | null | undefined): EscalationPolicy | undefined {
+  if (!policy || !Array.isArray(policy.steps)) return undefined;
+
+  const steps = policy.steps
+    .filter(step => step.action in ESCALATION_ACTION_LABELS && Number.isFinite(step.afterMisses))
+    .map(step => ({
+      ...step,
+      afterMisses: Math.min(Math.max(Math.round(step.afterMisses), 1), MAX_ESCALATION_MISSES),
+      ...(step.action === 'volume' ? { volume: Math.min(Math.max(step.volume ?? 1, 0), 1) } : {}),
+    }))
+    .sort((a, b) => a.afterMisses - b.afterMisses);
+
+  return steps.length > 0 ? { ...policy, steps } : undefined;
+}
+
+/**
+ * The steps to take now that the occurrence has been missed `misses` times.
+ */
+export function getStepsForMiss(policy: EscalationPolicy | undefined, misses: number): EscalationStep[] {
+  return normalizeEscalationPolicy(policy)?.steps.filter(step => step.afterMisses === misses) ?? [];
+}
+
+/**
+ * Whether the policy has given up on the occurrence by `misses` misses.
+ */
+export function isExhausted(policy: EscalationPolicy | undefined, misses: number): boolean {
+  return normalizeEscalationPolicy(policy)?.steps.some(
+    step => step.action === 'mark-missed' && step.afterMisses <= misses
+  ) ?? false;
+}
+
+/**
+ * How ring number `attempt` (1 = the original call) sounds: the alarm and
+ * volume steps of every miss before it apply.
+ */
+export function getRingStyle(policy: EscalationPolicy | undefined, attempt: number): RingStyle {
+  const style: RingStyle = { alarm: false, volume: DEFAULT_RING_VOLUME };
+
+  for (const step of normalizeEscalationPolicy(policy)?.steps ?? []) {
+    if (step.afterMisses >= attempt) break;
+    if (step.action === 'alarm') style.alarm = true;
+    if (step.action === 'volume') style.volume = Math.max(style.volume, step.volume ?? 1);
+  }
+
+  return style;
+}
+
+export function describeEscalationStep(step: EscalationStep): string {
+  const label = step.action === 'volume' && step.volume !== undefined
+    ? `${ESCALATION_ACTION_LABELS.volume} to ${Math.round(step.volume * 100)}%`
+    : ESCALATION_ACTION_LABELS[step.action];
+  return `After ${step.afterMisses} missed ${step.afterMisses === 1 ? 'call' : 'calls'}: ${label.toLowerCase()}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Group Streaks & Leaderboard
+ *
+ * A group keeps its streak for every consecutive occurrence (of any of its
+ * reminders) where at least the group's threshold of the members who were
+ * called said they did it. An occurrence still collecting answers neither
+ * extends nor breaks the streak until it closes.
+ *
+ * The weekly leaderboard counts each member's completions since Monday
+ * 00:00 on the viewer's device.
+ */
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface OccurrenceResult {
+  groupReminderId: string;
+  occurrenceAt: number;
+  called: number; // Members rung for this occurrence
+  completed: number; // Of those, how many said they did it
+  responded: number; // Of those, how many answered either way
+}
+
+export interface GroupStreak {
+  current: number;
+  best: number;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  completed: number;
+  rank: number; // 1-based; members with equal counts share a rank
+}
+
+export const DEFAULT_STREAK_THRESHOLD = 75;
+
+// Members have this long after an occurrence to check in before it counts against the streak
+export const CHECK_IN_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// STREAKS
+// ============================================================================
+
+export function meetsThreshold(result: OccurrenceResult, thresholdPct: number): boolean {
+  if (result.called === 0) return false;
+  return (result.completed / result.called) * 100 >= thresholdPct;
+}
+
+// Whether answers may still come in for an occurrence
+function isOpen(result: OccurrenceResult, now: number): boolean {
+  return result.responded < result.called && now - result.occurrenceAt < CHECK_IN_WINDOW_MS;
+}
+
+/**
+ * Current and best streak over the given occurrences (any order).
+ */
+export function computeGroupStreak(
+  results: OccurrenceResult[],
+  thresholdPct: number = DEFAULT_STREAK_THRESHOLD,
+  now: number = Date.now()
+): GroupStreak {
+  const ordered = [...results].sort((a, b) => a.occurrenceAt - b.occurrenceAt);
+
+  let current = 0;
+  let best = 0;
+
+  for (const result of ordered) {
+    if (meetsThreshold(result, thresholdPct)) {
+      current++;
+      best = Math.max(best, current);
+    } else if (!isOpen(result, now)) {
+      current = 0;
+    }
+  }
+
+  return { current, best };
+}
+
+// ============================================================================
+// LEADERBOARD
+// ============================================================================
+
+/**
+ * Monday 00:00 of the week containing `timestamp`, in the device's zone
+ */
+export function startOfWeek(timestamp: number = Date.now()): number {
+  const date = new Date(timestamp);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - daysSinceMonday);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Rank members by completed check-ins. Every member appears, so those with
+ * none this week are listed at the bottom.
+ */
+export function buildLeaderboard(
+  memberIds: string[],
+  checkIns: { userId: string; completed: boolean }[]
+): LeaderboardEntry[] {
+  const counts = new Map(memberIds.map(id => [id, 0]));
+  for (const checkIn of checkIns) {
+    if (checkIn.completed && counts.has(checkIn.userId)) {
+      counts.set(checkIn.userId, counts.get(checkIn.userId)! + 1);
+    }
+  }
+
+  const sorted = Array.from(counts, ([userId, completed]) => ({ userId, completed }))
+    .sort((a, b) => b.completed - a.completed);
+
+  return sorted.map(entry => ({
+    ...entry,
+    rank: sorted.findIndex(other => other.completed === entry.completed) + 1,
+  }));
+}
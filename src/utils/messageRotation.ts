@@ -0,0 +1,71 @@
+/**
+ * Message Rotation
+ *
+ * Picks which library message a call plays when a reminder (or the panic
+ * button) has several, so the same clip isn't heard every day. Rotation is
+ * worked out from each message's lastPlayedAt alone, so the app and the
+ * server-side scheduler pick the same way without sharing any cursor.
+ */
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type MessageRotation = 'random' | 'sequential' | 'least-recent';
+
+export const DEFAULT_MESSAGE_ROTATION: MessageRotation = 'least-recent';
+
+// Suggested mood tags; users can add their own
+export const MESSAGE_MOODS = ['gentle', 'tough love', 'funny', 'calm', 'hype', 'proud'];
+
+export const MESSAGE_ROTATION_LABELS: Record<MessageRotation, string> = {
+  'least-recent': 'Least recently played',
+  sequential: 'In order',
+  random: 'Random',
+};
+
+export interface RotatableMessage {
+  id: string;
+  lastPlayedAt?: number;
+}
+
+// ============================================================================
+// PICKING
+// ============================================================================
+
+/**
+ * Choose the next message. `messages` must be in the reminder's order.
+ * - random: any message except the one played last (when there's a choice)
+ * - sequential: the one after the most recently played, wrapping around
+ * - least-recent: never played first, then the longest ago
+ */
+export function pickMessage<T extends RotatableMessage>(
+  messages: T[],
+  rotation: MessageRotation = DEFAULT_MESSAGE_ROTATION,
+  random: () => number = Math.random
+): T | undefined {
+  if (messages.length <= 1) return messages[0];
+
+  let lastPlayed = -1;
+  messages.forEach((message, index) => {
+    if ((message.lastPlayedAt ?? 0) > (messages[lastPlayed]?.lastPlayedAt ?? 0)) {
+      lastPlayed = index;
+    }
+  });
+
+  switch (rotation) {
+    case 'sequential':
+      return messages[(lastPlayed + 1) % messages.length];
+
+    case 'random': {
+      const candidates = messages.filter((_, index) => index !== lastPlayed);
+      return candidates[Math.floor(random() * candidates.length)];
+    }
+
+    case 'least-recent':
+    default:
+      return messages.reduce((oldest, message) =>
+        (message.lastPlayedAt ?? 0) < (oldest.lastPlayedAt ?? 0) ? message : oldest
+      );
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { CallHistoryEntry, CompletionPrompt } from '../db/reminderDB';
+import { Reminder } from './reminderScheduler';
+import {
+  buildOccurrenceRecords,
+  missingOccurrences,
+  occurrenceGaps,
+  summarizeOccurrences,
+} from './occurrences';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const START = Date.UTC(2026, 9, 1, 9); // Thu 1 Oct 2026, 09:00 UTC
+
+function dailyReminder(): Reminder {
+  return {
+    id: 'r1',
+    title: 'Walk',
+    why: '',
+    time: '09:00',
+    repeat: 'daily',
+    rrule: 'FREQ=DAILY',
+    dtstart: START,
+    timeZone: 'UTC',
+    nextTrigger: START,
+    active: true,
+    createdAt: START,
+  };
+}
+
+function call(id: string, timestamp: number, changes: Partial<CallHistoryEntry> = {}): CallHistoryEntry {
+  return {
+    id,
+    reminderId: 'r1',
+    reminderTitle: 'Walk',
+    reminderWhy: '',
+    timestamp,
+    answered: false,
+    voicePlayed: false,
+    ...changes,
+  };
+}
+
+function prompt(id: string, changes: Partial<CompletionPrompt>): CompletionPrompt {
+  return {
+    id,
+    reminderId: 'r1',
+    reminderTitle: 'Walk',
+    reminderWhy: '',
+    callHistoryId: '',
+    promptedAt: START,
+    completed: false,
+    ...changes,
+  };
+}
+
+describe('buildOccurrenceRecords', () => {
+  it('counts an occurrence done after a recall once', () => {
+    const calls = [
+      call('c1', START),
+      call('c2', START + 5 * MINUTE, { answered: true, recallAttempt: 2, occurrenceAt: START }),
+    ];
+    const prompts = [prompt('p1', { callHistoryId: 'c2', respondedAt: START + 6 * MINUTE, completed: true })];
+
+    const records = buildOccurrenceRecords(dailyReminder(), calls, prompts);
+    const stats = summarizeOccurrences(records);
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ scheduledAt: START, calls: 2, answered: true, completed: true, missed: false });
+    expect(stats).toMatchObject({ occurrences: 1, completed: 1, recalls: 1, missedCalls: 1, due: 1 });
+  });
+
+  it('files a check-in without a call under its own occurrence', () => {
+    const answeredAt = START + DAY + 3 * 60 * MINUTE;
+    const prompts = [prompt('p1', { occurrenceAt: START + DAY, promptedAt: answeredAt, respondedAt: answeredAt, completed: true })];
+
+    const [record] = buildOccurrenceRecords(dailyReminder(), [], prompts);
+
+    expect(record.scheduledAt).toBe(START + DAY);
+    expect(record.completed).toBe(true);
+    expect(record.calls).toBe(0);
+  });
+});
+
+describe('backfilling occurrences', () => {
+  it('logs the occurrences that came due while the app was closed as missed', () => {
+    const logged = [{ scheduledAt: START }];
+    const reopenedAt = START + 4 * DAY + 60 * MINUTE;
+
+    const missing = missingOccurrences(dailyReminder(), logged, START, reopenedAt, reopenedAt);
+
+    expect(missing.map(record => record.scheduledAt)).toEqual([
+      START + DAY,
+      START + 2 * DAY,
+      START + 3 * DAY,
+      START + 4 * DAY,
+    ]);
+    expect(missing.every(record => record.missed && record.calls === 0)).toBe(true);
+    expect(summarizeOccurrences(missing)).toMatchObject({ occurrences: 4, neverRang: 4, missed: 4, due: 4 });
+  });
+
+  it('skips occurrences already logged', () => {
+    const logged = [{ scheduledAt: START }, { scheduledAt: START + DAY }];
+    const missing = missingOccurrences(dailyReminder(), logged, START, START + 2 * DAY);
+    expect(missing.map(record => record.scheduledAt)).toEqual([START + 2 * DAY]);
+  });
+
+  it('leaves excluded dates out', () => {
+    const reminder = { ...dailyReminder(), exdates: [START + DAY] };
+    const missing = missingOccurrences(reminder, [], START, START + 2 * DAY);
+    expect(missing.map(record => record.scheduledAt)).toEqual([START, START + 2 * DAY]);
+  });
+
+  it('fills gaps between the first and last logged occurrences', () => {
+    const logged = [{ scheduledAt: START }, { scheduledAt: START + 3 * DAY }];
+    const gaps = occurrenceGaps(dailyReminder(), logged);
+    expect(gaps.map(record => record.scheduledAt)).toEqual([START + DAY, START + 2 * DAY]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Occurrence Log
+ *
+ * One record per scheduled instance of a reminder: when it was due, when it
+ * rang, whether a call was answered, and whether the user did it, skipped,
+ * snoozed or missed it. Stats and streaks are worked out from these records
+ * instead of counting calls and check-ins separately, so an occurrence done
+ * after three recalls counts once.
+ *
+ * Records summarize the calls and check-ins for their occurrence and are
+ * refreshed as those are written (see the occurrences store in
+ * db/reminderDB.ts). The scheduler also logs each occurrence as it comes due,
+ * including ones it skips after the app was closed, and gaps between logged
+ * occurrences are filled from the recurrence, so an occurrence that never
+ * rang still counts as missed. Records are never deleted, so clearing call
+ * history leaves stats and streaks as they were.
+ */
+
+import type { CallHistoryEntry, CompletionPrompt, OccurrenceRecord } from '../db/reminderDB';
+import { Reminder, getReminderRecurrence } from './reminderScheduler';
+import { nextOccurrence, previousOccurrence } from './recurrence';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface OccurrenceStats {
+  occurrences: number;
+  calls: number;
+  answeredCalls: number;
+  missedCalls: number; // Declined or never picked up
+  voiceCalls: number;
+  recalls: number; // Calls after the first for an occurrence
+  averageCallMs: number; // Over the calls with a recorded duration
+  timedCalls: number;
+  checkedIn: number; // Occurrences the user said whether they did
+  completed: number;
+  skipped: number;
+  snoozes: number;
+  missed: number;
+  neverRang: number; // Came due without a call (app closed, device off) and went unanswered
+  due: number; // Checked in on or missed: what a completion rate is out of
+}
+
+const MAX_GAP_FILL = 1000; // Occurrences filled in one go, so a long-idle minutely series can't flood the log
+
+// ============================================================================
+// OCCURRENCES
+// ============================================================================
+
+export function occurrenceId(reminderId: string, scheduledAt: number): string {
+  return `${reminderId}:${scheduledAt}`;
+}
+
+/**
+ * The occurrence something at `at` belongs to: the latest one due by then.
+ * Recalls and snoozed calls ring after it, but before the next one.
+ */
+export function occurrenceAtTime(reminder: Reminder, at: number): number {
+  try {
+    return previousOccurrence(getReminderRecurrence(reminder), at) ?? at;
+  } catch {
+    return at;
+  }
+}
+
+// Where a call belongs, for calls recorded before they carried it
+function callOccurrence(reminder: Reminder, call: CallHistoryEntry): number {
+  return call.occurrenceAt ?? occurrenceAtTime(reminder, call.timestamp);
+}
+
+function promptOccurrence(
+  reminder: Reminder,
+  prompt: CompletionPrompt,
+  callsById: Map<string, CallHistoryEntry>
+): number {
+  if (prompt.occurrenceAt !== undefined) return prompt.occurrenceAt;
+
+  const call = callsById.get(prompt.callHistoryId);
+  return call ? callOccurrence(reminder, call) : occurrenceAtTime(reminder, prompt.promptedAt);
+}
+
+/**
+ * Summarize one occurrence from its calls and check-ins.
+ */
+export function summarizeOccurrence(
+  reminder: Reminder,
+  scheduledAt: number,
+  calls: CallHistoryEntry[],
+  prompts: CompletionPrompt[],
+  now: number = Date.now()
+): OccurrenceRecord {
+  const answeredCalls = calls.filter(call => call.answered);
+  const timedCalls = calls.filter(call => (call.duration ?? 0) > 0);
+  const answers = prompts.filter(prompt => prompt.respondedAt);
+
+  const completionTimes = [
+    ...prompts.filter(prompt => prompt.completed).map(prompt => prompt.respondedAt ?? prompt.promptedAt),
+    ...calls.filter(call => call.taskCompleted || call.outcome === 'done').map(call => call.taskCompletedAt ?? call.timestamp),
+  ];
+  const completed = completionTimes.length > 0;
+
+  return {
+    id: occurrenceId(reminder.id, scheduledAt),
+    reminderId: reminder.id,
+    reminderTitle: reminder.title,
+    scheduledAt,
+    firedAt: calls.length > 0 ? Math.min(...calls.map(call => call.timestamp)) : undefined,
+    calls: calls.length,
+    answeredCalls: answeredCalls.length,
+    voiceCalls: calls.filter(call => call.voicePlayed).length,
+    callDurationMs: timedCalls.reduce((sum, call) => sum + call.duration!, 0),
+    timedCalls: timedCalls.length,
+    answered: answeredCalls.length > 0,
+    completed,
+    completedAt: completed ? Math.min(...completionTimes) : undefined,
+    checkedIn: answers.length > 0 || calls.some(call => call.outcome === 'done' || call.outcome === 'skipped'),
+    skipped: !completed && (answers.some(prompt => prompt.skipped) || calls.some(call => call.outcome === 'skipped')),
+    snoozes: calls.filter(call => call.outcome === 'snoozed').length,
+    missed: !completed && (
+      calls.some(call => call.outcome === 'missed') ||
+      (calls.length > 0 && answeredCalls.length === 0) ||
+      (calls.length === 0 && answers.length === 0) // Never rang and nobody checked in
+    ),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Group a reminder's calls and check-ins by occurrence and summarize each.
+ * If `touching` is given, only occurrences with a call or check-in of those
+ * ids are summarized.
+ */
+export function buildOccurrenceRecords(
+  reminder: Reminder,
+  calls: CallHistoryEntry[],
+  prompts: CompletionPrompt[],
+  touching?: Set<string>,
+  now: number = Date.now()
+): OccurrenceRecord[] {
+  const callsById = new Map(calls.map(call => [call.id, call]));
+  const groups = new Map<number, { calls: CallHistoryEntry[]; prompts: CompletionPrompt[] }>();
+  const groupFor = (scheduledAt: number) => {
+    let group = groups.get(scheduledAt);
+    if (!group) {
+      group = { calls: [], prompts: [] };
+      groups.set(scheduledAt, group);
+    }
+    return group;
+  };
+
+  for (const call of calls) {
+    groupFor(callOccurrence(reminder, call)).calls.push(call);
+  }
+  for (const prompt of prompts) {
+    groupFor(promptOccurrence(reminder, prompt, callsById)).prompts.push(prompt);
+  }
+
+  return Array.from(groups)
+    .filter(([, group]) => !touching || [...group.calls, ...group.prompts].some(entry => touching.has(entry.id)))
+    .map(([scheduledAt, group]) => summarizeOccurrence(reminder, scheduledAt, group.calls, group.prompts, now));
+}
+
+/**
+ * Records for the occurrences due from `from` through `through` that have
+ * nothing logged yet.
+ */
+export function missingOccurrences(
+  reminder: Reminder,
+  logged: Pick<OccurrenceRecord, 'scheduledAt'>[],
+  from: number,
+  through: number,
+  now: number = Date.now()
+): OccurrenceRecord[] {
+  const seen = new Set(logged.map(record => record.scheduledAt));
+  const missing: OccurrenceRecord[] = [];
+
+  try {
+    const recurrence = getReminderRecurrence(reminder);
+    let occurrence = nextOccurrence(recurrence, from - 1);
+    for (let steps = 0; occurrence !== null && occurrence <= through && steps < MAX_GAP_FILL; steps++) {
+      if (!seen.has(occurrence)) {
+        missing.push(summarizeOccurrence(reminder, occurrence, [], [], now));
+      }
+      occurrence = nextOccurrence(recurrence, occurrence);
+    }
+  } catch {
+    // Without a schedule there are no occurrences to fill in
+  }
+
+  return missing;
+}
+
+/**
+ * Records for the occurrences between the first and last logged ones that
+ * have nothing logged, e.g. from before the scheduler logged each one.
+ */
+export function occurrenceGaps(
+  reminder: Reminder,
+  logged: Pick<OccurrenceRecord, 'scheduledAt'>[],
+  now: number = Date.now()
+): OccurrenceRecord[] {
+  if (logged.length < 2) return [];
+
+  const times = logged.map(record => record.scheduledAt);
+  return missingOccurrences(reminder, logged, Math.min(...times), Math.max(...times), now);
+}
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+/**
+ * Totals over a set of occurrence records
+ */
+export function summarizeOccurrences(records: OccurrenceRecord[]): OccurrenceStats {
+  const sum = (value: (record: OccurrenceRecord) => number) =>
+    records.reduce((total, record) => total + value(record), 0);
+  const count = (test: (record: OccurrenceRecord) => boolean) => records.filter(test).length;
+
+  const calls = sum(record => record.calls);
+  const answeredCalls = sum(record => record.answeredCalls);
+  const timedCalls = sum(record => record.timedCalls);
+
+  return {
+    occurrences: records.length,
+    calls,
+    answeredCalls,
+    missedCalls: calls - answeredCalls,
+    voiceCalls: sum(record => record.voiceCalls),
+    recalls: sum(record => Math.max(0, record.calls - 1)),
+    averageCallMs: timedCalls > 0 ? sum(record => record.callDurationMs) / timedCalls : 0,
+    timedCalls,
+    checkedIn: count(record => record.checkedIn),
+    completed: count(record => record.completed),
+    skipped: count(record => record.skipped),
+    snoozes: sum(record => record.snoozes),
+    missed: count(record => record.missed),
+    neverRang: count(record => record.calls === 0 && record.missed),
+    due: count(record => record.checkedIn || record.missed),
+  };
+}
@@ -5,7 +5,9 @@
  * Works with the service worker to show notifications even when the app is closed.
  */
 
+import { openDB } from 'idb';
 import logger from './logger';
+import { deletePushSubscription, savePushSubscription } from '../services/supabaseSync';
 
 // VAPID public key from environment variable
 const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY || '';
@@ -18,6 +20,27 @@ interface PushSubscriptionData {
   };
 }
 
+export type NotificationActionType = 'answer' | 'snooze' | 'decline' | 'default';
+
+// Payload `data` of a server push (see supabase/functions/_shared/webPush.ts)
+export interface NotificationActionData {
+  kind?: 'call' | 'reminder';
+  callId?: string;
+  reminderId?: string;
+  occurrence?: number;
+  url?: string;
+}
+
+export interface NotificationActionEvent {
+  action: NotificationActionType;
+  data: NotificationActionData;
+  takenAt?: number; // When the service worker queued it, if the app was closed
+}
+
+// Written by the service worker when an action is taken with no tab open
+const SW_ACTION_DB = 'yfs-sw-actions';
+const SW_ACTION_STORE = 'actions';
+
 /**
  * Check if push notifications are supported
  */
@@ -122,10 +145,28 @@ export async function subscribeToPush(): Promise<PushSubscriptionData | null> {
   }
 }
 
+/**
+ * Subscribe this device and store the subscription for the signed-in user,
+ * so the server can deliver calls while the app is closed
+ */
+export async function registerPushSubscription(userId: string): Promise<boolean> {
+  const subscription = await subscribeToPush();
+  if (!subscription) {
+    return false;
+  }
+
+  const { error } = await savePushSubscription(userId, subscription);
+  return !error;
+}
+
 /**
  * Unsubscribe from push notifications
  */
 export async function unsubscribeFromPush(): Promise<boolean> {
+  if (!isPushSupported()) {
+    return false;
+  }
+
   const registration = await getServiceWorkerRegistration();
   if (!registration) {
     return false;
@@ -134,6 +175,7 @@ export async function unsubscribeFromPush(): Promise<boolean> {
   try {
     const subscription = await registration.pushManager.getSubscription();
     if (subscription) {
+      await deletePushSubscription(subscription.endpoint);
       await subscription.unsubscribe();
       return true;
     }
@@ -170,7 +212,8 @@ export async function showLocalNotification(
 
 /**
  * Schedule a local notification for a specific time
- * Uses the Notification API with service worker
+ * Uses the Notification API with service worker. Only fires while a tab is
+ * open; delivery with the app closed comes from server pushes instead.
  */
 export async function scheduleNotification(
   title: string,
@@ -283,6 +326,61 @@ export async function checkScheduledNotifications(): Promise<void> {
   }
 }
 
+// ============================================================================
+// NOTIFICATION ACTIONS
+// ============================================================================
+
+/**
+ * Take the notification actions the service worker queued while no tab was open.
+ * Each action is returned once.
+ */
+export async function takeQueuedNotificationActions(): Promise<NotificationActionEvent[]> {
+  if (!('indexedDB' in window)) {
+    return [];
+  }
+
+  try {
+    const db = await openDB(SW_ACTION_DB, 1, {
+      upgrade(database) {
+        database.createObjectStore(SW_ACTION_STORE, { keyPath: 'id', autoIncrement: true });
+      },
+    });
+    const tx = db.transaction(SW_ACTION_STORE, 'readwrite');
+    const actions = await tx.store.getAll();
+    await tx.store.clear();
+    await tx.done;
+    db.close();
+    return actions.map(({ action, data, queuedAt }) => ({ action, data: data || {}, takenAt: queuedAt }));
+  } catch (error) {
+    logger.error('Failed to read queued notification actions:', error);
+    return [];
+  }
+}
+
+/**
+ * Listen for notification actions: those relayed live by the service worker,
+ * plus any it queued before this tab opened.
+ * Returns a cleanup function.
+ */
+export function onNotificationAction(handler: (event: NotificationActionEvent) => void): () => void {
+  if (!('serviceWorker' in navigator)) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'NOTIFICATION_ACTION') {
+      handler({ action: event.data.action, data: event.data.data || {} });
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  takeQueuedNotificationActions().then(actions => actions.forEach(handler));
+
+  return () => {
+    navigator.serviceWorker.removeEventListener('message', handleMessage);
+  };
+}
+
 /**
  * Convert VAPID key to Uint8Array
  */
@@ -0,0 +1,63 @@
+/**
+ * Quiet Hours
+ *
+ * A daily window, in the user's own time zone, when partners can't ring
+ * them with motivation calls. The window may run past midnight
+ * (e.g. 22:00-07:00). The database applies the same rule when a call is
+ * sent (see migration_motivation_calls.sql); this copy lets the app say so
+ * before the sender records anything.
+ */
+
+import { toZonedWallTime } from './timeZone';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface QuietHours {
+  start: string; // "HH:MM", inclusive
+  end: string; // "HH:MM", exclusive
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: '22:00', end: '07:00' };
+
+// Motivation calls one partner may send another per rolling 24 hours
+export const DEFAULT_MOTIVATION_CALLS_PER_DAY = 3;
+export const MAX_MOTIVATION_CALLS_PER_DAY = 10;
+
+// ============================================================================
+// WINDOW CHECKS
+// ============================================================================
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Whether `timestamp` falls inside the quiet hours, read in `timeZone`
+ * (device zone if omitted). A window that starts and ends at the same time
+ * is empty.
+ */
+export function isInQuietHours(
+  quietHours: QuietHours | null | undefined,
+  timeZone?: string,
+  timestamp: number = Date.now()
+): boolean {
+  if (!quietHours) return false;
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  const wall = toZonedWallTime(timestamp, timeZone);
+  const now = wall.hour * 60 + wall.minute;
+
+  return start < end
+    ? now >= start && now < end
+    : now >= start || now < end;
+}
+
+export function formatQuietHours(quietHours: QuietHours): string {
+  return `${quietHours.start}–${quietHours.end}`;
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Recurrence,
+  listOccurrences,
+  nextOccurrence,
+  occurrencesOnDays,
+  parseRRule,
+  parseRecurrenceRules,
+  previousOccurrence,
+} from './recurrence';
+import { fromZonedWallTime } from './timeZone';
+
+const NEW_YORK = 'America/New_York';
+
+function series(rrule: string, dtstart: number, timeZone = NEW_YORK, exdates?: number[]): Recurrence {
+  return { rules: parseRecurrenceRules(rrule, timeZone), dtstart, exdates, timeZone };
+}
+
+function newYork(month: number, day: number, hour: number, minute = 0): number {
+  return fromZonedWallTime({ year: 2026, month, day, hour, minute }, NEW_YORK);
+}
+
+describe('DST transitions', () => {
+  it('keeps a daily reminder at the same wall-clock time across spring-forward', () => {
+    const daily = series('FREQ=DAILY', newYork(2, 7, 9));
+    expect(listOccurrences(daily, newYork(2, 7, 9) - 1, 3)).toEqual([
+      Date.UTC(2026, 2, 7, 14, 0), // 09:00 EST
+      Date.UTC(2026, 2, 8, 13, 0), // 09:00 EDT
+      Date.UTC(2026, 2, 9, 13, 0),
+    ]);
+  });
+
+  it('keeps a daily reminder at the same wall-clock time across fall-back', () => {
+    const daily = series('FREQ=DAILY', newYork(9, 31, 9));
+    expect(listOccurrences(daily, newYork(9, 31, 9) - 1, 2)).toEqual([
+      Date.UTC(2026, 9, 31, 13, 0), // 09:00 EDT
+      Date.UTC(2026, 10, 1, 14, 0), // 09:00 EST
+    ]);
+  });
+
+  it('rings a time skipped by spring-forward an hour later that day only', () => {
+    const daily = series('FREQ=DAILY', newYork(2, 7, 2, 30));
+    expect(listOccurrences(daily, newYork(2, 7, 2, 30) - 1, 3)).toEqual([
+      Date.UTC(2026, 2, 7, 7, 30), // 02:30 EST
+      Date.UTC(2026, 2, 8, 7, 30), // 03:30 EDT - 02:30 doesn't exist
+      Date.UTC(2026, 2, 9, 6, 30), // 02:30 EDT
+    ]);
+  });
+
+  it('rings a time repeated by fall-back once', () => {
+    const daily = series('FREQ=DAILY', newYork(9, 31, 1, 30));
+    expect(listOccurrences(daily, newYork(9, 31, 1, 30) - 1, 3)).toEqual([
+      Date.UTC(2026, 9, 31, 5, 30),
+      Date.UTC(2026, 10, 1, 5, 30), // First 01:30 (EDT)
+      Date.UTC(2026, 10, 2, 6, 30),
+    ]);
+  });
+});
+
+describe('UNTIL', () => {
+  it('reads a DATE value as the end of that day in the series zone', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261005', NEW_YORK).until).toBe(Date.UTC(2026, 9, 6, 3, 59, 59));
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261005', 'Asia/Tokyo').until).toBe(Date.UTC(2026, 9, 5, 14, 59, 59));
+  });
+
+  it('reads a floating value in the series zone and a Z value as UTC', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261005T090000', NEW_YORK).until).toBe(Date.UTC(2026, 9, 5, 13, 0, 0));
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261005T090000Z', NEW_YORK).until).toBe(Date.UTC(2026, 9, 5, 9, 0, 0));
+  });
+
+  it('includes the last day of a DATE UNTIL', () => {
+    const daily = series('FREQ=DAILY;UNTIL=20261003', newYork(9, 1, 21));
+    const occurrences = listOccurrences(daily, newYork(9, 1, 21) - 1, 10);
+    expect(occurrences).toEqual([newYork(9, 1, 21), newYork(9, 2, 21), newYork(9, 3, 21)]);
+  });
+
+  it('includes an occurrence exactly at UNTIL and ends the series after it', () => {
+    const daily = series('FREQ=DAILY;UNTIL=20261003T090000', newYork(9, 1, 9));
+    expect(listOccurrences(daily, newYork(9, 1, 9) - 1, 10)).toHaveLength(3);
+    expect(nextOccurrence(daily, newYork(9, 3, 9))).toBeNull();
+  });
+
+  it('rejects COUNT together with UNTIL', () => {
+    expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20261005')).toThrow('COUNT and UNTIL');
+  });
+});
+
+describe('occurrence queries', () => {
+  const dtstart = newYork(9, 1, 9);
+
+  it('skips excluded dates', () => {
+    const daily = series('FREQ=DAILY', dtstart, NEW_YORK, [newYork(9, 2, 9)]);
+    expect(nextOccurrence(daily, dtstart)).toBe(newYork(9, 3, 9));
+  });
+
+  it('finds the latest occurrence at or before a time', () => {
+    const daily = series('FREQ=DAILY', dtstart);
+    expect(previousOccurrence(daily, newYork(9, 4, 9))).toBe(newYork(9, 4, 9));
+    expect(previousOccurrence(daily, newYork(9, 4, 8))).toBe(newYork(9, 3, 9));
+    expect(previousOccurrence(daily, dtstart - 1)).toBeNull();
+  });
+
+  it('stops after COUNT occurrences', () => {
+    const daily = series('FREQ=DAILY;COUNT=2', dtstart);
+    expect(listOccurrences(daily, dtstart - 1, 5)).toEqual([newYork(9, 1, 9), newYork(9, 2, 9)]);
+  });
+
+  it('turns skipped days into every occurrence on them', () => {
+    const twiceDaily = series('FREQ=DAILY;BYHOUR=9,18;BYMINUTE=0', dtstart);
+    expect(occurrencesOnDays(twiceDaily, ['2026-10-02'])).toEqual([newYork(9, 2, 9), newYork(9, 2, 18)]);
+  });
+});
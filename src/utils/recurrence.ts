@@ -0,0 +1,771 @@
+/**
+ * RFC 5545 Recurrence Engine
+ *
+ * Parses, formats and expands iCalendar RRULEs so reminders can express
+ * schedules like "first Monday of the month", "every other Tuesday" or
+ * "10 occurrences, then stop".
+ *
+ * Calendar math is done on wall-clock fields (year/month/day/hour/minute)
+ * in the series' time zone and only converted to UTC timestamps at the end,
+ * so a daily 09:00 reminder stays at 09:00 across DST changes.
+ */
+
+import { ZonedWallTime, fromZonedWallTime, toZonedWallTime } from './timeZone';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type Frequency = 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface ByDay {
+  weekday: number; // 0-6, Sun-Sat (same numbering as Reminder.daysOfWeek)
+  ordinal?: number; // Optional: 1 = first, 2 = second, -1 = last (MONTHLY/YEARLY only)
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number; // INTERVAL, default 1
+  count?: number; // COUNT: stop after this many occurrences
+  until?: number; // UNTIL: UTC timestamp in milliseconds (inclusive)
+  byMonth?: number[]; // 1-12
+  byMonthDay?: number[]; // 1-31, or -1..-31 counting from the end of the month
+  byDay?: ByDay[];
+  byHour?: number[]; // 0-23
+  byMinute?: number[]; // 0-59
+  bySetPos?: number[]; // Pick the nth candidate(s) within each period, -1 = last
+  weekStart: number; // WKST, 0-6 (default Monday)
+}
+
+/**
+ * A full recurrence set: one or more rules anchored at DTSTART, minus EXDATEs.
+ */
+export interface Recurrence {
+  rules: RecurrenceRule[];
+  dtstart: number; // UTC timestamp of the series anchor
+  exdates?: number[]; // UTC timestamps of excluded occurrences
+  timeZone?: string; // IANA zone for wall-clock fields, device zone if omitted
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const FREQUENCIES: Frequency[] = ['MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Stop expanding a rule that keeps producing empty periods (e.g. BYMONTHDAY=31;BYMONTH=2)
+const MAX_EMPTY_PERIODS = 50000;
+const MAX_LOOKBACK_MS = 2 * 365 * DAY_MS;
+
+// ============================================================================
+// PARSING & FORMATTING
+// ============================================================================
+
+function parseIntList(value: string, min: number, max: number, allowNegative = false): number[] {
+  return value.split(',').map(part => {
+    const n = Number(part);
+    const abs = Math.abs(n);
+    if (!Number.isInteger(n) || (n < 0 && !allowNegative) || abs < min || abs > max) {
+      throw new Error(`Invalid value "${part}"`);
+    }
+    return n;
+  });
+}
+
+function parseByDay(value: string): ByDay[] {
+  return value.split(',').map(part => {
+    const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) {
+      throw new Error(`Invalid BYDAY value "${part}"`);
+    }
+    const byDay: ByDay = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+    if (match[1]) {
+      const ordinal = Number(match[1]);
+      if (ordinal === 0 || Math.abs(ordinal) > 53) {
+        throw new Error(`Invalid BYDAY ordinal "${part}"`);
+      }
+      byDay.ordinal = ordinal;
+    }
+    return byDay;
+  });
+}
+
+// DATE and floating values are wall-clock times in the series' zone, so the
+// series ends at the same instant wherever it is expanded
+function parseUntil(value: string, timeZone?: string): number {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = { year: Number(y), month: Number(mo) - 1, day: Number(d) };
+  if (h === undefined) {
+    // DATE form: the whole day is included
+    return fromZonedWallTime({ ...date, hour: 23, minute: 59 }, timeZone) + 59 * 1000;
+  }
+  if (utc) {
+    return Date.UTC(date.year, date.month, date.day, Number(h), Number(mi), Number(s));
+  }
+  return fromZonedWallTime({ ...date, hour: Number(h), minute: Number(mi) }, timeZone) + Number(s) * 1000;
+}
+
+function formatUntil(until: number): string {
+  const iso = new Date(until).toISOString(); // 2025-12-31T23:59:59.000Z
+  return iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a single RRULE value (with or without the "RRULE:" prefix).
+ * `timeZone` is the series' zone, used for a DATE or floating UNTIL.
+ * Throws an Error describing the first invalid part.
+ */
+export function parseRRule(text: string, timeZone?: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) {
+    throw new Error('Empty recurrence rule');
+  }
+
+  const rule: Partial<RecurrenceRule> = { interval: 1, weekStart: 1 };
+
+  for (const part of body.split(';')) {
+    if (!part) continue;
+    const [rawKey, value] = part.split('=');
+    const key = rawKey.toUpperCase();
+    if (value === undefined || value === '') {
+      throw new Error(`Missing value for ${key}`);
+    }
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value.toUpperCase() as Frequency)) {
+          throw new Error(`Unsupported FREQ "${value}"`);
+        }
+        rule.freq = value.toUpperCase() as Frequency;
+        break;
+      case 'INTERVAL':
+        rule.interval = parseIntList(value, 1, 10000)[0];
+        break;
+      case 'COUNT':
+        rule.count = parseIntList(value, 1, 100000)[0];
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value.toUpperCase(), timeZone);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = parseIntList(value, 1, 12);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntList(value, 1, 31, true);
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(value.toUpperCase());
+        break;
+      case 'BYHOUR':
+        rule.byHour = parseIntList(value, 0, 23);
+        break;
+      case 'BYMINUTE':
+        rule.byMinute = parseIntList(value, 0, 59);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntList(value, 1, 366, true);
+        break;
+      case 'WKST': {
+        const index = WEEKDAY_CODES.indexOf(value.toUpperCase());
+        if (index === -1) {
+          throw new Error(`Invalid WKST "${value}"`);
+        }
+        rule.weekStart = index;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error('Recurrence rule is missing FREQ');
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('COUNT and UNTIL cannot be used together');
+  }
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Format a rule as an RRULE value (without the "RRULE:" prefix).
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byHour?.length) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+  if (rule.byMinute?.length) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+  return parts.join(';');
+}
+
+/**
+ * Parse one or more newline-separated RRULEs. Multiple rules form a union,
+ * e.g. "every day at 09:00" plus "every day at 18:30".
+ */
+export function parseRecurrenceRules(text: string, timeZone?: string): RecurrenceRule[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error('Empty recurrence rule');
+  }
+  return lines.map(line => parseRRule(line, timeZone));
+}
+
+/**
+ * Format rules as newline-separated RRULE values.
+ */
+export function formatRecurrenceRules(rules: RecurrenceRule[]): string {
+  return rules.map(formatRRule).join('\n');
+}
+
+// ============================================================================
+// CALENDAR HELPERS
+// ============================================================================
+
+type WallTime = ZonedWallTime;
+
+// Day numbers count calendar days since 1970-01-01, independent of time zone
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): { year: number; month: number; day: number } {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function toWallTime(timestamp: number, timeZone?: string): WallTime {
+  return toZonedWallTime(timestamp, timeZone);
+}
+
+function fromWallTime(dayNumber: number, hour: number, minute: number, timeZone?: string): number {
+  return fromZonedWallTime({ ...fromDayNumber(dayNumber), hour, minute }, timeZone);
+}
+
+function range(from: number, to: number): number[] {
+  const result: number[] = [];
+  for (let i = from; i <= to; i++) result.push(i);
+  return result;
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+function matchesMonthDay(dayNumber: number, byMonthDay: number[]): boolean {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  const length = daysInMonth(year, month);
+  return byMonthDay.some(md => (md > 0 ? md === day : length + md + 1 === day));
+}
+
+/**
+ * Select days within a scope (a week, month or year) using BYMONTHDAY and
+ * BYDAY. Ordinal BYDAY values ("2TU", "-1FR") count within the scope.
+ */
+function selectDays(
+  scope: number[],
+  rule: RecurrenceRule,
+  useOrdinals: boolean,
+  fallback: (dayNumber: number) => boolean
+): number[] {
+  const { byMonthDay, byDay } = rule;
+
+  if (!byMonthDay?.length && !byDay?.length) {
+    return scope.filter(fallback);
+  }
+
+  let days = scope;
+
+  if (byMonthDay?.length) {
+    days = days.filter(d => matchesMonthDay(d, byMonthDay));
+  }
+
+  if (byDay?.length) {
+    const selected = new Set<number>();
+    for (const { weekday, ordinal } of byDay) {
+      const matching = scope.filter(d => weekdayOf(d) === weekday);
+      if (ordinal !== undefined && useOrdinals) {
+        const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (pick !== undefined) selected.add(pick);
+      } else {
+        matching.forEach(d => selected.add(d));
+      }
+    }
+    days = days.filter(d => selected.has(d));
+  }
+
+  return days;
+}
+
+function monthScope(year: number, month: number): number[] {
+  const first = toDayNumber(year, month, 1);
+  return range(first, first + daysInMonth(year, month) - 1);
+}
+
+/**
+ * Candidate days for the k-th DAILY/WEEKLY/MONTHLY/YEARLY period.
+ */
+function periodDays(rule: RecurrenceRule, start: WallTime, startDay: number, k: number): number[] {
+  const step = k * rule.interval;
+  let days: number[];
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const year = start.year + step;
+      if (rule.byMonth?.length) {
+        days = rule.byMonth.flatMap(m =>
+          selectDays(monthScope(year, m - 1), rule, true, d => fromDayNumber(d).day === start.day)
+        );
+      } else {
+        const first = toDayNumber(year, 0, 1);
+        const scope = range(first, toDayNumber(year, 11, 31));
+        days = selectDays(scope, rule, true, d => {
+          const { month, day } = fromDayNumber(d);
+          return month === start.month && day === start.day;
+        });
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = start.year * 12 + start.month + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      days = selectDays(monthScope(year, month), rule, true, d => fromDayNumber(d).day === start.day);
+      break;
+    }
+    case 'WEEKLY': {
+      const offset = (weekdayOf(startDay) - rule.weekStart + 7) % 7;
+      const weekFirst = startDay - offset + step * 7;
+      const scope = range(weekFirst, weekFirst + 6);
+      // BYMONTHDAY doesn't apply to WEEKLY rules
+      days = selectDays(scope, { ...rule, byMonthDay: undefined }, false, d => weekdayOf(d) === weekdayOf(startDay));
+      break;
+    }
+    default: {
+      days = selectDays([startDay + step], rule, false, () => true);
+    }
+  }
+
+  if (rule.byMonth?.length) {
+    const byMonth = rule.byMonth;
+    days = days.filter(d => byMonth.includes(fromDayNumber(d).month + 1));
+  }
+
+  return days.sort((a, b) => a - b);
+}
+
+/**
+ * All candidate timestamps (sorted, before BYSETPOS) for the k-th period.
+ */
+function periodCandidates(
+  rule: RecurrenceRule,
+  dtstart: number,
+  start: WallTime,
+  startDay: number,
+  k: number,
+  timeZone?: string
+): number[] {
+  if (rule.freq === 'HOURLY' || rule.freq === 'MINUTELY') {
+    // Sub-daily rules step in elapsed time so DST never duplicates or skips a slot
+    const stepMs = (rule.freq === 'HOURLY' ? HOUR_MS : MINUTE_MS) * rule.interval;
+    const periodStart = dtstart + k * stepMs;
+    const wall = toWallTime(periodStart, timeZone);
+    const dayNumber = toDayNumber(wall.year, wall.month, wall.day);
+
+    if (periodDays({ ...rule, freq: 'DAILY', interval: 1 }, wall, dayNumber, 0).length === 0) return [];
+    if (rule.byHour?.length && !rule.byHour.includes(wall.hour)) return [];
+
+    if (rule.freq === 'MINUTELY') {
+      return rule.byMinute?.length && !rule.byMinute.includes(wall.minute) ? [] : [periodStart];
+    }
+
+    const minutes = rule.byMinute?.length ? [...rule.byMinute].sort((a, b) => a - b) : [wall.minute];
+    const hourStart = periodStart - wall.minute * MINUTE_MS;
+    return minutes.map(m => hourStart + m * MINUTE_MS);
+  }
+
+  const hours = rule.byHour?.length ? [...rule.byHour].sort((a, b) => a - b) : [start.hour];
+  const minutes = rule.byMinute?.length ? [...rule.byMinute].sort((a, b) => a - b) : [start.minute];
+  const candidates: number[] = [];
+
+  for (const dayNumber of periodDays(rule, start, startDay, k)) {
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        candidates.push(fromWallTime(dayNumber, hour, minute, timeZone));
+      }
+    }
+  }
+
+  return candidates;
+}
+
+function applySetPos(candidates: number[], bySetPos?: number[]): number[] {
+  if (!bySetPos?.length) return candidates;
+  const picked = bySetPos
+    .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((t): t is number => t !== undefined);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+
+/**
+ * Index of a period that starts at or before `from`, used to skip ahead
+ * without walking every period since DTSTART. Only safe without COUNT.
+ */
+function periodIndexBefore(
+  rule: RecurrenceRule,
+  dtstart: number,
+  start: WallTime,
+  startDay: number,
+  from: number,
+  timeZone?: string
+): number {
+  if (from <= dtstart) return 0;
+  const wall = toWallTime(from, timeZone);
+  let periods: number;
+
+  switch (rule.freq) {
+    case 'MINUTELY':
+      periods = (from - dtstart) / (MINUTE_MS * rule.interval);
+      break;
+    case 'HOURLY':
+      periods = (from - dtstart) / (HOUR_MS * rule.interval);
+      break;
+    case 'DAILY':
+      periods = (toDayNumber(wall.year, wall.month, wall.day) - startDay) / rule.interval;
+      break;
+    case 'WEEKLY':
+      periods = (toDayNumber(wall.year, wall.month, wall.day) - startDay) / (7 * rule.interval);
+      break;
+    case 'MONTHLY':
+      periods = ((wall.year - start.year) * 12 + wall.month - start.month) / rule.interval;
+      break;
+    default:
+      periods = (wall.year - start.year) / rule.interval;
+  }
+
+  return Math.max(0, Math.floor(periods) - 1);
+}
+
+/**
+ * Lazily expand a single rule from DTSTART, in chronological order.
+ * Occurrences before `from` may be skipped when the rule has no COUNT.
+ */
+function* expandRule(rule: RecurrenceRule, dtstart: number, from?: number, timeZone?: string): Generator<number> {
+  const start = toWallTime(dtstart, timeZone);
+  const startDay = toDayNumber(start.year, start.month, start.day);
+  let k = rule.count === undefined && from !== undefined
+    ? periodIndexBefore(rule, dtstart, start, startDay, from, timeZone)
+    : 0;
+  let emitted = 0;
+  let emptyPeriods = 0;
+
+  while (emptyPeriods < MAX_EMPTY_PERIODS) {
+    const occurrences = applySetPos(periodCandidates(rule, dtstart, start, startDay, k, timeZone), rule.bySetPos)
+      .filter(t => t >= dtstart);
+    k++;
+
+    if (occurrences.length === 0) {
+      emptyPeriods++;
+      continue;
+    }
+    emptyPeriods = 0;
+
+    for (const occurrence of occurrences) {
+      if (rule.until !== undefined && occurrence > rule.until) return;
+      yield occurrence;
+      emitted++;
+      if (rule.count !== undefined && emitted >= rule.count) return;
+    }
+  }
+}
+
+// ============================================================================
+// PUBLIC QUERIES
+// ============================================================================
+
+/**
+ * Get the first occurrence strictly after `after`, or null if the series has ended.
+ */
+export function nextOccurrence(recurrence: Recurrence, after: number): number | null {
+  const excluded = new Set(recurrence.exdates || []);
+  let best: number | null = null;
+
+  for (const rule of recurrence.rules) {
+    for (const occurrence of expandRule(rule, recurrence.dtstart, after, recurrence.timeZone)) {
+      if (best !== null && occurrence >= best) break;
+      if (occurrence > after && !excluded.has(occurrence)) {
+        best = occurrence;
+        break;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Get the latest occurrence at or before `at`, or null if there is none
+ * (looking back at most two years).
+ */
+export function previousOccurrence(recurrence: Recurrence, at: number): number | null {
+  for (let window = DAY_MS; window <= MAX_LOOKBACK_MS; window *= 2) {
+    let cursor = Math.max(at - window, recurrence.dtstart - 1);
+    let latest: number | null = null;
+
+    for (;;) {
+      const next = nextOccurrence(recurrence, cursor);
+      if (next === null || next > at) break;
+      latest = next;
+      cursor = next;
+    }
+
+    if (latest !== null || at - window < recurrence.dtstart) return latest;
+  }
+
+  return null;
+}
+
+/**
+ * List up to `limit` occurrences strictly after `after`, in order.
+ */
+export function listOccurrences(recurrence: Recurrence, after: number, limit: number): number[] {
+  const result: number[] = [];
+  let cursor = after;
+
+  while (result.length < limit) {
+    const next = nextOccurrence(recurrence, cursor);
+    if (next === null) break;
+    result.push(next);
+    cursor = next;
+  }
+
+  return result;
+}
+
+/**
+ * Default series anchor for a reminder created at `time` (HH:MM).
+ * Daily-or-slower rules start at the next wall-clock `time`, so COUNT=1 means
+ * "the next 09:00". Sub-daily rules start today so they still ring later today,
+ * and rules that pin their own BYHOUR/BYMINUTE start from the current minute.
+ * `time` is read as wall-clock time in `timeZone` (device zone if omitted).
+ */
+export function defaultDtstart(
+  time: string,
+  rules: RecurrenceRule[],
+  now: number = Date.now(),
+  timeZone?: string
+): number {
+  if (rules.length > 0 && rules.every(r => r.byHour?.length && r.byMinute?.length)) {
+    return Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  }
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const today = toWallTime(now, timeZone);
+  const todayNumber = toDayNumber(today.year, today.month, today.day);
+  const candidate = fromWallTime(todayNumber, hours, minutes, timeZone);
+
+  const subDaily = rules.some(r => r.freq === 'HOURLY' || r.freq === 'MINUTELY');
+  if (candidate <= now && !subDaily) {
+    return fromWallTime(todayNumber + 1, hours, minutes, timeZone);
+  }
+
+  return candidate;
+}
+
+/**
+ * Calendar date key (YYYY-MM-DD) of a timestamp, in the given zone (device zone if omitted).
+ */
+export function toDateKey(timestamp: number, timeZone?: string): string {
+  const { year, month, day } = toWallTime(timestamp, timeZone);
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * All occurrences that fall on the given calendar days (YYYY-MM-DD).
+ * Used to turn "skip these dates" into EXDATE timestamps.
+ */
+export function occurrencesOnDays(recurrence: Recurrence, days: string[]): number[] {
+  const result: number[] = [];
+
+  for (const key of days) {
+    const [y, m, d] = key.split('-').map(Number);
+    const dayNumber = toDayNumber(y, m - 1, d);
+    const dayStart = fromWallTime(dayNumber, 0, 0, recurrence.timeZone);
+    const dayEnd = fromWallTime(dayNumber + 1, 0, 0, recurrence.timeZone);
+    let cursor = dayStart - 1;
+
+    for (;;) {
+      const next = nextOccurrence({ ...recurrence, exdates: [] }, cursor);
+      if (next === null || next >= dayEnd) break;
+      result.push(next);
+      cursor = next;
+    }
+  }
+
+  return result.sort((a, b) => a - b);
+}
+
+// ============================================================================
+// LEGACY REPEAT TYPES
+// ============================================================================
+
+export interface LegacyRepeat {
+  repeat: string;
+  customInterval?: number;
+  daysOfWeek?: number[];
+  specificTimes?: string[];
+}
+
+function rule(freq: Frequency, extra: Partial<RecurrenceRule> = {}): RecurrenceRule {
+  return { freq, interval: 1, weekStart: 1, ...extra };
+}
+
+/**
+ * Translate the old once/hourly/daily/weekly/custom model into equivalent rules.
+ */
+export function legacyRepeatToRules(legacy: LegacyRepeat): RecurrenceRule[] {
+  switch (legacy.repeat) {
+    case 'once':
+      return [rule('DAILY', { count: 1 })];
+    case 'hourly':
+      return [rule('HOURLY')];
+    case 'weekly':
+      return [rule('WEEKLY')];
+    case 'custom': {
+      if (legacy.specificTimes && legacy.specificTimes.length > 0) {
+        // Group times sharing a minute so "09:00, 14:00" is one BYHOUR rule
+        const byMinute = new Map<number, number[]>();
+        for (const time of legacy.specificTimes) {
+          const [h, m] = time.split(':').map(Number);
+          if (isNaN(h) || isNaN(m)) continue;
+          byMinute.set(m, [...(byMinute.get(m) || []), h]);
+        }
+        if (byMinute.size > 0) {
+          return [...byMinute.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([minute, hours]) => rule('DAILY', {
+              byHour: [...new Set(hours)].sort((a, b) => a - b),
+              byMinute: [minute],
+            }));
+        }
+      }
+      if (legacy.daysOfWeek && legacy.daysOfWeek.length > 0) {
+        const days = [...legacy.daysOfWeek].sort((a, b) => a - b);
+        return [rule('WEEKLY', { byDay: days.map(weekday => ({ weekday })) })];
+      }
+      if (legacy.customInterval && legacy.customInterval > 0) {
+        return legacy.customInterval % HOUR_MS === 0
+          ? [rule('HOURLY', { interval: legacy.customInterval / HOUR_MS })]
+          : [rule('MINUTELY', { interval: Math.max(1, Math.round(legacy.customInterval / MINUTE_MS)) })];
+      }
+      return [rule('DAILY')];
+    }
+    default:
+      return [rule('DAILY')];
+  }
+}
+
+// ============================================================================
+// DESCRIPTIONS
+// ============================================================================
+
+function ordinalWord(n: number): string {
+  if (n === -1) return 'last';
+  if (n === -2) return 'second-to-last';
+  const words = ['first', 'second', 'third', 'fourth', 'fifth'];
+  return words[n - 1] || `${n}th`;
+}
+
+function dayOfMonthWord(n: number): string {
+  if (n === -1) return 'the last day';
+  if (n < 0) return `${Math.abs(n)} days before the end`;
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `the ${n}${suffix}`;
+}
+
+function describeWeekdays(byDay: ByDay[], bySetPos?: number[]): string {
+  const weekdays = byDay.map(d => d.weekday).sort((a, b) => a - b);
+  const plain = byDay.every(d => d.ordinal === undefined);
+
+  if (plain && bySetPos?.length === 1) {
+    const which = ordinalWord(bySetPos[0]);
+    if (weekdays.join(',') === '1,2,3,4,5') return `the ${which} weekday`;
+    if (weekdays.join(',') === '0,6') return `the ${which} weekend day`;
+    return `the ${which} of ${weekdays.map(d => WEEKDAY_NAMES[d]).join('/')}`;
+  }
+
+  return byDay
+    .map(d => (d.ordinal !== undefined ? `the ${ordinalWord(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}` : WEEKDAY_NAMES[d.weekday].slice(0, 3)))
+    .join(', ');
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "Every 2 weeks on Tue, Thu, 10 times".
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const units: Record<Frequency, string> = {
+    MINUTELY: 'minute',
+    HOURLY: 'hour',
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+  };
+  const unit = units[rule.freq];
+  let text = rule.count === 1
+    ? 'Once'
+    : rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byMonth?.length) {
+    text += ` in ${rule.byMonth.map(m => MONTH_NAMES[m - 1].slice(0, 3)).join(', ')}`;
+  }
+  if (rule.byDay?.length) {
+    text += ` on ${describeWeekdays(rule.byDay, rule.bySetPos)}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on ${rule.byMonthDay.map(dayOfMonthWord).join(', ')}`;
+  }
+  if (rule.byHour?.length) {
+    const minutes = rule.byMinute?.length ? rule.byMinute : [0];
+    const times = rule.byHour.flatMap(h => minutes.map(m => `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`));
+    text += ` at ${times.join(', ')}`;
+  }
+  if (rule.count !== undefined && rule.count > 1) {
+    text += `, ${rule.count} times`;
+  }
+  if (rule.until !== undefined) {
+    text += `, until ${new Date(rule.until).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder } from './reminderScheduler';
+import { mergeReminders, stampReminderChanges } from './reminderMerge';
+
+const T0 = Date.UTC(2026, 9, 1, 9);
+
+function reminder(changes: Partial<Reminder> = {}): Reminder {
+  return {
+    id: 'r1',
+    title: 'Walk',
+    why: '',
+    time: '09:00',
+    repeat: 'daily',
+    nextTrigger: T0,
+    active: true,
+    createdAt: T0,
+    updatedAt: T0,
+    ...changes,
+  };
+}
+
+// A copy edited at `at`, stamped the way every local write is
+function edited(base: Reminder, changes: Partial<Reminder>, at: number): Reminder {
+  return stampReminderChanges(base, { ...base, ...changes }, at);
+}
+
+describe('stampReminderChanges', () => {
+  it('stamps only the fields that changed', () => {
+    const base = stampReminderChanges(undefined, reminder(), T0);
+    const next = edited(base, { title: 'Run' }, T0 + 1000);
+
+    expect(next.fieldVersions?.title).toBe(T0 + 1000);
+    expect(next.fieldVersions?.why).toBe(T0);
+    expect(next.updatedAt).toBe(T0 + 1000);
+  });
+});
+
+describe('mergeReminders', () => {
+  const base = stampReminderChanges(undefined, reminder(), T0);
+
+  it('keeps edits to different fields from both copies', () => {
+    const local = edited(base, { title: 'Run' }, T0 + 1000);
+    const remote = edited(base, { nextTrigger: T0 + 86400000 }, T0 + 2000);
+
+    const { merged, localChanged, remoteChanged, keptLocal, keptRemote } = mergeReminders(local, remote);
+
+    expect(merged.title).toBe('Run');
+    expect(merged.nextTrigger).toBe(T0 + 86400000);
+    expect(keptLocal).toEqual(['title']);
+    expect(keptRemote).toEqual(['nextTrigger']);
+    expect(localChanged).toBe(true);
+    expect(remoteChanged).toBe(true);
+  });
+
+  it('takes the later edit of the same field', () => {
+    const local = edited(base, { title: 'Run' }, T0 + 2000);
+    const remote = edited(base, { title: 'Swim' }, T0 + 1000);
+    expect(mergeReminders(local, remote).merged.title).toBe('Run');
+  });
+
+  it('breaks a tie in favour of the remote copy', () => {
+    const local = edited(base, { title: 'Run' }, T0 + 1000);
+    const remote = edited(base, { title: 'Swim' }, T0 + 1000);
+
+    const { merged, localChanged, remoteChanged } = mergeReminders(local, remote);
+
+    expect(merged.title).toBe('Swim');
+    expect(localChanged).toBe(true);
+    expect(remoteChanged).toBe(false);
+  });
+
+  it('treats empty values from the cloud as equal to local ones', () => {
+    const remote = { ...base, why: null as unknown as string, fieldVersions: undefined, updatedAt: T0 + 5000 };
+    const { localChanged, remoteChanged } = mergeReminders(base, remote);
+    expect(localChanged).toBe(false);
+    expect(remoteChanged).toBe(false);
+  });
+
+  it('lets a deletion win over earlier edits', () => {
+    const local = edited(base, { title: 'Run' }, T0 + 1000);
+    const remote = { ...base, deletedAt: T0 + 2000, updatedAt: T0 + 2000 };
+
+    const { merged, localChanged, remoteChanged } = mergeReminders(local, remote);
+
+    expect(merged.deletedAt).toBe(T0 + 2000);
+    expect(merged.active).toBe(false);
+    expect(localChanged).toBe(true);
+    // The local title is newer, so the remote copy is rewritten too - still deleted
+    expect(remoteChanged).toBe(true);
+  });
+
+  it('brings a deleted reminder back when the other copy was edited after the deletion', () => {
+    const local = { ...base, deletedAt: T0 + 1000, updatedAt: T0 + 1000 };
+    const remote = edited(base, { title: 'Run' }, T0 + 2000);
+
+    const { merged, keptRemote } = mergeReminders(local, remote);
+
+    expect(merged.deletedAt).toBeUndefined();
+    expect(merged.title).toBe('Run');
+    expect(keptRemote).toContain('deletedAt');
+  });
+
+  it("doesn't count the scheduler moving nextTrigger as an edit after a deletion", () => {
+    const local = { ...base, deletedAt: T0 + 1000, updatedAt: T0 + 1000 };
+    const remote = edited(base, { nextTrigger: T0 + 86400000 }, T0 + 2000);
+
+    expect(mergeReminders(local, remote).merged.deletedAt).toBe(T0 + 1000);
+  });
+
+  it('keeps the later of two tombstones', () => {
+    const local = { ...base, deletedAt: T0 + 1000 };
+    const remote = { ...base, deletedAt: T0 + 2000 };
+
+    const { merged, localChanged, remoteChanged } = mergeReminders(local, remote);
+
+    expect(merged.deletedAt).toBe(T0 + 2000);
+    expect(localChanged).toBe(true);
+    expect(remoteChanged).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Reminder Versioning & Merge
+ *
+ * Every synced field of a reminder carries the time it last changed
+ * (`fieldVersions`). When two copies of a reminder meet during sync, each
+ * field is resolved independently and the most recent write wins, so moving
+ * nextTrigger on one device no longer overwrites a title edited on another.
+ *
+ * Deletions are tombstones (`deletedAt`). A deletion wins over every edit
+ * made before it; an edit made after it brings the reminder back.
+ */
+
+import { Reminder } from './reminderScheduler';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Fields stored in the Supabase reminders table. Everything else (snooze
+// state, streaks) is device-local and never merged.
+export const SYNCED_REMINDER_FIELDS = [
+  'title',
+  'why',
+  'time',
+  'nextTrigger',
+  'repeat',
+  'daysOfWeek',
+  'customInterval',
+  'specificTimes',
+  'rrule',
+  'dtstart',
+  'exdates',
+  'timeZone',
+  'timeZoneMode',
+  'active',
+  'audioRecording',
+  'audioAssetId',
+  'useCustomAudio',
+  'messageIds',
+  'messageRotation',
+  'escalationPolicy',
+  'shareWithPartners',
+] as const;
+
+export type SyncedReminderField = typeof SYNCED_REMINDER_FIELDS[number];
+
+export interface ReminderMerge {
+  merged: Reminder;
+  localChanged: boolean; // The local copy must be replaced by `merged`
+  remoteChanged: boolean; // The remote copy must be replaced by `merged`
+  keptLocal: string[]; // Differing fields resolved in favour of the local copy
+  keptRemote: string[]; // Differing fields resolved in favour of the remote copy
+}
+
+// ============================================================================
+// VERSIONS
+// ============================================================================
+
+/**
+ * When a field last changed. Copies saved before field versions existed
+ * fall back to the whole reminder's update (or creation) time.
+ */
+export function getFieldVersion(reminder: Reminder, field: SyncedReminderField): number {
+  return reminder.fieldVersions?.[field] ?? reminder.updatedAt ?? reminder.createdAt ?? 0;
+}
+
+// Empty values are stored differently locally ('' / undefined / false) and
+// in the cloud (null), so they compare equal
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === null || value === '' || value === false || value === 0) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? null : JSON.stringify(value, sortKeys);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, sortKeys);
+  }
+  return value;
+}
+
+// JSONB columns don't keep key order, so objects are compared with sorted keys
+function sortKeys(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return normalizeValue(a) === normalizeValue(b);
+}
+
+/**
+ * Stamp the fields that differ from the stored copy with `now`.
+ * Called on every local write, so the versions always describe local edits.
+ */
+export function stampReminderChanges(
+  previous: Reminder | undefined,
+  next: Reminder,
+  now: number = Date.now()
+): Reminder {
+  const fieldVersions: Record<string, number> = {};
+  let changed = !previous;
+
+  for (const field of SYNCED_REMINDER_FIELDS) {
+    if (!previous || !sameValue(previous[field], next[field])) {
+      fieldVersions[field] = now;
+      changed = true;
+    } else {
+      fieldVersions[field] = getFieldVersion(previous, field);
+    }
+  }
+
+  return {
+    ...next,
+    fieldVersions,
+    updatedAt: changed || !previous ? now : previous.updatedAt ?? previous.createdAt,
+  };
+}
+
+/**
+ * Latest edit to a reminder. nextTrigger is left out: the scheduler moves it
+ * on every occurrence, which shouldn't count as editing a deleted reminder.
+ */
+export function getLatestEditVersion(reminder: Reminder): number {
+  return Math.max(
+    ...SYNCED_REMINDER_FIELDS
+      .filter(field => field !== 'nextTrigger')
+      .map(field => getFieldVersion(reminder, field))
+  );
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * Merge two copies of the same reminder field by field.
+ * Ties go to the remote copy, which other devices have already seen.
+ */
+export function mergeReminders(local: Reminder, remote: Reminder): ReminderMerge {
+  // Device-local fields always come from the local copy
+  const merged: Reminder = { ...local };
+  const fieldVersions: Record<string, number> = {};
+  const keptLocal: string[] = [];
+  const keptRemote: string[] = [];
+
+  for (const field of SYNCED_REMINDER_FIELDS) {
+    const localVersion = getFieldVersion(local, field);
+    const remoteVersion = getFieldVersion(remote, field);
+
+    if (sameValue(local[field], remote[field])) {
+      fieldVersions[field] = Math.max(localVersion, remoteVersion);
+    } else if (remoteVersion >= localVersion) {
+      (merged as unknown as Record<string, unknown>)[field] = remote[field];
+      fieldVersions[field] = remoteVersion;
+      keptRemote.push(field);
+    } else {
+      fieldVersions[field] = localVersion;
+      keptLocal.push(field);
+    }
+  }
+
+  merged.fieldVersions = fieldVersions;
+  merged.updatedAt = Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0, ...Object.values(fieldVersions));
+
+  // A deletion wins unless the other copy was edited after it
+  const deletedAt = Math.max(local.deletedAt ?? 0, remote.deletedAt ?? 0) || undefined;
+  if (deletedAt !== undefined) {
+    const survivor = local.deletedAt ? (remote.deletedAt ? undefined : remote) : local;
+    if (survivor && getLatestEditVersion(survivor) > deletedAt) {
+      merged.deletedAt = undefined;
+      (survivor === local ? keptLocal : keptRemote).push('deletedAt');
+    } else {
+      merged.deletedAt = deletedAt;
+      merged.active = false;
+    }
+  }
+
+  const localDeletionChanged = (merged.deletedAt ?? 0) !== (local.deletedAt ?? 0);
+  const remoteDeletionChanged = (merged.deletedAt ?? 0) !== (remote.deletedAt ?? 0);
+
+  return {
+    merged,
+    localChanged: keptRemote.length > 0 || localDeletionChanged,
+    remoteChanged: keptLocal.length > 0 || remoteDeletionChanged,
+    keptLocal,
+    keptRemote,
+  };
+}
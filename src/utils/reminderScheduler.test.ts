@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Reminder, advanceAfterFiring, snoozeReminder } from './reminderScheduler';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const START = Date.UTC(2026, 9, 1, 9); // Thu 1 Oct 2026, 09:00 UTC
+
+function dailyReminder(): Reminder {
+  return {
+    id: 'r1',
+    title: 'Walk',
+    why: '',
+    time: '09:00',
+    repeat: 'daily',
+    rrule: 'FREQ=DAILY',
+    dtstart: START,
+    timeZone: 'UTC',
+    nextTrigger: START,
+    active: true,
+    createdAt: START,
+  };
+}
+
+describe('advanceAfterFiring', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('moves on to the next occurrence', () => {
+    vi.setSystemTime(START);
+    expect(advanceAfterFiring(dailyReminder()).nextTrigger).toBe(START + DAY);
+  });
+
+  it('clears the snooze once a snoozed occurrence rings: snooze -> fire -> next occurrence', () => {
+    vi.setSystemTime(START);
+    const snoozed = snoozeReminder(snoozeReminder(dailyReminder(), 10), 10);
+    expect(snoozed.snoozeCount).toBe(2);
+    expect(snoozed.originalNextTrigger).toBe(START);
+
+    vi.setSystemTime(snoozed.nextTrigger);
+    const advanced = advanceAfterFiring(snoozed);
+
+    expect(advanced.nextTrigger).toBe(START + DAY);
+    expect(advanced.snoozeCount).toBeUndefined();
+    expect(advanced.snoozedUntil).toBeUndefined();
+    expect(advanced.originalNextTrigger).toBeUndefined();
+
+    // The next occurrence starts counting snoozes afresh
+    vi.setSystemTime(START + DAY);
+    expect(snoozeReminder(advanced, 10).snoozeCount).toBe(1);
+    expect(snoozeReminder(advanced, 10).originalNextTrigger).toBe(START + DAY);
+  });
+
+  it('fast-forwards past occurrences missed while the app was closed', () => {
+    vi.setSystemTime(START + 3 * DAY + MINUTE);
+    expect(advanceAfterFiring(dailyReminder()).nextTrigger).toBe(START + 4 * DAY);
+  });
+
+  it('switches off a series that has ended', () => {
+    vi.setSystemTime(START);
+    const advanced = advanceAfterFiring({ ...dailyReminder(), rrule: 'FREQ=DAILY;COUNT=1' });
+    expect(advanced.active).toBe(false);
+  });
+});
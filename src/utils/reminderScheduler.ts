@@ -5,17 +5,38 @@
  * All timestamps are stored and compared in UTC to avoid timezone drift.
  */
 
+import {
+  Recurrence,
+  defaultDtstart,
+  formatRecurrenceRules,
+  legacyRepeatToRules,
+  nextOccurrence,
+  parseRecurrenceRules,
+} from './recurrence';
+import { MessageRotation } from './messageRotation';
+import type { EscalationPolicy } from './escalationPolicy';
+import { getDeviceTimeZone, isValidTimeZone, shiftWallTimeToZone } from './timeZone';
+
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
 export type RepeatType = "once" | "hourly" | "daily" | "weekly" | "custom";
 
+// How a reminder's wall-clock time is interpreted:
+// - device: follow whatever zone this device is in (re-anchored when it changes)
+// - pinned: always the zone in `timeZone`, wherever the device is
+// - recipient: the recipient's local zone (reminders sent to others)
+export type TimeZoneMode = "device" | "pinned" | "recipient";
+
+// Worked out from the occurrence log, see utils/streaks.ts
 export interface StreakData {
-  count: number; // Current consecutive days completed
-  lastCompletedDate?: string; // YYYY-MM-DD format
+  count: number; // Current consecutive scheduled occurrences completed
+  lastCompletedDate?: string; // YYYY-MM-DD of the last completed occurrence, in the reminder's zone
+  lastCompletedOccurrence?: number; // UTC timestamp of the last completed occurrence
   longestStreak: number; // Personal best streak
   totalCompletions: number; // Total number of times completed
+  freezeTokens?: number; // Streak freezes available to cover missed occurrences
 }
 
 export interface Reminder {
@@ -31,14 +52,29 @@ export interface Reminder {
   customInterval?: number; // Optional: for custom repeat (in milliseconds) - used for "every X hours"
   daysOfWeek?: number[]; // Optional: specific days (0-6, Sun-Sat) for "specific days" repeat
   specificTimes?: string[]; // Optional: multiple times for "specific times" repeat (e.g., ["09:00", "14:00", "18:00"])
-  audioRecording?: string; // Optional: base64-encoded audio blob for self-recorded messages
+  // RFC 5545 recurrence (takes precedence over the legacy repeat fields above)
+  rrule?: string; // One or more newline-separated RRULE values, e.g. "FREQ=MONTHLY;BYDAY=1MO"
+  dtstart?: number; // UTC timestamp the series is anchored at
+  exdates?: number[]; // UTC timestamps of skipped occurrences
+  timeZone?: string; // IANA zone the series' wall-clock times are in (e.g. "Africa/Lagos")
+  timeZoneMode?: TimeZoneMode; // Defaults to "device"
+  audioAssetId?: string; // Optional: self-recorded message in the audio asset store (see services/audioAssets.ts)
+  audioRecording?: string; // Legacy base64 recording; moved into the audio store on load (DB version 8)
   useCustomAudio?: boolean; // Whether to use custom audio instead of AI TTS
+  messageIds?: string[]; // Library messages to rotate through; take precedence over the above
+  messageRotation?: MessageRotation; // How the next message is picked (default: least-recent)
+  escalationPolicy?: EscalationPolicy; // What happens as calls go unanswered (default: recall settings only)
+  shareWithPartners?: boolean; // Accountability partners are alerted when it's missed (default: private)
   // Snooze support
   snoozedUntil?: number; // UTC timestamp when snooze expires
   snoozeCount?: number; // Number of times snoozed for this occurrence
   originalNextTrigger?: number; // Store original trigger time before snooze
   // Streak tracking
   streak?: StreakData;
+  // Sync versioning (field-level last-writer-wins, see reminderMerge.ts)
+  updatedAt?: number; // UTC timestamp of the last change to any synced field
+  deletedAt?: number; // Tombstone: set on delete, kept until the deletion has synced
+  fieldVersions?: Record<string, number>; // UTC timestamp each synced field last changed
 }
 
 // ============================================================================
@@ -46,180 +82,69 @@ export interface Reminder {
 // ============================================================================
 
 /**
- * Computes the next trigger timestamp for a reminder.
- *
- * @param reminder - The reminder object containing time and repeat settings
- * @returns UTC timestamp (in ms) of the next scheduled occurrence
- *
- * Logic:
- * 1. Parse the time string into hours/minutes
- * 2. Create a Date object for today at that time
- * 3. If the time has already passed, increment by the repeat interval
- * 4. Return the UTC timestamp
+ * Build the recurrence set for a reminder.
+ * Reminders saved before RRULE support are translated from their legacy
+ * repeat fields on the fly, anchored at their current trigger time.
  */
-export function computeNextTrigger(reminder: Reminder): number {
-  const now = Date.now();
-
-  // Handle specific times (multiple times per day)
-  if (reminder.repeat === 'custom' && reminder.specificTimes && reminder.specificTimes.length > 0) {
-    return computeNextTriggerForSpecificTimes(reminder.specificTimes, now);
-  }
-
-  // Handle specific days
-  if (reminder.repeat === 'custom' && reminder.daysOfWeek && reminder.daysOfWeek.length > 0) {
-    return computeNextTriggerForSpecificDays(reminder.time, reminder.daysOfWeek, now);
-  }
-
-  const [hours, minutes] = reminder.time.split(':').map(Number);
-
-  // Validate time format
-  if (isNaN(hours) || isNaN(minutes) || hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-    console.error(`Invalid time format: ${reminder.time}`);
-    return now + 60000; // Default to 1 minute from now if invalid
-  }
-
-  // Create a date object for today at the specified time
-  const nextDate = new Date();
-  nextDate.setHours(hours, minutes, 0, 0);
-
-  let nextTrigger = nextDate.getTime();
-
-  // If the time has already passed today, calculate next occurrence
-  if (nextTrigger <= now) {
-    switch (reminder.repeat) {
-      case "once":
-        // For one-time reminders, if time passed, set to tomorrow same time
-        nextDate.setDate(nextDate.getDate() + 1);
-        nextTrigger = nextDate.getTime();
-        break;
-
-      case "hourly":
-        // Find the next hour boundary from now
-        const hoursToAdd = Math.ceil((now - nextTrigger) / (60 * 60 * 1000));
-        nextDate.setHours(nextDate.getHours() + hoursToAdd);
-        nextTrigger = nextDate.getTime();
-        break;
-
-      case "daily":
-        // Set to tomorrow at the same time
-        nextDate.setDate(nextDate.getDate() + 1);
-        nextTrigger = nextDate.getTime();
-        break;
-
-      case "weekly":
-        // Set to next week, same day and time
-        nextDate.setDate(nextDate.getDate() + 7);
-        nextTrigger = nextDate.getTime();
-        break;
-
-      case "custom":
-        // Use custom interval if provided (every X hours), otherwise default to daily
-        if (reminder.customInterval && reminder.customInterval > 0) {
-          const intervalsToAdd = Math.ceil((now - nextTrigger) / reminder.customInterval);
-          nextTrigger = nextTrigger + (intervalsToAdd * reminder.customInterval);
-        } else {
-          nextDate.setDate(nextDate.getDate() + 1);
-          nextTrigger = nextDate.getTime();
-        }
-        break;
+export function getReminderRecurrence(reminder: Reminder): Recurrence {
+  const rules = reminder.rrule
+    ? parseRecurrenceRules(reminder.rrule, reminder.timeZone)
+    : legacyRepeatToRules(reminder);
 
-      default:
-        // Default to daily if unknown repeat type
-        nextDate.setDate(nextDate.getDate() + 1);
-        nextTrigger = nextDate.getTime();
-    }
-  }
+  const anchor = reminder.originalNextTrigger || reminder.nextTrigger;
+  const dtstart = reminder.dtstart
+    ?? (anchor > 0 ? anchor : defaultDtstart(reminder.time, rules, Date.now(), reminder.timeZone));
 
-  return nextTrigger;
+  return { rules, dtstart, exdates: reminder.exdates, timeZone: reminder.timeZone };
 }
 
 /**
- * Computes next trigger for reminders with specific times (e.g., 9am, 2pm, 6pm)
+ * Fill in `rrule` and `dtstart` for a reminder that only has legacy repeat fields.
+ * Reminders that already carry a rule are returned unchanged.
  */
-function computeNextTriggerForSpecificTimes(times: string[], now: number): number {
-  const today = new Date();
-  const triggers: number[] = [];
-
-  // Filter and sort valid times chronologically
-  const validTimes = times.filter(t => {
-    if (!t || typeof t !== 'string') return false;
-    const parts = t.split(':');
-    if (parts.length !== 2) return false;
-    const [h, m] = parts.map(Number);
-    return !isNaN(h) && !isNaN(m) && h >= 0 && h <= 23 && m >= 0 && m <= 59;
-  });
-
-  // If no valid times, return 1 minute from now as fallback
-  if (validTimes.length === 0) {
-    console.warn('No valid times provided for specific times reminder');
-    return now + 60000;
-  }
-
-  const sortedTimes = [...validTimes].sort();
-
-  // Check each time for today
-  for (const timeStr of sortedTimes) {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-
-    const triggerDate = new Date(today);
-    triggerDate.setHours(hours, minutes, 0, 0);
-
-    if (triggerDate.getTime() > now) {
-      triggers.push(triggerDate.getTime());
-    }
+export function migrateLegacyRepeat<T extends Reminder>(reminder: T): T {
+  if (reminder.rrule) {
+    return reminder;
   }
 
-  // If no times left today, get first time tomorrow
-  if (triggers.length === 0) {
-    const firstTime = sortedTimes[0];
-    const [hours, minutes] = firstTime.split(':').map(Number);
-    const tomorrowDate = new Date(today);
-    tomorrowDate.setDate(tomorrowDate.getDate() + 1);
-    tomorrowDate.setHours(hours, minutes, 0, 0);
-    return tomorrowDate.getTime();
+  try {
+    const { rules, dtstart } = getReminderRecurrence(reminder);
+    return { ...reminder, rrule: formatRecurrenceRules(rules), dtstart };
+  } catch {
+    return reminder;
   }
-
-  // Return the earliest upcoming time
-  return Math.min(...triggers);
 }
 
 /**
- * Computes next trigger for reminders on specific days (e.g., Mon, Wed, Fri)
+ * Computes the next trigger timestamp for a reminder.
+ *
+ * @param reminder - The reminder object containing time and recurrence settings
+ * @returns UTC timestamp (in ms) of the next scheduled occurrence
+ *
+ * Logic:
+ * 1. Build the reminder's recurrence set (RRULEs + DTSTART - EXDATEs)
+ * 2. Return the first occurrence after now
  */
-function computeNextTriggerForSpecificDays(time: string, days: number[], now: number): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  if (isNaN(hours) || isNaN(minutes)) {
-    return now + 60000; // Fallback
-  }
-
-  const today = new Date();
-  const currentDay = today.getDay(); // 0 = Sunday, 6 = Saturday
-
-  // Sort days
-  const sortedDays = [...days].sort((a, b) => a - b);
+export function computeNextTrigger(reminder: Reminder): number {
+  const now = Date.now();
 
-  // Check if today is a valid day and time hasn't passed
-  if (sortedDays.includes(currentDay)) {
-    const todayTrigger = new Date(today);
-    todayTrigger.setHours(hours, minutes, 0, 0);
-    if (todayTrigger.getTime() > now) {
-      return todayTrigger.getTime();
-    }
+  // Validate time format
+  if (!isValidTimeFormat(reminder.time)) {
+    console.error(`Invalid time format: ${reminder.time}`);
+    return now + 60000; // Default to 1 minute from now if invalid
   }
 
-  // Find the next valid day
-  for (let i = 1; i <= 7; i++) {
-    const checkDay = (currentDay + i) % 7;
-    if (sortedDays.includes(checkDay)) {
-      const nextDate = new Date(today);
-      nextDate.setDate(nextDate.getDate() + i);
-      nextDate.setHours(hours, minutes, 0, 0);
-      return nextDate.getTime();
+  try {
+    const nextTrigger = nextOccurrence(getReminderRecurrence(reminder), now);
+    if (nextTrigger !== null) {
+      return nextTrigger;
     }
+    console.warn(`Recurrence for "${reminder.title}" has no upcoming occurrences`);
+  } catch (error) {
+    console.error(`Invalid recurrence rule for "${reminder.title}":`, error);
   }
 
-  // Fallback: shouldn't reach here if days array is valid
-  return now + 24 * 60 * 60 * 1000;
+  return now + 60000; // Fallback
 }
 
 /**
@@ -227,68 +152,65 @@ function computeNextTriggerForSpecificDays(time: string, days: number[], now: nu
  * This is used to reschedule recurring reminders.
  *
  * @param reminder - The reminder that was just triggered
- * @returns UTC timestamp (in ms) of the next occurrence, or null if one-time reminder
+ * @returns UTC timestamp (in ms) of the next occurrence, or null if the series has ended
  */
 export function computeNextRecurrence(reminder: Reminder): number | null {
-  // One-time reminders don't recur
-  if (reminder.repeat === "once") {
-    return null;
-  }
-
   const now = Date.now();
 
-  // For custom repeats with specific times or days, use computeNextTrigger
-  if (reminder.repeat === 'custom') {
-    if (reminder.specificTimes && reminder.specificTimes.length > 0) {
-      return computeNextTriggerForSpecificTimes(reminder.specificTimes, now);
-    }
-    if (reminder.daysOfWeek && reminder.daysOfWeek.length > 0) {
-      return computeNextTriggerForSpecificDays(reminder.time, reminder.daysOfWeek, now);
-    }
+  try {
+    // If we're significantly behind (e.g., app was closed), fast-forward past now
+    return nextOccurrence(getReminderRecurrence(reminder), Math.max(reminder.nextTrigger, now));
+  } catch (error) {
+    console.error(`Invalid recurrence rule for "${reminder.title}":`, error);
+    return null;
   }
+}
 
-  const currentTrigger = reminder.nextTrigger;
-  let nextTrigger: number;
-
-  switch (reminder.repeat) {
-    case "hourly":
-      // Add 1 hour to the current trigger time
-      nextTrigger = currentTrigger + (60 * 60 * 1000);
-      break;
-
-    case "daily":
-      // Add 1 day to the current trigger time
-      nextTrigger = currentTrigger + (24 * 60 * 60 * 1000);
-      break;
-
-    case "weekly":
-      // Add 7 days to the current trigger time
-      nextTrigger = currentTrigger + (7 * 24 * 60 * 60 * 1000);
-      break;
-
-    case "custom":
-      // Use custom interval if provided (every X hours)
-      if (reminder.customInterval && reminder.customInterval > 0) {
-        nextTrigger = currentTrigger + reminder.customInterval;
-      } else {
-        // Default to daily if no custom interval
-        nextTrigger = currentTrigger + (24 * 60 * 60 * 1000);
-      }
-      break;
+/**
+ * The reminder as it should be stored once its due occurrence has rung:
+ * moved on to the next occurrence (or switched off if the series has ended),
+ * with any snooze of the occurrence that just rang cleared.
+ */
+export function advanceAfterFiring(reminder: Reminder): Reminder {
+  const nextTrigger = computeNextRecurrence(reminder);
 
-    default:
-      // Default to daily
-      nextTrigger = currentTrigger + (24 * 60 * 60 * 1000);
-  }
+  return nextTrigger === null
+    // Series has ended (one-time, COUNT or UNTIL reached) - deactivate it
+    ? clearSnooze({ ...reminder, active: false })
+    : clearSnooze({ ...reminder, nextTrigger });
+}
 
-  // Ensure the next trigger is in the future
-  // If we're significantly behind (e.g., app was closed), fast-forward
-  if (nextTrigger <= now) {
-    const updatedReminder = { ...reminder, nextTrigger };
-    return computeNextTrigger(updatedReminder);
+/**
+ * Move a reminder to another zone, keeping the same wall-clock time.
+ * A daily 09:00 reminder rezoned from Lagos to London still rings at 09:00,
+ * now London time. Snoozes are absolute and keep their UTC time.
+ */
+export function rezoneReminder<T extends Reminder>(reminder: T, timeZone: string): T {
+  if (reminder.timeZone === timeZone) {
+    return reminder;
   }
 
-  return nextTrigger;
+  const from = reminder.timeZone;
+  const shift = (timestamp: number) => shiftWallTimeToZone(timestamp, from, timeZone);
+  const { dtstart } = getReminderRecurrence(reminder);
+  const snoozed = !!reminder.snoozedUntil && reminder.nextTrigger === reminder.snoozedUntil;
+
+  return {
+    ...reminder,
+    timeZone,
+    dtstart: shift(dtstart),
+    exdates: reminder.exdates?.map(shift),
+    nextTrigger: snoozed ? reminder.nextTrigger : shift(reminder.nextTrigger),
+    originalNextTrigger: reminder.originalNextTrigger ? shift(reminder.originalNextTrigger) : undefined,
+  };
+}
+
+/**
+ * Whether a "follow my device" reminder needs re-anchoring to the device's zone,
+ * either because the device moved or because it predates time zone support.
+ */
+export function needsDeviceRezone(reminder: Reminder, deviceZone: string = getDeviceTimeZone()): boolean {
+  return (reminder.timeZoneMode ?? 'device') === 'device' && reminder.timeZone !== deviceZone;
 }
 
 // ============================================================================
@@ -309,173 +231,159 @@ export async function triggerReminder(reminder: Reminder): Promise<void> {
   );
 }
 
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+export interface SchedulerStore {
+  getNextReminder: () => Promise<Reminder | undefined>; // Active reminder due soonest
+  getDueReminders: (now: number) => Promise<Reminder[]>; // Active reminders due by `now`
+  getAllReminders: () => Promise<Reminder[]>; // For re-zoning after the device moves
+  updateReminder: (reminder: Reminder) => Promise<void>;
+  logDueOccurrences: (reminder: Reminder, from: number, through: number) => Promise<void>; // Occurrence log (see utils/occurrences.ts)
+  onRemindersChanged: (listener: () => void) => () => void;
+}
+
+// Longest the timer is armed for. setTimeout runs on elapsed time, so this
+// bounds how long a wall-clock jump can go unnoticed.
+const MAX_TIMER_MS = 60 * 1000;
+// A timer firing this much later than armed means the device slept or the clock jumped
+const LATE_TIMER_MS = 2000;
+
+let schedulerTimer: ReturnType<typeof setTimeout> | null = null;
+
 /**
- * Initiate an AI voice call using OpenAI API with TTS (Nigerian voice)
- * This is called ONLY when user answers the call
+ * Starts the reminder scheduler. Instead of polling, it looks up the next due
+ * reminder and arms a single timer for it, re-arming whenever reminders change.
+ * 
+ * @param store - Reminder queries and change notifications (see db/reminderDB.ts)
+ * 
+ * @returns Function to stop the scheduler
  */
-export async function initiateAIVoiceCall(reminder: Reminder, settings: any): Promise<void> {
-  // OPTIMIZED: Simpler prompt for faster response
-  const prompt = `Reminder: ${reminder.title}. ${reminder.why || 'Time to act!'}`;
+export function startReminderScheduler(store: SchedulerStore): () => void {
+  // Clear any existing scheduler
+  if (schedulerTimer) {
+    clearTimeout(schedulerTimer);
+    schedulerTimer = null;
+  }
 
-  try {
-    // Step 1: Get AI-generated text - USING GPT-3.5-TURBO FOR SPEED
-    const chatResponse = await fetch(settings.apiEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${settings.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-3.5-turbo',  // FASTER than GPT-4 (3-5x speed improvement)
-        messages: [
-          {
-            role: 'system',
-            content: 'You are making a quick reminder call. Say "Hello!" then deliver the reminder in 1 brief sentence with Nigerian warmth.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 50,  // REDUCED from 150 for speed
-        temperature: 0.7,
-      }),
-    });
-
-    if (!chatResponse.ok) {
-      throw new Error(`Chat API failed: ${chatResponse.status}`);
-    }
+  let stopped = false;
+  let checking = false;
+  let recheck = false;
+  let rezonePending = false;
+  let expectedFireAt: number | null = null;
 
-    const chatData = await chatResponse.json();
-    const aiMessage = chatData.choices[0]?.message?.content || '';
-
-    // Step 2: Convert text to speech using OpenAI TTS
-    const ttsResponse = await fetch('https://api.openai.com/v1/audio/speech', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${settings.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'tts-1',  // Fast TTS model
-        input: aiMessage,
-        voice: 'onyx', // Deep, warm voice - closest to Nigerian accent
-        speed: 1.0,  // Normal speed for clarity
-      }),
-    });
-
-    if (!ttsResponse.ok) {
-      throw new Error(`TTS API failed: ${ttsResponse.status}`);
-    }
+  // Device moved to another zone - keep "follow my device" reminders at the same local time
+  async function rezoneReminders() {
+    const deviceZone = getDeviceTimeZone();
+    const reminders = await store.getAllReminders();
 
-    // Step 3: Play the audio
-    const audioBlob = await ttsResponse.blob();
-    const audioUrl = URL.createObjectURL(audioBlob);
-    const audio = new Audio(audioUrl);
+    for (const reminder of reminders) {
+      if (reminder.active && needsDeviceRezone(reminder, deviceZone)) {
+        await store.updateReminder(rezoneReminder(reminder, deviceZone));
+      }
+    }
+  }
 
-    // Dispatch event when speaking starts
-    window.dispatchEvent(new CustomEvent('aiSpeakingStart'));
+  async function fireDueReminders() {
+    const now = Date.now();
+    const dueReminders = await store.getDueReminders(now);
 
-    audio.onended = () => {
-      window.dispatchEvent(new CustomEvent('aiSpeakingEnd'));
-      URL.revokeObjectURL(audioUrl);
-    };
+    for (const reminder of dueReminders) {
+      // Log this occurrence and any skipped since, so ones that never rang count as missed
+      await store.logDueOccurrences(reminder, reminder.originalNextTrigger ?? reminder.nextTrigger, now);
 
-    audio.onerror = () => {
-      window.dispatchEvent(new CustomEvent('aiSpeakingEnd'));
-      URL.revokeObjectURL(audioUrl);
-    };
+      // Trigger the reminder (the ringing copy keeps its snooze count for the call)
+      triggerReminder(reminder);
 
-    try {
-      await audio.play();
-    } catch (playError) {
-      // Handle autoplay restriction or other audio errors
-      window.dispatchEvent(new CustomEvent('aiSpeakingEnd'));
-      URL.revokeObjectURL(audioUrl);
-      console.warn('Audio playback failed:', playError);
+      // Move on to the next occurrence
+      await store.updateReminder(advanceAfterFiring(reminder));
     }
-
-  } catch (error) {
-    throw error;
   }
-}
 
-// ============================================================================
-// SCHEDULER
-// ============================================================================
+  async function armTimer() {
+    const next = await store.getNextReminder();
+    if (stopped) return;
 
-let schedulerInterval: ReturnType<typeof setInterval> | null = null;
+    if (schedulerTimer) {
+      clearTimeout(schedulerTimer);
+    }
 
-/**
- * Starts the reminder scheduler that checks for due reminders every 5 seconds.
- * 
- * @param getAllReminders - Function to fetch all reminders from IndexedDB
- * @param updateReminder - Function to update a reminder in IndexedDB
- * @param checkInterval - How often to check for due reminders (ms), default 5000ms
- * 
- * @returns Function to stop the scheduler
- */
-export function startReminderScheduler(
-  getAllReminders: () => Promise<Reminder[]>,
-  updateReminder: (reminder: Reminder) => Promise<void>,
-  checkInterval: number = 5000
-): () => void {
-  // Clear any existing scheduler
-  if (schedulerInterval) {
-    clearInterval(schedulerInterval);
-  }
+    // Still due after firing means its update didn't stick - retry shortly rather than spin
+    const untilNext = next ? next.nextTrigger - Date.now() : MAX_TIMER_MS;
+    const delay = untilNext > 0 ? Math.min(untilNext, MAX_TIMER_MS) : 1000;
 
-  // Check immediately on start
-  checkReminders();
+    expectedFireAt = Date.now() + delay;
+    schedulerTimer = setTimeout(handleTimer, delay);
+  }
 
-  // Then check at regular intervals
-  schedulerInterval = setInterval(checkReminders, checkInterval);
+  /**
+   * Fire whatever is due and re-arm. Overlapping requests (e.g. change events
+   * from our own updates) are folded into one follow-up pass.
+   */
+  async function check(rezone: boolean = false) {
+    rezonePending = rezonePending || rezone;
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
 
-  async function checkReminders() {
     try {
-      const reminders = await getAllReminders();
-      const now = Date.now();
-
-      for (const reminder of reminders) {
-        // Skip inactive reminders
-        if (!reminder.active) {
-          continue;
+      do {
+        recheck = false;
+        if (rezonePending) {
+          rezonePending = false;
+          await rezoneReminders();
         }
-
-        // Check if reminder is due
-        if (now >= reminder.nextTrigger) {
-          // Trigger the reminder
-          triggerReminder(reminder);
-
-          // Calculate next occurrence
-          const nextTrigger = computeNextRecurrence(reminder);
-
-          if (nextTrigger === null) {
-            // One-time reminder - deactivate it
-            await updateReminder({
-              ...reminder,
-              active: false,
-            });
-          } else {
-            // Recurring reminder - update next trigger time
-            await updateReminder({
-              ...reminder,
-              nextTrigger,
-            });
-          }
+        await fireDueReminders();
+        if (!stopped) {
+          await armTimer();
         }
-      }
+      } while (recheck && !stopped);
     } catch (error) {
       // Log error but don't throw - scheduler must keep running
       console.error('[Scheduler] Error checking reminders:', error);
+      if (!stopped) {
+        schedulerTimer = setTimeout(handleTimer, MAX_TIMER_MS);
+      }
+    } finally {
+      checking = false;
     }
   }
 
+  function handleTimer() {
+    schedulerTimer = null;
+    const late = expectedFireAt !== null && Date.now() - expectedFireAt > LATE_TIMER_MS;
+    if (late) {
+      console.log('[Scheduler] Timer fired late (sleep or clock change) - re-checking');
+    }
+    check(late);
+  }
+
+  // Back from sleep or a background tab: timers may have been throttled or frozen
+  function handleVisibilityChange() {
+    if (document.visibilityState === 'visible') {
+      check(true);
+    }
+  }
+
+  const unsubscribe = store.onRemindersChanged(() => {
+    check();
+  });
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  // Check immediately on start
+  check(true);
+
   // Return cleanup function
   return () => {
-    if (schedulerInterval) {
-      clearInterval(schedulerInterval);
-      schedulerInterval = null;
+    stopped = true;
+    unsubscribe();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    if (schedulerTimer) {
+      clearTimeout(schedulerTimer);
+      schedulerTimer = null;
     }
   };
 }
@@ -594,6 +502,36 @@ export function validateReminder(reminder: Partial<Reminder>): { isValid: boolea
     return { isValid: false, error: "Invalid repeat type" };
   }
 
+  if (reminder.timeZone && !isValidTimeZone(reminder.timeZone)) {
+    return { isValid: false, error: `Unknown time zone "${reminder.timeZone}"` };
+  }
+
+  if (reminder.timeZoneMode === "pinned" && !reminder.timeZone) {
+    return { isValid: false, error: "Choose a time zone to pin this reminder to" };
+  }
+
+  // Reminders with an explicit rule are validated against the rule itself
+  if (reminder.rrule) {
+    let rules;
+    try {
+      rules = parseRecurrenceRules(reminder.rrule, reminder.timeZone);
+    } catch (err) {
+      return { isValid: false, error: `Invalid repeat rule: ${err instanceof Error ? err.message : err}` };
+    }
+
+    if (
+      reminder.dtstart !== undefined &&
+      nextOccurrence(
+        { rules, dtstart: reminder.dtstart, exdates: reminder.exdates, timeZone: reminder.timeZone },
+        Date.now()
+      ) === null
+    ) {
+      return { isValid: false, error: "This repeat rule has no upcoming occurrences" };
+    }
+
+    return { isValid: true };
+  }
+
   // For custom repeat, validate based on the type
   if (reminder.repeat === "custom") {
     const hasCustomInterval = reminder.customInterval && reminder.customInterval > 0;
@@ -613,11 +551,10 @@ export function validateReminder(reminder: Partial<Reminder>): { isValid: boolea
 // ============================================================================
 
 /**
- * Snooze a reminder for a specified number of minutes.
+ * Snooze a reminder for a specified number of minutes from `now`.
  * Returns the updated reminder object.
  */
-export function snoozeReminder(reminder: Reminder, minutes: number): Reminder {
-  const now = Date.now();
+export function snoozeReminder(reminder: Reminder, minutes: number, now: number = Date.now()): Reminder {
   const snoozeUntil = now + (minutes * 60 * 1000);
 
   return {
@@ -642,93 +579,7 @@ export function clearSnooze(reminder: Reminder): Reminder {
 // STREAK FUNCTIONS
 // ============================================================================
 
-/**
- * Get today's date in YYYY-MM-DD format.
- */
-function getTodayDateString(): string {
-  const now = new Date();
-  return now.toISOString().split('T')[0];
-}
-
-/**
- * Get yesterday's date in YYYY-MM-DD format.
- */
-function getYesterdayDateString(): string {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return yesterday.toISOString().split('T')[0];
-}
-
-/**
- * Update streak when a reminder is completed.
- * Returns the updated reminder with new streak data.
- */
-export function updateStreakOnCompletion(reminder: Reminder): Reminder {
-  const today = getTodayDateString();
-  const yesterday = getYesterdayDateString();
-
-  const currentStreak = reminder.streak || {
-    count: 0,
-    longestStreak: 0,
-    totalCompletions: 0,
-  };
-
-  // If already completed today, don't update streak count
-  if (currentStreak.lastCompletedDate === today) {
-    return reminder;
-  }
-
-  let newCount = 1;
-
-  // If completed yesterday, continue the streak
-  if (currentStreak.lastCompletedDate === yesterday) {
-    newCount = currentStreak.count + 1;
-  }
-  // If completed earlier (not yesterday), reset streak
-  // This is already handled by newCount = 1
-
-  const newLongest = Math.max(newCount, currentStreak.longestStreak);
-
-  return {
-    ...reminder,
-    streak: {
-      count: newCount,
-      lastCompletedDate: today,
-      longestStreak: newLongest,
-      totalCompletions: currentStreak.totalCompletions + 1,
-    },
-  };
-}
-
-/**
- * Check if streak should be broken (called when checking reminders).
- * Returns the updated reminder if streak was broken.
- */
-export function checkStreakStatus(reminder: Reminder): Reminder {
-  if (!reminder.streak || !reminder.streak.lastCompletedDate) {
-    return reminder;
-  }
-
-  const yesterday = getYesterdayDateString();
-  const today = getTodayDateString();
-
-  // If last completed date is before yesterday, streak is broken
-  if (
-    reminder.streak.lastCompletedDate !== yesterday &&
-    reminder.streak.lastCompletedDate !== today
-  ) {
-    return {
-      ...reminder,
-      streak: {
-        ...reminder.streak,
-        count: 0, // Reset current streak
-        // Keep longestStreak and totalCompletions
-      },
-    };
-  }
-
-  return reminder;
-}
+// Counting streaks per occurrence lives in utils/streaks.ts
 
 /**
  * Get streak emoji based on streak count.
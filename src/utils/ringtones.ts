@@ -374,6 +374,41 @@ function generateZen(audioContext: AudioContext): AudioBuffer {
   return buffer;
 }
 
+/**
+ * Generate Alarm - harsh alternating beeps for escalated calls
+ * (not user-selectable; see utils/escalationPolicy.ts)
+ */
+export function generateAlarm(audioContext: AudioContext): AudioBuffer {
+  const sampleRate = audioContext.sampleRate;
+  const duration = 1.6;
+  const numFrames = duration * sampleRate;
+  const buffer = audioContext.createBuffer(2, numFrames, sampleRate);
+  const leftData = buffer.getChannelData(0);
+  const rightData = buffer.getChannelData(1);
+
+  const beepLength = 0.2;
+  const frequencies = [1400, 1050];
+
+  for (let i = 0; i < numFrames; i++) {
+    const t = i / sampleRate;
+    const beep = Math.floor(t / beepLength);
+    const beepT = t - beep * beepLength;
+
+    // Four beeps on, then a short gap
+    let sample = 0;
+    if (beep % 8 < 4 && beepT < beepLength * 0.85) {
+      const freq = frequencies[beep % 2];
+      // Square-ish wave cuts through background noise
+      sample = Math.sign(Math.sin(2 * Math.PI * freq * beepT)) * 0.25;
+    }
+
+    leftData[i] = sample;
+    rightData[i] = sample;
+  }
+
+  return buffer;
+}
+
 /**
  * Generate ringtone buffer based on selected type
  */
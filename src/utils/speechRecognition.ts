@@ -0,0 +1,180 @@
+/**
+ * Speech Recognition
+ *
+ * Pluggable recognizers used to hear the user during conversational calls.
+ * Built in:
+ * - browser: Web Speech API (Chrome/Edge/Safari; audio may be sent to the vendor's servers)
+ * - local: Web Speech API with on-device processing, works offline where supported
+ *
+ * Other engines (e.g. a self-hosted Whisper) can be added with registerRecognizer().
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type RecognizerType = 'browser' | 'local' | (string & {});
+
+export interface ListenOptions {
+  lang?: string; // BCP 47, defaults to the browser language
+  timeoutMs?: number; // Give up if nothing is said for this long
+}
+
+export interface SpeechRecognizer {
+  // Resolves with what was said, or null on silence
+  listen(options?: ListenOptions): Promise<string | null>;
+  // Stop listening; a pending listen() resolves with null
+  abort(): void;
+}
+
+export interface RecognizerDefinition {
+  label: string;
+  isAvailable: () => boolean;
+  create: () => SpeechRecognizer;
+}
+
+// Minimal Web Speech API typings (not in lib.dom)
+interface WebSpeechResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  maxAlternatives: number;
+  processLocally?: boolean;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+const DEFAULT_LISTEN_TIMEOUT_MS = 8000;
+
+// ============================================================================
+// WEB SPEECH RECOGNIZER
+// ============================================================================
+
+function getWebSpeechConstructor(): WebSpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+}
+
+function createWebSpeechRecognizer(processLocally: boolean): SpeechRecognizer {
+  let active: WebSpeechRecognition | null = null;
+
+  return {
+    listen(options: ListenOptions = {}) {
+      const Recognition = getWebSpeechConstructor();
+      if (!Recognition) {
+        return Promise.reject(new Error('Speech recognition not supported'));
+      }
+
+      return new Promise((resolve, reject) => {
+        const recognition = new Recognition();
+        recognition.lang = options.lang || navigator.language || 'en-US';
+        recognition.interimResults = false;
+        recognition.continuous = false;
+        recognition.maxAlternatives = 1;
+        if (processLocally) {
+          recognition.processLocally = true;
+        }
+
+        let transcript: string | null = null;
+        let failure: Error | null = null;
+        const timeout = setTimeout(() => recognition.stop(), options.timeoutMs ?? DEFAULT_LISTEN_TIMEOUT_MS);
+
+        recognition.onresult = (event) => {
+          const result = event.results[event.results.length - 1];
+          if (result?.isFinal && result[0]) {
+            transcript = result[0].transcript.trim() || null;
+          }
+        };
+        recognition.onerror = (event) => {
+          // Silence and aborts just end the turn; anything else is a real failure
+          if (event.error !== 'no-speech' && event.error !== 'aborted') {
+            failure = new Error(`Speech recognition error: ${event.error}`);
+          }
+        };
+        recognition.onend = () => {
+          clearTimeout(timeout);
+          if (active === recognition) active = null;
+          if (failure) {
+            reject(failure);
+          } else {
+            resolve(transcript);
+          }
+        };
+
+        active = recognition;
+        recognition.start();
+      });
+    },
+
+    abort() {
+      active?.abort();
+      active = null;
+    },
+  };
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const recognizers: Record<string, RecognizerDefinition> = {
+  browser: {
+    label: 'Browser speech recognition',
+    isAvailable: () => getWebSpeechConstructor() !== null,
+    create: () => createWebSpeechRecognizer(false),
+  },
+  local: {
+    label: 'On-device (offline)',
+    // On-device processing is a newer addition to the Web Speech API
+    isAvailable: () => {
+      const Recognition = getWebSpeechConstructor();
+      return !!Recognition && 'processLocally' in Recognition.prototype;
+    },
+    create: () => createWebSpeechRecognizer(true),
+  },
+};
+
+/**
+ * Add (or replace) a recognizer.
+ */
+export function registerRecognizer(type: string, definition: RecognizerDefinition): void {
+  recognizers[type] = definition;
+}
+
+/**
+ * All registered recognizers, for the settings screen.
+ */
+export function getRecognizers(): { type: RecognizerType; label: string; available: boolean }[] {
+  return Object.entries(recognizers).map(([type, definition]) => ({
+    type,
+    label: definition.label,
+    available: definition.isAvailable(),
+  }));
+}
+
+export function isRecognizerAvailable(type: RecognizerType): boolean {
+  return recognizers[type]?.isAvailable() ?? false;
+}
+
+/**
+ * Create a recognizer of the given type, or null if it can't run here.
+ */
+export function createRecognizer(type: RecognizerType): SpeechRecognizer | null {
+  const definition = recognizers[type];
+  if (!definition || !definition.isAvailable()) return null;
+  return definition.create();
+}
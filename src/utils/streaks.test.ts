@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Reminder } from './reminderScheduler';
+import {
+  FREEZE_EARN_EVERY,
+  MAX_FREEZE_TOKENS,
+  completionOccurrence,
+  formatStreak,
+  getStreakStatus,
+  streakFromOccurrences,
+} from './streaks';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MONDAY = Date.UTC(2026, 9, 5, 9); // Mon 5 Oct 2026, 09:00 UTC
+const SETTINGS = { graceHours: 2 };
+
+function reminder(rrule: string): Reminder {
+  return {
+    id: 'r1',
+    title: 'Walk',
+    why: '',
+    time: '09:00',
+    repeat: 'custom',
+    rrule,
+    dtstart: MONDAY,
+    timeZone: 'UTC',
+    nextTrigger: MONDAY,
+    active: true,
+    createdAt: MONDAY,
+  };
+}
+
+// Occurrence records for the given occurrences, all done
+function done(...scheduledAt: number[]) {
+  return scheduledAt.map(at => ({ scheduledAt: at, completed: true }));
+}
+
+function days(count: number, from = MONDAY): number[] {
+  return Array.from({ length: count }, (_, i) => from + i * DAY);
+}
+
+describe('weekly reminders', () => {
+  const weekly = reminder('FREQ=WEEKLY;BYDAY=MO');
+
+  it('grows once a week, ignoring the days in between', () => {
+    const streak = streakFromOccurrences(weekly, done(MONDAY, MONDAY + 7 * DAY, MONDAY + 14 * DAY));
+    expect(streak?.count).toBe(3);
+    expect(formatStreak(3, weekly)).toBe('3 week streak');
+  });
+
+  it("isn't broken by unscheduled days before the next occurrence", () => {
+    const streak = streakFromOccurrences(weekly, done(MONDAY))!;
+    const saturday = MONDAY + 5 * DAY;
+    expect(getStreakStatus({ ...weekly, streak }, saturday, SETTINGS).current).toBe(1);
+  });
+
+  it('lapses once the next occurrence is past its deadline', () => {
+    const streak = streakFromOccurrences(weekly, done(MONDAY))!;
+    const afterSecondMonday = MONDAY + 14 * DAY + 3 * HOUR;
+    expect(getStreakStatus({ ...weekly, streak }, afterSecondMonday, SETTINGS).current).toBe(0);
+  });
+
+  it("counts a check-in later in the week for that week's occurrence", () => {
+    const tuesday = MONDAY + DAY + 3 * HOUR;
+    expect(completionOccurrence(weekly, tuesday, SETTINGS)).toBe(MONDAY);
+  });
+});
+
+describe('streak freezes', () => {
+  const daily = reminder('FREQ=DAILY');
+
+  it(`earns a freeze every ${FREEZE_EARN_EVERY} occurrences in a row`, () => {
+    const streak = streakFromOccurrences(daily, done(...days(FREEZE_EARN_EVERY)));
+    expect(streak?.count).toBe(FREEZE_EARN_EVERY);
+    expect(streak?.freezeTokens).toBe(1);
+  });
+
+  it(`holds at most ${MAX_FREEZE_TOKENS} freezes`, () => {
+    const streak = streakFromOccurrences(daily, done(...days(FREEZE_EARN_EVERY * (MAX_FREEZE_TOKENS + 1))));
+    expect(streak?.freezeTokens).toBe(MAX_FREEZE_TOKENS);
+  });
+
+  it('spends a freeze to cover a missed occurrence', () => {
+    const week = days(FREEZE_EARN_EVERY);
+    const afterGap = week[week.length - 1] + 2 * DAY;
+    const streak = streakFromOccurrences(daily, done(...week, afterGap));
+
+    expect(streak?.count).toBe(FREEZE_EARN_EVERY + 1);
+    expect(streak?.freezeTokens).toBe(0);
+  });
+
+  it('starts over when more occurrences are missed than there are freezes', () => {
+    const week = days(FREEZE_EARN_EVERY);
+    const afterGap = week[week.length - 1] + 3 * DAY;
+    const streak = streakFromOccurrences(daily, done(...week, afterGap));
+
+    expect(streak?.count).toBe(1);
+    expect(streak?.longestStreak).toBe(FREEZE_EARN_EVERY);
+    expect(streak?.freezeTokens).toBe(1);
+  });
+
+  it('shows the freezes a live streak will need before they are spent', () => {
+    const week = days(FREEZE_EARN_EVERY);
+    const streak = streakFromOccurrences(daily, done(...week))!;
+    const last = week[week.length - 1];
+
+    expect(getStreakStatus({ ...daily, streak }, last + 2 * DAY + 3 * HOUR, SETTINGS)).toEqual({
+      current: FREEZE_EARN_EVERY,
+      freezesNeeded: 1,
+      freezeTokens: 1,
+    });
+    expect(getStreakStatus({ ...daily, streak }, last + 3 * DAY + 3 * HOUR, SETTINGS).current).toBe(0);
+  });
+});
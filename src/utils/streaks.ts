@@ -0,0 +1,287 @@
+/**
+ * Occurrence-Based Streaks
+ *
+ * A reminder's streak counts scheduled occurrences done in a row, following
+ * its recurrence: a weekly reminder's streak grows once a week, and days it
+ * isn't scheduled (or skipped dates) never break it. Occurrences and "today"
+ * are worked out in the reminder's zone (the device's unless pinned).
+ *
+ * Each occurrence can be done until the next one comes due, plus a grace
+ * period. Occurrences left undone past that are missed, and each miss is
+ * covered by a streak freeze if the user has one; otherwise the streak
+ * starts over. Freezes are earned every FREEZE_EARN_EVERY occurrences in a
+ * row and spent automatically.
+ *
+ * The streak is worked out from the occurrence log (see utils/occurrences.ts)
+ * and kept on the reminder as `streak`, refreshed whenever the log changes.
+ */
+
+import { Reminder, StreakData, getReminderRecurrence } from './reminderScheduler';
+import type { OccurrenceRecord } from '../db/reminderDB';
+import { Frequency, Recurrence, RecurrenceRule, nextOccurrence, previousOccurrence, toDateKey } from './recurrence';
+import { fromZonedWallTime } from './timeZone';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface StreakSettings {
+  graceHours: number; // How long after the next occurrence comes due the previous one can still be done
+}
+
+export interface StreakStatus {
+  current: number; // Live streak, 0 if it has lapsed
+  freezesNeeded: number; // Missed occurrences the user's freezes will cover
+  freezeTokens: number;
+}
+
+export const DEFAULT_STREAK_GRACE_HOURS = 2;
+export const STREAK_GRACE_OPTIONS = [0, 1, 2, 6, 12, 24];
+export const FREEZE_EARN_EVERY = 7;
+export const MAX_FREEZE_TOKENS = 3;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_WALK = 1000; // Occurrences checked one by one before giving up on a long-idle series
+
+const STREAK_UNITS: Partial<Record<Frequency, string>> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/**
+ * Get streak settings from localStorage
+ */
+export function getStreakSettings(): StreakSettings {
+  try {
+    const settingsStr = localStorage.getItem('aiReminderSettings');
+    if (settingsStr) {
+      const settings = JSON.parse(settingsStr);
+      return { graceHours: settings.streakGraceHours ?? DEFAULT_STREAK_GRACE_HOURS };
+    }
+  } catch {
+    // Use defaults on error
+  }
+
+  return { graceHours: DEFAULT_STREAK_GRACE_HOURS };
+}
+
+// ============================================================================
+// OCCURRENCES
+// ============================================================================
+
+// The last occurrence done. Streaks from before occurrences were tracked only have a calendar date.
+function lastSettledOccurrence(streak: StreakData, recurrence: Recurrence): number | null {
+  if (streak.lastCompletedOccurrence) return streak.lastCompletedOccurrence;
+
+  if (streak.lastCompletedDate) {
+    const [year, month, day] = streak.lastCompletedDate.split('-').map(Number);
+    const endOfDay = fromZonedWallTime({ year, month: month - 1, day, hour: 23, minute: 59 }, recurrence.timeZone);
+    return previousOccurrence(recurrence, endOfDay);
+  }
+
+  return null;
+}
+
+// When an occurrence stops counting: once the next one is due, plus grace
+function deadline(recurrence: Recurrence, occurrence: number, graceMs: number): number {
+  return (nextOccurrence(recurrence, occurrence) ?? occurrence + DAY_MS) + graceMs;
+}
+
+/**
+ * The occurrence a completion at `at` counts for: the earliest unsettled one
+ * that is due and still within its deadline, or else today's upcoming one
+ * done early. A completion after every due occurrence has lapsed counts for
+ * the latest one, starting a new streak.
+ */
+function occurrenceForCompletion(
+  recurrence: Recurrence,
+  at: number,
+  settled: number | null,
+  graceMs: number
+): number | null {
+  let occurrence = settled === null ? previousOccurrence(recurrence, at) : nextOccurrence(recurrence, settled);
+
+  for (let steps = 0; occurrence !== null && occurrence <= at && steps < MAX_WALK; steps++) {
+    if (deadline(recurrence, occurrence, graceMs) > at) return occurrence;
+    occurrence = nextOccurrence(recurrence, occurrence);
+  }
+
+  const upcoming = nextOccurrence(recurrence, at);
+  if (upcoming !== null && toDateKey(upcoming, recurrence.timeZone) === toDateKey(at, recurrence.timeZone)) {
+    return upcoming;
+  }
+
+  return previousOccurrence(recurrence, at);
+}
+
+/**
+ * How many occurrences after `settled` were missed by `now` (past their
+ * deadline: the next occurrence plus grace). Stops counting at `limit`.
+ */
+function countMissed(
+  recurrence: Recurrence,
+  settled: number,
+  now: number,
+  graceMs: number,
+  limit: number
+): number {
+  let missed = 0;
+  let occurrence = nextOccurrence(recurrence, settled);
+
+  while (occurrence !== null && missed < limit) {
+    if (deadline(recurrence, occurrence, graceMs) > now) break;
+
+    missed++;
+    occurrence = nextOccurrence(recurrence, occurrence);
+  }
+
+  return missed;
+}
+
+// Occurrences strictly between two others, up to `limit`
+function countBetween(recurrence: Recurrence, after: number, before: number, limit: number): number {
+  let count = 0;
+  let occurrence = nextOccurrence(recurrence, after);
+
+  while (occurrence !== null && occurrence < before && count < limit) {
+    count++;
+    occurrence = nextOccurrence(recurrence, occurrence);
+  }
+
+  return count;
+}
+
+// ============================================================================
+// STREAKS
+// ============================================================================
+
+/**
+ * Work out a reminder's streak from its occurrence log: the occurrences done,
+ * in order, with freezes earned along the way covering the ones missed in
+ * between. Returns undefined if none has been done yet.
+ */
+export function streakFromOccurrences(
+  reminder: Reminder,
+  records: Pick<OccurrenceRecord, 'scheduledAt' | 'completed'>[]
+): StreakData | undefined {
+  const done = records
+    .filter(record => record.completed)
+    .map(record => record.scheduledAt)
+    .sort((a, b) => a - b);
+  if (done.length === 0) return undefined;
+
+  let recurrence: Recurrence | null = null;
+  try {
+    recurrence = getReminderRecurrence(reminder);
+  } catch {
+    // Without a schedule there is nothing to miss in between
+  }
+
+  let count = 0;
+  let longestStreak = 0;
+  let freezeTokens = 0;
+  let previous: number | null = null;
+
+  for (const occurrence of done) {
+    const missed = previous !== null && recurrence
+      ? countBetween(recurrence, previous, occurrence, freezeTokens + 1)
+      : 0;
+
+    if (previous !== null && missed <= freezeTokens) {
+      freezeTokens -= missed;
+      count++;
+    } else {
+      count = 1;
+    }
+
+    if (count % FREEZE_EARN_EVERY === 0) {
+      freezeTokens = Math.min(freezeTokens + 1, MAX_FREEZE_TOKENS);
+    }
+    longestStreak = Math.max(longestStreak, count);
+    previous = occurrence;
+  }
+
+  return {
+    count,
+    lastCompletedDate: toDateKey(previous!, recurrence?.timeZone ?? reminder.timeZone),
+    lastCompletedOccurrence: previous!,
+    longestStreak,
+    totalCompletions: done.length,
+    freezeTokens,
+  };
+}
+
+/**
+ * The occurrence a check-in at `at` is for: the earliest one not yet done
+ * that is still within its deadline, else today's upcoming one done early.
+ */
+export function completionOccurrence(
+  reminder: Reminder,
+  at: number = Date.now(),
+  settings: StreakSettings = getStreakSettings()
+): number {
+  try {
+    const recurrence = getReminderRecurrence(reminder);
+    const settled = reminder.streak ? lastSettledOccurrence(reminder.streak, recurrence) : null;
+    return occurrenceForCompletion(recurrence, at, settled, settings.graceHours * HOUR_MS) ?? at;
+  } catch {
+    return at;
+  }
+}
+
+/**
+ * The streak as it stands at `now`, counting freezes that will cover misses
+ * since the last completion. Doesn't change anything.
+ */
+export function getStreakStatus(
+  reminder: Reminder,
+  now: number = Date.now(),
+  settings: StreakSettings = getStreakSettings()
+): StreakStatus {
+  const streak = reminder.streak;
+  const freezeTokens = streak?.freezeTokens ?? 0;
+  if (!streak || streak.count === 0) {
+    return { current: 0, freezesNeeded: 0, freezeTokens };
+  }
+
+  try {
+    const recurrence = getReminderRecurrence(reminder);
+    const settled = lastSettledOccurrence(streak, recurrence);
+    if (settled === null) return { current: streak.count, freezesNeeded: 0, freezeTokens };
+
+    const missed = countMissed(recurrence, settled, now, settings.graceHours * HOUR_MS, freezeTokens + 1);
+    return missed <= freezeTokens
+      ? { current: streak.count, freezesNeeded: missed, freezeTokens }
+      : { current: 0, freezesNeeded: 0, freezeTokens };
+  } catch {
+    return { current: streak.count, freezesNeeded: 0, freezeTokens };
+  }
+}
+
+// Whether a rule comes due once per day/week/... rather than several times
+function oncePerPeriod(rule: RecurrenceRule): boolean {
+  if (rule.interval !== 1 || (rule.freq === 'DAILY' && rule.byDay?.length)) return false;
+  return [rule.byMonth, rule.byMonthDay, rule.byDay, rule.byHour, rule.byMinute, rule.bySetPos]
+    .every(list => !list || list.length <= 1);
+}
+
+/**
+ * "5 day streak", "3 week streak", or "4 in a row" for other schedules
+ */
+export function formatStreak(count: number, reminder: Reminder): string {
+  try {
+    const { rules } = getReminderRecurrence(reminder);
+    const unit = rules.length === 1 && oncePerPeriod(rules[0]) ? STREAK_UNITS[rules[0].freq] : undefined;
+    if (unit) return `${count} ${unit} streak`;
+  } catch {
+    // Fall through to the generic wording
+  }
+  return `${count} in a row`;
+}
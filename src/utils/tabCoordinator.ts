@@ -0,0 +1,109 @@
+/**
+ * Tab Coordination
+ *
+ * With the app open in several tabs, one tab is elected leader and owns
+ * scheduling: only it runs the reminder scheduler and the recall checker, so
+ * a due reminder rings once and writes one call history entry. Leadership is
+ * a Web Lock held for the life of the tab; when the leader closes, the lock
+ * passes to the next waiting tab.
+ *
+ * Calls are mirrored to the other tabs over a BroadcastChannel so the
+ * incoming-call UI shows wherever the user is looking, and answering or
+ * declining in one tab dismisses the call everywhere else.
+ */
+
+import { Reminder } from './reminderScheduler';
+import { CallHistoryEntry } from '../db/reminderDB';
+import logger from './logger';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type CallBroadcast =
+  | { type: 'incoming'; callId: string; reminder: Reminder; callHistory: CallHistoryEntry }
+  | { type: 'answered'; callId: string }
+  | { type: 'declined'; callId: string };
+
+const LEADER_LOCK_NAME = 'yfs-scheduler-leader';
+const CALL_CHANNEL_NAME = 'yfs-calls';
+
+let callChannel: BroadcastChannel | null = null;
+
+// ============================================================================
+// LEADER ELECTION
+// ============================================================================
+
+/**
+ * Compete for scheduling leadership. `onChange` is called with true once this
+ * tab holds the lock, and with false when it gives it up.
+ * Returns a function that leaves the election (releasing the lock if held).
+ */
+export function startLeaderElection(onChange: (isLeader: boolean) => void): () => void {
+  // No Web Locks (very old browsers): behave as a single tab
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onChange(true);
+    return () => onChange(false);
+  }
+
+  const controller = new AbortController();
+  let release: (() => void) | null = null;
+
+  navigator.locks.request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+    logger.log('This tab is now scheduling reminders');
+    onChange(true);
+
+    // Hold the lock until this tab leaves the election or closes
+    return new Promise<void>(resolve => {
+      release = resolve;
+    });
+  }).catch(error => {
+    if (error instanceof DOMException && error.name === 'AbortError') return;
+    logger.error('Leader election failed:', error);
+  });
+
+  return () => {
+    controller.abort(); // Stop waiting if we never got the lock
+    if (release) {
+      release();
+      release = null;
+      onChange(false);
+    }
+  };
+}
+
+// ============================================================================
+// CALL MIRRORING
+// ============================================================================
+
+function getCallChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!callChannel) {
+    callChannel = new BroadcastChannel(CALL_CHANNEL_NAME);
+  }
+  return callChannel;
+}
+
+/**
+ * Tell the other tabs about a call ringing, answered or declined here.
+ */
+export function broadcastCall(message: CallBroadcast): void {
+  try {
+    getCallChannel()?.postMessage(message);
+  } catch (error) {
+    // e.g. a custom audio recording that can't be cloned - other tabs just won't mirror it
+    logger.warn('Failed to mirror call to other tabs:', error);
+  }
+}
+
+/**
+ * Listen for calls from the other tabs. Returns an unsubscribe function.
+ */
+export function onCallBroadcast(listener: (message: CallBroadcast) => void): () => void {
+  const channel = getCallChannel();
+  if (!channel) return () => {};
+
+  const handleMessage = (event: MessageEvent<CallBroadcast>) => listener(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+}
@@ -1,5 +1,7 @@
 // Text-to-Speech Utility - Supports Web Speech API, OpenAI TTS, and custom audio
 
+import { getCachedAudio, putCachedAudio } from '../db/reminderDB';
+
 export type TTSProvider = 'browser' | 'openai' | 'custom';
 
 export interface TTSSettings {
@@ -28,6 +30,9 @@ export const DEFAULT_TTS_SETTINGS: TTSSettings = {
   openaiModel: 'tts-1',
 };
 
+// OpenAI speech is cached in IndexedDB; least recently used clips go past this size
+export const TTS_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
 // Get available browser voices
 export function getBrowserVoices(): Promise<BrowserVoice[]> {
   return new Promise((resolve) => {
@@ -99,37 +104,62 @@ export function speakWithBrowser(
   });
 }
 
-// Speak using OpenAI TTS API
-export async function speakWithOpenAI(
+// Cache key for a clip: same provider, model, voice and text give the same audio
+async function ttsCacheKey(text: string, settings: Partial<TTSSettings>): Promise<string> {
+  const source = JSON.stringify(['openai', settings.openaiModel || 'tts-1', settings.openaiVoice || 'nova', text]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Get OpenAI speech for the text, from the cache when it's been generated before
+export async function fetchOpenAIAudio(
   text: string,
   settings: Partial<TTSSettings> = {}
-): Promise<void> {
+): Promise<Blob> {
   const apiKey = settings.openaiApiKey;
   if (!apiKey) {
     throw new Error('OpenAI API key is required');
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/audio/speech', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: settings.openaiModel || 'tts-1',
-        input: text,
-        voice: settings.openaiVoice || 'nova',
-        response_format: 'mp3',
-      }),
-    });
+  const key = await ttsCacheKey(text, settings);
+  const cached = await getCachedAudio(key).catch(() => undefined);
+  if (cached) {
+    return cached;
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
-      throw new Error(error.error?.message || `OpenAI API error: ${response.status}`);
-    }
+  const response = await fetch('https://api.openai.com/v1/audio/speech', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: settings.openaiModel || 'tts-1',
+      input: text,
+      voice: settings.openaiVoice || 'nova',
+      response_format: 'mp3',
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+    throw new Error(error.error?.message || `OpenAI API error: ${response.status}`);
+  }
+
+  const audioBlob = await response.blob();
+  await putCachedAudio(key, audioBlob, TTS_CACHE_MAX_BYTES).catch(error => {
+    console.warn('Could not cache TTS audio:', error);
+  });
+  return audioBlob;
+}
 
-    const audioBlob = await response.blob();
+// Speak using OpenAI TTS API
+export async function speakWithOpenAI(
+  text: string,
+  settings: Partial<TTSSettings> = {}
+): Promise<void> {
+  try {
+    const audioBlob = await fetchOpenAIAudio(text, settings);
     const audioUrl = URL.createObjectURL(audioBlob);
     const audio = new Audio(audioUrl);
 
@@ -150,6 +180,45 @@ export async function speakWithOpenAI(
   }
 }
 
+// Generate and cache speech ahead of time, so speaking it later is instant and offline.
+// Browser speech is synthesized live and can't be prepared.
+export async function preloadSpeech(
+  text: string,
+  settings: Partial<TTSSettings> = {}
+): Promise<boolean> {
+  if (settings.provider !== 'openai' || !settings.openaiApiKey) {
+    return false;
+  }
+  await fetchOpenAIAudio(text, settings);
+  return true;
+}
+
+// TTS settings for calls, from the app settings (aiReminderSettings)
+export function getCallTTSSettings(): Partial<TTSSettings> {
+  let settings: {
+    ttsProvider?: TTSProvider;
+    apiKey?: string;
+    openaiVoice?: TTSSettings['openaiVoice'];
+    browserVoice?: string;
+    browserRate?: number;
+    browserPitch?: number;
+  } = {};
+  try {
+    settings = JSON.parse(localStorage.getItem('aiReminderSettings') || '{}');
+  } catch {
+    // Use defaults on error
+  }
+
+  return {
+    provider: settings.ttsProvider === 'openai' && settings.apiKey ? 'openai' : 'browser',
+    openaiApiKey: settings.apiKey,
+    openaiVoice: settings.openaiVoice || 'nova',
+    browserVoice: settings.browserVoice,
+    browserRate: settings.browserRate || 1.0,
+    browserPitch: settings.browserPitch || 1.0,
+  };
+}
+
 // Play custom audio recording (base64)
 export function playCustomAudio(audioData: string): Promise<void> {
   return new Promise((resolve, reject) => {
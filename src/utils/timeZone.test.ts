@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { fromZonedWallTime, shiftWallTimeToZone, toZonedWallTime } from './timeZone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('toZonedWallTime', () => {
+  it('reads wall-clock fields in the given zone', () => {
+    expect(toZonedWallTime(Date.UTC(2026, 0, 15, 14, 30), NEW_YORK)).toEqual({
+      year: 2026, month: 0, day: 15, hour: 9, minute: 30,
+    });
+  });
+
+  it('follows the zone across a DST change', () => {
+    expect(toZonedWallTime(Date.UTC(2026, 6, 15, 13, 0), NEW_YORK).hour).toBe(9);
+  });
+});
+
+describe('fromZonedWallTime', () => {
+  it('round-trips an ordinary wall time', () => {
+    const wall = { year: 2026, month: 9, day: 1, hour: 9, minute: 0 };
+    const timestamp = fromZonedWallTime(wall, NEW_YORK);
+    expect(timestamp).toBe(Date.UTC(2026, 9, 1, 13, 0));
+    expect(toZonedWallTime(timestamp, NEW_YORK)).toEqual(wall);
+  });
+
+  it('reads a wall time skipped by spring-forward with the pre-transition offset', () => {
+    // 02:30 doesn't exist on 8 Mar 2026 in New York; it lands on 03:30 EDT
+    const timestamp = fromZonedWallTime({ year: 2026, month: 2, day: 8, hour: 2, minute: 30 }, NEW_YORK);
+    expect(timestamp).toBe(Date.UTC(2026, 2, 8, 7, 30));
+    expect(toZonedWallTime(timestamp, NEW_YORK).hour).toBe(3);
+  });
+
+  it('takes the first of the two instants repeated by fall-back', () => {
+    // 01:30 happens twice on 1 Nov 2026 in New York: EDT first, then EST
+    const timestamp = fromZonedWallTime({ year: 2026, month: 10, day: 1, hour: 1, minute: 30 }, NEW_YORK);
+    expect(timestamp).toBe(Date.UTC(2026, 10, 1, 5, 30));
+  });
+});
+
+describe('shiftWallTimeToZone', () => {
+  it('keeps the wall-clock time in the new zone', () => {
+    const nineInNewYork = Date.UTC(2026, 9, 1, 13, 0);
+    const shifted = shiftWallTimeToZone(nineInNewYork, NEW_YORK, 'Europe/London');
+    expect(shifted).toBe(Date.UTC(2026, 9, 1, 8, 0));
+    expect(toZonedWallTime(shifted, 'Europe/London').hour).toBe(9);
+  });
+});
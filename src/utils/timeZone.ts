@@ -0,0 +1,196 @@
+/**
+ * IANA Time Zone Helpers
+ *
+ * Converts between UTC timestamps and wall-clock time in a named zone
+ * using Intl, so reminders can be pinned to a zone other than the device's.
+ *
+ * DST handling follows RFC 5545:
+ * - A wall time inside a spring-forward gap (e.g. 02:30) is shifted forward
+ *   by the length of the gap (03:30).
+ * - A wall time inside a fall-back overlap (e.g. 01:30) resolves to the
+ *   first of the two instants.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ZonedWallTime {
+  year: number;
+  month: number; // 0-11
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// ============================================================================
+// ZONE LOOKUP
+// ============================================================================
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * The device's current IANA zone, e.g. "Africa/Lagos".
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Check whether a string is an IANA zone this runtime knows about.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fallback for runtimes without Intl.supportedValuesOf
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Africa/Nairobi',
+  'Africa/Cairo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'America/Sao_Paulo',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+/**
+ * All selectable IANA zones, sorted, always including the device zone.
+ */
+export function getTimeZoneOptions(): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: string) => string[] };
+  let zones: string[];
+  try {
+    zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : COMMON_TIME_ZONES;
+  } catch {
+    zones = COMMON_TIME_ZONES;
+  }
+  return [...new Set([getDeviceTimeZone(), 'UTC', ...zones])].sort();
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Wall-clock fields of a timestamp in the given zone (device zone if omitted).
+ */
+export function toZonedWallTime(timestamp: number, timeZone?: string): ZonedWallTime {
+  if (!timeZone) {
+    const date = new Date(timestamp);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+// Offset (wall clock minus UTC) in ms at a given instant, ignoring seconds
+function zoneOffset(timestamp: number, timeZone: string): number {
+  const wall = toZonedWallTime(timestamp, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  return wallAsUtc - Math.floor(timestamp / 60000) * 60000;
+}
+
+/**
+ * UTC timestamp of a wall-clock time in the given zone (device zone if omitted).
+ */
+export function fromZonedWallTime(wall: ZonedWallTime, timeZone?: string): number {
+  if (!timeZone) {
+    return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, 0, 0).getTime();
+  }
+
+  const local = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  // Offsets a few hours either side bracket any DST transition near this wall time
+  const offsetBefore = zoneOffset(local - 12 * 60 * 60 * 1000, timeZone);
+  const offsetAfter = zoneOffset(local + 12 * 60 * 60 * 1000, timeZone);
+
+  const candidates = [local - offsetBefore, local - offsetAfter]
+    .filter(t => zoneOffset(t, timeZone) === local - t)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    // Overlap: both instants show this wall time, take the first
+    return candidates[0];
+  }
+
+  // Gap: the wall time doesn't exist, interpret it with the pre-transition offset
+  return local - offsetBefore;
+}
+
+/**
+ * Re-express a timestamp so it keeps the same wall-clock time in another zone.
+ * Used when a "follow my device" reminder moves to a new zone.
+ */
+export function shiftWallTimeToZone(timestamp: number, fromZone: string | undefined, toZone: string | undefined): number {
+  return fromZonedWallTime(toZonedWallTime(timestamp, fromZone), toZone);
+}
+
+/**
+ * Short label for a zone, e.g. "Africa/Lagos (GMT+1)".
+ */
+export function formatTimeZoneLabel(timeZone: string, at: number = Date.now()): string {
+  try {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(new Date(at))
+      .find(part => part.type === 'timeZoneName')?.value;
+    return name ? `${timeZone} (${name})` : timeZone;
+  } catch {
+    return timeZone;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Notification Action Tokens
+ *
+ * Push payloads carry a token per call so the service worker can answer,
+ * snooze or decline a call without a signed-in tab. The token is an HMAC of
+ * the call id, so it only authorizes actions on that one call. Pushes for the
+ * user's own reminders sign the reminder and occurrence instead (see
+ * reminderActionSubject), so a token only covers the occurrence pushed.
+ */
+
+const encoder = new TextEncoder();
+
+async function getKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
+/**
+ * What a reminder push's token signs: one occurrence of one reminder
+ */
+export function reminderActionSubject(reminderId: string, occurrence: number): string {
+  return `reminder:${reminderId}:${occurrence}`;
+}
+
+/**
+ * Sign a call id (or a reminderActionSubject)
+ */
+export async function createActionToken(secret: string, callId: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(secret), encoder.encode(callId));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Check a token against a call id (constant-time via WebCrypto verify)
+ */
+export async function verifyActionToken(secret: string, callId: string, token: string): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify('HMAC', await getKey(secret), fromBase64Url(token), encoder.encode(callId));
+  } catch {
+    return false;
+  }
+}
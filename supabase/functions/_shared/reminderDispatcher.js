@@ -0,0 +1,836 @@
+// Generated from src/services/reminderDispatcher.ts by 'npm run build:functions' - do not edit
+
+// src/utils/timeZone.ts
+var formatterCache = /* @__PURE__ */ new Map();
+function getFormatter(timeZone) {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+function toZonedWallTime(timestamp, timeZone) {
+  if (!timeZone) {
+    const date = new Date(timestamp);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes()
+    };
+  }
+  const parts = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute
+  };
+}
+function zoneOffset(timestamp, timeZone) {
+  const wall = toZonedWallTime(timestamp, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  return wallAsUtc - Math.floor(timestamp / 6e4) * 6e4;
+}
+function fromZonedWallTime(wall, timeZone) {
+  if (!timeZone) {
+    return new Date(wall.year, wall.month, wall.day, wall.hour, wall.minute, 0, 0).getTime();
+  }
+  const local = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute);
+  const offsetBefore = zoneOffset(local - 12 * 60 * 60 * 1e3, timeZone);
+  const offsetAfter = zoneOffset(local + 12 * 60 * 60 * 1e3, timeZone);
+  const candidates = [local - offsetBefore, local - offsetAfter].filter((t) => zoneOffset(t, timeZone) === local - t).sort((a, b) => a - b);
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+  return local - offsetBefore;
+}
+function shiftWallTimeToZone(timestamp, fromZone, toZone) {
+  return fromZonedWallTime(toZonedWallTime(timestamp, fromZone), toZone);
+}
+
+// src/utils/recurrence.ts
+var MINUTE_MS = 60 * 1e3;
+var HOUR_MS = 60 * MINUTE_MS;
+var DAY_MS = 24 * HOUR_MS;
+var FREQUENCIES = ["MINUTELY", "HOURLY", "DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+var WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+var MAX_EMPTY_PERIODS = 5e4;
+var MAX_LOOKBACK_MS = 2 * 365 * DAY_MS;
+function parseIntList(value, min, max, allowNegative = false) {
+  return value.split(",").map((part) => {
+    const n = Number(part);
+    const abs = Math.abs(n);
+    if (!Number.isInteger(n) || n < 0 && !allowNegative || abs < min || abs > max) {
+      throw new Error(`Invalid value "${part}"`);
+    }
+    return n;
+  });
+}
+function parseByDay(value) {
+  return value.split(",").map((part) => {
+    const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) {
+      throw new Error(`Invalid BYDAY value "${part}"`);
+    }
+    const byDay = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+    if (match[1]) {
+      const ordinal = Number(match[1]);
+      if (ordinal === 0 || Math.abs(ordinal) > 53) {
+        throw new Error(`Invalid BYDAY ordinal "${part}"`);
+      }
+      byDay.ordinal = ordinal;
+    }
+    return byDay;
+  });
+}
+function parseUntil(value, timeZone) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid UNTIL value "${value}"`);
+  }
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = { year: Number(y), month: Number(mo) - 1, day: Number(d) };
+  if (h === void 0) {
+    return fromZonedWallTime({ ...date, hour: 23, minute: 59 }, timeZone) + 59 * 1e3;
+  }
+  if (utc) {
+    return Date.UTC(date.year, date.month, date.day, Number(h), Number(mi), Number(s));
+  }
+  return fromZonedWallTime({ ...date, hour: Number(h), minute: Number(mi) }, timeZone) + Number(s) * 1e3;
+}
+function formatUntil(until) {
+  const iso = new Date(until).toISOString();
+  return iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+function parseRRule(text, timeZone) {
+  const body = text.trim().replace(/^RRULE:/i, "");
+  if (!body) {
+    throw new Error("Empty recurrence rule");
+  }
+  const rule2 = { interval: 1, weekStart: 1 };
+  for (const part of body.split(";")) {
+    if (!part) continue;
+    const [rawKey, value] = part.split("=");
+    const key = rawKey.toUpperCase();
+    if (value === void 0 || value === "") {
+      throw new Error(`Missing value for ${key}`);
+    }
+    switch (key) {
+      case "FREQ":
+        if (!FREQUENCIES.includes(value.toUpperCase())) {
+          throw new Error(`Unsupported FREQ "${value}"`);
+        }
+        rule2.freq = value.toUpperCase();
+        break;
+      case "INTERVAL":
+        rule2.interval = parseIntList(value, 1, 1e4)[0];
+        break;
+      case "COUNT":
+        rule2.count = parseIntList(value, 1, 1e5)[0];
+        break;
+      case "UNTIL":
+        rule2.until = parseUntil(value.toUpperCase(), timeZone);
+        break;
+      case "BYMONTH":
+        rule2.byMonth = parseIntList(value, 1, 12);
+        break;
+      case "BYMONTHDAY":
+        rule2.byMonthDay = parseIntList(value, 1, 31, true);
+        break;
+      case "BYDAY":
+        rule2.byDay = parseByDay(value.toUpperCase());
+        break;
+      case "BYHOUR":
+        rule2.byHour = parseIntList(value, 0, 23);
+        break;
+      case "BYMINUTE":
+        rule2.byMinute = parseIntList(value, 0, 59);
+        break;
+      case "BYSETPOS":
+        rule2.bySetPos = parseIntList(value, 1, 366, true);
+        break;
+      case "WKST": {
+        const index = WEEKDAY_CODES.indexOf(value.toUpperCase());
+        if (index === -1) {
+          throw new Error(`Invalid WKST "${value}"`);
+        }
+        rule2.weekStart = index;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported rule part "${key}"`);
+    }
+  }
+  if (!rule2.freq) {
+    throw new Error("Recurrence rule is missing FREQ");
+  }
+  if (rule2.count !== void 0 && rule2.until !== void 0) {
+    throw new Error("COUNT and UNTIL cannot be used together");
+  }
+  return rule2;
+}
+function formatRRule(rule2) {
+  const parts = [`FREQ=${rule2.freq}`];
+  if (rule2.interval > 1) parts.push(`INTERVAL=${rule2.interval}`);
+  if (rule2.count !== void 0) parts.push(`COUNT=${rule2.count}`);
+  if (rule2.until !== void 0) parts.push(`UNTIL=${formatUntil(rule2.until)}`);
+  if (rule2.byMonth?.length) parts.push(`BYMONTH=${rule2.byMonth.join(",")}`);
+  if (rule2.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule2.byMonthDay.join(",")}`);
+  if (rule2.byDay?.length) {
+    parts.push(`BYDAY=${rule2.byDay.map((d) => `${d.ordinal ?? ""}${WEEKDAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule2.byHour?.length) parts.push(`BYHOUR=${rule2.byHour.join(",")}`);
+  if (rule2.byMinute?.length) parts.push(`BYMINUTE=${rule2.byMinute.join(",")}`);
+  if (rule2.bySetPos?.length) parts.push(`BYSETPOS=${rule2.bySetPos.join(",")}`);
+  if (rule2.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule2.weekStart]}`);
+  return parts.join(";");
+}
+function parseRecurrenceRules(text, timeZone) {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error("Empty recurrence rule");
+  }
+  return lines.map((line) => parseRRule(line, timeZone));
+}
+function formatRecurrenceRules(rules) {
+  return rules.map(formatRRule).join("\n");
+}
+function toDayNumber(year, month, day) {
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+function fromDayNumber(dayNumber) {
+  const date = new Date(dayNumber * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+function weekdayOf(dayNumber) {
+  return ((dayNumber + 4) % 7 + 7) % 7;
+}
+function daysInMonth(year, month) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+function toWallTime(timestamp, timeZone) {
+  return toZonedWallTime(timestamp, timeZone);
+}
+function fromWallTime(dayNumber, hour, minute, timeZone) {
+  return fromZonedWallTime({ ...fromDayNumber(dayNumber), hour, minute }, timeZone);
+}
+function range(from, to) {
+  const result = [];
+  for (let i = from; i <= to; i++) result.push(i);
+  return result;
+}
+function matchesMonthDay(dayNumber, byMonthDay) {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  const length = daysInMonth(year, month);
+  return byMonthDay.some((md) => md > 0 ? md === day : length + md + 1 === day);
+}
+function selectDays(scope, rule2, useOrdinals, fallback) {
+  const { byMonthDay, byDay } = rule2;
+  if (!byMonthDay?.length && !byDay?.length) {
+    return scope.filter(fallback);
+  }
+  let days = scope;
+  if (byMonthDay?.length) {
+    days = days.filter((d) => matchesMonthDay(d, byMonthDay));
+  }
+  if (byDay?.length) {
+    const selected = /* @__PURE__ */ new Set();
+    for (const { weekday, ordinal } of byDay) {
+      const matching = scope.filter((d) => weekdayOf(d) === weekday);
+      if (ordinal !== void 0 && useOrdinals) {
+        const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (pick !== void 0) selected.add(pick);
+      } else {
+        matching.forEach((d) => selected.add(d));
+      }
+    }
+    days = days.filter((d) => selected.has(d));
+  }
+  return days;
+}
+function monthScope(year, month) {
+  const first = toDayNumber(year, month, 1);
+  return range(first, first + daysInMonth(year, month) - 1);
+}
+function periodDays(rule2, start, startDay, k) {
+  const step = k * rule2.interval;
+  let days;
+  switch (rule2.freq) {
+    case "YEARLY": {
+      const year = start.year + step;
+      if (rule2.byMonth?.length) {
+        days = rule2.byMonth.flatMap(
+          (m) => selectDays(monthScope(year, m - 1), rule2, true, (d) => fromDayNumber(d).day === start.day)
+        );
+      } else {
+        const first = toDayNumber(year, 0, 1);
+        const scope = range(first, toDayNumber(year, 11, 31));
+        days = selectDays(scope, rule2, true, (d) => {
+          const { month, day } = fromDayNumber(d);
+          return month === start.month && day === start.day;
+        });
+      }
+      break;
+    }
+    case "MONTHLY": {
+      const monthIndex = start.year * 12 + start.month + step;
+      const year = Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      days = selectDays(monthScope(year, month), rule2, true, (d) => fromDayNumber(d).day === start.day);
+      break;
+    }
+    case "WEEKLY": {
+      const offset = (weekdayOf(startDay) - rule2.weekStart + 7) % 7;
+      const weekFirst = startDay - offset + step * 7;
+      const scope = range(weekFirst, weekFirst + 6);
+      days = selectDays(scope, { ...rule2, byMonthDay: void 0 }, false, (d) => weekdayOf(d) === weekdayOf(startDay));
+      break;
+    }
+    default: {
+      days = selectDays([startDay + step], rule2, false, () => true);
+    }
+  }
+  if (rule2.byMonth?.length) {
+    const byMonth = rule2.byMonth;
+    days = days.filter((d) => byMonth.includes(fromDayNumber(d).month + 1));
+  }
+  return days.sort((a, b) => a - b);
+}
+function periodCandidates(rule2, dtstart, start, startDay, k, timeZone) {
+  if (rule2.freq === "HOURLY" || rule2.freq === "MINUTELY") {
+    const stepMs = (rule2.freq === "HOURLY" ? HOUR_MS : MINUTE_MS) * rule2.interval;
+    const periodStart = dtstart + k * stepMs;
+    const wall = toWallTime(periodStart, timeZone);
+    const dayNumber = toDayNumber(wall.year, wall.month, wall.day);
+    if (periodDays({ ...rule2, freq: "DAILY", interval: 1 }, wall, dayNumber, 0).length === 0) return [];
+    if (rule2.byHour?.length && !rule2.byHour.includes(wall.hour)) return [];
+    if (rule2.freq === "MINUTELY") {
+      return rule2.byMinute?.length && !rule2.byMinute.includes(wall.minute) ? [] : [periodStart];
+    }
+    const minutes2 = rule2.byMinute?.length ? [...rule2.byMinute].sort((a, b) => a - b) : [wall.minute];
+    const hourStart = periodStart - wall.minute * MINUTE_MS;
+    return minutes2.map((m) => hourStart + m * MINUTE_MS);
+  }
+  const hours = rule2.byHour?.length ? [...rule2.byHour].sort((a, b) => a - b) : [start.hour];
+  const minutes = rule2.byMinute?.length ? [...rule2.byMinute].sort((a, b) => a - b) : [start.minute];
+  const candidates = [];
+  for (const dayNumber of periodDays(rule2, start, startDay, k)) {
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        candidates.push(fromWallTime(dayNumber, hour, minute, timeZone));
+      }
+    }
+  }
+  return candidates;
+}
+function applySetPos(candidates, bySetPos) {
+  if (!bySetPos?.length) return candidates;
+  const picked = bySetPos.map((pos) => pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]).filter((t) => t !== void 0);
+  return [...new Set(picked)].sort((a, b) => a - b);
+}
+function periodIndexBefore(rule2, dtstart, start, startDay, from, timeZone) {
+  if (from <= dtstart) return 0;
+  const wall = toWallTime(from, timeZone);
+  let periods;
+  switch (rule2.freq) {
+    case "MINUTELY":
+      periods = (from - dtstart) / (MINUTE_MS * rule2.interval);
+      break;
+    case "HOURLY":
+      periods = (from - dtstart) / (HOUR_MS * rule2.interval);
+      break;
+    case "DAILY":
+      periods = (toDayNumber(wall.year, wall.month, wall.day) - startDay) / rule2.interval;
+      break;
+    case "WEEKLY":
+      periods = (toDayNumber(wall.year, wall.month, wall.day) - startDay) / (7 * rule2.interval);
+      break;
+    case "MONTHLY":
+      periods = ((wall.year - start.year) * 12 + wall.month - start.month) / rule2.interval;
+      break;
+    default:
+      periods = (wall.year - start.year) / rule2.interval;
+  }
+  return Math.max(0, Math.floor(periods) - 1);
+}
+function* expandRule(rule2, dtstart, from, timeZone) {
+  const start = toWallTime(dtstart, timeZone);
+  const startDay = toDayNumber(start.year, start.month, start.day);
+  let k = rule2.count === void 0 && from !== void 0 ? periodIndexBefore(rule2, dtstart, start, startDay, from, timeZone) : 0;
+  let emitted = 0;
+  let emptyPeriods = 0;
+  while (emptyPeriods < MAX_EMPTY_PERIODS) {
+    const occurrences = applySetPos(periodCandidates(rule2, dtstart, start, startDay, k, timeZone), rule2.bySetPos).filter((t) => t >= dtstart);
+    k++;
+    if (occurrences.length === 0) {
+      emptyPeriods++;
+      continue;
+    }
+    emptyPeriods = 0;
+    for (const occurrence of occurrences) {
+      if (rule2.until !== void 0 && occurrence > rule2.until) return;
+      yield occurrence;
+      emitted++;
+      if (rule2.count !== void 0 && emitted >= rule2.count) return;
+    }
+  }
+}
+function nextOccurrence(recurrence, after) {
+  const excluded = new Set(recurrence.exdates || []);
+  let best = null;
+  for (const rule2 of recurrence.rules) {
+    for (const occurrence of expandRule(rule2, recurrence.dtstart, after, recurrence.timeZone)) {
+      if (best !== null && occurrence >= best) break;
+      if (occurrence > after && !excluded.has(occurrence)) {
+        best = occurrence;
+        break;
+      }
+    }
+  }
+  return best;
+}
+function previousOccurrence(recurrence, at) {
+  for (let window2 = DAY_MS; window2 <= MAX_LOOKBACK_MS; window2 *= 2) {
+    let cursor = Math.max(at - window2, recurrence.dtstart - 1);
+    let latest = null;
+    for (; ; ) {
+      const next = nextOccurrence(recurrence, cursor);
+      if (next === null || next > at) break;
+      latest = next;
+      cursor = next;
+    }
+    if (latest !== null || at - window2 < recurrence.dtstart) return latest;
+  }
+  return null;
+}
+function defaultDtstart(time, rules, now = Date.now(), timeZone) {
+  if (rules.length > 0 && rules.every((r) => r.byHour?.length && r.byMinute?.length)) {
+    return Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  }
+  const [hours, minutes] = time.split(":").map(Number);
+  const today = toWallTime(now, timeZone);
+  const todayNumber = toDayNumber(today.year, today.month, today.day);
+  const candidate = fromWallTime(todayNumber, hours, minutes, timeZone);
+  const subDaily = rules.some((r) => r.freq === "HOURLY" || r.freq === "MINUTELY");
+  if (candidate <= now && !subDaily) {
+    return fromWallTime(todayNumber + 1, hours, minutes, timeZone);
+  }
+  return candidate;
+}
+function rule(freq, extra = {}) {
+  return { freq, interval: 1, weekStart: 1, ...extra };
+}
+function legacyRepeatToRules(legacy) {
+  switch (legacy.repeat) {
+    case "once":
+      return [rule("DAILY", { count: 1 })];
+    case "hourly":
+      return [rule("HOURLY")];
+    case "weekly":
+      return [rule("WEEKLY")];
+    case "custom": {
+      if (legacy.specificTimes && legacy.specificTimes.length > 0) {
+        const byMinute = /* @__PURE__ */ new Map();
+        for (const time of legacy.specificTimes) {
+          const [h, m] = time.split(":").map(Number);
+          if (isNaN(h) || isNaN(m)) continue;
+          byMinute.set(m, [...byMinute.get(m) || [], h]);
+        }
+        if (byMinute.size > 0) {
+          return [...byMinute.entries()].sort(([a], [b]) => a - b).map(([minute, hours]) => rule("DAILY", {
+            byHour: [...new Set(hours)].sort((a, b) => a - b),
+            byMinute: [minute]
+          }));
+        }
+      }
+      if (legacy.daysOfWeek && legacy.daysOfWeek.length > 0) {
+        const days = [...legacy.daysOfWeek].sort((a, b) => a - b);
+        return [rule("WEEKLY", { byDay: days.map((weekday) => ({ weekday })) })];
+      }
+      if (legacy.customInterval && legacy.customInterval > 0) {
+        return legacy.customInterval % HOUR_MS === 0 ? [rule("HOURLY", { interval: legacy.customInterval / HOUR_MS })] : [rule("MINUTELY", { interval: Math.max(1, Math.round(legacy.customInterval / MINUTE_MS)) })];
+      }
+      return [rule("DAILY")];
+    }
+    default:
+      return [rule("DAILY")];
+  }
+}
+
+// src/utils/reminderScheduler.ts
+function getReminderRecurrence(reminder) {
+  const rules = reminder.rrule ? parseRecurrenceRules(reminder.rrule, reminder.timeZone) : legacyRepeatToRules(reminder);
+  const anchor = reminder.originalNextTrigger || reminder.nextTrigger;
+  const dtstart = reminder.dtstart ?? (anchor > 0 ? anchor : defaultDtstart(reminder.time, rules, Date.now(), reminder.timeZone));
+  return { rules, dtstart, exdates: reminder.exdates, timeZone: reminder.timeZone };
+}
+function migrateLegacyRepeat(reminder) {
+  if (reminder.rrule) {
+    return reminder;
+  }
+  try {
+    const { rules, dtstart } = getReminderRecurrence(reminder);
+    return { ...reminder, rrule: formatRecurrenceRules(rules), dtstart };
+  } catch {
+    return reminder;
+  }
+}
+function computeNextTrigger(reminder) {
+  const now = Date.now();
+  if (!isValidTimeFormat(reminder.time)) {
+    console.error(`Invalid time format: ${reminder.time}`);
+    return now + 6e4;
+  }
+  try {
+    const nextTrigger = nextOccurrence(getReminderRecurrence(reminder), now);
+    if (nextTrigger !== null) {
+      return nextTrigger;
+    }
+    console.warn(`Recurrence for "${reminder.title}" has no upcoming occurrences`);
+  } catch (error) {
+    console.error(`Invalid recurrence rule for "${reminder.title}":`, error);
+  }
+  return now + 6e4;
+}
+function computeNextRecurrence(reminder) {
+  const now = Date.now();
+  try {
+    return nextOccurrence(getReminderRecurrence(reminder), Math.max(reminder.nextTrigger, now));
+  } catch (error) {
+    console.error(`Invalid recurrence rule for "${reminder.title}":`, error);
+    return null;
+  }
+}
+function rezoneReminder(reminder, timeZone) {
+  if (reminder.timeZone === timeZone) {
+    return reminder;
+  }
+  const from = reminder.timeZone;
+  const shift = (timestamp) => shiftWallTimeToZone(timestamp, from, timeZone);
+  const { dtstart } = getReminderRecurrence(reminder);
+  const snoozed = !!reminder.snoozedUntil && reminder.nextTrigger === reminder.snoozedUntil;
+  return {
+    ...reminder,
+    timeZone,
+    dtstart: shift(dtstart),
+    exdates: reminder.exdates?.map(shift),
+    nextTrigger: snoozed ? reminder.nextTrigger : shift(reminder.nextTrigger),
+    originalNextTrigger: reminder.originalNextTrigger ? shift(reminder.originalNextTrigger) : void 0
+  };
+}
+var MAX_TIMER_MS = 60 * 1e3;
+function isValidTimeFormat(time) {
+  if (!time || typeof time !== "string") return false;
+  const match = time.match(/^([0-1]?[0-9]|2[0-3]):([0-5][0-9])$/);
+  return match !== null;
+}
+
+// src/utils/escalationPolicy.ts
+var MAX_ESCALATION_MISSES = 20;
+var ESCALATION_ACTION_LABELS = {
+  alarm: "Ring with an alarm",
+  volume: "Raise the volume",
+  push: "Push to my other devices",
+  "notify-partners": "Alert my accountability partners",
+  "mark-missed": "Stop calling and mark it missed"
+};
+function normalizeEscalationPolicy(policy) {
+  if (!policy || !Array.isArray(policy.steps)) return void 0;
+  const steps = policy.steps.filter((step) => step.action in ESCALATION_ACTION_LABELS && Number.isFinite(step.afterMisses)).map((step) => ({
+    ...step,
+    afterMisses: Math.min(Math.max(Math.round(step.afterMisses), 1), MAX_ESCALATION_MISSES),
+    ...step.action === "volume" ? { volume: Math.min(Math.max(step.volume ?? 1, 0), 1) } : {}
+  })).sort((a, b) => a.afterMisses - b.afterMisses);
+  return steps.length > 0 ? { ...policy, steps } : void 0;
+}
+
+// src/services/reminderMapping.ts
+function fromDbReminder(dbReminder) {
+  return migrateLegacyRepeat({
+    id: dbReminder.id,
+    title: dbReminder.title,
+    why: dbReminder.why || "",
+    time: dbReminder.time,
+    nextTrigger: dbReminder.next_trigger,
+    repeat: dbReminder.repeat,
+    daysOfWeek: dbReminder.days_of_week || void 0,
+    customInterval: dbReminder.custom_interval || void 0,
+    specificTimes: dbReminder.specific_times || void 0,
+    rrule: dbReminder.rrule || void 0,
+    dtstart: dbReminder.dtstart ?? void 0,
+    exdates: dbReminder.exdates || void 0,
+    timeZone: dbReminder.time_zone || void 0,
+    timeZoneMode: dbReminder.time_zone_mode || void 0,
+    active: dbReminder.active,
+    createdAt: new Date(dbReminder.created_at).getTime(),
+    audioRecording: dbReminder.audio_recording || void 0,
+    audioAssetId: dbReminder.audio_asset_id || void 0,
+    useCustomAudio: dbReminder.use_custom_audio || false,
+    messageIds: dbReminder.message_ids || void 0,
+    messageRotation: dbReminder.message_rotation || void 0,
+    escalationPolicy: normalizeEscalationPolicy(dbReminder.escalation_policy),
+    shareWithPartners: dbReminder.share_with_partners || false,
+    updatedAt: new Date(dbReminder.updated_at).getTime(),
+    deletedAt: dbReminder.deleted_at ?? void 0,
+    fieldVersions: dbReminder.field_versions || void 0,
+    recipientId: dbReminder.recipient_id || void 0,
+    recipientEmail: dbReminder.recipient_email || void 0,
+    isForSelf: dbReminder.is_for_self,
+    senderName: dbReminder.sender_name || void 0
+  });
+}
+function fromDbGroupReminder(row) {
+  return migrateLegacyRepeat({
+    id: row.id,
+    title: row.title,
+    why: row.why || "",
+    time: row.time,
+    repeat: row.repeat,
+    nextTrigger: row.next_trigger ?? 0,
+    rrule: row.rrule || void 0,
+    dtstart: row.dtstart ?? void 0,
+    exdates: row.exdates || void 0,
+    timeZone: row.time_zone || void 0,
+    timeZoneMode: row.time_zone ? "pinned" : void 0,
+    active: row.active,
+    createdAt: new Date(row.created_at).getTime()
+  });
+}
+
+// src/utils/messageRotation.ts
+var DEFAULT_MESSAGE_ROTATION = "least-recent";
+function pickMessage(messages, rotation = DEFAULT_MESSAGE_ROTATION, random = Math.random) {
+  if (messages.length <= 1) return messages[0];
+  let lastPlayed = -1;
+  messages.forEach((message, index) => {
+    if ((message.lastPlayedAt ?? 0) > (messages[lastPlayed]?.lastPlayedAt ?? 0)) {
+      lastPlayed = index;
+    }
+  });
+  switch (rotation) {
+    case "sequential":
+      return messages[(lastPlayed + 1) % messages.length];
+    case "random": {
+      const candidates = messages.filter((_, index) => index !== lastPlayed);
+      return candidates[Math.floor(random() * candidates.length)];
+    }
+    case "least-recent":
+    default:
+      return messages.reduce(
+        (oldest, message) => (message.lastPlayedAt ?? 0) < (oldest.lastPlayedAt ?? 0) ? message : oldest
+      );
+  }
+}
+
+// src/services/reminderDispatcher.ts
+var DEFAULT_LEASE_MS = 60 * 1e3;
+var DEFAULT_BATCH_SIZE = 50;
+async function dispatchDueReminders(client, options) {
+  const result = { claimed: 0, dispatched: 0, completed: 0, errors: [] };
+  const now = Date.now();
+  const { data, error } = await client.rpc("claim_due_reminders", {
+    p_worker_id: options.workerId,
+    p_now: now,
+    p_grace_ms: options.graceMs ?? 0,
+    p_lease_ms: options.leaseMs ?? DEFAULT_LEASE_MS,
+    p_limit: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    p_user_id: options.userId ?? null
+  });
+  if (error) {
+    result.errors.push(`Failed to claim due reminders: ${error.message}`);
+    return result;
+  }
+  const rows = data || [];
+  result.claimed = rows.length;
+  const senders = /* @__PURE__ */ new Map();
+  const timeZones = /* @__PURE__ */ new Map();
+  for (const row of rows) {
+    try {
+      if (!senders.has(row.user_id)) {
+        senders.set(row.user_id, await getProfile(client, row.user_id, "email, full_name"));
+      }
+      const sender = senders.get(row.user_id);
+      if (await createOccurrenceCall(client, row, sender ?? null)) {
+        result.dispatched++;
+      }
+      let reminder = fromDbReminder(row);
+      if (reminder.timeZoneMode === "recipient" && row.recipient_id) {
+        if (!timeZones.has(row.recipient_id)) {
+          const profile = await getProfile(client, row.recipient_id, "time_zone");
+          timeZones.set(row.recipient_id, profile?.time_zone || null);
+        }
+        const recipientZone = timeZones.get(row.recipient_id);
+        if (recipientZone && recipientZone !== reminder.timeZone) {
+          reminder = rezoneReminder(reminder, recipientZone);
+        }
+      }
+      const nextTrigger = computeNextRecurrence(reminder);
+      const changes = nextTrigger === null ? { active: false } : {
+        next_trigger: nextTrigger,
+        time_zone: reminder.timeZone || null,
+        dtstart: reminder.dtstart ?? null,
+        exdates: reminder.exdates || null
+      };
+      const { error: updateError } = await client.from("reminders").update({ ...changes, claimed_at: null, claimed_by: null }).eq("id", row.id).eq("claimed_by", options.workerId);
+      if (updateError) throw updateError;
+      if (nextTrigger === null) result.completed++;
+    } catch (err) {
+      result.errors.push(`Failed to dispatch reminder ${row.id}: ${err instanceof Error ? err.message : err}`);
+      await releaseClaim(client, row.id, options.workerId);
+    }
+  }
+  return result;
+}
+async function createOccurrenceCall(client, row, sender) {
+  if (!row.recipient_id) return false;
+  const message = row.message_ids?.length ? await pickLibraryMessage(client, row.message_ids, row.message_rotation) : null;
+  const pendingCall = {
+    reminder_id: row.id,
+    sender_id: row.user_id,
+    recipient_id: row.recipient_id,
+    sender_name: row.sender_name || sender?.full_name || sender?.email?.split("@")[0] || "Someone",
+    sender_email: sender?.email || null,
+    reminder_title: row.title,
+    reminder_why: row.why,
+    audio_recording: message ? null : row.audio_recording,
+    audio_asset_id: message ? message.audio_asset_id : row.audio_asset_id ?? null,
+    use_custom_audio: message ? !!message.audio_asset_id : row.use_custom_audio || false,
+    message_text: message?.text ?? null,
+    // The occurrence time (not "now") is what makes retries idempotent
+    triggered_at: row.next_trigger,
+    status: "pending",
+    answered_at: null
+  };
+  const { data, error } = await client.from("pending_calls").upsert(pendingCall, { onConflict: "reminder_id,triggered_at", ignoreDuplicates: true }).select("id");
+  if (error) throw error;
+  const created = !!data && data.length > 0;
+  if (created && message) {
+    await client.from("library_messages").update({ last_played_at: Date.now() }).eq("id", message.id);
+  }
+  return created;
+}
+async function pickLibraryMessage(client, ids, rotation) {
+  const { data, error } = await client.from("library_messages").select("id, kind, audio_asset_id, text, last_played_at").in("id", ids).is("deleted_at", null);
+  if (error) throw error;
+  const rows = data || [];
+  const ordered = ids.map((id) => rows.find((message) => message.id === id)).filter((message) => !!message).map((message) => ({ ...message, lastPlayedAt: message.last_played_at ?? void 0 }));
+  return pickMessage(ordered, rotation ?? void 0) ?? null;
+}
+async function dispatchDueGroupReminders(client, options) {
+  const result = { claimed: 0, dispatched: 0, completed: 0, errors: [] };
+  const now = Date.now();
+  const { data, error } = await client.rpc("claim_due_group_reminders", {
+    p_worker_id: options.workerId,
+    p_now: now,
+    p_grace_ms: options.graceMs ?? 0,
+    p_lease_ms: options.leaseMs ?? DEFAULT_LEASE_MS,
+    p_limit: options.batchSize ?? DEFAULT_BATCH_SIZE,
+    p_user_id: options.userId ?? null
+  });
+  if (error) {
+    result.errors.push(`Failed to claim due group reminders: ${error.message}`);
+    return result;
+  }
+  const rows = data || [];
+  result.claimed = rows.length;
+  for (const row of rows) {
+    try {
+      if (!row.time_zone) {
+        const profile = await getProfile(client, row.created_by, "time_zone");
+        row.time_zone = profile?.time_zone || null;
+      }
+      const reminder = fromDbGroupReminder(row);
+      let nextTrigger;
+      if (row.next_trigger === null) {
+        nextTrigger = computeNextTrigger(reminder);
+      } else {
+        result.dispatched += await createGroupOccurrenceCalls(client, row, row.next_trigger);
+        nextTrigger = computeNextRecurrence(reminder);
+      }
+      const changes = nextTrigger === null ? { active: false } : {
+        next_trigger: nextTrigger,
+        rrule: reminder.rrule || null,
+        dtstart: reminder.dtstart ?? null,
+        time_zone: reminder.timeZone || null
+      };
+      const { error: updateError } = await client.from("group_reminders").update({ ...changes, claimed_at: null, claimed_by: null }).eq("id", row.id).eq("claimed_by", options.workerId);
+      if (updateError) throw updateError;
+      if (nextTrigger === null) result.completed++;
+    } catch (err) {
+      result.errors.push(`Failed to dispatch group reminder ${row.id}: ${err instanceof Error ? err.message : err}`);
+      await client.from("group_reminders").update({ claimed_at: null, claimed_by: null }).eq("id", row.id).eq("claimed_by", options.workerId);
+    }
+  }
+  return result;
+}
+async function createGroupOccurrenceCalls(client, row, triggeredAt) {
+  const [membersResult, mutesResult, groupResult] = await Promise.all([
+    client.from("group_members").select("user_id").eq("group_id", row.group_id),
+    client.from("group_member_mutes").select("user_id, group_reminder_id").eq("group_id", row.group_id),
+    client.from("reminder_groups").select("name").eq("id", row.group_id).maybeSingle()
+  ]);
+  if (membersResult.error) throw membersResult.error;
+  if (mutesResult.error) throw mutesResult.error;
+  const muted = new Set(
+    (mutesResult.data || []).filter((mute) => mute.group_reminder_id === null || mute.group_reminder_id === row.id).map((mute) => mute.user_id)
+  );
+  const recipients = (membersResult.data || []).map((member) => member.user_id).filter((userId) => !muted.has(userId));
+  if (recipients.length === 0) return 0;
+  const groupName = groupResult.data?.name || "Your group";
+  const calls = recipients.map((recipientId) => ({
+    reminder_id: null,
+    group_reminder_id: row.id,
+    sender_id: row.created_by,
+    recipient_id: recipientId,
+    sender_name: groupName,
+    sender_email: null,
+    reminder_title: row.title,
+    reminder_why: row.why,
+    audio_recording: null,
+    use_custom_audio: false,
+    // The occurrence time (not "now") is what makes retries idempotent
+    triggered_at: triggeredAt,
+    status: "pending",
+    answered_at: null
+  }));
+  const { data, error } = await client.from("pending_calls").upsert(calls, { onConflict: "group_reminder_id,recipient_id,triggered_at", ignoreDuplicates: true }).select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+function selfReminderPushOccurrence(row, now, maxAgeMs) {
+  if (!row.active || row.next_trigger > now) return null;
+  const latest = previousOccurrence(getReminderRecurrence(fromDbReminder(row)), now);
+  const occurrence = Math.max(latest ?? row.next_trigger, row.next_trigger);
+  if (occurrence <= now - maxAgeMs) return null;
+  if (row.pushed_trigger != null && row.pushed_trigger >= occurrence) return null;
+  return occurrence;
+}
+async function getProfile(client, userId, columns) {
+  const { data, error } = await client.from("profiles").select(columns).eq("id", userId).maybeSingle();
+  if (error) return null;
+  return data;
+}
+async function releaseClaim(client, reminderId, workerId) {
+  await client.from("reminders").update({ claimed_at: null, claimed_by: null }).eq("id", reminderId).eq("claimed_by", workerId);
+}
+export {
+  dispatchDueGroupReminders,
+  dispatchDueReminders,
+  selfReminderPushOccurrence
+};
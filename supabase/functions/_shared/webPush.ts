@@ -0,0 +1,282 @@
+/**
+ * Web Push Sender
+ *
+ * Sends VAPID-signed pushes for pending calls, due self reminders and
+ * escalated missed calls to every device the user has subscribed (see
+ * push_subscriptions). Rows are claimed with claim_pending_call_pushes /
+ * claim_reminder_push / claim_escalation_pushes first, so running several
+ * senders at once never pushes the same occurrence twice.
+ *
+ * Self reminders are keyed on the occurrence the recurrence has reached (see
+ * selfReminderPushOccurrence), not next_trigger: with every device closed
+ * nothing advances next_trigger, and each later occurrence still needs a push.
+ *
+ * Environment:
+ *   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY  - generate with `npx web-push generate-vapid-keys`
+ *   VAPID_SUBJECT                        - contact URL or mailto: for push services
+ *   PUSH_ACTION_SECRET                   - signs the per-call tokens used by push-action
+ */
+
+import webpush from 'web-push';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createActionToken, reminderActionSubject } from './actionToken.ts';
+import { selfReminderPushOccurrence } from './reminderDispatcher.js';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  data: {
+    kind: 'call' | 'reminder';
+    callId?: string;
+    reminderId?: string;
+    occurrence?: number; // Trigger time of the pushed occurrence
+    actionToken?: string;
+    actionUrl?: string;
+    url: string;
+  };
+}
+
+export interface PushResult {
+  calls: number;
+  reminders: number;
+  escalations: number;
+  sent: number;
+  expired: number; // Subscriptions removed because the push service no longer knows them
+  errors: string[];
+}
+
+// The columns of `reminders` a push needs (selfReminderPushOccurrence reads the whole row)
+interface SelfReminderRow {
+  id: string;
+  user_id: string;
+  title: string;
+  why: string | null;
+}
+
+interface StoredSubscription {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PUSH_TTL_SECONDS = 10 * 60; // A call nobody sees within 10 minutes is stale
+const BATCH_SIZE = 100;
+const MAX_REMINDER_PAGES = 20; // Self reminders scanned per run, BATCH_SIZE at a time
+const REMINDER_MAX_AGE_MS = 15 * 60 * 1000; // Older occurrences were missed while offline, not late
+
+let vapidConfigured = false;
+
+function configureVapid(): boolean {
+  if (vapidConfigured) return true;
+
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return false;
+
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') || 'mailto:support@example.com', publicKey, privateKey);
+  vapidConfigured = true;
+  return true;
+}
+
+// ============================================================================
+// SENDING
+// ============================================================================
+
+/**
+ * Push every pending call, due self reminder and escalation that hasn't been
+ * pushed yet.
+ */
+export async function sendDuePushes(client: SupabaseClient): Promise<PushResult> {
+  const result: PushResult = { calls: 0, reminders: 0, escalations: 0, sent: 0, expired: 0, errors: [] };
+
+  if (!configureVapid()) {
+    result.errors.push('VAPID keys not configured');
+    return result;
+  }
+
+  const now = Date.now();
+  const actionUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/push-action`;
+  const actionSecret = Deno.env.get('PUSH_ACTION_SECRET') || '';
+
+  // Calls from other people
+  const { data: calls, error: callsError } = await client.rpc('claim_pending_call_pushes', {
+    p_now: now,
+    p_limit: BATCH_SIZE,
+  });
+
+  if (callsError) {
+    result.errors.push(`Failed to claim call pushes: ${callsError.message}`);
+  }
+
+  for (const call of calls || []) {
+    result.calls++;
+    const isMotivation = call.call_type === 'motivation';
+    await sendToUser(client, call.recipient_id, {
+      title: isMotivation
+        ? `💪 ${call.sender_name || 'Your partner'} is calling to cheer you on`
+        : `📞 ${call.sender_name || 'Someone'} is calling`,
+      body: isMotivation ? call.message_text || 'Sent you a voice message' : call.reminder_title,
+      tag: `call-${call.id}`,
+      data: {
+        kind: 'call',
+        callId: call.id,
+        actionToken: actionSecret ? await createActionToken(actionSecret, call.id) : undefined,
+        actionUrl,
+        url: '/',
+      },
+    }, result);
+  }
+
+  // The user's own reminders, for devices where the app is closed
+  await pushDueSelfReminders(client, now, actionUrl, actionSecret, result);
+
+  // Reminders the user keeps missing (queued by the app's escalation policy)
+  const { data: escalations, error: escalationsError } = await client.rpc('claim_escalation_pushes', {
+    p_now: now,
+    p_limit: BATCH_SIZE,
+  });
+
+  if (escalationsError) {
+    result.errors.push(`Failed to claim escalation pushes: ${escalationsError.message}`);
+  }
+
+  for (const escalation of escalations || []) {
+    result.escalations++;
+    await sendToUser(client, escalation.user_id, {
+      title: escalation.title,
+      body: escalation.body,
+      tag: `escalation-${escalation.reminder_id}`,
+      data: {
+        kind: 'reminder',
+        reminderId: escalation.reminder_id,
+        url: '/',
+      },
+    }, result);
+  }
+
+  return result;
+}
+
+/**
+ * Push the latest due occurrence of every self reminder whose next_trigger no
+ * open tab has advanced. Reminders an open tab keeps up to date are skipped,
+ * since that tab already rang them.
+ */
+async function pushDueSelfReminders(
+  client: SupabaseClient,
+  now: number,
+  actionUrl: string,
+  actionSecret: string,
+  result: PushResult
+): Promise<void> {
+  for (let page = 0; page < MAX_REMINDER_PAGES; page++) {
+    const { data, error } = await client
+      .from('reminders')
+      .select('*')
+      .eq('active', true)
+      .eq('is_for_self', true)
+      .is('deleted_at', null)
+      .lte('next_trigger', now)
+      .order('id')
+      .range(page * BATCH_SIZE, (page + 1) * BATCH_SIZE - 1);
+
+    if (error) {
+      result.errors.push(`Failed to load due self reminders: ${error.message}`);
+      return;
+    }
+
+    for (const reminder of (data || []) as SelfReminderRow[]) {
+      let occurrence: number | null;
+      try {
+        occurrence = selfReminderPushOccurrence(reminder, now, REMINDER_MAX_AGE_MS);
+      } catch (err) {
+        result.errors.push(`Failed to schedule reminder ${reminder.id}: ${err instanceof Error ? err.message : err}`);
+        continue;
+      }
+      if (occurrence === null) continue;
+
+      const { data: claimed, error: claimError } = await client.rpc('claim_reminder_push', {
+        p_reminder_id: reminder.id,
+        p_occurrence: occurrence,
+      });
+
+      if (claimError) {
+        result.errors.push(`Failed to claim reminder push ${reminder.id}: ${claimError.message}`);
+        continue;
+      }
+      // Another sender pushed this occurrence first
+      if (!claimed) continue;
+
+      result.reminders++;
+      await sendToUser(client, reminder.user_id, {
+        title: 'Your Future Self is Calling',
+        body: reminder.why ? `${reminder.title} - ${reminder.why}` : reminder.title,
+        tag: `reminder-${reminder.id}`,
+        data: {
+          kind: 'reminder',
+          reminderId: reminder.id,
+          occurrence,
+          actionToken: actionSecret
+            ? await createActionToken(actionSecret, reminderActionSubject(reminder.id, occurrence))
+            : undefined,
+          actionUrl,
+          url: '/',
+        },
+      }, result);
+    }
+
+    if (!data || data.length < BATCH_SIZE) return;
+  }
+}
+
+async function sendToUser(
+  client: SupabaseClient,
+  userId: string,
+  payload: PushPayload,
+  result: PushResult
+): Promise<void> {
+  const { data: subscriptions, error } = await client
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', userId);
+
+  if (error) {
+    result.errors.push(`Failed to load subscriptions for ${userId}: ${error.message}`);
+    return;
+  }
+
+  for (const subscription of (subscriptions || []) as StoredSubscription[]) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload),
+        { TTL: PUSH_TTL_SECONDS, urgency: 'high' }
+      );
+      result.sent++;
+
+      await client
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', subscription.id);
+    } catch (err) {
+      const statusCode = (err as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        // Browser unsubscribed or the subscription expired
+        await client.from('push_subscriptions').delete().eq('id', subscription.id);
+        result.expired++;
+      } else {
+        result.errors.push(`Push to ${subscription.endpoint.slice(0, 40)}... failed: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+}
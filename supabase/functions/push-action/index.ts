@@ -0,0 +1,122 @@
+/**
+ * Push Action Edge Function
+ *
+ * Receives notification actions from the service worker, so snoozing or
+ * declining a call from the notification works with no tab open. Requests are
+ * authorized by the token in the push payload, not a user session.
+ *
+ * Snoozing one of the user's own reminders moves its next_trigger, so the push
+ * sender rings it again once the snooze ends. Declining needs nothing here:
+ * the occurrence was already pushed, and the app skips it when next opened.
+ *
+ * Deploy: supabase functions deploy push-action --no-verify-jwt
+ *
+ * POST { callId, action: 'snooze' | 'decline', token, snoozeMinutes? }
+ * POST { reminderId, occurrence, action: 'snooze' | 'decline', token, snoozeMinutes? }
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { reminderActionSubject, verifyActionToken } from '../_shared/actionToken.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const actionSecret = Deno.env.get('PUSH_ACTION_SECRET') ?? '';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+const DEFAULT_SNOOZE_MINUTES = 10;
+
+// The service worker calls this cross-origin from the app's domain
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  let body: {
+    callId?: string;
+    reminderId?: string;
+    occurrence?: number;
+    action?: string;
+    token?: string;
+    snoozeMinutes?: number;
+  };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400);
+  }
+
+  const { callId, reminderId, occurrence, action, token } = body;
+  const isReminder = !callId && !!reminderId && typeof occurrence === 'number';
+  if ((!callId && !isReminder) || !token || (action !== 'snooze' && action !== 'decline')) {
+    return json({ error: 'Expected callId (or reminderId and occurrence), token and action "snooze" or "decline"' }, 400);
+  }
+
+  const subject = isReminder ? reminderActionSubject(reminderId!, occurrence!) : callId!;
+  if (!actionSecret || !(await verifyActionToken(actionSecret, subject, token))) {
+    return json({ error: 'Invalid token' }, 401);
+  }
+
+  const minutes = Math.min(Math.max(body.snoozeMinutes ?? DEFAULT_SNOOZE_MINUTES, 1), 60);
+
+  if (isReminder) {
+    if (action === 'decline') return json({ updated: false });
+
+    // Only while this is still the latest pushed occurrence and no open tab has
+    // moved next_trigger past it; the snooze end is later than pushed_trigger,
+    // so it's pushed again once due
+    const { data, error } = await supabase
+      .from('reminders')
+      .update({ next_trigger: Date.now() + minutes * 60 * 1000 })
+      .eq('id', reminderId!)
+      .eq('pushed_trigger', occurrence!)
+      .lte('next_trigger', occurrence!)
+      .eq('active', true)
+      .select('id, next_trigger');
+
+    if (error) {
+      console.error('[PushAction] Failed to snooze reminder:', error);
+      return json({ error: 'Failed to snooze reminder' }, 500);
+    }
+
+    return json({ updated: (data || []).length > 0, reminder: data?.[0] ?? null });
+  }
+  const changes = action === 'snooze'
+    // Stays pending; the push sender rings again once the snooze ends
+    ? { snoozed_until: Date.now() + minutes * 60 * 1000 }
+    // Same status the in-app decline button sets
+    : { status: 'missed' };
+
+  const { data, error } = await supabase
+    .from('pending_calls')
+    .update(changes)
+    .eq('id', callId!)
+    .eq('status', 'pending')
+    .select('id, status, snoozed_until');
+
+  if (error) {
+    console.error('[PushAction] Failed to update call:', error);
+    return json({ error: 'Failed to update call' }, 500);
+  }
+
+  // Nothing updated: already answered or declined on another device
+  return json({ updated: (data || []).length > 0, call: data?.[0] ?? null });
+});
@@ -0,0 +1,45 @@
+/**
+ * Push Sender Edge Function
+ *
+ * Pushes pending calls and due self reminders to subscribed devices, so the
+ * incoming call shows up even when no tab is open (see _shared/webPush.ts).
+ * The reminder-scheduler function already does this after each run; call this
+ * one directly when you only need pushes.
+ *
+ * Deploy:   npm run build:functions && supabase functions deploy push-sender --no-verify-jwt
+ * Secrets:  supabase secrets set VAPID_PUBLIC_KEY=... VAPID_PRIVATE_KEY=... \
+ *             VAPID_SUBJECT=mailto:you@example.com PUSH_ACTION_SECRET=... SCHEDULER_SECRET=...
+ *
+ * Locally (against the local Postgres from `supabase start`):
+ *   supabase functions serve push-sender --no-verify-jwt --env-file supabase/.env.local
+ *   curl -X POST http://localhost:54321/functions/v1/push-sender \
+ *     -H "Authorization: Bearer $SCHEDULER_SECRET"
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { sendDuePushes } from '../_shared/webPush.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const schedulerSecret = Deno.env.get('SCHEDULER_SECRET') ?? '';
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+Deno.serve(async (req: Request) => {
+  if (!schedulerSecret || req.headers.get('Authorization') !== `Bearer ${schedulerSecret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const result = await sendDuePushes(supabase);
+
+  if (result.errors.length > 0) {
+    console.error('[PushSender] Errors:', result.errors);
+  }
+  console.log(`[PushSender] ${result.calls} calls, ${result.reminders} reminders, ${result.escalations} escalations, ${result.sent} sent, ${result.expired} expired`);
+
+  return new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Reminder Scheduler Edge Function
+ *
+ * Delivers reminders sent to other people without relying on the sender's
+ * browser being open: each run claims due reminders, creates the recipient's
+ * pending calls and advances next_trigger (see src/services/reminderDispatcher.ts).
+ * Group reminders are fanned out to every member the same way.
+ * The new calls are then pushed to the recipients' devices (see _shared/webPush.ts).
+ *
+ * Deploy:   npm run build:functions && supabase functions deploy reminder-scheduler --no-verify-jwt
+ * Secrets:  supabase secrets set SCHEDULER_SECRET=<random string>
+ * Schedule: see the pg_cron section of supabase/migration_server_scheduler.sql
+ *
+ * Locally (against the local Postgres from `supabase start`):
+ *   supabase functions serve reminder-scheduler --no-verify-jwt
+ *   curl -X POST http://localhost:54321/functions/v1/reminder-scheduler \
+ *     -H "Authorization: Bearer $SCHEDULER_SECRET"
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { dispatchDueGroupReminders, dispatchDueReminders } from '../_shared/reminderDispatcher.js';
+import { sendDuePushes } from '../_shared/webPush.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const schedulerSecret = Deno.env.get('SCHEDULER_SECRET') ?? '';
+
+// Service role bypasses RLS so one worker can dispatch every user's reminders
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+// Keep claiming until a batch comes back short, bounded so a run can't spin forever
+const MAX_BATCHES = 20;
+const BATCH_SIZE = 50;
+
+Deno.serve(async (req: Request) => {
+  if (!schedulerSecret || req.headers.get('Authorization') !== `Bearer ${schedulerSecret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const workerId = `edge:${crypto.randomUUID()}`;
+  const totals = { claimed: 0, dispatched: 0, completed: 0, errors: [] as string[] };
+
+  for (const dispatch of [dispatchDueReminders, dispatchDueGroupReminders]) {
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const result = await dispatch(supabase, { workerId, batchSize: BATCH_SIZE });
+      totals.claimed += result.claimed;
+      totals.dispatched += result.dispatched;
+      totals.completed += result.completed;
+      totals.errors.push(...result.errors);
+
+      // Stop on errors too, or released claims would be retried straight away
+      if (result.claimed < BATCH_SIZE || result.errors.length > 0) break;
+    }
+  }
+
+  if (totals.errors.length > 0) {
+    console.error('[ReminderScheduler] Errors:', totals.errors);
+  }
+  console.log(`[ReminderScheduler] Claimed ${totals.claimed}, dispatched ${totals.dispatched}, completed ${totals.completed}`);
+
+  const push = await sendDuePushes(supabase);
+  if (push.errors.length > 0) {
+    console.error('[ReminderScheduler] Push errors:', push.errors);
+  }
+
+  return new Response(JSON.stringify({ ...totals, push }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
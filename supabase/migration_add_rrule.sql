@@ -0,0 +1,41 @@
+-- Migration: Add RFC 5545 recurrence rules to reminders
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- UPDATE REMINDERS TABLE - Add recurrence fields
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS rrule TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS dtstart BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS exdates BIGINT[] DEFAULT NULL;
+
+COMMENT ON COLUMN public.reminders.rrule IS 'One or more newline-separated RFC 5545 RRULE values (e.g. "FREQ=MONTHLY;BYDAY=1MO")';
+COMMENT ON COLUMN public.reminders.dtstart IS 'UTC timestamp (ms) the recurrence series is anchored at';
+COMMENT ON COLUMN public.reminders.exdates IS 'UTC timestamps (ms) of skipped occurrences';
+
+-- ============================================================================
+-- BACKFILL - Translate legacy repeat types into equivalent rules
+-- ============================================================================
+-- Reminders using specific_times are left for the app to translate on next sync,
+-- since a time list can need more than one rule.
+UPDATE public.reminders
+SET
+  dtstart = next_trigger,
+  rrule = CASE
+    WHEN repeat = 'once' THEN 'FREQ=DAILY;COUNT=1'
+    WHEN repeat = 'hourly' THEN 'FREQ=HOURLY'
+    WHEN repeat = 'daily' THEN 'FREQ=DAILY'
+    WHEN repeat = 'weekly' THEN 'FREQ=WEEKLY'
+    WHEN repeat = 'custom' AND days_of_week IS NOT NULL AND array_length(days_of_week, 1) > 0 THEN
+      'FREQ=WEEKLY;BYDAY=' || (
+        SELECT string_agg((ARRAY['SU','MO','TU','WE','TH','FR','SA'])[d + 1], ',' ORDER BY d)
+        FROM unnest(days_of_week) AS d
+      )
+    WHEN repeat = 'custom' AND custom_interval IS NOT NULL AND custom_interval % 3600000 = 0 THEN
+      'FREQ=HOURLY;INTERVAL=' || (custom_interval / 3600000)
+    WHEN repeat = 'custom' AND custom_interval IS NOT NULL THEN
+      'FREQ=MINUTELY;INTERVAL=' || GREATEST(1, custom_interval / 60000)
+    ELSE 'FREQ=DAILY'
+  END
+WHERE rrule IS NULL
+  AND (specific_times IS NULL OR array_length(specific_times, 1) IS NULL);
@@ -0,0 +1,28 @@
+-- Migration: Add per-reminder IANA time zones
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- UPDATE REMINDERS TABLE - Add time zone fields
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS time_zone TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS time_zone_mode TEXT DEFAULT 'device';
+
+-- Add check constraint for valid modes
+ALTER TABLE public.reminders
+DROP CONSTRAINT IF EXISTS reminders_time_zone_mode_check;
+
+ALTER TABLE public.reminders
+ADD CONSTRAINT reminders_time_zone_mode_check
+CHECK (time_zone_mode IS NULL OR time_zone_mode IN ('device', 'pinned', 'recipient'));
+
+COMMENT ON COLUMN public.reminders.time_zone IS 'IANA zone the reminder''s wall-clock time is in (e.g. "Africa/Lagos"), NULL = creator''s device zone';
+COMMENT ON COLUMN public.reminders.time_zone_mode IS 'device = follow the creator''s device, pinned = fixed zone, recipient = follow the recipient''s profile zone';
+
+-- ============================================================================
+-- UPDATE PROFILES TABLE - Remember each user's current zone
+-- ============================================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS time_zone TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.profiles.time_zone IS 'IANA zone last reported by the user''s device, used to ring reminders from others at local time';
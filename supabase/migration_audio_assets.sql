@@ -0,0 +1,118 @@
+-- Migration: Voice recordings in Supabase Storage
+-- Run this in your Supabase SQL Editor
+--
+-- Recordings used to be base64 TEXT in reminders.audio_recording and were
+-- copied into every pending call. They now live as files in the
+-- "audio-recordings" Storage bucket; rows only reference them by id.
+-- audio_recording is kept so rows written by older app versions still play.
+
+-- ============================================================================
+-- AUDIO ASSETS TABLE - One row per recording file
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.audio_assets (
+  id UUID PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT NOT NULL DEFAULT 'audio/webm',
+  size INTEGER NOT NULL DEFAULT 0,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_assets_owner_id ON public.audio_assets(owner_id);
+
+COMMENT ON COLUMN public.audio_assets.storage_path IS 'Object name in the audio-recordings bucket: <owner_id>/<id>';
+
+-- ============================================================================
+-- REMINDERS & PENDING CALLS - Reference recordings instead of embedding them
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS audio_asset_id UUID REFERENCES public.audio_assets(id) ON DELETE SET NULL;
+
+ALTER TABLE public.pending_calls
+ADD COLUMN IF NOT EXISTS audio_asset_id UUID REFERENCES public.audio_assets(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.reminders.audio_asset_id IS 'Self-recorded message; one recording can be shared by many reminders';
+COMMENT ON COLUMN public.pending_calls.audio_asset_id IS 'Recording to play when the call is answered, downloaded on first play';
+COMMENT ON COLUMN public.reminders.audio_recording IS 'Legacy base64 recording, superseded by audio_asset_id';
+COMMENT ON COLUMN public.pending_calls.audio_recording IS 'Legacy base64 recording, superseded by audio_asset_id';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+ALTER TABLE public.audio_assets ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user received a reminder or call that plays this recording
+CREATE OR REPLACE FUNCTION public.can_play_audio_asset(p_asset_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.pending_calls
+    WHERE audio_asset_id = p_asset_id AND recipient_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.reminders
+    WHERE audio_asset_id = p_asset_id AND recipient_id = auth.uid()
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users can view own or received audio assets" ON public.audio_assets;
+CREATE POLICY "Users can view own or received audio assets" ON public.audio_assets
+  FOR SELECT USING (auth.uid() = owner_id OR public.can_play_audio_asset(id));
+
+DROP POLICY IF EXISTS "Users can insert own audio assets" ON public.audio_assets;
+CREATE POLICY "Users can insert own audio assets" ON public.audio_assets
+  FOR INSERT WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can update own audio assets" ON public.audio_assets;
+CREATE POLICY "Users can update own audio assets" ON public.audio_assets
+  FOR UPDATE USING (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Users can delete own audio assets" ON public.audio_assets;
+CREATE POLICY "Users can delete own audio assets" ON public.audio_assets
+  FOR DELETE USING (auth.uid() = owner_id);
+
+-- ============================================================================
+-- STORAGE BUCKET - Private; files sit in a folder named after their owner
+-- ============================================================================
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('audio-recordings', 'audio-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own recordings" ON storage.objects;
+CREATE POLICY "Users can upload own recordings" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'audio-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can replace own recordings" ON storage.objects;
+CREATE POLICY "Users can replace own recordings" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'audio-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete own recordings" ON storage.objects;
+CREATE POLICY "Users can delete own recordings" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'audio-recordings'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can read own or received recordings" ON storage.objects;
+CREATE POLICY "Users can read own or received recordings" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'audio-recordings'
+    AND (
+      (storage.foldername(name))[1] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM public.audio_assets a
+        WHERE a.storage_path = storage.objects.name
+          AND public.can_play_audio_asset(a.id)
+      )
+    )
+  );
@@ -0,0 +1,13 @@
+-- Migration: Conversational call transcripts
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- CALL HISTORY - Transcript and outcome of conversational calls
+-- ============================================================================
+ALTER TABLE public.call_history
+ADD COLUMN IF NOT EXISTS transcript JSONB,
+ADD COLUMN IF NOT EXISTS outcome TEXT
+  CHECK (outcome IS NULL OR outcome IN ('done', 'snoozed', 'skipped'));
+
+COMMENT ON COLUMN public.call_history.transcript IS 'Turns of a conversational call: [{ speaker: ai|user, text, at }]';
+COMMENT ON COLUMN public.call_history.outcome IS 'What the user asked for during the call (done, snoozed, skipped)';
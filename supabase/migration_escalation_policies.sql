@@ -0,0 +1,88 @@
+-- Migration: Escalation policies for missed calls
+-- Run this in your Supabase SQL Editor
+-- Requires migration_web_push.sql, migration_call_transcripts.sql and
+-- migration_accountability_partners.sql
+--
+-- Reminders can carry a policy of steps taken as the same occurrence keeps
+-- going unanswered: ring with an alarm, ring louder, push to the user's other
+-- devices, alert accountability partners, and mark the occurrence missed.
+-- The app runs the steps; pushes are queued here for the push sender.
+
+-- ============================================================================
+-- REMINDERS - The policy itself
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS escalation_policy JSONB DEFAULT NULL;
+
+COMMENT ON COLUMN public.reminders.escalation_policy IS 'Steps taken as calls go unanswered: { steps: [{ afterMisses, action, volume? }] }';
+
+-- ============================================================================
+-- CALL HISTORY - Steps taken after each missed call
+-- ============================================================================
+ALTER TABLE public.call_history
+ADD COLUMN IF NOT EXISTS escalation JSONB;
+
+ALTER TABLE public.call_history
+DROP CONSTRAINT IF EXISTS call_history_outcome_check;
+
+ALTER TABLE public.call_history
+ADD CONSTRAINT call_history_outcome_check
+  CHECK (outcome IS NULL OR outcome IN ('done', 'snoozed', 'skipped', 'missed'));
+
+COMMENT ON COLUMN public.call_history.escalation IS 'Escalation steps taken after this call was missed: [{ action, at, detail?, failed? }]';
+COMMENT ON COLUMN public.call_history.outcome IS 'What the user asked for during the call (done, snoozed, skipped), or missed once escalation gave up';
+
+-- ============================================================================
+-- ESCALATION PUSHES - Queued by the app, sent by the push sender
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.escalation_pushes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  created_at BIGINT NOT NULL,
+  pushed_at BIGINT DEFAULT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_escalation_pushes_unpushed
+  ON public.escalation_pushes(created_at) WHERE pushed_at IS NULL;
+
+COMMENT ON COLUMN public.escalation_pushes.created_at IS 'UTC timestamp (ms) the escalation step ran';
+COMMENT ON COLUMN public.escalation_pushes.pushed_at IS 'UTC timestamp (ms) it was pushed to the user''s devices';
+
+ALTER TABLE public.escalation_pushes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can queue own escalation pushes" ON public.escalation_pushes;
+CREATE POLICY "Users can queue own escalation pushes" ON public.escalation_pushes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own escalation pushes" ON public.escalation_pushes;
+CREATE POLICY "Users can view own escalation pushes" ON public.escalation_pushes
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Claim queued pushes; an escalation nobody saw within p_max_age_ms is stale.
+-- Setting pushed_at in the same statement makes concurrent senders skip each other's rows.
+CREATE OR REPLACE FUNCTION public.claim_escalation_pushes(
+  p_now BIGINT,
+  p_max_age_ms BIGINT DEFAULT 900000,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF public.escalation_pushes AS $$
+  UPDATE public.escalation_pushes e
+  SET pushed_at = p_now
+  WHERE e.id IN (
+    SELECT id
+    FROM public.escalation_pushes
+    WHERE pushed_at IS NULL
+      AND created_at > p_now - p_max_age_ms
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.*;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Only the push sender (service role) claims pushes
+REVOKE EXECUTE ON FUNCTION public.claim_escalation_pushes(BIGINT, BIGINT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_escalation_pushes(BIGINT, BIGINT, INTEGER) TO service_role;
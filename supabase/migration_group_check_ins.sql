@@ -0,0 +1,146 @@
+-- Migration: Group check-ins, streaks and leaderboard
+-- Run this in your Supabase SQL Editor
+-- Requires migration_group_reminder_calls.sql
+--
+-- Members answer "did you do it?" after a group reminder's call, and each
+-- answer is stored against that occurrence. The group keeps a streak while
+-- enough of the members who were called say yes, and a weekly leaderboard
+-- counts each member's completions. Only members of the group can see or
+-- write any of it.
+
+-- ============================================================================
+-- REMINDER GROUPS - What counts as a good occurrence
+-- ============================================================================
+ALTER TABLE public.reminder_groups
+ADD COLUMN IF NOT EXISTS streak_threshold INTEGER NOT NULL DEFAULT 75
+  CHECK (streak_threshold BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN public.reminder_groups.streak_threshold IS 'Percent of called members who must complete an occurrence for the group streak to continue';
+
+-- ============================================================================
+-- GROUP CHECK-INS - One answer per member per occurrence
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.group_check_ins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES public.reminder_groups(id) ON DELETE CASCADE, -- Set from the reminder
+  group_reminder_id UUID NOT NULL REFERENCES public.group_reminders(id) ON DELETE CASCADE,
+  occurrence_at BIGINT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  completed BOOLEAN NOT NULL,
+  checked_in_at BIGINT NOT NULL,
+
+  UNIQUE(group_reminder_id, occurrence_at, user_id)
+);
+
+COMMENT ON COLUMN public.group_check_ins.occurrence_at IS 'UTC timestamp (ms) of the occurrence, the triggered_at of its pending_calls';
+COMMENT ON COLUMN public.group_check_ins.checked_in_at IS 'UTC timestamp (ms) the member answered';
+
+CREATE INDEX IF NOT EXISTS idx_group_check_ins_group_time
+  ON public.group_check_ins(group_id, occurrence_at DESC);
+
+ALTER TABLE public.group_check_ins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view group check-ins" ON public.group_check_ins;
+CREATE POLICY "Members can view group check-ins" ON public.group_check_ins
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_members gm
+      WHERE gm.group_id = group_check_ins.group_id
+        AND gm.user_id = auth.uid()
+    )
+  );
+
+-- Members answer for themselves, only for reminders of their own group and
+-- occurrences they were called for, so the leaderboard can't be padded
+DROP POLICY IF EXISTS "Members can check in" ON public.group_check_ins;
+CREATE POLICY "Members can check in" ON public.group_check_ins
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.group_reminders gr
+      JOIN public.group_members gm ON gm.group_id = gr.group_id
+      WHERE gr.id = group_check_ins.group_reminder_id
+        AND gr.group_id = group_check_ins.group_id
+        AND gm.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.pending_calls pc
+      WHERE pc.group_reminder_id = group_check_ins.group_reminder_id
+        AND pc.triggered_at = group_check_ins.occurrence_at
+        AND pc.recipient_id = auth.uid()
+    )
+  );
+
+-- The same checks again, so an answer can't be moved to another group's reminder
+DROP POLICY IF EXISTS "Members can change their check-in" ON public.group_check_ins;
+CREATE POLICY "Members can change their check-in" ON public.group_check_ins
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.group_reminders gr
+      JOIN public.group_members gm ON gm.group_id = gr.group_id
+      WHERE gr.id = group_check_ins.group_reminder_id
+        AND gr.group_id = group_check_ins.group_id
+        AND gm.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.pending_calls pc
+      WHERE pc.group_reminder_id = group_check_ins.group_reminder_id
+        AND pc.triggered_at = group_check_ins.occurrence_at
+        AND pc.recipient_id = auth.uid()
+    )
+  );
+
+GRANT ALL ON public.group_check_ins TO authenticated;
+
+-- The app only knows which reminder a call was for; fill in its group
+CREATE OR REPLACE FUNCTION public.set_check_in_group()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT group_id INTO NEW.group_id
+  FROM public.group_reminders
+  WHERE id = NEW.group_reminder_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_check_in_group ON public.group_check_ins;
+CREATE TRIGGER trigger_set_check_in_group
+BEFORE INSERT OR UPDATE ON public.group_check_ins
+FOR EACH ROW EXECUTE FUNCTION public.set_check_in_group();
+
+-- ============================================================================
+-- OCCURRENCE RESULTS - How many were called and how many did it
+-- ============================================================================
+-- security_invoker keeps the underlying tables' RLS, so members only see their groups
+CREATE OR REPLACE VIEW public.group_occurrence_results
+WITH (security_invoker = true) AS
+SELECT
+  gr.group_id,
+  pc.group_reminder_id,
+  pc.triggered_at AS occurrence_at,
+  COUNT(*) AS called,
+  COUNT(*) FILTER (WHERE ci.completed) AS completed,
+  COUNT(ci.id) AS responded
+FROM public.pending_calls pc
+JOIN public.group_reminders gr ON gr.id = pc.group_reminder_id
+LEFT JOIN public.group_check_ins ci
+  ON ci.group_reminder_id = pc.group_reminder_id
+  AND ci.occurrence_at = pc.triggered_at
+  AND ci.user_id = pc.recipient_id
+WHERE pc.group_reminder_id IS NOT NULL
+GROUP BY gr.group_id, pc.group_reminder_id, pc.triggered_at;
+
+GRANT SELECT ON public.group_occurrence_results TO authenticated;
+
+-- ============================================================================
+-- ENABLE REALTIME FOR THE CHECK-IN BOARD (ignore error if already added)
+-- ============================================================================
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.group_check_ins;
+EXCEPTION
+  WHEN duplicate_object THEN
+    NULL; -- Already added, ignore
+END $$;
@@ -0,0 +1,136 @@
+-- Migration: Ring group members when a group reminder comes due
+-- Run this in your Supabase SQL Editor
+-- Requires migration_group_reminders.sql and migration_server_scheduler.sql
+--
+-- The reminder scheduler fans each due group reminder out to the group's
+-- members as pending_calls, then advances next_trigger with the same
+-- recurrence rules as other reminders. Members can mute a whole group or a
+-- single reminder, and everyone in the group can see who answered each
+-- occurrence.
+
+-- ============================================================================
+-- GROUP REMINDERS - Recurrence and scheduler lease
+-- ============================================================================
+ALTER TABLE public.group_reminders
+ADD COLUMN IF NOT EXISTS rrule TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS dtstart BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS exdates BIGINT[] DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS time_zone TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS claimed_at BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS claimed_by TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.group_reminders.next_trigger IS 'UTC timestamp (ms) of the next occurrence; NULL until the scheduler first sees the reminder';
+COMMENT ON COLUMN public.group_reminders.rrule IS 'Newline-separated RRULE values; derived from repeat when NULL';
+COMMENT ON COLUMN public.group_reminders.time_zone IS 'IANA zone of the wall-clock time, shared by every member (the creator''s zone)';
+COMMENT ON COLUMN public.group_reminders.claimed_at IS 'UTC timestamp (ms) a scheduler worker claimed this reminder for dispatch';
+COMMENT ON COLUMN public.group_reminders.claimed_by IS 'Id of the worker holding the claim (server function or browser fallback)';
+
+CREATE INDEX IF NOT EXISTS idx_group_reminders_due
+  ON public.group_reminders(next_trigger)
+  WHERE active = true;
+
+-- ============================================================================
+-- PENDING CALLS - One call per member per occurrence
+-- ============================================================================
+ALTER TABLE public.pending_calls
+ADD COLUMN IF NOT EXISTS group_reminder_id UUID REFERENCES public.group_reminders(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN public.pending_calls.group_reminder_id IS 'Group reminder this call is one member''s ring of (reminder_id is NULL)';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_calls_group_occurrence
+  ON public.pending_calls(group_reminder_id, recipient_id, triggered_at);
+
+-- The roster: every member can see how the group's calls went
+DROP POLICY IF EXISTS "Group members can view group calls" ON public.pending_calls;
+CREATE POLICY "Group members can view group calls" ON public.pending_calls
+  FOR SELECT USING (
+    group_reminder_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.group_reminders gr
+      JOIN public.group_members gm ON gm.group_id = gr.group_id
+      WHERE gr.id = pending_calls.group_reminder_id
+        AND gm.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- GROUP MEMBER MUTES - Opt out of a group's calls, or of one reminder
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.group_member_mutes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES public.reminder_groups(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  group_reminder_id UUID REFERENCES public.group_reminders(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE NULLS NOT DISTINCT (group_id, user_id, group_reminder_id)
+);
+
+COMMENT ON COLUMN public.group_member_mutes.group_reminder_id IS 'The reminder muted; NULL mutes every reminder in the group';
+
+CREATE INDEX IF NOT EXISTS idx_group_member_mutes_group ON public.group_member_mutes(group_id);
+
+ALTER TABLE public.group_member_mutes ENABLE ROW LEVEL SECURITY;
+
+-- Whoever dispatches the group's reminders needs to see everyone's mutes
+DROP POLICY IF EXISTS "Members can view group mutes" ON public.group_member_mutes;
+CREATE POLICY "Members can view group mutes" ON public.group_member_mutes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.group_members gm
+      WHERE gm.group_id = group_member_mutes.group_id
+        AND gm.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can mute for themselves" ON public.group_member_mutes;
+CREATE POLICY "Members can mute for themselves" ON public.group_member_mutes
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.group_members gm
+      WHERE gm.group_id = group_member_mutes.group_id
+        AND gm.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can unmute for themselves" ON public.group_member_mutes;
+CREATE POLICY "Members can unmute for themselves" ON public.group_member_mutes
+  FOR DELETE USING (auth.uid() = user_id);
+
+GRANT ALL ON public.group_member_mutes TO authenticated;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Claim up to p_limit due group reminders for one worker, as claim_due_reminders
+-- does for reminders. Reminders never scheduled (next_trigger NULL) are claimed
+-- too, so the worker can work out their first occurrence.
+CREATE OR REPLACE FUNCTION public.claim_due_group_reminders(
+  p_worker_id TEXT,
+  p_now BIGINT,
+  p_grace_ms BIGINT DEFAULT 0,
+  p_lease_ms BIGINT DEFAULT 60000,
+  p_limit INTEGER DEFAULT 50,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.group_reminders AS $$
+  UPDATE public.group_reminders g
+  SET claimed_at = p_now,
+      claimed_by = p_worker_id
+  WHERE g.id IN (
+    SELECT id
+    FROM public.group_reminders
+    WHERE active = true
+      AND (next_trigger IS NULL OR next_trigger <= p_now - p_grace_ms)
+      AND (claimed_at IS NULL OR claimed_at < p_now - p_lease_ms)
+      AND (p_user_id IS NULL OR created_by = p_user_id)
+    ORDER BY next_trigger NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING g.*;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.claim_due_group_reminders(TEXT, BIGINT, BIGINT, BIGINT, INTEGER, UUID) TO authenticated, service_role;
@@ -1,5 +1,12 @@
 -- Migration: Group Reminders
 -- Creates tables for the group reminders feature
+--
+-- Roles: the group's creator (reminder_groups.created_by) is its owner and
+-- always an admin. Admins invite people, promote and demote members and
+-- remove plain members. Nobody is added without consent: people join by
+-- accepting an invite or opening an invite link, through the functions at
+-- the end of this file. Anyone can leave; when the owner leaves, ownership
+-- passes to the longest-standing admin (or member).
 
 -- ============================================================================
 -- REMINDER GROUPS TABLE (created first without policies)
@@ -34,9 +41,47 @@ CREATE TABLE IF NOT EXISTS public.group_members (
   UNIQUE(group_id, user_id)
 );
 
+DO $$
+BEGIN
+  ALTER TABLE public.group_members
+  ADD CONSTRAINT group_members_role_check CHECK (role IN ('admin', 'member'));
+EXCEPTION
+  WHEN duplicate_object THEN
+    NULL; -- Already added, ignore
+END $$;
+
 -- Enable Row Level Security
 ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
 
+-- ============================================================================
+-- GROUP INVITES TABLE
+-- ============================================================================
+-- Either addressed to one user (invitee_id), who accepts or declines, or an
+-- invite link (token) anyone signed in can use until it expires.
+CREATE TABLE IF NOT EXISTS public.group_invites (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  group_id UUID NOT NULL REFERENCES public.reminder_groups(id) ON DELETE CASCADE,
+  group_name TEXT NOT NULL, -- Shown to invitees, who can't see the group yet
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  inviter_name TEXT,
+  invitee_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  invitee_email TEXT,
+  token TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'declined', 'revoked'
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK ((invitee_id IS NULL) <> (token IS NULL))
+);
+
+-- One open invite per person per group
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_invites_pending_invitee
+  ON public.group_invites(group_id, invitee_id)
+  WHERE status = 'pending' AND invitee_id IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.group_invites ENABLE ROW LEVEL SECURITY;
+
 -- ============================================================================
 -- GROUP REMINDERS TABLE
 -- ============================================================================
@@ -57,6 +102,35 @@ CREATE TABLE IF NOT EXISTS public.group_reminders (
 -- Enable Row Level Security
 ALTER TABLE public.group_reminders ENABLE ROW LEVEL SECURITY;
 
+-- ============================================================================
+-- ROLE CHECKS (used by the policies below)
+-- ============================================================================
+-- SECURITY DEFINER so policies on group_members can ask about group_members
+-- without recursing into their own checks
+CREATE OR REPLACE FUNCTION public.is_group_member(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_group_admin(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid()
+    AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.group_owner(p_group_id UUID)
+RETURNS UUID AS $$
+  SELECT created_by FROM public.reminder_groups WHERE id = p_group_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- ============================================================================
 -- NOW ADD ALL POLICIES (after all tables exist)
 -- ============================================================================
@@ -94,44 +168,72 @@ CREATE POLICY "Admins can delete groups" ON public.reminder_groups
 -- GROUP MEMBERS POLICIES
 DROP POLICY IF EXISTS "Users can view group members" ON public.group_members;
 CREATE POLICY "Users can view group members" ON public.group_members
-  FOR SELECT USING (
-    EXISTS (
-      SELECT 1 FROM public.group_members gm
-      WHERE gm.group_id = group_members.group_id
-      AND gm.user_id = auth.uid()
-    )
-  );
+  FOR SELECT USING (public.is_group_member(group_id));
 
+-- Only the creator adds themselves, as the first admin. Everyone else joins
+-- through accept_group_invite or join_group_by_token.
 DROP POLICY IF EXISTS "Admins can add members" ON public.group_members;
-CREATE POLICY "Admins can add members" ON public.group_members
+DROP POLICY IF EXISTS "Creators can join their group" ON public.group_members;
+CREATE POLICY "Creators can join their group" ON public.group_members
   FOR INSERT WITH CHECK (
-    -- Allow if user is the group creator (first member adds themselves)
-    EXISTS (
-      SELECT 1 FROM public.reminder_groups rg
-      WHERE rg.id = group_id
-      AND rg.created_by = auth.uid()
-    )
-    -- Or if user is already an admin of this group
-    OR EXISTS (
-      SELECT 1 FROM public.group_members gm
-      WHERE gm.group_id = group_id
-      AND gm.user_id = auth.uid()
-      AND gm.role = 'admin'
-    )
+    auth.uid() = user_id
+    AND role = 'admin'
+    AND public.group_owner(group_id) = auth.uid()
+  );
+
+-- Promote and demote; the owner always stays an admin (only role is updatable, see grants)
+DROP POLICY IF EXISTS "Admins can change roles" ON public.group_members;
+CREATE POLICY "Admins can change roles" ON public.group_members
+  FOR UPDATE USING (
+    public.is_group_admin(group_id)
+    AND user_id <> public.group_owner(group_id)
+  )
+  WITH CHECK (
+    public.is_group_admin(group_id)
+    AND user_id <> public.group_owner(group_id)
   );
 
+-- Members leave by themselves; admins remove plain members (demote an admin
+-- first). The owner leaves through leave_group so the group gets a new owner.
 DROP POLICY IF EXISTS "Admins can remove members" ON public.group_members;
 CREATE POLICY "Admins can remove members" ON public.group_members
   FOR DELETE USING (
-    auth.uid() = user_id
-    OR EXISTS (
-      SELECT 1 FROM public.group_members gm
-      WHERE gm.group_id = group_members.group_id
-      AND gm.user_id = auth.uid()
-      AND gm.role = 'admin'
-    )
+    (auth.uid() = user_id AND user_id <> public.group_owner(group_id))
+    OR (public.is_group_admin(group_id) AND role = 'member')
+  );
+
+-- GROUP INVITES POLICIES
+DROP POLICY IF EXISTS "Invitees and admins can view invites" ON public.group_invites;
+CREATE POLICY "Invitees and admins can view invites" ON public.group_invites
+  FOR SELECT USING (
+    auth.uid() = invitee_id
+    OR public.is_group_admin(group_id)
+  );
+
+DROP POLICY IF EXISTS "Admins can invite" ON public.group_invites;
+CREATE POLICY "Admins can invite" ON public.group_invites
+  FOR INSERT WITH CHECK (
+    auth.uid() = invited_by
+    AND status = 'pending'
+    AND public.is_group_admin(group_id)
+  );
+
+-- Invitees decline and admins revoke; accepting goes through accept_group_invite
+DROP POLICY IF EXISTS "Invitees and admins can close invites" ON public.group_invites;
+CREATE POLICY "Invitees and admins can close invites" ON public.group_invites
+  FOR UPDATE USING (
+    auth.uid() = invitee_id
+    OR public.is_group_admin(group_id)
+  )
+  WITH CHECK (
+    (auth.uid() = invitee_id AND status = 'declined')
+    OR (public.is_group_admin(group_id) AND status = 'revoked')
   );
 
+DROP POLICY IF EXISTS "Admins can delete invites" ON public.group_invites;
+CREATE POLICY "Admins can delete invites" ON public.group_invites
+  FOR DELETE USING (public.is_group_admin(group_id));
+
 -- GROUP REMINDERS POLICIES
 DROP POLICY IF EXISTS "Users can view group reminders" ON public.group_reminders;
 CREATE POLICY "Users can view group reminders" ON public.group_reminders
@@ -185,6 +287,8 @@ CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON public.group_members(use
 CREATE INDEX IF NOT EXISTS idx_group_reminders_group_id ON public.group_reminders(group_id);
 CREATE INDEX IF NOT EXISTS idx_group_reminders_next_trigger ON public.group_reminders(next_trigger);
 CREATE INDEX IF NOT EXISTS idx_group_reminders_active ON public.group_reminders(active);
+CREATE INDEX IF NOT EXISTS idx_group_invites_invitee_id ON public.group_invites(invitee_id);
+CREATE INDEX IF NOT EXISTS idx_group_invites_group_id ON public.group_invites(group_id);
 
 -- ============================================================================
 -- TRIGGERS TO UPDATE COUNTS
@@ -238,9 +342,189 @@ CREATE TRIGGER trigger_update_reminder_count
 AFTER INSERT OR DELETE ON public.group_reminders
 FOR EACH ROW EXECUTE FUNCTION update_group_reminder_count();
 
+-- Ownership only changes through transfer_group_ownership and leave_group
+CREATE OR REPLACE FUNCTION protect_group_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by AND current_user = 'authenticated' THEN
+    RAISE EXCEPTION 'Use transfer_group_ownership to change a group''s owner';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_group_owner ON public.reminder_groups;
+CREATE TRIGGER trigger_protect_group_owner
+BEFORE UPDATE ON public.reminder_groups
+FOR EACH ROW EXECUTE FUNCTION protect_group_owner();
+
+-- ============================================================================
+-- MEMBERSHIP FUNCTIONS
+-- ============================================================================
+
+-- Add a user to a group with their profile's email and name (no-op if already in)
+CREATE OR REPLACE FUNCTION public.add_group_member(p_group_id UUID, p_user_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO public.group_members (group_id, user_id, email, name, role)
+  SELECT p_group_id, u.id, COALESCE(p.email, u.email),
+         COALESCE(p.full_name, split_part(COALESCE(p.email, u.email), '@', 1)), 'member'
+  FROM auth.users u
+  LEFT JOIN public.profiles p ON p.id = u.id
+  WHERE u.id = p_user_id
+  ON CONFLICT (group_id, user_id) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Only for the invite functions below: callers must not add others directly
+REVOKE EXECUTE ON FUNCTION public.add_group_member(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Accept an invite addressed to the caller. Returns the group joined.
+CREATE OR REPLACE FUNCTION public.accept_group_invite(p_invite_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  UPDATE public.group_invites
+  SET status = 'accepted'
+  WHERE id = p_invite_id
+    AND invitee_id = auth.uid()
+    AND status = 'pending'
+    AND expires_at > NOW()
+  RETURNING group_id INTO v_group_id;
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'This invite is no longer valid';
+  END IF;
+
+  PERFORM public.add_group_member(v_group_id, auth.uid());
+  RETURN v_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- What an invite link leads to, for showing before joining
+CREATE OR REPLACE FUNCTION public.get_group_invite(p_token TEXT)
+RETURNS TABLE (group_id UUID, group_name TEXT, inviter_name TEXT, expires_at TIMESTAMPTZ) AS $$
+  SELECT gi.group_id, gi.group_name, gi.inviter_name, gi.expires_at
+  FROM public.group_invites gi
+  WHERE gi.token = p_token
+    AND gi.status = 'pending'
+    AND gi.expires_at > NOW();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join through an invite link. Links stay usable by others until they
+-- expire or are revoked. Returns the group joined.
+CREATE OR REPLACE FUNCTION public.join_group_by_token(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_group_id UUID;
+BEGIN
+  SELECT gi.group_id INTO v_group_id
+  FROM public.group_invites gi
+  WHERE gi.token = p_token
+    AND gi.status = 'pending'
+    AND gi.expires_at > NOW();
+
+  IF v_group_id IS NULL THEN
+    RAISE EXCEPTION 'This invite link has expired or been revoked';
+  END IF;
+
+  PERFORM public.add_group_member(v_group_id, auth.uid());
+  RETURN v_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hand the group to another member, who becomes an admin if not one already
+CREATE OR REPLACE FUNCTION public.transfer_group_ownership(p_group_id UUID, p_new_owner_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF public.group_owner(p_group_id) IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the group''s owner can transfer it';
+  END IF;
+
+  UPDATE public.group_members
+  SET role = 'admin'
+  WHERE group_id = p_group_id AND user_id = p_new_owner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new owner must be a member of the group';
+  END IF;
+
+  UPDATE public.reminder_groups
+  SET created_by = p_new_owner_id, updated_at = NOW()
+  WHERE id = p_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Leave a group. The group always keeps an admin and an owner: if the
+-- caller was the last admin, the longest-standing member is promoted, and if
+-- they owned it, the longest-standing admin takes over. The last member out
+-- deletes the group.
+CREATE OR REPLACE FUNCTION public.leave_group(p_group_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_owner UUID;
+  v_successor UUID;
+BEGIN
+  SELECT created_by INTO v_owner
+  FROM public.reminder_groups
+  WHERE id = p_group_id
+  FOR UPDATE;
+
+  DELETE FROM public.group_members
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this group';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.group_members WHERE group_id = p_group_id) THEN
+    DELETE FROM public.reminder_groups WHERE id = p_group_id;
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.group_members WHERE group_id = p_group_id AND role = 'admin'
+  ) THEN
+    UPDATE public.group_members
+    SET role = 'admin'
+    WHERE id = (
+      SELECT id FROM public.group_members
+      WHERE group_id = p_group_id
+      ORDER BY joined_at
+      LIMIT 1
+    );
+  END IF;
+
+  IF v_owner = auth.uid() THEN
+    SELECT user_id INTO v_successor
+    FROM public.group_members
+    WHERE group_id = p_group_id AND role = 'admin'
+    ORDER BY joined_at
+    LIMIT 1;
+
+    UPDATE public.reminder_groups
+    SET created_by = v_successor, updated_at = NOW()
+    WHERE id = p_group_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- ============================================================================
 -- GRANT PERMISSIONS
 -- ============================================================================
 GRANT ALL ON public.reminder_groups TO authenticated;
 GRANT ALL ON public.group_members TO authenticated;
 GRANT ALL ON public.group_reminders TO authenticated;
+GRANT ALL ON public.group_invites TO authenticated;
+
+-- Members' email and name come from their profile; only the role changes
+REVOKE UPDATE ON public.group_members FROM authenticated;
+GRANT UPDATE (role) ON public.group_members TO authenticated;
+
+GRANT EXECUTE ON FUNCTION public.is_group_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_group_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.group_owner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_group_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_group_invite(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_group_by_token(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_group_ownership(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_group(UUID) TO authenticated;
@@ -0,0 +1,76 @@
+-- Migration: Two-way sync of call history and completion prompts
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- CALL HISTORY - Accept every local reminder id
+-- ============================================================================
+-- Calls are also logged for reminders that never reach the reminders table
+-- (panic calls "panic-<ts>", calls from others "external-<id>"), so the
+-- reference becomes a plain id that outlives the reminder.
+ALTER TABLE public.call_history
+DROP CONSTRAINT IF EXISTS call_history_reminder_id_fkey;
+
+ALTER TABLE public.call_history
+ALTER COLUMN reminder_id TYPE TEXT USING reminder_id::TEXT;
+
+-- ============================================================================
+-- COMPLETION PROMPTS - Accept local prompt ids
+-- ============================================================================
+-- Prompt ids are "<call id>-prompt" or "manual-<reminder id>-<ts>", not UUIDs
+ALTER TABLE public.completion_prompts
+DROP CONSTRAINT IF EXISTS completion_prompts_reminder_id_fkey,
+DROP CONSTRAINT IF EXISTS completion_prompts_call_history_id_fkey;
+
+ALTER TABLE public.completion_prompts
+ALTER COLUMN id DROP DEFAULT,
+ALTER COLUMN id TYPE TEXT USING id::TEXT,
+ALTER COLUMN reminder_id TYPE TEXT USING reminder_id::TEXT,
+ALTER COLUMN call_history_id TYPE TEXT USING call_history_id::TEXT;
+
+ALTER TABLE public.completion_prompts
+ALTER COLUMN id SET DEFAULT uuid_generate_v4()::TEXT;
+
+-- ============================================================================
+-- SYNC VERSIONS - Pull cursor and device-side version on both tables
+-- ============================================================================
+ALTER TABLE public.call_history
+ADD COLUMN IF NOT EXISTS client_updated_at BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.completion_prompts
+ADD COLUMN IF NOT EXISTS client_updated_at BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.call_history.client_updated_at IS 'UTC timestamp (ms) of the last change on the device that wrote the row';
+COMMENT ON COLUMN public.call_history.updated_at IS 'Set by trigger on every write; devices pull rows newer than the last one they saw';
+COMMENT ON COLUMN public.completion_prompts.client_updated_at IS 'UTC timestamp (ms) of the last change on the device that wrote the row';
+COMMENT ON COLUMN public.completion_prompts.updated_at IS 'Set by trigger on every write; devices pull rows newer than the last one they saw';
+
+-- Check-ins answered without a call name their occurrence themselves (see utils/occurrences.ts)
+ALTER TABLE public.completion_prompts
+ADD COLUMN IF NOT EXISTS occurrence_at BIGINT DEFAULT NULL;
+
+COMMENT ON COLUMN public.completion_prompts.occurrence_at IS 'UTC timestamp (ms) of the scheduled occurrence the check-in answers, when there is no call to take it from';
+
+-- Stamp inserts too, so a row written late with an old client clock is still pulled
+CREATE OR REPLACE FUNCTION public.set_sync_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS call_history_sync_updated_at ON public.call_history;
+CREATE TRIGGER call_history_sync_updated_at
+  BEFORE INSERT OR UPDATE ON public.call_history
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+DROP TRIGGER IF EXISTS completion_prompts_sync_updated_at ON public.completion_prompts;
+CREATE TRIGGER completion_prompts_sync_updated_at
+  BEFORE INSERT OR UPDATE ON public.completion_prompts
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+-- Incremental pulls: WHERE user_id = ? AND updated_at > ? ORDER BY updated_at
+CREATE INDEX IF NOT EXISTS idx_call_history_user_updated_at ON public.call_history(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_completion_prompts_user_updated_at ON public.completion_prompts(user_id, updated_at);
@@ -0,0 +1,76 @@
+-- Migration: Message library with mood tags and rotation
+-- Run this in your Supabase SQL Editor
+-- Requires migration_history_sync.sql (set_sync_updated_at) and
+-- migration_audio_assets.sql (audio_assets)
+--
+-- Users keep a library of named recordings and text scripts. Reminders and
+-- the panic button list several of them and rotate through them, so the
+-- same message isn't heard every day.
+
+-- ============================================================================
+-- LIBRARY MESSAGES TABLE - Synced two-way like call history
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.library_messages (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('recording', 'text')),
+  audio_asset_id UUID REFERENCES public.audio_assets(id) ON DELETE SET NULL,
+  text TEXT,
+  moods TEXT[] NOT NULL DEFAULT '{}',
+  last_played_at BIGINT,
+  created_at BIGINT NOT NULL,
+  deleted_at BIGINT,
+  client_updated_at BIGINT DEFAULT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN public.library_messages.moods IS 'Free-form mood tags, e.g. gentle, tough love, funny';
+COMMENT ON COLUMN public.library_messages.last_played_at IS 'UTC timestamp (ms) of the last call that played it; drives rotation';
+COMMENT ON COLUMN public.library_messages.deleted_at IS 'Soft delete, so the removal syncs to other devices';
+COMMENT ON COLUMN public.library_messages.client_updated_at IS 'UTC timestamp (ms) of the last change on the device that wrote the row';
+COMMENT ON COLUMN public.library_messages.updated_at IS 'Set by trigger on every write; devices pull rows newer than the last one they saw';
+
+DROP TRIGGER IF EXISTS library_messages_sync_updated_at ON public.library_messages;
+CREATE TRIGGER library_messages_sync_updated_at
+  BEFORE INSERT OR UPDATE ON public.library_messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_sync_updated_at();
+
+-- Incremental pulls: WHERE user_id = ? AND updated_at > ? ORDER BY updated_at
+CREATE INDEX IF NOT EXISTS idx_library_messages_user_updated_at ON public.library_messages(user_id, updated_at);
+
+-- ============================================================================
+-- REMINDERS & PENDING CALLS - Pick a message per occurrence
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS message_ids UUID[] DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS message_rotation TEXT DEFAULT NULL
+  CHECK (message_rotation IS NULL OR message_rotation IN ('random', 'sequential', 'least-recent'));
+
+ALTER TABLE public.pending_calls
+ADD COLUMN IF NOT EXISTS message_text TEXT DEFAULT NULL;
+
+COMMENT ON COLUMN public.reminders.message_ids IS 'Library messages to rotate through, in order; overrides audio_asset_id';
+COMMENT ON COLUMN public.reminders.message_rotation IS 'random, sequential or least-recent (default)';
+COMMENT ON COLUMN public.pending_calls.message_text IS 'Text message chosen from the sender''s library, spoken as written';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY - Libraries are private; calls carry what they need
+-- ============================================================================
+ALTER TABLE public.library_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own library messages" ON public.library_messages;
+CREATE POLICY "Users can view own library messages" ON public.library_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own library messages" ON public.library_messages;
+CREATE POLICY "Users can insert own library messages" ON public.library_messages
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own library messages" ON public.library_messages;
+CREATE POLICY "Users can update own library messages" ON public.library_messages
+  FOR UPDATE USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own library messages" ON public.library_messages;
+CREATE POLICY "Users can delete own library messages" ON public.library_messages
+  FOR DELETE USING (auth.uid() = user_id);
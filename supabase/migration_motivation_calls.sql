@@ -0,0 +1,168 @@
+-- Migration: Motivation calls between accountability partners
+-- Run this in your Supabase SQL Editor
+-- Requires migration_partner_alerts.sql, migration_audio_assets.sql,
+-- migration_message_library.sql and migration_add_time_zones.sql
+--
+-- A partner with can_send_motivation on can ring the other with a spoken
+-- text or a recording. Calls arrive as pending_calls, so they ring like any
+-- reminder from someone else. send_motivation_call() is the only way in: it
+-- checks the partnership, the recipient's quiet hours (in their own time
+-- zone) and how many calls this partner has sent them lately.
+
+-- ============================================================================
+-- PROFILES - The recipient's limits
+-- ============================================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS quiet_hours_start TIME DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS quiet_hours_end TIME DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS motivation_calls_per_day INTEGER NOT NULL DEFAULT 3
+  CHECK (motivation_calls_per_day BETWEEN 0 AND 10);
+
+COMMENT ON COLUMN public.profiles.quiet_hours_start IS 'Start of the daily window with no motivation calls, in the profile''s time_zone; NULL when off';
+COMMENT ON COLUMN public.profiles.quiet_hours_end IS 'End of the quiet window (exclusive); may be earlier than the start to run past midnight';
+COMMENT ON COLUMN public.profiles.motivation_calls_per_day IS 'Motivation calls each partner may send per rolling 24 hours; 0 turns them off';
+
+-- ============================================================================
+-- PENDING CALLS - Tell motivation calls apart from reminders
+-- ============================================================================
+ALTER TABLE public.pending_calls
+ADD COLUMN IF NOT EXISTS call_type TEXT NOT NULL DEFAULT 'reminder'
+  CHECK (call_type IN ('reminder', 'motivation'));
+
+COMMENT ON COLUMN public.pending_calls.call_type IS 'reminder: a shared reminder came due; motivation: a partner called to cheer the recipient on';
+
+CREATE INDEX IF NOT EXISTS idx_pending_calls_motivation
+  ON public.pending_calls(sender_id, recipient_id, created_at DESC)
+  WHERE call_type = 'motivation';
+
+-- Motivation calls only come through send_motivation_call()
+DROP POLICY IF EXISTS "Users can insert pending calls they send" ON public.pending_calls;
+CREATE POLICY "Users can insert pending calls they send" ON public.pending_calls
+  FOR INSERT WITH CHECK (auth.uid() = sender_id AND call_type = 'reminder');
+
+-- ============================================================================
+-- SENDING
+-- ============================================================================
+
+-- Ring the other side of an accepted partnership. Raises with a message
+-- fit to show the sender when the call isn't allowed right now.
+CREATE OR REPLACE FUNCTION public.send_motivation_call(
+  p_partnership_id UUID,
+  p_message_text TEXT DEFAULT NULL,
+  p_audio_asset_id UUID DEFAULT NULL
+)
+RETURNS public.pending_calls
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_partnership public.accountability_partners%ROWTYPE;
+  v_recipient_id UUID;
+  v_sender public.profiles%ROWTYPE;
+  v_recipient public.profiles%ROWTYPE;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_local_time TIME;
+  v_sent_today INTEGER;
+  v_last_sent TIMESTAMPTZ;
+  v_call public.pending_calls%ROWTYPE;
+BEGIN
+  IF NULLIF(trim(p_message_text), '') IS NULL AND p_audio_asset_id IS NULL THEN
+    RAISE EXCEPTION 'Add a message or a recording to send';
+  END IF;
+
+  SELECT * INTO v_partnership
+  FROM public.accountability_partners
+  WHERE id = p_partnership_id
+    AND status = 'accepted'
+    AND auth.uid() IN (user_id, partner_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not partners with this person';
+  END IF;
+
+  IF NOT v_partnership.can_send_motivation THEN
+    RAISE EXCEPTION 'Motivation calls are turned off for this partnership';
+  END IF;
+
+  IF p_audio_asset_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.audio_assets WHERE id = p_audio_asset_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Recording not found';
+  END IF;
+
+  v_recipient_id := CASE
+    WHEN v_partnership.user_id = auth.uid() THEN v_partnership.partner_id
+    ELSE v_partnership.user_id
+  END;
+
+  SELECT * INTO v_sender FROM public.profiles WHERE id = auth.uid();
+  SELECT * INTO v_recipient FROM public.profiles WHERE id = v_recipient_id;
+
+  v_sender_name := COALESCE(v_sender.full_name, split_part(v_sender.email, '@', 1), 'Your partner');
+  v_recipient_name := COALESCE(v_recipient.full_name, split_part(v_recipient.email, '@', 1), 'Your partner');
+
+  -- Quiet hours, read on the recipient's wall clock
+  IF v_recipient.quiet_hours_start IS NOT NULL
+    AND v_recipient.quiet_hours_end IS NOT NULL
+    AND v_recipient.quiet_hours_start <> v_recipient.quiet_hours_end
+  THEN
+    v_local_time := (NOW() AT TIME ZONE COALESCE(v_recipient.time_zone, 'UTC'))::TIME;
+
+    IF (v_recipient.quiet_hours_start < v_recipient.quiet_hours_end
+        AND v_local_time >= v_recipient.quiet_hours_start
+        AND v_local_time < v_recipient.quiet_hours_end)
+      OR (v_recipient.quiet_hours_start > v_recipient.quiet_hours_end
+        AND (v_local_time >= v_recipient.quiet_hours_start
+          OR v_local_time < v_recipient.quiet_hours_end))
+    THEN
+      RAISE EXCEPTION '% is in quiet hours until %',
+        v_recipient_name, to_char(v_recipient.quiet_hours_end, 'HH24:MI');
+    END IF;
+  END IF;
+
+  -- Rate limits: the recipient's daily allowance per partner, and a short gap between calls
+  SELECT COUNT(*), MAX(created_at) INTO v_sent_today, v_last_sent
+  FROM public.pending_calls
+  WHERE sender_id = auth.uid()
+    AND recipient_id = v_recipient_id
+    AND call_type = 'motivation'
+    AND created_at > NOW() - INTERVAL '24 hours';
+
+  IF v_sent_today >= COALESCE(v_recipient.motivation_calls_per_day, 3) THEN
+    RAISE EXCEPTION '% takes at most % motivation % a day from each partner',
+      v_recipient_name,
+      COALESCE(v_recipient.motivation_calls_per_day, 3),
+      CASE WHEN COALESCE(v_recipient.motivation_calls_per_day, 3) = 1 THEN 'call' ELSE 'calls' END;
+  END IF;
+
+  IF v_last_sent > NOW() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'You just called %; try again in a few minutes', v_recipient_name;
+  END IF;
+
+  INSERT INTO public.pending_calls (
+    reminder_id, sender_id, recipient_id, sender_name, sender_email,
+    reminder_title, reminder_why, audio_recording, audio_asset_id, use_custom_audio,
+    message_text, triggered_at, status, call_type
+  )
+  VALUES (
+    NULL, auth.uid(), v_recipient_id, v_sender_name, v_sender.email,
+    'Motivation call', NULL, NULL, p_audio_asset_id, p_audio_asset_id IS NOT NULL,
+    NULLIF(trim(p_message_text), ''), (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT, 'pending', 'motivation'
+  )
+  RETURNING * INTO v_call;
+
+  -- Leaves a note in the inbox in case the call is missed
+  INSERT INTO public.partner_notifications (partnership_id, user_id, partner_id, notification_type, message)
+  VALUES (
+    p_partnership_id, auth.uid(), v_recipient_id, 'motivation_call',
+    COALESCE(left(NULLIF(trim(p_message_text), ''), 140), 'Sent you a voice message')
+  );
+
+  RETURN v_call;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_motivation_call(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.send_motivation_call(UUID, TEXT, UUID) TO authenticated;
@@ -0,0 +1,52 @@
+-- Migration: Missed-reminder alerts for accountability partners
+-- Run this in your Supabase SQL Editor
+-- Requires migration_accountability_partners.sql
+--
+-- Reminders are private unless the user shares them. Missed shared reminders
+-- alert every accepted partner with notify_on_missed on, who see them in a
+-- realtime inbox on the partners page.
+
+-- ============================================================================
+-- REMINDERS - Per-reminder opt-in
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS share_with_partners BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.reminders.share_with_partners IS 'Accountability partners are alerted when this reminder is missed';
+
+-- ============================================================================
+-- PARTNER NOTIFICATIONS - Only between partners, only for shared reminders
+-- ============================================================================
+DROP POLICY IF EXISTS "Users can create notifications" ON public.partner_notifications;
+CREATE POLICY "Users can create notifications" ON public.partner_notifications
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.accountability_partners ap
+      WHERE ap.id = partnership_id
+        AND ap.status = 'accepted'
+        AND (
+          (ap.user_id = auth.uid() AND ap.partner_id = partner_notifications.partner_id)
+          OR (ap.partner_id = auth.uid() AND ap.user_id = partner_notifications.partner_id)
+        )
+        AND (notification_type <> 'missed_reminder' OR ap.notify_on_missed)
+    )
+    AND (
+      notification_type <> 'missed_reminder'
+      OR EXISTS (
+        SELECT 1 FROM public.reminders r
+        WHERE r.id = reminder_id
+          AND r.user_id = auth.uid()
+          AND r.share_with_partners
+      )
+    )
+  );
+
+-- Partners can clear their inbox
+DROP POLICY IF EXISTS "Partners can delete notifications" ON public.partner_notifications;
+CREATE POLICY "Partners can delete notifications" ON public.partner_notifications
+  FOR DELETE USING (auth.uid() = partner_id);
+
+-- Inbox query: WHERE partner_id = ? ORDER BY created_at DESC
+CREATE INDEX IF NOT EXISTS idx_partner_notifications_partner_created
+  ON public.partner_notifications(partner_id, created_at DESC);
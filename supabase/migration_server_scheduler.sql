@@ -0,0 +1,84 @@
+-- Migration: Server-side scheduler for reminders sent to others
+-- Run this in your Supabase SQL Editor, then deploy supabase/functions/reminder-scheduler
+
+-- ============================================================================
+-- UPDATE REMINDERS TABLE - Add scheduler lease
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS claimed_at BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS claimed_by TEXT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS deleted_at BIGINT DEFAULT NULL; -- Tombstones (see migration_sync_versioning.sql)
+
+COMMENT ON COLUMN public.reminders.claimed_at IS 'UTC timestamp (ms) a scheduler worker claimed this reminder for dispatch';
+COMMENT ON COLUMN public.reminders.claimed_by IS 'Id of the worker holding the claim (server function or browser fallback)';
+
+-- Due-reminder scans only look at active reminders for others
+CREATE INDEX IF NOT EXISTS idx_reminders_due_for_others
+  ON public.reminders(next_trigger)
+  WHERE active = true AND is_for_self = false;
+
+-- ============================================================================
+-- UPDATE PENDING CALLS TABLE - One call per reminder occurrence
+-- ============================================================================
+-- triggered_at holds the occurrence time, so a retried dispatch can't duplicate a call
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_calls_reminder_occurrence
+  ON public.pending_calls(reminder_id, triggered_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Claim up to p_limit due reminders for one worker.
+-- FOR UPDATE SKIP LOCKED lets concurrent workers claim disjoint batches;
+-- a claim older than p_lease_ms is treated as abandoned and can be re-claimed.
+-- Runs with the caller's permissions: the browser fallback can only claim its
+-- own reminders, the service role can claim everyone's.
+CREATE OR REPLACE FUNCTION public.claim_due_reminders(
+  p_worker_id TEXT,
+  p_now BIGINT,
+  p_grace_ms BIGINT DEFAULT 0,
+  p_lease_ms BIGINT DEFAULT 60000,
+  p_limit INTEGER DEFAULT 50,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.reminders AS $$
+  UPDATE public.reminders r
+  SET claimed_at = p_now,
+      claimed_by = p_worker_id
+  WHERE r.id IN (
+    SELECT id
+    FROM public.reminders
+    WHERE active = true
+      AND deleted_at IS NULL
+      AND is_for_self = false
+      AND recipient_id IS NOT NULL
+      AND next_trigger <= p_now - p_grace_ms
+      AND (claimed_at IS NULL OR claimed_at < p_now - p_lease_ms)
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    ORDER BY next_trigger
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING r.*;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION public.claim_due_reminders(TEXT, BIGINT, BIGINT, BIGINT, INTEGER, UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- SCHEDULE (optional) - Run the scheduler every minute with pg_cron + pg_net
+-- ============================================================================
+-- Replace <project-ref> and <scheduler-secret> (the SCHEDULER_SECRET set on the function).
+--
+-- CREATE EXTENSION IF NOT EXISTS pg_cron;
+-- CREATE EXTENSION IF NOT EXISTS pg_net;
+--
+-- SELECT cron.schedule(
+--   'reminder-scheduler',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/reminder-scheduler',
+--     headers := jsonb_build_object('Authorization', 'Bearer <scheduler-secret>')
+--   );
+--   $$
+-- );
@@ -0,0 +1,16 @@
+-- Migration: Field-level sync versioning and deletion tombstones for reminders
+-- Run this in your Supabase SQL Editor
+
+-- ============================================================================
+-- UPDATE REMINDERS TABLE - Add per-field versions and tombstones
+-- ============================================================================
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS field_versions JSONB DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS deleted_at BIGINT DEFAULT NULL;
+
+COMMENT ON COLUMN public.reminders.field_versions IS 'UTC timestamp (ms) each synced field last changed, e.g. {"title": 1718000000000}; NULL = every field as of updated_at';
+COMMENT ON COLUMN public.reminders.deleted_at IS 'UTC timestamp (ms) the reminder was deleted; the row is kept so other devices sync the deletion';
+
+-- Live reminders are what every query except sync looks at
+CREATE INDEX IF NOT EXISTS idx_reminders_live ON public.reminders(user_id)
+WHERE deleted_at IS NULL;
@@ -0,0 +1,125 @@
+-- Migration: Web Push delivery of incoming calls
+-- Run this in your Supabase SQL Editor, then deploy supabase/functions/push-sender
+-- and supabase/functions/push-action
+
+-- ============================================================================
+-- PUSH SUBSCRIPTIONS TABLE - One row per device/browser
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own devices
+CREATE POLICY "Users can view own push subscriptions" ON public.push_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own push subscriptions" ON public.push_subscriptions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions" ON public.push_subscriptions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions" ON public.push_subscriptions
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- ============================================================================
+-- UPDATE PENDING CALLS & REMINDERS - Track what has been pushed
+-- ============================================================================
+ALTER TABLE public.pending_calls
+ADD COLUMN IF NOT EXISTS pushed_at BIGINT DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS snoozed_until BIGINT DEFAULT NULL;
+
+COMMENT ON COLUMN public.pending_calls.pushed_at IS 'UTC timestamp (ms) the call was last pushed to the recipient''s devices';
+COMMENT ON COLUMN public.pending_calls.snoozed_until IS 'UTC timestamp (ms) to push the call again after a snooze from the notification';
+
+ALTER TABLE public.reminders
+ADD COLUMN IF NOT EXISTS pushed_trigger BIGINT DEFAULT NULL;
+
+-- Due self reminders the push sender scans each run
+CREATE INDEX IF NOT EXISTS idx_reminders_self_due ON public.reminders(next_trigger)
+  WHERE active = true AND is_for_self = true;
+
+COMMENT ON COLUMN public.reminders.pushed_trigger IS 'Occurrence (UTC ms) that was last pushed, so each occurrence is pushed once';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Claim pending calls that need a push: new calls, and snoozed calls whose snooze ended.
+-- Setting pushed_at in the same statement makes concurrent senders skip each other's rows.
+CREATE OR REPLACE FUNCTION public.claim_pending_call_pushes(
+  p_now BIGINT,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS SETOF public.pending_calls AS $$
+  UPDATE public.pending_calls c
+  SET pushed_at = p_now
+  WHERE c.id IN (
+    SELECT id
+    FROM public.pending_calls
+    WHERE status = 'pending'
+      AND (
+        pushed_at IS NULL
+        OR (snoozed_until IS NOT NULL AND snoozed_until <= p_now AND pushed_at < snoozed_until)
+      )
+    ORDER BY triggered_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Claim one occurrence of a self reminder for pushing. The push sender works out the
+-- occurrence from the reminder's recurrence, since with the app closed next_trigger
+-- stays on the first one it missed. Returns false if it (or a later one) was already pushed.
+DROP FUNCTION IF EXISTS public.claim_reminder_pushes(BIGINT, BIGINT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_reminder_push(
+  p_reminder_id UUID,
+  p_occurrence BIGINT
+)
+RETURNS BOOLEAN AS $$
+  WITH claimed AS (
+    UPDATE public.reminders
+    SET pushed_trigger = p_occurrence
+    WHERE id = p_reminder_id
+      AND (pushed_trigger IS NULL OR pushed_trigger < p_occurrence)
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$ LANGUAGE sql SECURITY INVOKER;
+
+-- Only the push sender (service role) claims pushes
+REVOKE EXECUTE ON FUNCTION public.claim_pending_call_pushes(BIGINT, INTEGER) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.claim_reminder_push(UUID, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_pending_call_pushes(BIGINT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_reminder_push(UUID, BIGINT) TO service_role;
+
+-- ============================================================================
+-- SCHEDULE (optional) - Send due pushes every minute with pg_cron + pg_net
+-- ============================================================================
+-- The reminder-scheduler function also sends pushes after each run, so this is
+-- only needed if you don't schedule that function.
+--
+-- SELECT cron.schedule(
+--   'push-sender',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/push-sender',
+--     headers := jsonb_build_object('Authorization', 'Bearer <scheduler-secret>')
+--   );
+--   $$
+-- );